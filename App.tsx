@@ -1,6 +1,6 @@
 
-import React from 'react';
-import { Play, Save, Undo, Redo, X, Box, Variable, Users, Package, Search, Gauge, ShoppingCart, Download } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Play, Save, Undo, Redo, X, Box, Variable, Users, Package, Search, Gauge, ShoppingCart, Download, AlertTriangle, Flag, Languages, FolderOpen, XCircle, CheckCircle } from 'lucide-react';
 import { useEditorStore } from './store/useEditorStore';
 import { useRuntimeStore } from './store/useRuntimeStore';
 
@@ -9,8 +9,11 @@ import Sidebar from './components/Sidebar';
 import Inspector from './components/Inspector';
 import Canvas from './components/Canvas';
 import GameOverlay from './components/GameOverlay';
-import { CharacterEditor, ItemEditor, ClueEditor, AttributeEditor, ShopEditor } from './components/AssetEditors';
+import ProblemsPanel from './components/ProblemsPanel';
+import { CharacterEditor, ItemEditor, ClueEditor, AttributeEditor, ShopEditor, QuestEditor, LocalizationEditor } from './components/AssetEditors';
 import { TabType } from './types';
+import { validateStory } from './engine/StoryValidator';
+import { importStory, StoryImportResult, STORY_FORMAT_VERSION } from './engine/StoryImporter';
 
 // Helper to get icon for tab
 const getTabIcon = (type: TabType) => {
@@ -21,18 +24,24 @@ const getTabIcon = (type: TabType) => {
         case 'item': return <Package className="w-3 h-3 text-amber-400" />;
         case 'clue': return <Search className="w-3 h-3 text-blue-400" />;
         case 'shop': return <ShoppingCart className="w-3 h-3 text-emerald-400" />;
+        case 'quest': return <Flag className="w-3 h-3 text-lime-400" />;
+        case 'localization': return <Languages className="w-3 h-3 text-cyan-400" />;
         default: return <Box className="w-3 h-3" />;
     }
 };
 
 function App() {
-  const { story, undo, redo, canUndo, canRedo, tabs, activeTabId, setActiveTab, closeTab } = useEditorStore();
+  const { story, undo, redo, canUndo, canRedo, tabs, activeTabId, setActiveTab, closeTab, openStory } = useEditorStore();
   const { setIsRunning } = useRuntimeStore();
+  const [showProblems, setShowProblems] = useState(false);
+  const [importReport, setImportReport] = useState<(StoryImportResult & { fileName: string }) | null>(null);
+  const diagnostics = useMemo(() => validateStory(story), [story]);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
 
   const activeTab = tabs.find(t => t.id === activeTabId);
 
   const exportStory = () => {
-    const payload = JSON.stringify(story, null, 2);
+    const payload = JSON.stringify({ ...story, formatVersion: STORY_FORMAT_VERSION }, null, 2);
 
     // Download as JSON file
     const blob = new Blob([payload], { type: 'application/json' });
@@ -49,6 +58,13 @@ function App() {
     }
   };
 
+  // 打开剧本：旧版导出先迁移，再按 schema 校验，有错误时不替换当前剧本
+  const openStoryFile = async (file: File) => {
+    const result = importStory(await file.text());
+    if (result.story) openStory(result.story);
+    setImportReport({ ...result, fileName: file.name });
+  };
+
   const renderContent = () => {
       if (!activeTab) return <div className="flex-1 bg-[#121212]" />;
 
@@ -59,6 +75,8 @@ function App() {
           case 'item': return <ItemEditor id={activeTab.dataId} />;
           case 'clue': return <ClueEditor id={activeTab.dataId} />;
           case 'shop': return <ShopEditor id={activeTab.dataId} />;
+          case 'quest': return <QuestEditor id={activeTab.dataId} />;
+          case 'localization': return <LocalizationEditor />;
           default: return <Canvas />;
       }
   };
@@ -125,12 +143,36 @@ function App() {
                   <Redo className="w-4 h-4" />
                 </button>
              </div>
+            <button
+              onClick={() => setShowProblems(!showProblems)}
+              className={`flex items-center gap-1.5 text-xs px-2 py-1.5 rounded transition-colors ${showProblems ? 'bg-zinc-800 text-zinc-200' : 'hover:bg-zinc-800 text-zinc-400'}`}
+              title="剧本检查 (Problems)"
+            >
+              <AlertTriangle className={`w-3 h-3 ${errorCount > 0 ? 'text-red-400' : diagnostics.length > 0 ? 'text-amber-400' : 'text-zinc-500'}`} />
+              {diagnostics.length}
+            </button>
             <button 
               onClick={() => setIsRunning(true)}
               className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-xs px-3 py-1.5 rounded transition-colors font-semibold shadow-sm shadow-indigo-900/20"
             >
               <Play className="w-3 h-3 fill-current" /> 运行
             </button>
+            <label
+              className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-xs px-3 py-1.5 rounded transition-colors font-semibold text-zinc-200 cursor-pointer"
+              title="从 JSON 文件打开剧本（旧版导出会自动迁移）"
+            >
+              <FolderOpen className="w-3 h-3" /> 打开剧本
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openStoryFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
             <button
               onClick={exportStory}
               className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-xs px-3 py-1.5 rounded transition-colors font-semibold text-zinc-200"
@@ -141,10 +183,46 @@ function App() {
           </div>
         </div>
 
+        {/* Import Report */}
+        {importReport && (
+          <div className="absolute top-12 right-4 z-40 w-96 max-h-80 flex flex-col bg-[#09090b] border border-zinc-700 rounded-lg shadow-xl text-xs">
+            <div className="px-3 py-2 flex items-center gap-2 border-b border-zinc-800">
+              {importReport.story
+                ? <CheckCircle className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+                : <XCircle className="w-3.5 h-3.5 text-red-400 shrink-0" />}
+              <span className="flex-1 truncate font-semibold text-zinc-200">
+                {importReport.story ? `已打开 ${importReport.fileName}` : `无法打开 ${importReport.fileName}`}
+                {importReport.story && importReport.fromVersion !== null && importReport.fromVersion < STORY_FORMAT_VERSION && (
+                  <span className="font-normal text-zinc-500"> · 已从 v{importReport.fromVersion} 迁移</span>
+                )}
+              </span>
+              <button onClick={() => setImportReport(null)} className="p-0.5 rounded hover:bg-zinc-800 text-zinc-500 hover:text-zinc-300">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="overflow-y-auto py-1">
+              {importReport.errors.map((error, i) => (
+                <div key={`error_${i}`} className="px-3 py-1 flex gap-2">
+                  <span className="font-mono text-red-300 break-all">{error.path}</span>
+                  <span className="text-zinc-400 shrink-0">{error.message}</span>
+                </div>
+              ))}
+              {importReport.notes.map((note, i) => (
+                <div key={`note_${i}`} className="px-3 py-1 text-zinc-400">{note}</div>
+              ))}
+              {importReport.story && importReport.notes.length === 0 && (
+                <div className="px-3 py-1 text-zinc-600 italic">无需迁移</div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* MAIN CONTENT AREA */}
         <div className="flex-1 relative overflow-hidden flex flex-col bg-[#121212]">
             {renderContent()}
         </div>
+
+        {showProblems && <ProblemsPanel diagnostics={diagnostics} onClose={() => setShowProblems(false)} />}
       </div>
 
       {/* Inspector is only visible when Canvas is active */}
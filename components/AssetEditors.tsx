@@ -1,7 +1,9 @@
 
 import React from 'react';
 import { useEditorStore } from '../store/useEditorStore';
-import { Variable, Users, Package, Search, Trash2, Plus, Image as ImageIcon, Gauge, Zap, ShoppingCart } from 'lucide-react';
+import { Variable, Users, Package, Search, Trash2, Plus, Image as ImageIcon, Gauge, Zap, ShoppingCart, Flag, Smile, Languages, FileDown, FileUp } from 'lucide-react';
+import { CharacterExpression, QuestObjective, QuestStage } from '../types';
+import { DEFAULT_SOURCE_LOCALE, collectStrings, exportCsv, exportXliff, getTranslationReport, importTranslations } from '../engine/Localization';
 
 export const AttributeEditor: React.FC = () => {
     const { story, addAttribute, updateAttribute, removeAttribute } = useEditorStore();
@@ -67,6 +69,15 @@ export const AttributeEditor: React.FC = () => {
                                             <option value="boolean">Boolean (布尔)</option>
                                             <option value="string">String (文本)</option>
                                         </select>
+                                        <select 
+                                            className="mt-2 bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-purple-500 w-full"
+                                            value={attr.scope || 'global'}
+                                            onChange={(e) => updateAttribute(attr.id, { scope: e.target.value as any })}
+                                            title="角色属性由每个角色各自持有"
+                                        >
+                                            <option value="global">Global (全局)</option>
+                                            <option value="character">Per Character (角色)</option>
+                                        </select>
                                     </td>
                                     <td className="px-6 py-4 align-top pt-5">
                                         <div className="flex items-center gap-2">
@@ -143,6 +154,7 @@ export const AttributeEditor: React.FC = () => {
 export const CharacterEditor: React.FC<{ id?: string }> = ({ id }) => {
     const { story, updateCharacter } = useEditorStore();
     const character = story.characters.find(c => c.id === id);
+    const characterStats = story.attributes.filter(a => a.scope === 'character');
 
     if (!character) return <div className="p-8 text-zinc-500">Character not found.</div>;
 
@@ -197,6 +209,103 @@ export const CharacterEditor: React.FC<{ id?: string }> = ({ id }) => {
                             />
                         </div>
                     </section>
+
+                    <section className="space-y-4">
+                        <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2 border-b border-zinc-800 pb-2">
+                            <Smile className="w-4 h-4" /> 立绘表情 (Expressions)
+                        </h2>
+                        <p className="text-xs text-zinc-500">第一项为默认表情；对话节点的“表情”与 SET_EXPRESSION 动作按名称引用。</p>
+                        <div className="grid grid-cols-4 gap-3">
+                            {(character.expressions || []).map((expr, idx) => {
+                                const setExpression = (patch: Partial<CharacterExpression>) => {
+                                    const next = [...(character.expressions || [])];
+                                    next[idx] = { ...expr, ...patch };
+                                    updateCharacter(character.id, { expressions: next });
+                                };
+                                return (
+                                    <div key={idx} className="bg-zinc-900 border border-zinc-800 rounded-lg p-2 space-y-2 group relative">
+                                        <div className="aspect-[3/4] bg-zinc-950 rounded overflow-hidden flex items-center justify-center">
+                                            {expr.imageUrl
+                                                ? <img src={expr.imageUrl} className="h-full object-contain" />
+                                                : <ImageIcon className="w-6 h-6 text-zinc-700" />}
+                                        </div>
+                                        <input
+                                            className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:border-rose-500 focus:outline-none"
+                                            value={expr.name}
+                                            placeholder="neutral"
+                                            onChange={(e) => setExpression({ name: e.target.value })}
+                                        />
+                                        <input
+                                            className="w-full bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-[10px] text-zinc-400 font-mono focus:border-rose-500 focus:outline-none"
+                                            value={expr.imageUrl}
+                                            placeholder="立绘地址"
+                                            onChange={(e) => setExpression({ imageUrl: e.target.value })}
+                                        />
+                                        <button
+                                            onClick={() => updateCharacter(character.id, { expressions: character.expressions?.filter((_, i) => i !== idx) })}
+                                            className="absolute top-3 right-3 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button
+                            onClick={() => updateCharacter(character.id, {
+                                expressions: [...(character.expressions || []), { name: character.expressions?.length ? '' : 'neutral', imageUrl: '' }]
+                            })}
+                            className="text-xs text-rose-400 hover:text-rose-300 flex items-center gap-1"
+                        >
+                            <Plus className="w-3 h-3" /> 添加表情
+                        </button>
+                    </section>
+
+                    {characterStats.length > 0 && (
+                        <section className="space-y-4">
+                            <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2 border-b border-zinc-800 pb-2">
+                                <Gauge className="w-4 h-4" /> 角色属性初始值
+                            </h2>
+                            <div className="grid grid-cols-2 gap-4">
+                                {characterStats.map(attr => {
+                                    const override = character.attributeDefaults?.[attr.id];
+                                    const setOverride = (value: any) => {
+                                        const next = { ...(character.attributeDefaults || {}) };
+                                        if (value === undefined) delete next[attr.id];
+                                        else next[attr.id] = value;
+                                        updateCharacter(character.id, { attributeDefaults: next });
+                                    };
+                                    return (
+                                        <div key={attr.id} className="space-y-2">
+                                            <label className="text-xs text-zinc-400">{attr.name} <span className="font-mono text-zinc-600">({attr.key})</span></label>
+                                            {attr.type === 'boolean' ? (
+                                                <select
+                                                    className="w-full bg-zinc-900 border border-zinc-700 rounded p-2.5 text-zinc-200 focus:border-rose-500 focus:outline-none"
+                                                    value={override === undefined ? '' : String(override)}
+                                                    onChange={(e) => setOverride(e.target.value === '' ? undefined : e.target.value === 'true')}
+                                                >
+                                                    <option value="">默认 ({String(attr.defaultValue)})</option>
+                                                    <option value="true">true</option>
+                                                    <option value="false">false</option>
+                                                </select>
+                                            ) : (
+                                                <input
+                                                    type={attr.type === 'number' ? 'number' : 'text'}
+                                                    className="w-full bg-zinc-900 border border-zinc-700 rounded p-2.5 text-zinc-200 font-mono focus:border-rose-500 focus:outline-none"
+                                                    value={override ?? ''}
+                                                    placeholder={`默认 ${attr.defaultValue}`}
+                                                    onChange={(e) => {
+                                                        if (e.target.value === '') return setOverride(undefined);
+                                                        setOverride(attr.type === 'number' ? parseFloat(e.target.value) : e.target.value);
+                                                    }}
+                                                />
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+                    )}
                 </div>
              </div>
         </div>
@@ -436,6 +545,18 @@ export const ShopEditor: React.FC<{ id?: string }> = ({ id }) => {
                                     onChange={(e) => updateShop(shop.id, { description: e.target.value })}
                                 />
                             </div>
+                            <div>
+                                <label className="text-xs text-zinc-400 block mb-1">回收比例 (Sell-back Ratio)</label>
+                                <input 
+                                    type="number"
+                                    step="0.1"
+                                    min="0"
+                                    className="w-24 bg-zinc-900 border border-zinc-700 rounded p-2 text-sm text-zinc-300 focus:border-emerald-500 focus:outline-none"
+                                    value={shop.sellRatio ?? 0.5}
+                                    onChange={(e) => updateShop(shop.id, { sellRatio: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                />
+                                <span className="text-[10px] text-zinc-600 ml-2">玩家出售价 = 售价 × 比例，0 表示不回收</span>
+                            </div>
                         </div>
                     </section>
 
@@ -514,6 +635,24 @@ export const ShopEditor: React.FC<{ id?: string }> = ({ id }) => {
                                             ))}
                                         </select>
                                     </div>
+
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-xs text-zinc-500">Stock:</span>
+                                        <input 
+                                            type="number"
+                                            min="0"
+                                            className="w-20 bg-zinc-950 border border-zinc-700 rounded p-1.5 text-xs text-zinc-300 focus:outline-none"
+                                            value={item.stock ?? ''}
+                                            placeholder="∞"
+                                            onChange={(e) => {
+                                                const newInv = [...inventory];
+                                                const { stock, ...rest } = item;
+                                                newInv[idx] = e.target.value === '' ? rest : { ...rest, stock: Math.max(0, parseInt(e.target.value) || 0) };
+                                                updateShop(shop.id, { inventory: newInv });
+                                            }}
+                                        />
+                                        <span className="text-[10px] text-zinc-600">留空为无限</span>
+                                    </div>
                                 </div>
                             ))}
                             {inventory.length === 0 && (
@@ -527,6 +666,151 @@ export const ShopEditor: React.FC<{ id?: string }> = ({ id }) => {
     );
 };
 
+export const QuestEditor: React.FC<{ id?: string }> = ({ id }) => {
+    const { story, updateQuest } = useEditorStore();
+    const quest = story.quests?.find(q => q.id === id);
+
+    if (!quest) return <div className="p-8 text-zinc-500">Quest not found.</div>;
+
+    const stages = quest.stages || [];
+
+    const updateStage = (idx: number, data: Partial<QuestStage>) => {
+        const newStages = [...stages];
+        newStages[idx] = { ...stages[idx], ...data };
+        updateQuest(quest.id, { stages: newStages });
+    };
+
+    const updateObjective = (stageIdx: number, objIdx: number, data: Partial<QuestObjective>) => {
+        const objectives = [...stages[stageIdx].objectives];
+        objectives[objIdx] = { ...objectives[objIdx], ...data };
+        updateStage(stageIdx, { objectives });
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#121212] p-8 overflow-y-auto">
+             <div className="max-w-4xl mx-auto w-full">
+                <div className="flex items-center gap-4 mb-8 pb-4 border-b border-zinc-800">
+                    <div className="w-16 h-16 bg-lime-900/20 rounded-lg border border-lime-500/30 flex items-center justify-center">
+                        <Flag className="w-8 h-8 text-lime-500" />
+                    </div>
+                    <div>
+                        <h1 className="text-2xl font-bold text-zinc-100">{quest.name}</h1>
+                        <span className="text-xs font-mono text-zinc-600 bg-zinc-900 px-1.5 py-0.5 rounded">QUEST: {quest.id}</span>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                    {/* Basic Info */}
+                    <section className="space-y-4">
+                        <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-wider">任务信息</h2>
+                        <div className="space-y-3">
+                            <div>
+                                <label className="text-xs text-zinc-400 block mb-1">名称</label>
+                                <input 
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded p-2 text-zinc-200 focus:border-lime-500 focus:outline-none"
+                                    value={quest.name}
+                                    onChange={(e) => updateQuest(quest.id, { name: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-zinc-400 block mb-1">描述 (日志中显示)</label>
+                                <textarea 
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded p-2 text-sm text-zinc-300 focus:border-lime-500 focus:outline-none min-h-[80px]"
+                                    value={quest.description}
+                                    onChange={(e) => updateQuest(quest.id, { description: e.target.value })}
+                                />
+                            </div>
+                            <p className="text-[10px] text-zinc-600">
+                                阶段按顺序推进：当前阶段的必需目标全部完成后进入下一阶段，最后一个阶段完成即任务完成。
+                            </p>
+                        </div>
+                    </section>
+
+                    {/* Stages */}
+                    <section className="space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+                                <Flag className="w-4 h-4 text-lime-500" /> 阶段与目标 (Stages)
+                            </h2>
+                            <button 
+                                onClick={() => {
+                                    const stamp = Date.now();
+                                    updateQuest(quest.id, {
+                                        stages: [...stages, { id: `stage_${stamp}`, name: `阶段 ${stages.length + 1}`, objectives: [] }]
+                                    });
+                                }}
+                                className="text-xs text-lime-500 hover:text-lime-400 flex items-center gap-1"
+                            >
+                                <Plus className="w-3 h-3" /> 添加阶段
+                            </button>
+                        </div>
+
+                        <div className="space-y-3">
+                            {stages.map((stage, stageIdx) => (
+                                <div key={stage.id} className="bg-zinc-900 border border-zinc-800 rounded p-3 flex flex-col gap-2">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-mono text-zinc-600 w-4">{stageIdx + 1}</span>
+                                        <input 
+                                            className="flex-1 bg-zinc-950 border border-zinc-700 rounded p-1.5 text-xs text-zinc-200 focus:outline-none"
+                                            value={stage.name}
+                                            onChange={(e) => updateStage(stageIdx, { name: e.target.value })}
+                                        />
+                                        <button 
+                                            onClick={() => updateQuest(quest.id, { stages: stages.filter((_, i) => i !== stageIdx) })}
+                                            className="text-zinc-600 hover:text-red-400"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+
+                                    <div className="pl-6 space-y-1.5">
+                                        {stage.objectives.map((obj, objIdx) => (
+                                            <div key={obj.id} className="flex items-center gap-2">
+                                                <input 
+                                                    className="flex-1 bg-zinc-950 border border-zinc-700 rounded p-1.5 text-xs text-zinc-300 focus:outline-none"
+                                                    value={obj.description}
+                                                    onChange={(e) => updateObjective(stageIdx, objIdx, { description: e.target.value })}
+                                                    placeholder="目标描述..."
+                                                />
+                                                <label className="flex items-center gap-1 text-[10px] text-zinc-500 shrink-0" title="可选目标不影响阶段推进">
+                                                    <input 
+                                                        type="checkbox"
+                                                        checked={!!obj.optional}
+                                                        onChange={(e) => updateObjective(stageIdx, objIdx, { optional: e.target.checked || undefined })}
+                                                    />
+                                                    可选
+                                                </label>
+                                                <span className="text-[10px] font-mono text-zinc-600 shrink-0">{obj.id}</span>
+                                                <button 
+                                                    onClick={() => updateStage(stageIdx, { objectives: stage.objectives.filter((_, i) => i !== objIdx) })}
+                                                    className="text-zinc-600 hover:text-red-400"
+                                                >
+                                                    <Trash2 className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <button 
+                                            onClick={() => updateStage(stageIdx, {
+                                                objectives: [...stage.objectives, { id: `obj_${Date.now()}`, description: '新目标' }]
+                                            })}
+                                            className="text-[10px] text-lime-500 hover:text-lime-400 flex items-center gap-1"
+                                        >
+                                            <Plus className="w-3 h-3" /> 添加目标
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            {stages.length === 0 && (
+                                <div className="text-center text-xs text-zinc-600 py-4 border border-dashed border-zinc-800 rounded">暂无阶段</div>
+                            )}
+                        </div>
+                    </section>
+                </div>
+             </div>
+        </div>
+    );
+};
+
 export const ClueEditor: React.FC<{ id?: string }> = ({ id }) => {
     const { story, updateClue } = useEditorStore();
     const clue = story.clues.find(c => c.id === id);
@@ -615,3 +899,197 @@ export const ClueEditor: React.FC<{ id?: string }> = ({ id }) => {
         </div>
     );
 };
+
+const downloadText = (fileName: string, content: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const LocalizationEditor: React.FC = () => {
+    const { story, updateLocalization, setTranslation } = useEditorStore();
+    const localization = story.localization;
+    const [newLocale, setNewLocale] = React.useState('');
+    const [activeLocale, setActiveLocale] = React.useState(localization?.locales[0] || '');
+    const [onlyMissing, setOnlyMissing] = React.useState(false);
+    const [importStatus, setImportStatus] = React.useState<string | null>(null);
+
+    const strings = React.useMemo(() => collectStrings(story), [story]);
+    const reports = React.useMemo(() => getTranslationReport(story), [story]);
+    const locale = localization?.locales.includes(activeLocale) ? activeLocale : localization?.locales[0] || '';
+    const table = (locale && localization?.tables[locale]) || {};
+    const rows = onlyMissing ? strings.filter(s => !table[s.key]) : strings;
+
+    const addLocale = () => {
+        const code = newLocale.trim();
+        if (!code) return;
+        const locales = localization?.locales || [];
+        if (!locales.includes(code) && code !== localization?.sourceLocale) {
+            updateLocalization({ locales: [...locales, code], tables: { ...localization?.tables, [code]: localization?.tables[code] || {} } });
+        }
+        setActiveLocale(code);
+        setNewLocale('');
+    };
+
+    const removeLocale = (code: string) => {
+        if (!localization) return;
+        const { [code]: _removed, ...tables } = localization.tables;
+        updateLocalization({ locales: localization.locales.filter(l => l !== code), tables });
+    };
+
+    const exportTable = (format: 'csv' | 'xliff') => {
+        const name = `${story.title || 'story'}.${locale}${onlyMissing ? '.missing' : ''}`;
+        if (format === 'csv') {
+            // BOM 让表格软件按 UTF-8 打开
+            downloadText(`${name}.csv`, '\uFEFF' + exportCsv(story, locale, { onlyMissing }), 'text/csv');
+        } else {
+            downloadText(`${name}.xlf`, exportXliff(story, locale, { onlyMissing }), 'application/xliff+xml');
+        }
+    };
+
+    const importFile = async (file: File) => {
+        const format = /\.(xlf|xliff|xml)$/i.test(file.name) ? 'xliff' : 'csv';
+        const result = importTranslations(story, await file.text(), format);
+        if (!result) {
+            setImportStatus(`无法导入 ${file.name}（格式或语言不正确）`);
+            return;
+        }
+        updateLocalization(result.story.localization!);
+        setActiveLocale(result.locale);
+        setImportStatus(`已导入 ${result.imported} 条 ${result.locale} 译文${result.unknownKeys.length ? `，忽略 ${result.unknownKeys.length} 个未知 key` : ''}`);
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#121212] p-8 overflow-y-auto">
+            <div className="max-w-5xl mx-auto w-full">
+                <div className="flex justify-between items-center mb-6">
+                    <div>
+                        <h1 className="text-2xl font-bold text-zinc-100 flex items-center gap-2">
+                            <Languages className="w-6 h-6 text-cyan-500" />
+                            本地化 (Localization)
+                        </h1>
+                        <p className="text-zinc-500 text-sm mt-1">对话、选项、投票、物品、线索与商店文本的多语言字符串表。缺失的译文在游戏中回退原文。</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <label className="text-xs text-zinc-500">原文语言</label>
+                        <input
+                            className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-cyan-500 w-24 font-mono"
+                            value={localization?.sourceLocale || DEFAULT_SOURCE_LOCALE}
+                            onChange={(e) => updateLocalization({ sourceLocale: e.target.value })}
+                        />
+                    </div>
+                </div>
+
+                {/* Locales & missing translation report */}
+                <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 mb-6 space-y-3">
+                    {reports.map(report => {
+                        const percent = report.total ? Math.round((report.translated / report.total) * 100) : 100;
+                        return (
+                            <div
+                                key={report.locale}
+                                onClick={() => setActiveLocale(report.locale)}
+                                className={`flex items-center gap-3 p-2 rounded cursor-pointer ${report.locale === locale ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'}`}
+                            >
+                                <span className="font-mono text-xs text-cyan-400 w-16">{report.locale}</span>
+                                <div className="flex-1 h-1.5 bg-zinc-800 rounded overflow-hidden">
+                                    <div className="h-full bg-cyan-500" style={{ width: `${percent}%` }} />
+                                </div>
+                                <span className="text-xs text-zinc-400 w-24 text-right">{report.translated}/{report.total} ({percent}%)</span>
+                                <span className={`text-xs w-20 text-right ${report.missing.length ? 'text-amber-400' : 'text-zinc-600'}`}>缺失 {report.missing.length}</span>
+                                <span className="text-xs w-20 text-right text-zinc-600" title="字符串表中已找不到原文的条目">失效 {report.unused.length}</span>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); removeLocale(report.locale); }}
+                                    className="text-zinc-600 hover:text-red-400 p-1"
+                                    title="删除该语言"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                    <div className="flex items-center gap-2">
+                        <input
+                            className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-cyan-500 w-32 font-mono"
+                            value={newLocale}
+                            placeholder="e.g. en, ja"
+                            onChange={(e) => setNewLocale(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && addLocale()}
+                        />
+                        <button onClick={addLocale} className="bg-cyan-700 hover:bg-cyan-600 text-white px-3 py-1.5 rounded flex items-center gap-1 text-xs font-semibold">
+                            <Plus className="w-3 h-3" /> 添加语言
+                        </button>
+                    </div>
+                </div>
+
+                {locale && (
+                    <>
+                        <div className="flex items-center gap-2 mb-3 text-xs">
+                            <label className="flex items-center gap-2 text-zinc-400 mr-auto">
+                                <input type="checkbox" checked={onlyMissing} onChange={(e) => setOnlyMissing(e.target.checked)} />
+                                仅显示 / 导出缺失翻译
+                            </label>
+                            <button onClick={() => exportTable('csv')} className="bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded flex items-center gap-1">
+                                <FileDown className="w-3 h-3" /> 导出 CSV
+                            </button>
+                            <button onClick={() => exportTable('xliff')} className="bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded flex items-center gap-1">
+                                <FileDown className="w-3 h-3" /> 导出 XLIFF
+                            </button>
+                            <label className="bg-zinc-800 hover:bg-zinc-700 text-zinc-200 px-3 py-1.5 rounded flex items-center gap-1 cursor-pointer">
+                                <FileUp className="w-3 h-3" /> 导入译文
+                                <input
+                                    type="file"
+                                    accept=".csv,.xlf,.xliff,.xml"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) importFile(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        </div>
+                        {importStatus && <div className="text-xs text-cyan-300 mb-3">{importStatus}</div>}
+
+                        <div className="bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden">
+                            <table className="w-full text-left text-sm text-zinc-400">
+                                <thead className="bg-zinc-800/80 text-zinc-500 uppercase font-mono text-xs">
+                                    <tr>
+                                        <th className="px-4 py-3 font-semibold w-1/4">Context</th>
+                                        <th className="px-4 py-3 font-semibold w-1/3">{localization?.sourceLocale}</th>
+                                        <th className="px-4 py-3 font-semibold">{locale}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-zinc-800/50">
+                                    {rows.map(entry => (
+                                        <tr key={entry.key} className="align-top">
+                                            <td className="px-4 py-2">
+                                                <div className="text-xs text-zinc-300">{entry.context}</div>
+                                                <div className="text-[10px] font-mono text-zinc-600 break-all">{entry.key}</div>
+                                            </td>
+                                            <td className="px-4 py-2 text-xs text-zinc-300 whitespace-pre-wrap">{entry.source}</td>
+                                            <td className="px-4 py-2">
+                                                <textarea
+                                                    className={`w-full bg-zinc-950 border rounded p-2 text-xs text-zinc-200 focus:outline-none focus:border-cyan-500 min-h-[36px] ${table[entry.key] ? 'border-zinc-700' : 'border-amber-700/60'}`}
+                                                    value={table[entry.key] || ''}
+                                                    placeholder="缺失翻译"
+                                                    onChange={(e) => setTranslation(locale, entry.key, e.target.value)}
+                                                />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {rows.length === 0 && (
+                                        <tr><td colSpan={3} className="px-4 py-6 text-center text-xs text-zinc-600 italic">没有需要翻译的条目</td></tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
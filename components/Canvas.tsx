@@ -1,7 +1,7 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { MousePointer2, Type, Image as ImageIcon, ZoomIn, ZoomOut, GitGraph, ArrowRightCircle, ChevronDown, Layers, Zap, Clapperboard, Timer, Smartphone, MessageSquare, Play, Package, Vote, Variable, Code } from 'lucide-react';
-import { NodeType, NarrativeNode, Vector2, DialogueNode, BranchNode, JumpNode, LocationNode, ActionNode, Hotspot, ScriptActionType, VoteNode } from '../types';
+import { MousePointer2, Type, Image as ImageIcon, ZoomIn, ZoomOut, GitGraph, ArrowRightCircle, ChevronDown, Layers, Zap, Clapperboard, Timer, Smartphone, MessageSquare, Play, Package, Vote, Variable, Code, Flag, Eye, Lock, Volume2, VolumeX, UserPlus, UserMinus, Smile, Sun, Aperture, Film } from 'lucide-react';
+import { NodeType, NarrativeNode, Vector2, DialogueNode, BranchNode, SwitchNode, JumpNode, LocationNode, ActionNode, Hotspot, ScriptActionType, VoteNode } from '../types';
 import { useEditorStore } from '../store/useEditorStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getActionCatalog } from '../engine/logic/uiCatalog';
@@ -66,7 +66,7 @@ const NodeComponent: React.FC<NodeComponentProps> = React.memo(({
     }, [node.id, node.size.y, updateNode]);
 
     const isDialogue = node.type === NodeType.DIALOGUE;
-    const isBranch = node.type === NodeType.BRANCH;
+    const isBranch = node.type === NodeType.BRANCH || node.type === NodeType.SWITCH;
     const isVote = node.type === NodeType.VOTE;
     const isStart = node.type === NodeType.START;
 
@@ -75,7 +75,8 @@ const NodeComponent: React.FC<NodeComponentProps> = React.memo(({
     
     // Only show default handle if there are NO specific output handles (choices, events etc)
     const hasEvents = node.events && node.events.length > 0;
-    const showDefaultHandle = !isBranch && !hasEvents && !hasChoices && !hasVoteOptions;
+    // Vote nodes render their own default (undecided) row
+    const showDefaultHandle = !isBranch && !isVote && !hasEvents && !hasChoices && !hasVoteOptions;
     const showInputHandle = !isStart; // Start node has no input
 
     return (
@@ -163,10 +164,12 @@ const Canvas: React.FC = () => {
   const nodes = useMemo(() => activeSegment ? (Object.values(activeSegment.nodes) as NarrativeNode[]) : [], [activeSegment]);
   const edges = activeSegment?.edges ?? [];
 
-  // Need characters and attributes for node label rendering
-  const { characters, attributes } = useEditorStore(useShallow(state => ({
+  // Need characters, attributes, items and quests for node label rendering
+  const { characters, attributes, items, quests } = useEditorStore(useShallow(state => ({
       characters: state.story.characters,
-      attributes: state.story.attributes
+      attributes: state.story.attributes,
+      items: state.story.items,
+      quests: state.story.quests
   })));
   const actionCatalog = useMemo(() => {
     const list = getActionCatalog();
@@ -247,6 +250,23 @@ const Canvas: React.FC = () => {
     };
   }, [canvasTransform, dragState, hotspotDragState, hotspotResizeState, linkingState, isPanning, panStart, selectionBox, nodes]);
 
+  // --- Focus Requests (Problems panel) ---
+  const focusRequest = useEditorStore(state => state.focusRequest);
+  useEffect(() => {
+    if (!focusRequest) return;
+    const node = activeSegment?.nodes[focusRequest.nodeId];
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (node && rect) {
+      const { scale } = stateRef.current.canvasTransform;
+      setCanvasTransform({
+        scale,
+        x: rect.width / 2 - (node.position.x + node.size.x / 2) * scale,
+        y: rect.height / 2 - (node.position.y + node.size.y / 2) * scale
+      });
+    }
+    useEditorStore.getState().clearFocusRequest();
+  }, [focusRequest, activeSegment]);
+
   // --- Keyboard Shortcuts ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -638,8 +658,9 @@ const Canvas: React.FC = () => {
                 const offsetFromBottom = BORDER + PADDING + (reverseIndex * (ITEM_HEIGHT + ITEM_GAP)) + (ITEM_HEIGHT / 2);
                 return { x: node.position.x + node.size.x - 2, y: node.position.y + node.size.y - offsetFromBottom };
             }
-            if (node.type === NodeType.BRANCH) {
-                const conditions = (node as BranchNode).conditions || [];
+            if (node.type === NodeType.BRANCH || node.type === NodeType.SWITCH) {
+                // Switch cases share the Branch row layout
+                const conditions = node.type === NodeType.BRANCH ? (node as BranchNode).conditions || [] : (node as SwitchNode).cases || [];
                 const LABEL_HEIGHT = 16;
                 const LABEL_MARGIN = 8;
                 const listStart = BORDER + HEADER_HEIGHT + PADDING + LABEL_HEIGHT + LABEL_MARGIN;
@@ -670,11 +691,12 @@ const Canvas: React.FC = () => {
             }
 
             // VOTE NODE
-            if (node.type === NodeType.VOTE && handleId) {
+            if (node.type === NodeType.VOTE) {
                 const options = (node as VoteNode).voteConfig.options;
-                const optionIndex = options.findIndex(o => o.id === handleId);
+                const optionIndex = handleId ? options.findIndex(o => o.id === handleId) : options.length;
                 if (optionIndex === -1) return { x: node.position.x + node.size.x, y: node.position.y };
-                const reverseIndex = options.length - 1 - optionIndex;
+                // Default row sits below the option rows
+                const reverseIndex = options.length - optionIndex;
                 const offsetFromBottom = BORDER + PADDING + (reverseIndex * (ITEM_HEIGHT + ITEM_GAP)) + (ITEM_HEIGHT / 2);
                 return { x: node.position.x + node.size.x - 2, y: node.position.y + node.size.y - offsetFromBottom };
             }
@@ -786,8 +808,9 @@ const Canvas: React.FC = () => {
         };
       }
 
-      if (node.type === NodeType.BRANCH) {
-        const conditions = (node as BranchNode).conditions || [];
+      if (node.type === NodeType.BRANCH || node.type === NodeType.SWITCH) {
+        // Switch cases share the Branch row layout
+        const conditions = node.type === NodeType.BRANCH ? (node as BranchNode).conditions || [] : (node as SwitchNode).cases || [];
         const LABEL_HEIGHT = 16;
         const LABEL_MARGIN = 8;
         const listStart = BORDER + HEADER_HEIGHT + PADDING + LABEL_HEIGHT + LABEL_MARGIN;
@@ -817,12 +840,13 @@ const Canvas: React.FC = () => {
          }
       }
 
-      if (node.type === NodeType.VOTE && handleId) {
+      if (node.type === NodeType.VOTE) {
         const options = (node as VoteNode).voteConfig.options;
-        const optionIndex = options.findIndex(o => o.id === handleId);
+        const optionIndex = handleId ? options.findIndex(o => o.id === handleId) : options.length;
         if (optionIndex === -1) return { x: node.position.x + node.size.x, y: node.position.y };
         
-        const reverseIndex = options.length - 1 - optionIndex;
+        // Default row sits below the option rows
+        const reverseIndex = options.length - optionIndex;
         const offsetFromBottom = BORDER + PADDING + (reverseIndex * (ITEM_HEIGHT + ITEM_GAP)) + (ITEM_HEIGHT / 2);
         
         return { 
@@ -865,8 +889,11 @@ const Canvas: React.FC = () => {
             <div className="flex flex-col mt-auto shrink-0" style={{ gap: ITEM_GAP }}>
               {(node as DialogueNode).choices?.map((c) => (
                 <div key={c.id} className="relative flex items-center justify-end shrink-0 group/choice" style={{ height: ITEM_HEIGHT }}>
-                    <div className="bg-black/20 px-2 py-1 rounded text-[10px] text-indigo-300 border border-indigo-500/20 w-full text-right truncate h-full flex items-center justify-end">
-                      {c.text}
+                    <div className="bg-black/20 px-2 py-1 rounded text-[10px] text-indigo-300 border border-indigo-500/20 w-full text-right truncate h-full flex items-center justify-end gap-1">
+                      {c.visibleIf && <Eye className="w-2.5 h-2.5 shrink-0 text-amber-400" />}
+                      {c.enabledIf && <Lock className="w-2.5 h-2.5 shrink-0 text-amber-400" />}
+                      {!!c.actions?.length && <Zap className="w-2.5 h-2.5 shrink-0 text-yellow-400" />}
+                      <span className="truncate">{c.text}</span>
                     </div>
                     <div 
                       className="absolute -right-[18px] top-1/2 -translate-y-1/2 w-3 h-3 bg-indigo-600 border border-zinc-900 rounded-full hover:scale-125 transition-transform cursor-crosshair z-20"
@@ -990,13 +1017,44 @@ const Canvas: React.FC = () => {
         break;
       
       case NodeType.SWITCH:
+        const switchNode = node as SwitchNode;
+        const subject = switchNode.subject || { kind: 'attribute', refId: '' };
+        const subjectName = subject.kind === 'itemCount'
+          ? `#${useEditorStore.getState().story.items.find(i => i.id === subject.refId)?.name || '???'}`
+          : attributes.find(a => a.id === subject.refId)?.name || '???';
         content = (
-          <div className="flex flex-col h-full gap-2 text-xs text-zinc-400">
-            <div className="italic text-[11px] text-zinc-500">按条件匹配出边（建议在连线条件中填写比较逻辑）。</div>
-            <div className="rounded border border-zinc-700/60 bg-black/20 p-2 text-[11px] text-zinc-300">
-              <div className="font-mono text-amber-300 mb-1">CASE 1..N</div>
-              <div>为每条出边设置 condition；命中首条条件即跳转。</div>
-              <div className="mt-1 text-zinc-500 text-[10px]">未命中时可加默认边。</div>
+          <div className="flex flex-col h-full">
+            <div className="text-[10px] text-zinc-500 mb-[8px] italic leading-[16px] h-[16px] block shrink-0 whitespace-nowrap overflow-hidden">
+              switch (<span className="text-purple-400 not-italic font-mono">{subjectName}</span>)
+            </div>
+
+            <div className="flex flex-col" style={{ gap: LAYOUT.BRANCH_GAP }}>
+              {switchNode.cases?.map((c, idx) => (
+                <div key={c.id} className="relative flex items-center shrink-0" style={{ height: ITEM_HEIGHT }}>
+                  <div className="bg-black/20 px-2 rounded text-[10px] text-zinc-300 border border-sky-500/20 w-full truncate font-mono h-full flex items-center gap-1">
+                    <span className="text-sky-400 font-bold">{idx + 1}.</span>
+                    <span className="text-sky-300">case</span>
+                    <span className="text-green-300">{c.value}</span>
+                  </div>
+                  <div 
+                    className="absolute -right-[18px] top-1/2 -translate-y-1/2 w-3 h-3 bg-sky-600 border border-zinc-900 rounded-full hover:scale-125 transition-transform cursor-crosshair z-20"
+                    onMouseDown={(e) => handleHandleMouseDown(e, node.id, c.id)}
+                  />
+                </div>
+              ))}
+              {(!switchNode.cases?.length) && (
+                <div className="text-xs text-zinc-600 text-center flex items-center justify-center" style={{ height: ITEM_HEIGHT }}>No cases</div>
+              )}
+            </div>
+             
+            <div className="relative flex items-center shrink-0 mt-[8px]" style={{ height: ITEM_HEIGHT }}>
+                <div className="bg-white/5 px-2 rounded text-[10px] text-zinc-500 border border-zinc-700/50 w-full truncate font-mono italic h-full flex items-center">
+                    default
+                </div>
+                <div 
+                    className="absolute -right-[18px] top-1/2 -translate-y-1/2 w-3 h-3 bg-zinc-500 border border-zinc-900 rounded-full hover:scale-125 transition-transform cursor-crosshair z-20"
+                    onMouseDown={(e) => handleHandleMouseDown(e, node.id, undefined)} 
+                />
             </div>
           </div>
         );
@@ -1007,15 +1065,19 @@ const Canvas: React.FC = () => {
         // Need segments list for this. Since it's just display name, accessing story.segments via getter might be overkill.
         // We can pass a simplified segments list or just show ID if perf critical.
         // For now, let's grab it from store state directly since it's just for rendering.
-        const segmentName = useEditorStore.getState().story.segments.find(s => s.id === jumpNode.targetSegmentId)?.name;
+        const targetSegment = useEditorStore.getState().story.segments.find(s => s.id === jumpNode.targetSegmentId);
+        const entryNodeName = jumpNode.targetNodeId ? targetSegment?.nodes[jumpNode.targetNodeId]?.name : undefined;
         content = (
-          <div className="flex items-center justify-center h-full">
+          <div className="flex flex-col items-center justify-center h-full gap-1">
             <div className="flex items-center gap-2 text-rose-300 bg-rose-900/20 px-3 py-2 rounded-full border border-rose-500/30">
                <ArrowRightCircle className="w-4 h-4" />
                <span className="font-bold truncate max-w-[120px]">
-                 {segmentName || 'Select Target'}
+                 {targetSegment?.name || 'Select Target'}
                </span>
             </div>
+            {entryNodeName && (
+              <div className="text-[10px] text-rose-200/60 truncate max-w-[180px]">@ {entryNodeName}</div>
+            )}
           </div>
         );
         break;
@@ -1030,18 +1092,37 @@ const Canvas: React.FC = () => {
                   let Icon = MessageSquare;
                   let Color = "text-zinc-400";
                   if (cmd.type === ScriptActionType.PLAY_SOUND) { Icon = Zap; Color = "text-pink-400"; }
+                  else if (cmd.type === ScriptActionType.STOP_AUDIO) { Icon = VolumeX; Color = "text-pink-400"; }
+                  else if (cmd.type === ScriptActionType.FADE_AUDIO) { Icon = Volume2; Color = "text-pink-400"; }
+                  else if (cmd.type === ScriptActionType.SHOW_CHARACTER) { Icon = UserPlus; Color = "text-rose-400"; }
+                  else if (cmd.type === ScriptActionType.HIDE_CHARACTER) { Icon = UserMinus; Color = "text-rose-400"; }
+                  else if (cmd.type === ScriptActionType.SET_EXPRESSION) { Icon = Smile; Color = "text-rose-400"; }
+                  else if (cmd.type === ScriptActionType.FLASH) { Icon = Sun; Color = "text-yellow-300"; }
+                  else if (cmd.type === ScriptActionType.SET_FILTER) { Icon = Aperture; Color = "text-teal-400"; }
+                  else if (cmd.type === ScriptActionType.SCENE_TRANSITION) { Icon = Film; Color = "text-sky-400"; }
                   else if (cmd.type === ScriptActionType.WAIT) { Icon = Timer; Color = "text-blue-400"; }
                   else if (cmd.type === ScriptActionType.SCREEN_SHAKE) { Icon = Smartphone; Color = "text-orange-400"; }
                   else if (cmd.type === ScriptActionType.SHOW_TOAST) { Icon = MessageSquare; Color = "text-green-400"; }
                   else if (cmd.type === ScriptActionType.UPDATE_ATTRIBUTE) { Icon = Variable; Color = "text-purple-400"; }
-                  else if (cmd.type === ScriptActionType.ADD_ITEM || cmd.type === ScriptActionType.REMOVE_ITEM) { Icon = Package; Color = "text-amber-400"; }
+                  else if (cmd.type === ScriptActionType.ADD_ITEM || cmd.type === ScriptActionType.REMOVE_ITEM || cmd.type === ScriptActionType.TRANSFER_ITEM) { Icon = Package; Color = "text-amber-400"; }
+                  else if (cmd.type === ScriptActionType.START_QUEST || cmd.type === ScriptActionType.COMPLETE_OBJECTIVE || cmd.type === ScriptActionType.FAIL_QUEST) { Icon = Flag; Color = "text-lime-400"; }
                   else if (cmd.type === ScriptActionType.ADVANCE) { Icon = ArrowRightCircle; Color = "text-zinc-300"; }
                   
                   // Try to get attribute name if available
                   let extraText = "";
                   if (cmd.type === ScriptActionType.UPDATE_ATTRIBUTE && cmd.params.attributeId) {
                       const attrName = attributes.find(a => a.id === cmd.params.attributeId)?.name;
-                      if(attrName) extraText = ` (${attrName})`;
+                      const ownerName = cmd.params.characterId ? characters.find(c => c.id === cmd.params.characterId)?.name : undefined;
+                      if(attrName) extraText = ownerName ? ` (${ownerName}·${attrName})` : ` (${attrName})`;
+                  }
+                  if (cmd.type === ScriptActionType.TRANSFER_ITEM && cmd.params.itemId) {
+                      const itemName = items.find(i => i.id === cmd.params.itemId)?.name || cmd.params.itemId;
+                      const ownerLabel = (id?: string) => (id ? characters.find(c => c.id === id)?.name || id : '共享');
+                      extraText = ` (${ownerLabel(cmd.params.fromOwnerId)}→${ownerLabel(cmd.params.toOwnerId)}·${itemName})`;
+                  }
+                  if ((cmd.type === ScriptActionType.START_QUEST || cmd.type === ScriptActionType.COMPLETE_OBJECTIVE || cmd.type === ScriptActionType.FAIL_QUEST) && cmd.params.questId) {
+                      const questName = quests?.find(q => q.id === cmd.params.questId)?.name || cmd.params.questId;
+                      extraText = ` (${questName})`;
                   }
 
                   const label = actionCatalog[cmd.type]?.label || cmd.type;
@@ -1087,6 +1168,15 @@ const Canvas: React.FC = () => {
                         />
                     </div>
                 ))}
+                <div className="relative flex items-center justify-end shrink-0" style={{ height: ITEM_HEIGHT }}>
+                    <div className="px-2 py-1 rounded text-[10px] text-zinc-400 border border-zinc-700 border-dashed w-full text-right truncate h-full flex items-center justify-end">
+                        未决 (default)
+                    </div>
+                    <div 
+                      className="absolute -right-[18px] top-1/2 -translate-y-1/2 w-3 h-3 bg-zinc-600 border border-zinc-900 rounded-full hover:scale-125 transition-transform cursor-crosshair z-20"
+                      onMouseDown={(e) => handleHandleMouseDown(e, node.id, undefined)}
+                    />
+                </div>
              </div>
           </div>
         );
@@ -1105,7 +1195,7 @@ const Canvas: React.FC = () => {
                  {node.events.map(evt => (
                     <div key={evt.id} className="relative flex items-center justify-between shrink-0" style={{ height: ITEM_HEIGHT }}>
                        <div className="flex items-center gap-1.5 px-2 bg-black/20 border border-zinc-700 rounded h-full w-full">
-                          <Zap className={`w-3 h-3 ${evt.trigger === 'onClick' ? 'text-amber-400' : 'text-indigo-400'}`} />
+                          <Zap className={`w-3 h-3 ${evt.type === 'interaction' ? 'text-amber-400' : 'text-indigo-400'}`} />
                           <span className="text-[10px] text-zinc-300 truncate">{evt.label}</span>
                        </div>
                        <div 
@@ -1,15 +1,308 @@
-import React, { useEffect, useState } from 'react';
-import { X, Package, ShoppingCart, User, Heart, Coins, Brain, ArrowRight, SkipForward } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Package, ShoppingCart, User, Users, Heart, Coins, Brain, ArrowRight, SkipForward, Save, Trash2, Hammer, Search, Lock, Flag, CheckCircle, Circle, Clock, Hand, FastForward, PlayCircle, ScrollText, RotateCcw, Volume2, Languages } from 'lucide-react';
 import { useEditorStore } from '../store/useEditorStore';
 import { useRuntimeStore } from '../store/useRuntimeStore';
 import { NarrativeEngine } from '../engine/NarrativeEngine';
-import { NodeType, DialogueNode, LocationNode, VoteNode } from '../types';
+import { SaveManager, LocalStorageSaveStorage, SaveSlotInfo } from '../engine/SaveManager';
+import { PartySession } from '../engine/PartySession';
+import { ReadHistory } from '../engine/ReadHistory';
+import { formatClockTime } from '../engine/StoryClock';
+import { ChoiceState, StageCharacter } from '../engine/interfaces';
+import { RichText } from '../engine/TextMarkup';
+import { AUDIO_CHANNELS, AudioChannel, HtmlAudioBackend } from '../engine/AudioManager';
+import { StageChange, getCharacterSprite } from '../engine/StageManager';
+import { ShakeIntensity, VisualEffect } from '../engine/EffectsManager';
+import { getStoryLocales, localizeStory } from '../engine/Localization';
+import { NodeType, DialogueNode, LocationNode, VoteNode, CharacterAsset, StagePlacement, StageTransition, EffectEasing } from '../types';
 
-const EngineInstance = new NarrativeEngine();
+const EngineInstance = new NarrativeEngine({ audioBackend: new HtmlAudioBackend() });
+const SaveSlots = new SaveManager(new LocalStorageSaveStorage());
+const Party = new PartySession(EngineInstance);
+const ReadLog = new ReadHistory(new LocalStorageSaveStorage());
+let historySeq = 0;
+
+interface HeldItem {
+  itemId: string;
+  ownerId?: string;
+}
+
+const ITEM_DRAG_TYPE = 'application/x-narrative-item';
+
+const SKIP_DELAY_MS = 80;
+const TEXT_SPEEDS = [{ label: '慢', value: 20 }, { label: '中', value: 40 }, { label: '快', value: 80 }, { label: '即时', value: 0 }];
+const AUTO_DELAYS = [{ label: '0.8s', value: 800 }, { label: '1.5s', value: 1500 }, { label: '3s', value: 3000 }];
+const VOLUME_LABELS: Record<AudioChannel | 'master', string> = {
+  master: '总音量 (Master)',
+  bgm: '背景音乐 (BGM)',
+  ambience: '环境音 (Ambience)',
+  voice: '语音 (Voice)',
+  sfx: '音效 (SFX)'
+};
+
+const textLength = (text: RichText) => text.spans.reduce((sum, span) => sum + (span.kind === 'text' ? span.text.length : 0), 0);
+
+// 渲染文本标记，只显示前 visibleChars 个字符（打字机）
+const RichTextView: React.FC<{ text: RichText; visibleChars: number }> = ({ text, visibleChars }) => {
+  let remaining = visibleChars;
+  return (
+    <>
+      {text.spans.map((span, i) => {
+        if (span.kind === 'pause' || remaining <= 0) return null;
+        const shown = span.text.slice(0, remaining);
+        remaining -= shown.length;
+        return (
+          <span key={i} style={{ color: span.color }}>
+            {span.shake ? <span className="nf-text-shake">{shown}</span> : shown}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+/**
+ * 打字机：逐字显示，{pause} 处额外停顿；速度为 0 时立即显示全部
+ * lineKey 变化（进入新的一句）时重新开始
+ */
+const useTypewriter = (text: RichText | null, speed: number, lineKey: string | null) => {
+  // 进度按句记录，换句的第一帧就从头开始，不会先闪出整句
+  const [progress, setProgress] = useState<{ key: string | null; shown: number }>({ key: null, shown: Infinity });
+  const shown = progress.key === lineKey ? progress.shown : speed > 0 ? 0 : Infinity;
+  const total = text ? textLength(text) : 0;
+
+  useEffect(() => {
+    if (!text || speed <= 0) {
+      setProgress({ key: lineKey, shown: Infinity });
+      return;
+    }
+    // 停顿挂在其后第一个字符之前
+    const pauses = new Map<number, number>();
+    let offset = 0;
+    text.spans.forEach(span => {
+      if (span.kind === 'pause') pauses.set(offset, (pauses.get(offset) || 0) + span.ms);
+      else offset += span.text.length;
+    });
+    const length = offset;
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const step = () => {
+      index += 1;
+      setProgress(current => current.key === lineKey && current.shown === Infinity ? current : { key: lineKey, shown: index });
+      if (index < length) timer = setTimeout(step, 1000 / speed + (pauses.get(index) || 0));
+    };
+    setProgress({ key: lineKey, shown: 0 });
+    timer = setTimeout(step, pauses.get(0) || 0);
+    return () => clearTimeout(timer);
+    // 插值变化不重新打字：只在新的一句或速度变化时重启
+  }, [lineKey, speed]);
+
+  return { shown, done: shown >= total, complete: () => setProgress({ key: lineKey, shown: Infinity }) };
+};
+
+const STAGE_TRANSITION_MS = 400;
+const STAGE_POSITIONS: Record<StagePlacement, string> = { left: '20%', center: '50%', right: '80%' };
+const STAGE_SLIDE_FROM: Record<StagePlacement, string> = { left: 'translateX(-30vw)', center: 'translateY(15%)', right: 'translateX(30vw)' };
+
+interface StageSprite extends StageCharacter {
+  enter: StageTransition; // 登场过渡，只在挂载时播放
+  animateMove: boolean;
+  leaving?: StageTransition; // 正在退场
+}
+
+/**
+ * 角色立绘层：订阅引擎的 stage:changed，退场的角色保留到过渡结束
+ * 说话人在场时其他角色变暗
+ */
+const StageLayer: React.FC<{ characters: CharacterAsset[]; speakerId?: string }> = ({ characters, speakerId }) => {
+  const [sprites, setSprites] = useState<StageSprite[]>(
+    () => EngineInstance.stage.getCharacters().map(entry => ({ ...entry, enter: 'none', animateMove: true }))
+  );
+
+  useEffect(() => {
+    const bus = EngineInstance.eventBus;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const handleStageChanged = ({ characters: onStage, changes }: { characters: StageCharacter[]; changes: StageChange[] }) => {
+      const exits = changes.filter(c => c.kind === 'exit' && c.transition !== 'none').map(c => c.characterId);
+      setSprites(prev => {
+        const present: StageSprite[] = onStage.map(entry => {
+          const before = prev.find(s => s.characterId === entry.characterId && !s.leaving);
+          const entered = changes.find(c => c.kind === 'enter' && c.characterId === entry.characterId);
+          const moved = changes.find(c => c.kind === 'move' && c.characterId === entry.characterId);
+          return {
+            ...entry,
+            enter: entered && entered.kind === 'enter' ? entered.transition : before?.enter ?? 'none',
+            animateMove: moved && moved.kind === 'move' ? moved.transition !== 'none' : before?.animateMove ?? true
+          };
+        });
+        const leaving: StageSprite[] = [
+          ...prev.filter(s => s.leaving),
+          ...prev.filter(s => !s.leaving && exits.includes(s.characterId)).map(s => {
+            const exit = changes.find(c => c.kind === 'exit' && c.characterId === s.characterId);
+            return { ...s, leaving: exit && exit.kind === 'exit' ? exit.transition : 'fade' };
+          })
+        ].filter(s => !onStage.some(entry => entry.characterId === s.characterId));
+        return [...present, ...leaving];
+      });
+      if (exits.length) {
+        timers.push(setTimeout(() => setSprites(prev => prev.filter(s => !(s.leaving && exits.includes(s.characterId)))), STAGE_TRANSITION_MS));
+      }
+    };
+    bus.on('stage:changed', handleStageChanged);
+    return () => {
+      bus.off('stage:changed', handleStageChanged);
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  const speakerOnStage = !!speakerId && sprites.some(s => s.characterId === speakerId && !s.leaving);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden">
+      {sprites.map(sprite => {
+        const character = characters.find(c => c.id === sprite.characterId);
+        if (!character) return null;
+        const animation = sprite.leaving
+          ? (sprite.leaving === 'slide' ? 'nf-stage-slide-out' : 'nf-stage-fade-out')
+          : (sprite.enter === 'slide' ? 'nf-stage-slide-in' : sprite.enter === 'fade' ? 'nf-stage-fade-in' : '');
+        const dimmed = speakerOnStage && sprite.characterId !== speakerId;
+        return (
+          <div
+            key={`${sprite.characterId}${sprite.leaving ? ':out' : ''}`}
+            className="absolute bottom-0 h-[85%] -translate-x-1/2"
+            style={{
+              left: STAGE_POSITIONS[sprite.placement],
+              transition: sprite.animateMove ? `left ${STAGE_TRANSITION_MS}ms ease-in-out` : undefined
+            }}
+          >
+            <img
+              src={getCharacterSprite(character, sprite.expression)}
+              alt={character.name}
+              className={`h-full object-contain object-bottom transition-[filter] duration-300 ${dimmed ? 'brightness-50' : ''} ${animation}`}
+              style={{ '--nf-slide': STAGE_SLIDE_FROM[sprite.placement] } as React.CSSProperties}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+type TransitionEffect = Extract<VisualEffect, { kind: 'transition' }>;
+
+interface ActiveEffects {
+  filter: { css: string; durationMs: number; easing: EffectEasing };
+  shake: { intensity: ShakeIntensity; durationMs: number; key: number } | null;
+  flash: { color: string; durationMs: number; easing: EffectEasing; key: number } | null;
+  transition: (TransitionEffect & { key: number }) | null;
+}
+
+const SHAKE_AMPLITUDE: Record<ShakeIntensity, string> = { low: '2px', medium: '6px', high: '12px' };
+
+/**
+ * 画面效果渲染器：把引擎的 VisualEffect 转成界面状态，到时长后 resolve，让动作组可以等待效果播完
+ * 卸载时立即结束未播完的效果，避免动作组一直挂起
+ */
+const useEffectRenderer = (): ActiveEffects => {
+  const [effects, setEffects] = useState<ActiveEffects>(() => ({
+    filter: { css: EngineInstance.effects.getFilter(), durationMs: 0, easing: 'linear' },
+    shake: null,
+    flash: null,
+    transition: null
+  }));
+
+  useEffect(() => {
+    let seq = 0;
+    const pending = new Map<ReturnType<typeof setTimeout>, () => void>();
+    EngineInstance.effects.setRenderer({
+      play: (effect) => new Promise<void>(resolve => {
+        const key = ++seq;
+        if (effect.kind === 'filter') {
+          setEffects(s => ({ ...s, filter: { css: effect.filter, durationMs: effect.durationMs, easing: effect.easing } }));
+        } else {
+          setEffects(s => ({ ...s, [effect.kind]: { ...effect, key } }));
+        }
+        const finish = () => {
+          pending.delete(timer);
+          // 只清除这一次的效果，期间又开始的同类效果不受影响
+          if (effect.kind !== 'filter') {
+            setEffects(s => s[effect.kind]?.key === key ? { ...s, [effect.kind]: null } : s);
+          }
+          resolve();
+        };
+        const timer = setTimeout(finish, effect.durationMs);
+        pending.set(timer, finish);
+      })
+    });
+    return () => {
+      EngineInstance.effects.setRenderer(null);
+      pending.forEach((finish, timer) => {
+        clearTimeout(timer);
+        finish();
+      });
+    };
+  }, []);
+
+  return effects;
+};
+
+/**
+ * 背景层：地点切换时按转场效果叠放新旧背景
+ */
+const BackgroundLayer: React.FC<{ image: string; transition: ActiveEffects['transition'] }> = ({ image, transition }) => {
+  const active = transition && transition.background === image && transition.from !== image ? transition : null;
+  const timing = (durationMs: number, delayMs = 0) => `${durationMs}ms ${active?.easing || 'linear'} ${delayMs}ms both`;
+  let fromStyle: React.CSSProperties | undefined;
+  let toStyle: React.CSSProperties | undefined;
+  let fromOnTop = false;
+  if (active) {
+    const { durationMs } = active;
+    if (active.transition === 'fade') {
+      fromStyle = { animation: `nf-fx-fade-out ${timing(durationMs / 2)}` };
+      toStyle = { animation: `nf-fx-fade-in ${timing(durationMs / 2, durationMs / 2)}` };
+    } else if (active.transition === 'crossfade') {
+      fromStyle = { animation: `nf-fx-fade-out ${timing(durationMs)}` };
+      fromOnTop = true;
+    } else {
+      toStyle = { animation: `nf-fx-wipe-${active.direction} ${timing(durationMs)}` };
+    }
+  }
+  const fromImage = active?.from ? (
+    <img key={`from:${active.key}`} src={active.from} style={fromStyle} className="absolute inset-0 w-full h-full object-cover opacity-80" alt="" />
+  ) : null;
+
+  return (
+    <div className="absolute inset-0 bg-zinc-900" style={{ backgroundColor: active?.transition === 'fade' ? active.color : undefined }}>
+      {!fromOnTop && fromImage}
+      {image && <img key={image} src={image} style={toStyle} className="absolute inset-0 w-full h-full object-cover opacity-80" alt="background" />}
+      {fromOnTop && fromImage}
+    </div>
+  );
+};
+
+// Icon mapping (simple heuristic)
+const attributeStyle = (key: string) => {
+  if (key.includes('hp') || key.includes('health')) return { Icon: Heart, color: 'text-red-400', barColor: 'bg-red-500' };
+  if (key.includes('sanity') || key.includes('mana')) return { Icon: Brain, color: 'text-blue-400', barColor: 'bg-blue-500' };
+  return { Icon: Coins, color: 'text-yellow-400', barColor: 'bg-yellow-500' };
+};
 
 const GameOverlay: React.FC = () => {
-  const { story } = useEditorStore();
+  const { story: sourceStory } = useEditorStore();
   const runtime = useRuntimeStore();
+  // 物品、线索、商店等界面文本跟随玩家选择的语言；节点文本由引擎本地化
+  const story = useMemo(() => localizeStory(sourceStory, runtime.settings.locale), [sourceStory, runtime.settings.locale]);
+  const locales = useMemo(() => getStoryLocales(sourceStory), [sourceStory]);
+  const [saveSlots, setSaveSlots] = useState<SaveSlotInfo[]>([]);
+  const [newSlotName, setNewSlotName] = useState('');
+  const [partyNames, setPartyNames] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+  // 拿在手上准备对热点使用的物品（点击热点或拖放到热点上使用）
+  const [heldItem, setHeldItem] = useState<HeldItem | null>(null);
+  const [isDraggingItem, setIsDraggingItem] = useState(false);
+  const [choiceStates, setChoiceStates] = useState<{ nodeId: string; states: ChoiceState[] } | null>(null);
+  // 当前这句在进入之前是否已读（跳过已读只跳这些）
+  const [lineRead, setLineRead] = useState<{ nodeId: string; wasRead: boolean } | null>(null);
+  const [showMixer, setShowMixer] = useState(false);
   
   // Initialize Engine
   useEffect(() => {
@@ -29,56 +322,271 @@ const GameOverlay: React.FC = () => {
         runtime.setLastLocationBackground((node as LocationNode).backgroundImage);
       }
       
-      // Auto-add dialogue to history
       if (node.type === NodeType.DIALOGUE) {
-        const dNode = node as DialogueNode;
-        const charName = story.characters.find(c => c.id === dNode.characterId)?.name || '???';
-        runtime.addHistory({ id: node.id, speaker: charName, text: dNode.text });
+        setLineRead({ nodeId: node.id, wasRead: ReadLog.markRead(node.id) });
       }
     };
 
+    // Auto-add dialogue to history
+    // 快照在上一节点 onExit 与本节点 onEnter 的动作都执行完之后拍下：回想跳回该句时状态与原先一致，读档也不会重复这些效果
+    const handleNodeSettled = ({ node }: any) => {
+      if (node.type !== NodeType.DIALOGUE) return;
+      const dNode = node as DialogueNode;
+      const charName = story.characters.find(c => c.id === dNode.characterId)?.name || '???';
+      runtime.addHistory({
+        id: `log_${++historySeq}`,
+        nodeId: node.id,
+        speaker: charName,
+        text: EngineInstance.renderText(dNode.text).plain,
+        save: EngineInstance.serialize() || undefined
+      });
+    };
+
     const handleAttrChange = () => {
-      runtime.syncAttributes(EngineInstance.variableStore.getAll().attributes);
+      const state = EngineInstance.variableStore.getAll();
+      runtime.syncAttributes(state.attributes, state.characterAttributes);
     };
 
     const handleInvChange = () => {
-      runtime.syncInventory(EngineInstance.variableStore.getAll().inventory);
+      const state = EngineInstance.variableStore.getAll();
+      runtime.syncInventory(state.inventory, state.characterInventories);
+    };
+
+    const handleClueChange = () => {
+      runtime.syncClues(EngineInstance.variableStore.serialize().clues);
+    };
+
+    const handleQuestChange = () => {
+      runtime.syncQuests(EngineInstance.variableStore.serialize().quests || {});
+    };
+
+    const handleClockChange = () => runtime.syncClock(EngineInstance.variableStore.getClock());
+
+    const questName = (questId: string) => story.quests?.find(q => q.id === questId)?.name || questId;
+    const handleQuestStarted = ({ questId }: any) => {
+      handleQuestChange();
+      runtime.showToast(`新任务: ${questName(questId)}`);
+    };
+    const handleQuestCompleted = ({ questId }: any) => {
+      handleQuestChange();
+      runtime.showToast(`任务完成: ${questName(questId)} ✔`);
     };
 
     const handleToast = ({ message }: any) => runtime.showToast(message);
     const handleOpenShop = ({ shopId }: any) => runtime.openShop(shopId);
+    const handleOpenCrafting = () => runtime.openCrafting();
+
+    const handleVoteStarted = ({ nodeId, endsAt }: any) => {
+      runtime.setActiveVote({ nodeId, endsAt, tally: {}, ballots: {} });
+    };
+
+    const handleVoteCast = ({ nodeId, voterId, optionId, tally }: any) => {
+      const vote = useRuntimeStore.getState().activeVote;
+      if (!vote || vote.nodeId !== nodeId) return;
+      runtime.setActiveVote({
+        ...vote,
+        tally,
+        ballots: { ...vote.ballots, [voterId]: optionId },
+        myOptionId: voterId === 'player' ? optionId : vote.myOptionId
+      });
+    };
+
+    const handlePartyUpdated = ({ players, activePlayerId }: any) => {
+      runtime.setParty({ players, activePlayerId });
+    };
+
+    const handlePartyEnded = () => runtime.setParty(null);
+
+    const handleVoteResolved = ({ winnerOptionId, correct }: any) => {
+      runtime.setActiveVote(null);
+      const options = (useRuntimeStore.getState().currentNode as VoteNode | null)?.voteConfig?.options || [];
+      const winner = options.find(o => o.id === winnerOptionId);
+      if (!winner) {
+        runtime.showToast("投票未决 (No decision)");
+      } else {
+        runtime.showToast(`投票结果: ${winner.text}${correct ? ' ✔' : ''}`);
+      }
+    };
+
+    const handleVoteCancelled = () => runtime.setActiveVote(null);
+
+    // 切换语言后换上当前节点 / 场景的译文
+    const handleLocaleChanged = ({ node, scene }: any) => {
+      runtime.setCurrentNode(node);
+      runtime.setCurrentScene(scene);
+    };
+
+    const handleRestored = ({ node, scene }: any) => {
+      runtime.setCurrentNode(node);
+      if (node?.type === NodeType.DIALOGUE) setLineRead({ nodeId: node.id, wasRead: ReadLog.isRead(node.id) });
+      runtime.setCurrentScene(scene);
+      runtime.setLastLocationBackground(scene?.backgroundImage);
+      handleAttrChange();
+      handleInvChange();
+      handleClueChange();
+      handleQuestChange();
+      handleClockChange();
+    };
 
     bus.on('node:enter', handleNodeEnter);
+    bus.on('node:settled', handleNodeSettled);
     bus.on('attribute:changed', handleAttrChange);
     bus.on('inventory:added', handleInvChange);
     bus.on('inventory:removed', handleInvChange);
     bus.on('ui:toast', handleToast);
     bus.on('ui:openShop', handleOpenShop);
+    bus.on('ui:openCrafting', handleOpenCrafting);
+    bus.on('game:restored', handleRestored);
+    bus.on('locale:changed', handleLocaleChanged);
+    bus.on('vote:started', handleVoteStarted);
+    bus.on('vote:cast', handleVoteCast);
+    bus.on('vote:resolved', handleVoteResolved);
+    bus.on('vote:cancelled', handleVoteCancelled);
+    bus.on('clue:revealed', handleClueChange);
+    bus.on('clue:obtained', handleClueChange);
+    bus.on('clue:lost', handleClueChange);
+    bus.on('quest:started', handleQuestStarted);
+    bus.on('quest:objectiveCompleted', handleQuestChange);
+    bus.on('quest:stageAdvanced', handleQuestChange);
+    bus.on('quest:completed', handleQuestCompleted);
+    bus.on('quest:failed', handleQuestChange);
+    bus.on('clock:changed', handleClockChange);
+    bus.on('party:updated', handlePartyUpdated);
+    bus.on('party:ended', handlePartyEnded);
 
     // Boot Engine
-    EngineInstance.loadStory(story);
+    EngineInstance.setLocale(runtime.settings.locale);
+    EngineInstance.loadStory(sourceStory);
+    ReadLog.load(story.id);
     // Sync initial state
     handleAttrChange(); 
     handleInvChange();
+    handleClueChange();
+    handleQuestChange();
+    handleClockChange();
     
     EngineInstance.startSegment(story.activeSegmentId);
 
     return () => {
       bus.off('node:enter', handleNodeEnter);
+      bus.off('node:settled', handleNodeSettled);
       bus.off('attribute:changed', handleAttrChange);
       bus.off('inventory:added', handleInvChange);
       bus.off('inventory:removed', handleInvChange);
       bus.off('ui:toast', handleToast);
       bus.off('ui:openShop', handleOpenShop);
+      bus.off('ui:openCrafting', handleOpenCrafting);
+      bus.off('game:restored', handleRestored);
+      bus.off('locale:changed', handleLocaleChanged);
+      bus.off('vote:started', handleVoteStarted);
+      bus.off('vote:cast', handleVoteCast);
+      bus.off('vote:resolved', handleVoteResolved);
+      bus.off('vote:cancelled', handleVoteCancelled);
+      bus.off('clue:revealed', handleClueChange);
+      bus.off('clue:obtained', handleClueChange);
+      bus.off('clue:lost', handleClueChange);
+      bus.off('quest:started', handleQuestStarted);
+      bus.off('quest:objectiveCompleted', handleQuestChange);
+      bus.off('quest:stageAdvanced', handleQuestChange);
+      bus.off('quest:completed', handleQuestCompleted);
+      bus.off('quest:failed', handleQuestChange);
+      bus.off('clock:changed', handleClockChange);
+      Party.end();
+      bus.off('party:updated', handlePartyUpdated);
+      bus.off('party:ended', handlePartyEnded);
+      EngineInstance.voteManager.cancel();
+      EngineInstance.scheduler.disarm();
+      EngineInstance.audio.stop();
     };
   }, [runtime.isRunning]);
 
+  // 玩家音量设置同步到音频管理器
+  useEffect(() => {
+    EngineInstance.audio.setVolumes(runtime.settings.volumes);
+  }, [runtime.settings.volumes]);
+
+  useEffect(() => {
+    EngineInstance.setLocale(runtime.settings.locale);
+  }, [runtime.settings.locale]);
+
+  // Vote countdown tick
+  const voteEndsAt = runtime.activeVote?.endsAt;
+  useEffect(() => {
+    if (!voteEndsAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [voteEndsAt]);
+
+  // 选项条件可能是异步扩展：节点或状态变化后重新求值，结果按节点记录避免显示上一节点的选项
+  useEffect(() => {
+    const node = runtime.currentNode;
+    if (!runtime.isRunning || node?.type !== NodeType.DIALOGUE) return;
+    let cancelled = false;
+    EngineInstance.getChoiceStates().then(states => {
+      if (!cancelled) setChoiceStates({ nodeId: node.id, states });
+    });
+    return () => { cancelled = true; };
+  }, [runtime.isRunning, runtime.currentNode, runtime.attributes, runtime.characterAttributes, runtime.inventory, runtime.characterInventories, runtime.clues, runtime.quests, runtime.clock]);
+
+  const handleChoice = async (choiceId?: string) => {
+    const next = await EngineInstance.advance(choiceId);
+    if (!next) {
+      // 没有后续节点：保持场景背景，关闭前景对话
+      runtime.setCurrentNode(null);
+    }
+  };
+
+  // --- Dialogue Playback (typewriter / auto / skip-read) ---
+  const dialogueNode = runtime.currentNode?.type === NodeType.DIALOGUE ? runtime.currentNode as DialogueNode : null;
+  const dialogueText = useMemo(
+    () => dialogueNode ? EngineInstance.renderText(dialogueNode.text) : null,
+    // 插值随状态变化重新渲染
+    [dialogueNode, runtime.attributes, runtime.characterAttributes, runtime.inventory, runtime.characterInventories, runtime.clock]
+  );
+  const lineKey = dialogueNode ? runtime.history[runtime.history.length - 1]?.id || dialogueNode.id : null;
+  const typewriter = useTypewriter(dialogueText, runtime.settings.textSpeed, lineKey);
+  const playbackBlocked = runtime.showInventory || runtime.showSaveMenu || runtime.showCrafting || runtime.showPartySetup
+    || runtime.showJournal || runtime.showBacklog || showMixer || !!runtime.activeShopId;
+
+  useEffect(() => {
+    if (!runtime.isRunning || playbackBlocked) return;
+    if (!dialogueNode) {
+      // 到达需要玩家操作的场景 / 投票时停止跳过
+      if (runtime.skipMode && runtime.currentNode) runtime.setSkipMode(false);
+      return;
+    }
+    const hasChoices = !!dialogueNode.choices?.length;
+    // 派对模式下等待设备交给可见的玩家
+    const party = runtime.party;
+    const holder = party?.players.find(p => p.id === party.activePlayerId);
+    if (holder && !Party.canSeeNode(holder.id, dialogueNode)) return;
+
+    if (runtime.skipMode) {
+      const wasRead = lineRead?.nodeId === dialogueNode.id && lineRead.wasRead;
+      if (hasChoices || !wasRead) {
+        runtime.setSkipMode(false);
+        return;
+      }
+      const timer = setTimeout(() => handleChoice(), SKIP_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+    if (runtime.autoMode && typewriter.done && !hasChoices) {
+      const timer = setTimeout(() => handleChoice(), runtime.settings.autoDelayMs);
+      return () => clearTimeout(timer);
+    }
+  }, [runtime.isRunning, playbackBlocked, dialogueNode, lineKey, lineRead, runtime.skipMode, runtime.autoMode, typewriter.done, runtime.settings.autoDelayMs, runtime.party]);
+
+  const effects = useEffectRenderer();
+
   if (!runtime.isRunning) return null;
 
   // -- Render Helpers --
 
   const currentNode = runtime.currentNode;
   const scene = runtime.currentScene;
+  const globalStats = story.attributes.filter(a => a.type === 'number' && a.scope !== 'character');
+  const characterStats = story.attributes.filter(a => a.scope === 'character');
   const isLocation = !!scene;
   const isDialogue = currentNode?.type === NodeType.DIALOGUE;
   const isVote = currentNode?.type === NodeType.VOTE;
@@ -86,42 +594,228 @@ const GameOverlay: React.FC = () => {
   // Find background image (persist last known location image if in dialogue)
   const bgImage = scene?.backgroundImage || runtime.lastLocationBackground || '';
 
-  const handleChoice = (choiceId?: string) => {
-    const next = EngineInstance.advance(choiceId);
-    if (!next) {
-      // 没有后续节点：保持场景背景，关闭前景对话
-      runtime.setCurrentNode(null);
-    }
+  const party = runtime.party;
+  const activePlayer = party?.players.find(p => p.id === party.activePlayerId) || null;
+  const characterName = (characterId: string) => story.characters.find(c => c.id === characterId)?.name || characterId;
+  // 派对模式下当前持有设备的玩家看不到的私密对话，需要先把设备交给可见的玩家
+  const privateGate = isDialogue && activePlayer && !Party.canSeeNode(activePlayer.id, currentNode!)
+    ? Party.getAudience(currentNode!)
+    : null;
+  // 共享背包 + 角色私人背包；派对模式下只显示当前玩家自己的私人背包
+  const inventoryBags = [
+    { ownerId: undefined as string | undefined, label: '共享背包 (Shared)', items: runtime.inventory, canGive: !activePlayer },
+    ...story.characters
+      .filter(c => activePlayer
+        ? c.id === activePlayer.characterId
+        : Object.keys(runtime.characterInventories[c.id] || {}).length > 0)
+      .map(c => ({ ownerId: c.id as string | undefined, label: c.name, items: runtime.characterInventories[c.id] || {}, canGive: true }))
+  ];
+  const visibleClues = story.clues.filter(clue => activePlayer
+    ? Party.canSeeClue(activePlayer.id, clue.id)
+    : runtime.clues[clue.id]?.revealed);
+  // 任务日志：进行中的排在前面，未开始的任务不显示
+  const QUEST_ORDER = { active: 0, completed: 1, failed: 2 } as Record<string, number>;
+  const journalQuests = (story.quests || [])
+    .filter(q => runtime.quests[q.id] && runtime.quests[q.id].status !== 'inactive')
+    .sort((a, b) => QUEST_ORDER[runtime.quests[a.id].status] - QUEST_ORDER[runtime.quests[b.id].status]);
+
+  const handleVote = (optionId: string) => {
+      if (!activePlayer) {
+          EngineInstance.castVote(optionId);
+          return;
+      }
+      Party.castVote(activePlayer.id, optionId);
+      // 每位玩家一票：投完后把设备交给下一位尚未投票的玩家
+      const vote = useRuntimeStore.getState().activeVote;
+      if (!vote) return;
+      const next = Party.getNextPlayer(Object.keys(vote.ballots));
+      if (next) Party.passTo(next.id);
+  };
+
+  const handleGiveItem = (itemId: string, fromOwnerId: string | undefined, target: string) => {
+      const toOwnerId = target === 'shared' ? undefined : target;
+      const item = story.items.find(i => i.id === itemId);
+      if (EngineInstance.variableStore.transferItem(itemId, 1, fromOwnerId, toOwnerId)) {
+          runtime.showToast(`交出了 ${item?.name || '物品'} → ${toOwnerId ? characterName(toOwnerId) : '共享背包'}`);
+      } else {
+          runtime.showToast("无法转交 (Cannot give)");
+      }
+  };
+
+  const handleJoinParty = (characterId: string) => {
+      if (!Party.isActive()) Party.start(story);
+      if (!Party.join(partyNames[characterId] || '', characterId)) {
+          runtime.showToast("无法认领该角色 (Character unavailable)");
+      }
+  };
+
+  const handlePassDevice = (playerId?: string) => {
+      const target = playerId || Party.getNextPlayer()?.id;
+      if (target) Party.passTo(target);
   };
 
   const handleHotspotClick = (hotspotId: string) => {
+      if (heldItem) {
+          handleUseItem(hotspotId, heldItem);
+          return;
+      }
       EngineInstance.triggerEvent('onClick', hotspotId);
   };
 
+  // 悬停 / 查看只在场景为该热点配置了事件时触发，避免鼠标划过时产生噪音
+  const hasHotspotEvent = (trigger: string, hotspotId: string) =>
+      (scene?.events || []).some(e => e.trigger === trigger && e.targetId === hotspotId);
+
+  const handleHotspotHover = (hotspotId: string) => {
+      if (hasHotspotEvent('onHover', hotspotId)) EngineInstance.triggerEvent('onHover', hotspotId);
+  };
+
+  const handleHotspotExamine = (e: React.MouseEvent, hotspotId: string) => {
+      e.preventDefault();
+      if (hasHotspotEvent('onExamine', hotspotId)) EngineInstance.triggerEvent('onExamine', hotspotId);
+  };
+
+  const handleUseItem = async (hotspotId: string, held: HeldItem) => {
+      setHeldItem(null);
+      const handled = await EngineInstance.useItemOnHotspot(hotspotId, held.itemId, held.ownerId);
+      if (!handled) runtime.showToast("没有效果 (Nothing happens)");
+  };
+
+  const handleItemDragStart = (e: React.DragEvent, held: HeldItem) => {
+      e.dataTransfer.setData(ITEM_DRAG_TYPE, JSON.stringify(held));
+      e.dataTransfer.effectAllowed = 'move';
+      // 背包面板变为可穿透，物品才能拖到下方的热点上
+      setIsDraggingItem(true);
+  };
+
+  const handleHotspotDrop = (e: React.DragEvent, hotspotId: string) => {
+      const data = e.dataTransfer.getData(ITEM_DRAG_TYPE);
+      if (!data) return;
+      e.preventDefault();
+      setIsDraggingItem(false);
+      if (runtime.showInventory) runtime.toggleInventory();
+      handleUseItem(hotspotId, JSON.parse(data));
+  };
+
+  const handleCraft = (itemId: string) => {
+      const item = story.items.find(i => i.id === itemId);
+      if (EngineInstance.crafting.craft(itemId)) {
+          runtime.showToast(`合成了 ${item?.name || '物品'}`);
+      } else {
+          runtime.showToast("无法合成 (Cannot craft)");
+      }
+  };
+
+  const handleBuy = (shopId: string, itemId: string) => {
+      const itemDef = story.items.find(i => i.id === itemId);
+      const check = EngineInstance.shops.canBuy(shopId, itemId);
+      if (!check.ok) {
+          runtime.showToast(
+              check.reason === 'out_of_stock' ? "已售罄 (Sold out)" :
+              check.reason === 'already_owned' ? "已拥有 (Already owned)" :
+              "资金不足 (Not enough currency)"
+          );
+          return;
+      }
+      EngineInstance.shops.buy(shopId, itemId);
+      runtime.showToast(`购买了 ${itemDef?.name || '物品'}`);
+  };
+
+  const handleSell = (shopId: string, itemId: string) => {
+      const itemDef = story.items.find(i => i.id === itemId);
+      if (EngineInstance.shops.sell(shopId, itemId)) {
+          runtime.showToast(`出售了 ${itemDef?.name || '物品'}`);
+      }
+  };
+
+  // -- Save Slots --
+
+  const refreshSaveSlots = () => setSaveSlots(SaveSlots.listSlots(story.id));
+
+  const openSaveMenu = () => {
+      refreshSaveSlots();
+      runtime.toggleSaveMenu();
+  };
+
+  const handleSave = (slot: string) => {
+      const name = slot.trim();
+      if (!name) return;
+      const data = EngineInstance.serialize();
+      if (!data) return;
+      SaveSlots.save(name, data, currentNode?.name || scene?.name);
+      setNewSlotName('');
+      refreshSaveSlots();
+      runtime.showToast(`已存档: ${name}`);
+  };
+
+  const handleLoad = (slot: string) => {
+      const data = SaveSlots.load(story.id, slot);
+      if (!data || !EngineInstance.restore(data)) {
+          runtime.showToast("读档失败 (Load failed)");
+          return;
+      }
+      runtime.toggleSaveMenu();
+      runtime.showToast(`已读档: ${slot}`);
+  };
+
+  // 点击对话框：正在打字时先显示整句，否则前进
+  const handleDialogueClick = () => {
+      if (!typewriter.done) {
+          typewriter.complete();
+          return;
+      }
+      if (!dialogueNode?.choices?.length) handleChoice();
+  };
+
+  const handleRewind = (entryId: string) => {
+      const entry = runtime.history.find(e => e.id === entryId);
+      if (!entry?.save || !EngineInstance.restore(entry.save)) {
+          runtime.showToast("无法回到这一句 (Rewind failed)");
+          return;
+      }
+      runtime.rewindHistory(entryId);
+      runtime.setAutoMode(false);
+      runtime.setSkipMode(false);
+      runtime.toggleBacklog();
+  };
+
+  const handleDeleteSave = (slot: string) => {
+      SaveSlots.remove(story.id, slot);
+      refreshSaveSlots();
+  };
+
   return (
-    <div className="absolute inset-0 z-50 bg-black font-sans text-white overflow-hidden select-none">
+    <div
+      className={`absolute inset-0 z-50 bg-black font-sans text-white overflow-hidden select-none ${effects.shake ? 'nf-fx-shake' : ''}`}
+      style={effects.shake ? { '--nf-shake': SHAKE_AMPLITUDE[effects.shake.intensity] } as React.CSSProperties : undefined}
+    >
       
-      {/* 1. Background Layer */}
-      <div className="absolute inset-0 bg-zinc-900">
-        {bgImage && <img src={bgImage} className="w-full h-full object-cover opacity-80" alt="background" />}
+      {/* 1. Background + Stage, filtered together */}
+      <div
+        className="absolute inset-0"
+        style={{ filter: effects.filter.css, transition: `filter ${effects.filter.durationMs}ms ${effects.filter.easing}` }}
+      >
+        <BackgroundLayer image={bgImage} transition={effects.transition} />
         <div className="absolute inset-0 bg-gradient-to-b from-black/60 via-transparent to-black/90 pointer-events-none" />
+
+        {/* 1b. Stage Layer (Character Sprites) */}
+        <StageLayer characters={story.characters} speakerId={dialogueNode?.characterId} />
       </div>
 
       {/* 2. HUD Layer */}
       <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-start pointer-events-none">
+         <div className="flex flex-col gap-2 pointer-events-auto">
          {/* Attributes Bar */}
-         <div className="flex gap-4 pointer-events-auto">
-            {story.attributes.filter(a => a.type === 'number').map(attr => {
+         <div className="flex gap-4">
+            {(story.clockStart || runtime.clock > 0) && (
+                <div className="bg-black/60 backdrop-blur-md rounded-lg p-2 border border-white/10 flex items-center gap-1.5 text-xs font-mono text-cyan-300">
+                    <Clock className="w-3 h-3" /> {formatClockTime(runtime.clock)}
+                </div>
+            )}
+            {globalStats.map(attr => {
                 const val = runtime.attributes[attr.id] ?? attr.defaultValue;
                 const percent = attr.max ? (val / attr.max) * 100 : 100;
-                
-                // Icon mapping (simple heuristic)
-                let Icon = Coins;
-                let color = "text-yellow-400";
-                let barColor = "bg-yellow-500";
-                
-                if (attr.key.includes('hp') || attr.key.includes('health')) { Icon = Heart; color = "text-red-400"; barColor = "bg-red-500"; }
-                if (attr.key.includes('sanity') || attr.key.includes('mana')) { Icon = Brain; color = "text-blue-400"; barColor = "bg-blue-500"; }
+                const { Icon, color, barColor } = attributeStyle(attr.key);
 
                 return (
                     <div key={attr.id} className="bg-black/60 backdrop-blur-md rounded-lg p-2 border border-white/10 flex flex-col gap-1 min-w-[100px]">
@@ -141,14 +835,112 @@ const GameOverlay: React.FC = () => {
             })}
          </div>
 
+         {/* Character Stat Sheets */}
+         {characterStats.length > 0 && (
+            <div className="flex gap-2">
+                {story.characters.map(char => (
+                    <div key={char.id} className="bg-black/60 backdrop-blur-md rounded-lg p-2 border border-white/10 flex flex-col gap-1 min-w-[120px]">
+                        <div className="flex items-center gap-1.5 text-xs font-bold text-zinc-200 mb-0.5">
+                            {char.avatarUrl
+                                ? <img src={char.avatarUrl} className="w-4 h-4 rounded-full object-cover" alt={char.name} />
+                                : <User className="w-3 h-3" />}
+                            {char.name}
+                        </div>
+                        {characterStats.map(attr => {
+                            const val = runtime.characterAttributes[char.id]?.[attr.id] ?? char.attributeDefaults?.[attr.id] ?? attr.defaultValue;
+                            const { Icon, color, barColor } = attributeStyle(attr.key);
+                            return (
+                                <div key={attr.id} className="flex flex-col gap-0.5">
+                                    <div className="flex justify-between items-center text-[10px]">
+                                        <span className={`flex items-center gap-1 ${color}`}><Icon className="w-2.5 h-2.5" /> {attr.name}</span>
+                                        <span className="font-mono">{String(val)}</span>
+                                    </div>
+                                    {attr.type === 'number' && attr.max && (
+                                        <div className="w-full h-1 bg-gray-700 rounded-full overflow-hidden">
+                                            <div className={`h-full ${barColor} transition-all duration-500`} style={{ width: `${(Number(val) / attr.max) * 100}%` }} />
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+         )}
+
+         {/* Party Turn Indicator */}
+         {activePlayer && (
+            <div className="flex items-center gap-2 bg-black/60 backdrop-blur-md rounded-lg px-3 py-1.5 border border-emerald-500/30 text-xs self-start">
+                <Users className="w-3 h-3 text-emerald-400" />
+                <span className="text-zinc-400">当前玩家</span>
+                <span className="font-bold text-emerald-300">{activePlayer.name}</span>
+                <span className="text-zinc-500">({characterName(activePlayer.characterId)})</span>
+                {party!.players.length > 1 && (
+                    <button
+                        onClick={() => handlePassDevice()}
+                        className="ml-2 px-2 py-0.5 rounded bg-emerald-700/60 hover:bg-emerald-600 text-[10px] font-bold transition-colors"
+                    >
+                        传递设备 (Pass)
+                    </button>
+                )}
+            </div>
+         )}
+         </div>
+
          {/* System Menu */}
          <div className="flex gap-2 pointer-events-auto">
+            <button 
+                onClick={runtime.togglePartySetup}
+                className="p-2 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors"
+                title="派对模式 (Party)"
+            >
+                <Users className="w-5 h-5 text-emerald-400" />
+            </button>
+            <button 
+                onClick={runtime.toggleJournal}
+                className="p-2 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors relative"
+                title="任务日志 (Journal)"
+            >
+                <Flag className="w-5 h-5 text-lime-400" />
+                {journalQuests.some(q => runtime.quests[q.id].status === 'active') && (
+                    <span className="absolute top-0 right-0 w-2.5 h-2.5 bg-lime-500 rounded-full border border-black"></span>
+                )}
+            </button>
+            {locales.length > 1 && (
+                <label
+                    className="flex items-center gap-1 pl-2 pr-1 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors"
+                    title="语言 (Language)"
+                >
+                    <Languages className="w-5 h-5 text-cyan-400" />
+                    <select
+                        value={runtime.settings.locale || locales[0]}
+                        onChange={(e) => runtime.updateSettings({ locale: e.target.value === locales[0] ? null : e.target.value })}
+                        className="bg-transparent text-xs text-zinc-200 focus:outline-none py-2"
+                    >
+                        {locales.map(locale => <option key={locale} value={locale} className="bg-zinc-900">{locale}</option>)}
+                    </select>
+                </label>
+            )}
+            <button 
+                onClick={() => setShowMixer(true)}
+                className="p-2 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors"
+                title="音量 (Volume)"
+            >
+                <Volume2 className="w-5 h-5 text-pink-400" />
+            </button>
+            <button 
+                onClick={openSaveMenu}
+                className="p-2 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors"
+                title="存档 / 读档"
+            >
+                <Save className="w-5 h-5 text-sky-400" />
+            </button>
             <button 
                 onClick={runtime.toggleInventory}
                 className="p-2 bg-black/60 backdrop-blur hover:bg-white/20 rounded-full border border-white/10 transition-colors relative"
             >
                 <Package className="w-5 h-5 text-amber-400" />
-                {Object.keys(runtime.inventory).length > 0 && (
+                {inventoryBags.some(bag => Object.keys(bag.items).length > 0) && (
                     <span className="absolute top-0 right-0 w-2.5 h-2.5 bg-red-500 rounded-full border border-black"></span>
                 )}
             </button>
@@ -164,11 +956,15 @@ const GameOverlay: React.FC = () => {
       {/* 3. Scene Interaction Layer (Hotspots) */}
       {scene && (
           <div className="absolute inset-0 pointer-events-none">
-              {scene.hotspots?.map(hs => (
+              {scene.hotspots?.filter(hs => EngineInstance.isHotspotVisible(hs)).map(hs => (
                   <div 
                     key={hs.id}
                     onClick={() => handleHotspotClick(hs.id)}
-                    className="absolute cursor-pointer pointer-events-auto group"
+                    onMouseEnter={() => handleHotspotHover(hs.id)}
+                    onContextMenu={(e) => handleHotspotExamine(e, hs.id)}
+                    onDragOver={(e) => { if (e.dataTransfer.types.includes(ITEM_DRAG_TYPE)) e.preventDefault(); }}
+                    onDrop={(e) => handleHotspotDrop(e, hs.id)}
+                    className={`absolute pointer-events-auto group ${heldItem ? 'cursor-crosshair' : 'cursor-pointer'}`}
                     style={{
                         left: `${hs.rect.x}%`,
                         top: `${hs.rect.y}%`,
@@ -185,6 +981,15 @@ const GameOverlay: React.FC = () => {
           </div>
       )}
 
+      {/* Held Item Banner */}
+      {heldItem && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-black/80 border border-amber-500/40 rounded-full px-4 py-1.5 text-xs text-amber-200 flex items-center gap-2 pointer-events-auto">
+              <Hand className="w-3 h-3" />
+              使用 {story.items.find(i => i.id === heldItem.itemId)?.name || heldItem.itemId}：点击一个热点
+              <button onClick={() => setHeldItem(null)} className="text-zinc-400 hover:text-white"><X className="w-3 h-3" /></button>
+          </div>
+      )}
+
       {/* 4. Dialogue / Vote / Interaction Layer */}
       <div className="absolute bottom-0 left-0 right-0 p-6 flex flex-col items-center justify-end pointer-events-none">
          
@@ -197,38 +1002,78 @@ const GameOverlay: React.FC = () => {
             ))}
          </div>
 
+         {/* Private Dialogue Gate */}
+         {privateGate && (
+             <div className="w-full max-w-xl bg-black/85 backdrop-blur-md border border-emerald-500/30 rounded-xl p-6 pointer-events-auto text-center animate-in fade-in duration-300">
+                 <Lock className="w-6 h-6 text-emerald-400 mx-auto mb-2" />
+                 {privateGate.length > 0 ? (
+                     <>
+                         <div className="text-sm text-zinc-300 mb-4">私密对话，请将设备交给:</div>
+                         <div className="flex flex-wrap gap-2 justify-center">
+                             {privateGate.map(player => (
+                                 <button
+                                     key={player.id}
+                                     onClick={() => handlePassDevice(player.id)}
+                                     className="px-4 py-2 bg-emerald-700/70 hover:bg-emerald-600 rounded-lg text-sm font-semibold transition-colors"
+                                 >
+                                     {player.name} ({characterName(player.characterId)})
+                                 </button>
+                             ))}
+                         </div>
+                     </>
+                 ) : (
+                     <>
+                         <div className="text-sm text-zinc-300 mb-4">这段私密对话不属于任何在场玩家。</div>
+                         <button onClick={() => handleChoice()} className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-sm transition-colors">
+                             跳过 (Skip)
+                         </button>
+                     </>
+                 )}
+             </div>
+         )}
+
          {/* Dialogue Box */}
-         {isDialogue && (
+         {isDialogue && !privateGate && (
              <div
                className="w-full max-w-3xl bg-black/80 backdrop-blur-md border border-white/10 rounded-xl p-6 pointer-events-auto animate-in slide-in-from-bottom-10 fade-in duration-300"
-               onClick={() => {
-                 // If no choices, clicking对话区域也前进
-                 if (!(currentNode as DialogueNode).choices?.length) {
-                   handleChoice();
-                 }
-               }}
+               onClick={handleDialogueClick}
              >
                  {/* Speaker */}
                  <div className="text-amber-400 font-bold text-lg mb-2 flex items-center gap-2">
                     <User className="w-4 h-4" />
                     {story.characters.find(c => c.id === (currentNode as DialogueNode).characterId)?.name || '???'}
+                    {!!(currentNode as DialogueNode).visibleTo?.length && (
+                        <span className="ml-auto flex items-center gap-1 text-[10px] font-normal text-emerald-400"><Lock className="w-3 h-3" /> 私密</span>
+                    )}
                  </div>
                  
                  {/* Text */}
-                 <div className="text-zinc-100 text-base leading-relaxed min-h-[60px]">
-                    {(currentNode as DialogueNode).text}
+                 <div className="text-zinc-100 text-base leading-relaxed min-h-[60px] whitespace-pre-wrap">
+                    {dialogueText && <RichTextView text={dialogueText} visibleChars={typewriter.shown} />}
                  </div>
 
-                 {/* Choices */}
-                 {(currentNode as DialogueNode).choices?.length > 0 ? (
+                 {/* Choices (shown once the line is fully revealed) */}
+                 {!typewriter.done ? null : (currentNode as DialogueNode).choices?.length > 0 ? (
                      <div className="flex flex-wrap gap-3 mt-6 justify-end">
-                        {(currentNode as DialogueNode).choices.map(choice => (
+                        {(choiceStates?.nodeId === currentNode!.id ? choiceStates.states : [])
+                            .filter(state => state.visible)
+                            .map(({ choice, enabled, reason }) => enabled ? (
                             <button 
                                 key={choice.id}
                                 onClick={(e) => { e.stopPropagation(); handleChoice(choice.id); }}
                                 className="px-5 py-2 bg-indigo-600/80 hover:bg-indigo-500 text-white rounded-lg border border-indigo-400/30 transition-all transform hover:scale-105 active:scale-95 text-sm font-semibold"
                             >
-                                {choice.text}
+                                {EngineInstance.renderText(choice.text).plain}
+                            </button>
+                        ) : (
+                            <button
+                                key={choice.id}
+                                disabled
+                                title={reason}
+                                className="px-5 py-2 bg-zinc-800/80 text-zinc-500 rounded-lg border border-zinc-700 text-sm font-semibold cursor-not-allowed flex flex-col items-end"
+                            >
+                                <span className="flex items-center gap-1.5"><Lock className="w-3 h-3" /> {EngineInstance.renderText(choice.text).plain}</span>
+                                {reason && <span className="text-[10px] font-normal text-zinc-500">{reason}</span>}
                             </button>
                         ))}
                      </div>
@@ -240,68 +1085,316 @@ const GameOverlay: React.FC = () => {
                         </button>
                      </div>
                  )}
+
+                 {/* Playback Controls */}
+                 <div className="flex items-center gap-2 mt-4 pt-3 border-t border-white/5 text-[10px] text-zinc-500" onClick={(e) => e.stopPropagation()}>
+                    <button
+                        onClick={() => runtime.setAutoMode(!runtime.autoMode)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded transition-colors ${runtime.autoMode ? 'bg-indigo-600/60 text-white' : 'hover:bg-white/10'}`}
+                        title="自动播放 (Auto)"
+                    >
+                        <PlayCircle className="w-3 h-3" /> 自动
+                    </button>
+                    <button
+                        onClick={() => runtime.setSkipMode(!runtime.skipMode)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded transition-colors ${runtime.skipMode ? 'bg-indigo-600/60 text-white' : 'hover:bg-white/10'}`}
+                        title="跳过已读 (Skip read)"
+                    >
+                        <FastForward className="w-3 h-3" /> 跳过
+                    </button>
+                    <button
+                        onClick={runtime.toggleBacklog}
+                        className="flex items-center gap-1 px-2 py-1 rounded hover:bg-white/10 transition-colors"
+                        title="回想 (Backlog)"
+                    >
+                        <ScrollText className="w-3 h-3" /> 回想
+                    </button>
+                    <label className="ml-auto flex items-center gap-1">
+                        文字速度
+                        <select
+                            value={runtime.settings.textSpeed}
+                            onChange={(e) => runtime.updateSettings({ textSpeed: Number(e.target.value) })}
+                            className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-zinc-300"
+                        >
+                            {TEXT_SPEEDS.map(speed => <option key={speed.value} value={speed.value}>{speed.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        自动间隔
+                        <select
+                            value={runtime.settings.autoDelayMs}
+                            onChange={(e) => runtime.updateSettings({ autoDelayMs: Number(e.target.value) })}
+                            className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-zinc-300"
+                        >
+                            {AUTO_DELAYS.map(delay => <option key={delay.value} value={delay.value}>{delay.label}</option>)}
+                        </select>
+                    </label>
+                 </div>
              </div>
          )}
 
          {/* Vote UI */}
-         {isVote && (
+         {isVote && (() => {
+             const config = (currentNode as VoteNode).voteConfig;
+             const vote = runtime.activeVote?.nodeId === currentNode!.id ? runtime.activeVote : null;
+             const totalBallots = vote ? Object.values(vote.tally).reduce((sum, n) => sum + n, 0) : 0;
+             const remainingMs = vote?.endsAt ? Math.max(0, vote.endsAt - now) : null;
+             return (
              <div className="w-full max-w-2xl pointer-events-auto animate-in zoom-in-95 fade-in duration-300">
                  <div className="bg-violet-900/90 backdrop-blur-xl border border-violet-500/30 rounded-2xl p-8 text-center shadow-2xl shadow-violet-900/50">
-                     <h2 className="text-2xl font-bold text-white mb-6">{(currentNode as VoteNode).voteConfig.title}</h2>
+                     <h2 className="text-2xl font-bold text-white mb-6">{config.title}</h2>
+                     {activePlayer && vote && (
+                         <div className="-mt-4 mb-6 text-xs text-violet-200">
+                             {activePlayer.name} 投票中 · 已投 {Object.keys(vote.ballots).length}/{party!.players.length}
+                         </div>
+                     )}
                      
                      <div className="grid grid-cols-1 gap-4">
-                        {(currentNode as VoteNode).voteConfig.options.map(opt => (
+                        {config.options.map(opt => {
+                            const count = vote?.tally[opt.id] || 0;
+                            const selected = activePlayer
+                                ? vote?.ballots[activePlayer.id] === opt.id
+                                : vote?.myOptionId === opt.id;
+                            return (
                             <button 
                                 key={opt.id}
-                                onClick={() => handleChoice(opt.id)}
-                                className="p-4 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-violet-400 rounded-xl text-lg font-medium transition-all flex justify-between items-center group"
+                                onClick={() => handleVote(opt.id)}
+                                disabled={!vote}
+                                className={`relative overflow-hidden p-4 bg-white/5 hover:bg-white/10 border rounded-xl text-lg font-medium transition-all flex justify-between items-center group disabled:opacity-50 ${selected ? 'border-violet-300' : 'border-white/10 hover:border-violet-400'}`}
                             >
-                                <span>{opt.text}</span>
-                                <ArrowRight className="w-5 h-5 opacity-0 group-hover:opacity-100 -translate-x-2 group-hover:translate-x-0 transition-all" />
+                                <div className="absolute inset-y-0 left-0 bg-violet-500/20 transition-all" style={{ width: totalBallots ? `${(count / totalBallots) * 100}%` : 0 }} />
+                                <span className="relative">{opt.text}</span>
+                                <span className="relative flex items-center gap-2">
+                                    {count > 0 && <span className="text-xs font-mono text-violet-200">{count}</span>}
+                                    <ArrowRight className="w-5 h-5 opacity-0 group-hover:opacity-100 -translate-x-2 group-hover:translate-x-0 transition-all" />
+                                </span>
                             </button>
-                        ))}
+                            );
+                        })}
                      </div>
                      
-                     <div className="mt-6 w-full bg-black/30 h-1.5 rounded-full overflow-hidden">
-                         <div className="h-full bg-violet-400 w-full animate-[shrink_15s_linear_forwards]" style={{ animationDuration: `${(currentNode as VoteNode).voteConfig.duration}s` }} />
-                     </div>
+                     {remainingMs !== null && (
+                         <div className="mt-6">
+                             <div className="w-full bg-black/30 h-1.5 rounded-full overflow-hidden">
+                                 <div className="h-full bg-violet-400 transition-all duration-200" style={{ width: `${config.duration > 0 ? (remainingMs / (config.duration * 1000)) * 100 : 0}%` }} />
+                             </div>
+                             <div className="mt-2 text-xs font-mono text-violet-200">{Math.ceil(remainingMs / 1000)}s</div>
+                         </div>
+                     )}
                  </div>
              </div>
-         )}
+             );
+         })()}
       </div>
 
+      {/* 4b. Flash */}
+      {effects.flash && (
+          <div
+            key={effects.flash.key}
+            className="absolute inset-0 pointer-events-none"
+            style={{
+              backgroundColor: effects.flash.color,
+              animation: `nf-fx-flash ${effects.flash.durationMs}ms ${effects.flash.easing} both`
+            }}
+          />
+      )}
+
       {/* 5. Inventory Modal */}
       {runtime.showInventory && (
-          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+          <div className={`absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200 ${isDraggingItem ? 'pointer-events-none opacity-30' : ''}`}>
               <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl">
                   <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
                       <h3 className="text-lg font-bold flex items-center gap-2"><Package className="w-5 h-5 text-amber-500" /> 背包 (Inventory)</h3>
                       <button onClick={runtime.toggleInventory} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
                   </div>
-                  <div className="p-6 grid grid-cols-4 gap-4 overflow-y-auto">
-                      {Object.entries(runtime.inventory).map(([itemId, count]) => {
-                          const item = story.items.find(i => i.id === itemId);
-                          if (!item) return null;
+                  <div className="p-6 space-y-5 overflow-y-auto">
+                      {inventoryBags.map(bag => (
+                          <div key={bag.ownerId || 'shared'}>
+                              <h4 className="text-xs font-bold text-zinc-400 mb-2 flex items-center gap-1.5">
+                                  {bag.ownerId ? <User className="w-3 h-3" /> : <Package className="w-3 h-3" />} {bag.label}
+                              </h4>
+                              <div className="grid grid-cols-4 gap-4">
+                                  {Object.entries(bag.items).map(([itemId, count]) => {
+                                      const item = story.items.find(i => i.id === itemId);
+                                      if (!item) return null;
+                                      return (
+                                          <div 
+                                              key={itemId}
+                                              draggable={!!scene}
+                                              onDragStart={(e) => handleItemDragStart(e, { itemId, ownerId: bag.ownerId })}
+                                              onDragEnd={() => setIsDraggingItem(false)}
+                                              className="bg-black/40 border border-zinc-700 rounded-lg p-3 flex flex-col items-center gap-2 hover:border-amber-500/50 transition-colors"
+                                          >
+                                              <div className="w-12 h-12 bg-zinc-800 rounded flex items-center justify-center text-2xl">
+                                                  {item.icon ? <img src={item.icon} className="w-full h-full object-cover rounded" alt={item.name} /> : '📦'}
+                                              </div>
+                                              <div className="text-center w-full">
+                                                  <div className="text-xs font-bold text-zinc-300 truncate w-full">{item.name}</div>
+                                                  <div className="text-[10px] text-zinc-500">Qty: {count}</div>
+                                              </div>
+                                              {scene && (
+                                                  <button
+                                                      onClick={() => {
+                                                          setHeldItem({ itemId, ownerId: bag.ownerId });
+                                                          runtime.toggleInventory();
+                                                      }}
+                                                      className="w-full bg-amber-900/30 hover:bg-amber-800/50 border border-amber-500/30 rounded px-1 py-0.5 text-[10px] text-amber-300 flex items-center justify-center gap-1"
+                                                  >
+                                                      <Hand className="w-3 h-3" /> 使用 (Use)
+                                                  </button>
+                                              )}
+                                              {bag.canGive && (
+                                                  <select
+                                                      value=""
+                                                      onChange={(e) => handleGiveItem(itemId, bag.ownerId, e.target.value)}
+                                                      className="w-full bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 focus:outline-none"
+                                                  >
+                                                      <option value="" disabled>交给... (Give)</option>
+                                                      {bag.ownerId && <option value="shared">共享背包</option>}
+                                                      {story.characters.filter(c => c.id !== bag.ownerId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                                  </select>
+                                              )}
+                                          </div>
+                                      );
+                                  })}
+                                  {Object.keys(bag.items).length === 0 && (
+                                      <div className="col-span-4 text-center text-zinc-500 py-6 italic">背包空空如也...</div>
+                                  )}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+                  {visibleClues.length > 0 && (
+                      <div className="px-6 pb-6 space-y-2 overflow-y-auto">
+                          <h4 className="text-xs font-bold text-zinc-400 flex items-center gap-1.5"><Search className="w-3 h-3" /> 线索 (Clues)</h4>
+                          {visibleClues.map(clue => (
+                              <div key={clue.id} className="bg-black/40 border border-zinc-700 rounded-lg p-3">
+                                  <div className="text-xs font-bold text-zinc-200">{clue.name}</div>
+                                  <div className="text-[10px] text-zinc-500 mt-0.5">{clue.description}</div>
+                              </div>
+                          ))}
+                      </div>
+                  )}
+              </div>
+          </div>
+      )}
+
+      {/* 5b. Quest Journal */}
+      {runtime.showJournal && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <h3 className="text-lg font-bold flex items-center gap-2"><Flag className="w-5 h-5 text-lime-500" /> 任务日志 (Journal)</h3>
+                      <button onClick={runtime.toggleJournal} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-6 space-y-3 overflow-y-auto">
+                      {journalQuests.map(quest => {
+                          const progress = runtime.quests[quest.id];
+                          const stage = quest.stages[progress.stageIndex];
                           return (
-                              <div key={itemId} className="bg-black/40 border border-zinc-700 rounded-lg p-3 flex flex-col items-center gap-2 hover:border-amber-500/50 transition-colors">
-                                  <div className="w-12 h-12 bg-zinc-800 rounded flex items-center justify-center text-2xl">
-                                      {item.icon ? <img src={item.icon} className="w-full h-full object-cover rounded" alt={item.name} /> : '📦'}
-                                  </div>
-                                  <div className="text-center">
-                                      <div className="text-xs font-bold text-zinc-300 truncate w-full">{item.name}</div>
-                                      <div className="text-[10px] text-zinc-500">Qty: {count}</div>
+                              <div key={quest.id} className={`bg-black/40 border rounded-lg p-4 ${progress.status === 'active' ? 'border-lime-500/40' : 'border-zinc-800 opacity-60'}`}>
+                                  <div className="flex justify-between items-center">
+                                      <div className="text-sm font-bold text-zinc-200">{quest.name}</div>
+                                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${
+                                          progress.status === 'active' ? 'bg-lime-900/40 text-lime-400' :
+                                          progress.status === 'completed' ? 'bg-sky-900/40 text-sky-400' : 'bg-red-900/40 text-red-400'
+                                      }`}>
+                                          {progress.status === 'active' ? '进行中' : progress.status === 'completed' ? '已完成' : '已失败'}
+                                      </span>
                                   </div>
+                                  <div className="text-[10px] text-zinc-500 mt-1">{quest.description}</div>
+                                  {progress.status === 'active' && stage && (
+                                      <div className="mt-3 space-y-1">
+                                          <div className="text-[10px] font-bold text-zinc-400">{stage.name}</div>
+                                          {stage.objectives.map(obj => {
+                                              const done = progress.completedObjectives.includes(obj.id);
+                                              return (
+                                                  <div key={obj.id} className={`flex items-center gap-2 text-xs ${done ? 'text-zinc-500 line-through' : 'text-zinc-300'}`}>
+                                                      {done ? <CheckCircle className="w-3 h-3 text-lime-500" /> : <Circle className="w-3 h-3 text-zinc-600" />}
+                                                      {obj.description}
+                                                      {obj.optional && <span className="text-[10px] text-zinc-600 no-underline">(可选)</span>}
+                                                  </div>
+                                              );
+                                          })}
+                                      </div>
+                                  )}
                               </div>
                           );
                       })}
-                      {Object.keys(runtime.inventory).length === 0 && (
-                          <div className="col-span-4 text-center text-zinc-500 py-10 italic">背包空空如也...</div>
+                      {journalQuests.length === 0 && (
+                          <div className="text-center text-zinc-500 py-6 italic">暂无任务...</div>
+                      )}
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* 5c. Backlog */}
+      {runtime.showBacklog && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <h3 className="text-lg font-bold flex items-center gap-2"><ScrollText className="w-5 h-5 text-indigo-400" /> 回想 (Backlog)</h3>
+                      <button onClick={runtime.toggleBacklog} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-6 space-y-2 overflow-y-auto flex flex-col-reverse">
+                      {[...runtime.history].reverse().map((entry, i) => (
+                          <div key={entry.id} className="group flex gap-3 items-start bg-black/30 border border-zinc-800 rounded-lg p-3">
+                              <div className="flex-1">
+                                  <div className="text-xs font-bold text-amber-400">{entry.speaker}</div>
+                                  <div className="text-sm text-zinc-200 whitespace-pre-wrap">{entry.text}</div>
+                              </div>
+                              {entry.save && !(i === 0 && entry.nodeId === runtime.currentNode?.id) && (
+                                  <button
+                                      onClick={() => handleRewind(entry.id)}
+                                      className="opacity-0 group-hover:opacity-100 flex items-center gap-1 px-2 py-1 rounded text-[10px] bg-indigo-600/70 hover:bg-indigo-500 text-white transition-opacity shrink-0"
+                                      title="回到这一句 (Jump back)"
+                                  >
+                                      <RotateCcw className="w-3 h-3" /> 回到此处
+                                  </button>
+                              )}
+                          </div>
+                      ))}
+                      {runtime.history.length === 0 && (
+                          <div className="text-center text-zinc-500 py-6 italic">暂无对话...</div>
                       )}
                   </div>
               </div>
           </div>
       )}
 
+      {/* 5d. Volume Mixer */}
+      {showMixer && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-sm flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <h3 className="text-lg font-bold flex items-center gap-2"><Volume2 className="w-5 h-5 text-pink-400" /> 音量 (Volume)</h3>
+                      <button onClick={() => setShowMixer(false)} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-6 space-y-4">
+                      {(['master', ...AUDIO_CHANNELS] as (AudioChannel | 'master')[]).map(channel => (
+                          <label key={channel} className="block">
+                              <div className="flex justify-between text-xs text-zinc-400 mb-1">
+                                  <span>{VOLUME_LABELS[channel]}</span>
+                                  <span className="font-mono">{Math.round(runtime.settings.volumes[channel] * 100)}%</span>
+                              </div>
+                              <input
+                                  type="range"
+                                  min={0}
+                                  max={100}
+                                  value={Math.round(runtime.settings.volumes[channel] * 100)}
+                                  onChange={(e) => runtime.updateSettings({
+                                      volumes: { ...runtime.settings.volumes, [channel]: Number(e.target.value) / 100 }
+                                  })}
+                                  className="w-full accent-pink-500"
+                              />
+                          </label>
+                      ))}
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* 6. Shop Modal */}
       {runtime.activeShopId && (
           <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
@@ -322,18 +1415,11 @@ const GameOverlay: React.FC = () => {
                           <div className="p-6 grid grid-cols-1 gap-3 overflow-y-auto">
                               {shop.inventory.map((shopItem) => {
                                   const itemDef = story.items.find(i => i.id === shopItem.itemId);
-                                  const playerMoney = runtime.attributes[shopItem.currencyAttributeId] ?? 0;
-                                  const canAfford = playerMoney >= shopItem.price;
-                                  
-                                  const buy = () => {
-                                      if (!canAfford) {
-                                          runtime.showToast("资金不足 (Not enough currency)");
-                                          return;
-                                      }
-                                      EngineInstance.variableStore.modifyAttribute(shopItem.currencyAttributeId, 'sub', shopItem.price);
-                                      EngineInstance.variableStore.addItem(shopItem.itemId, 1);
-                                      runtime.showToast(`购买了 ${itemDef?.name || '物品'}`);
-                                  };
+                                  // runtime.attributes / inventory changes re-render; stock is owned by the engine
+                                  const canBuy = EngineInstance.shops.canBuy(shop.id, shopItem.itemId).ok;
+                                  const canSell = EngineInstance.shops.canSell(shop.id, shopItem.itemId).ok;
+                                  const stock = EngineInstance.shops.getStock(shop.id, shopItem.itemId);
+                                  const sellPrice = EngineInstance.shops.getSellPrice(shop.id, shopItem.itemId);
 
                                   if (!itemDef) return null;
 
@@ -345,20 +1431,32 @@ const GameOverlay: React.FC = () => {
                                               </div>
                                               <div>
                                                   <div className="text-sm font-bold text-zinc-200">{itemDef.name}</div>
-                                                  <div className="text-xs text-zinc-500">Price: {shopItem.price}</div>
+                                                  <div className="text-xs text-zinc-500">
+                                                      Price: {shopItem.price} · {stock === null ? '库存充足' : `库存 ${stock}`}
+                                                  </div>
                                               </div>
                                           </div>
-                                          <button 
-                                              onClick={buy}
-                                              disabled={!canAfford}
-                                              className={`px-3 py-1.5 rounded text-xs font-bold transition-colors ${
-                                                  canAfford 
-                                                  ? 'bg-emerald-600 hover:bg-emerald-500 text-white' 
-                                                  : 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
-                                              }`}
-                                          >
-                                              购买
-                                          </button>
+                                          <div className="flex items-center gap-2">
+                                              {canSell && (
+                                                  <button
+                                                      onClick={() => handleSell(shop.id, shopItem.itemId)}
+                                                      className="px-3 py-1.5 rounded text-xs font-bold transition-colors bg-zinc-700 hover:bg-zinc-600 text-zinc-200"
+                                                  >
+                                                      出售 +{sellPrice}
+                                                  </button>
+                                              )}
+                                              <button 
+                                                  onClick={() => handleBuy(shop.id, shopItem.itemId)}
+                                                  disabled={!canBuy}
+                                                  className={`px-3 py-1.5 rounded text-xs font-bold transition-colors ${
+                                                      canBuy 
+                                                      ? 'bg-emerald-600 hover:bg-emerald-500 text-white' 
+                                                      : 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                                                  }`}
+                                              >
+                                                  {stock === 0 ? '售罄' : '购买'}
+                                              </button>
+                                          </div>
                                       </div>
                                   );
                               })}
@@ -372,6 +1470,145 @@ const GameOverlay: React.FC = () => {
               </div>
           </div>
       )}
+
+      {/* 7. Save Slots Modal */}
+      {runtime.showSaveMenu && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-lg max-h-[80vh] flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <h3 className="text-lg font-bold flex items-center gap-2"><Save className="w-5 h-5 text-sky-500" /> 存档 (Save / Load)</h3>
+                      <button onClick={runtime.toggleSaveMenu} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-4 border-b border-zinc-800 flex gap-2">
+                      <input
+                          value={newSlotName}
+                          onChange={(e) => setNewSlotName(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(newSlotName); }}
+                          placeholder="存档名称..."
+                          className="flex-1 bg-black/40 border border-zinc-700 rounded px-3 py-1.5 text-sm text-zinc-200 focus:outline-none focus:border-sky-500"
+                      />
+                      <button
+                          onClick={() => handleSave(newSlotName)}
+                          disabled={!newSlotName.trim()}
+                          className="px-3 py-1.5 rounded text-xs font-bold bg-sky-600 hover:bg-sky-500 text-white disabled:bg-zinc-800 disabled:text-zinc-500"
+                      >
+                          新建存档
+                      </button>
+                  </div>
+                  <div className="p-4 space-y-2 overflow-y-auto">
+                      {saveSlots.map(slot => (
+                          <div key={slot.slot} className="flex items-center justify-between bg-black/40 p-3 rounded-lg border border-zinc-800">
+                              <div className="min-w-0">
+                                  <div className="text-sm font-bold text-zinc-200 truncate">{slot.slot}</div>
+                                  <div className="text-[10px] text-zinc-500 truncate">
+                                      {new Date(slot.savedAt).toLocaleString()}{slot.label ? ` · ${slot.label}` : ''}
+                                  </div>
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0">
+                                  <button onClick={() => handleSave(slot.slot)} className="px-2 py-1 rounded text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300">覆盖</button>
+                                  <button onClick={() => handleLoad(slot.slot)} className="px-2 py-1 rounded text-xs font-bold bg-sky-600 hover:bg-sky-500 text-white">读取</button>
+                                  <button onClick={() => handleDeleteSave(slot.slot)} className="p-1 text-zinc-600 hover:text-red-400"><Trash2 className="w-3 h-3" /></button>
+                              </div>
+                          </div>
+                      ))}
+                      {saveSlots.length === 0 && (
+                          <div className="text-center text-zinc-500 py-8 italic">暂无存档</div>
+                      )}
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* 8. Crafting Modal */}
+      {runtime.showCrafting && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <h3 className="text-lg font-bold flex items-center gap-2"><Hammer className="w-5 h-5 text-amber-500" /> 合成 (Crafting)</h3>
+                      <button onClick={runtime.closeCrafting} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-6 grid grid-cols-1 gap-3 overflow-y-auto">
+                      {/* runtime.inventory / attributes drive re-render; availability comes from the engine */}
+                      {EngineInstance.crafting.getCraftable().map(item => (
+                          <div key={item.id} className="flex items-center justify-between bg-black/40 p-3 rounded-lg border border-zinc-800">
+                              <div className="flex items-center gap-3 min-w-0">
+                                  <div className="w-10 h-10 bg-zinc-800 rounded flex items-center justify-center shrink-0">
+                                      {item.icon ? <img src={item.icon} className="w-full h-full object-cover rounded" alt={item.name} /> : '🛠️'}
+                                  </div>
+                                  <div className="min-w-0">
+                                      <div className="text-sm font-bold text-zinc-200">{item.name}</div>
+                                      <div className="text-xs text-zinc-500 truncate">
+                                          {item.recipe!.ingredients.map(ing => `${story.items.find(i => i.id === ing.itemId)?.name || ing.itemId} x${ing.count}`).join(' + ')}
+                                          {item.recipe!.costAttribute && item.recipe!.costAttribute.amount > 0 && (
+                                              ` · ${story.attributes.find(a => a.id === item.recipe!.costAttribute!.attributeId)?.name || item.recipe!.costAttribute.attributeId} -${item.recipe!.costAttribute.amount}`
+                                          )}
+                                      </div>
+                                  </div>
+                              </div>
+                              <button
+                                  onClick={() => handleCraft(item.id)}
+                                  className="px-3 py-1.5 rounded text-xs font-bold bg-amber-600 hover:bg-amber-500 text-white transition-colors shrink-0"
+                              >
+                                  合成
+                              </button>
+                          </div>
+                      ))}
+                      {EngineInstance.crafting.getCraftable().length === 0 && (
+                          <div className="text-center text-zinc-500 py-10 italic">当前没有可合成的配方...</div>
+                      )}
+                  </div>
+              </div>
+          </div>
+      )}
+
+      {/* 9. Party Setup Modal */}
+      {runtime.showPartySetup && (
+          <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 animate-in fade-in duration-200">
+              <div className="bg-zinc-900 border border-zinc-700 rounded-xl w-full max-w-lg max-h-[80vh] flex flex-col shadow-2xl">
+                  <div className="p-4 border-b border-zinc-800 flex justify-between items-center">
+                      <div>
+                          <h3 className="text-lg font-bold flex items-center gap-2"><Users className="w-5 h-5 text-emerald-500" /> 派对模式 (Party)</h3>
+                          <p className="text-xs text-zinc-500">每位玩家认领一个角色，轮流使用同一台设备。</p>
+                      </div>
+                      <button onClick={runtime.togglePartySetup} className="text-zinc-500 hover:text-white"><X className="w-5 h-5" /></button>
+                  </div>
+                  <div className="p-4 space-y-2 overflow-y-auto">
+                      {story.characters.map(char => {
+                          const player = party?.players.find(p => p.characterId === char.id);
+                          return (
+                              <div key={char.id} className="flex items-center gap-3 bg-black/40 p-3 rounded-lg border border-zinc-800">
+                                  <div className="w-8 h-8 bg-zinc-800 rounded-full flex items-center justify-center shrink-0 overflow-hidden">
+                                      {char.avatarUrl ? <img src={char.avatarUrl} className="w-full h-full object-cover" alt={char.name} /> : <User className="w-4 h-4 text-zinc-500" />}
+                                  </div>
+                                  <div className="text-sm font-bold text-zinc-200 w-24 truncate">{char.name}</div>
+                                  {player ? (
+                                      <>
+                                          <div className="flex-1 text-sm text-emerald-300 truncate">{player.name}</div>
+                                          <button onClick={() => Party.leave(player.id)} className="px-2 py-1 rounded text-xs bg-zinc-800 hover:bg-zinc-700 text-zinc-300">离开</button>
+                                      </>
+                                  ) : (
+                                      <>
+                                          <input
+                                              value={partyNames[char.id] || ''}
+                                              onChange={(e) => setPartyNames({ ...partyNames, [char.id]: e.target.value })}
+                                              placeholder="玩家名称..."
+                                              className="flex-1 min-w-0 bg-black/40 border border-zinc-700 rounded px-2 py-1 text-sm text-zinc-200 focus:outline-none focus:border-emerald-500"
+                                          />
+                                          <button onClick={() => handleJoinParty(char.id)} className="px-2 py-1 rounded text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white">认领</button>
+                                      </>
+                                  )}
+                              </div>
+                          );
+                      })}
+                  </div>
+                  {party && (
+                      <div className="p-4 border-t border-zinc-800 flex justify-end">
+                          <button onClick={() => Party.end()} className="px-3 py-1.5 rounded text-xs font-bold bg-red-900/80 hover:bg-red-700 text-white">结束派对 (End Party)</button>
+                      </div>
+                  )}
+              </div>
+          </div>
+      )}
     </div>
   );
 };
@@ -1,11 +1,16 @@
 
 import React, { useMemo, useState } from 'react';
-import { MousePointer2, MoreVertical, Wand2, Plus, Trash2, ArrowRightCircle, Mic, Music, LayoutTemplate, Settings2, Code, Split, Zap, PlayCircle, StopCircle, Target, Clapperboard, Timer, Smartphone, MessageSquare, ImageIcon, Play, Gauge, Package, MinusCircle, ChevronDown, ChevronRight, Vote, Search, Share2, ShoppingCart } from 'lucide-react';
-import { NodeType, DialogueNode, BranchNode, JumpNode, LocationNode, NodeEvent, Hotspot, ActionNode, ScriptAction, LogicOperator, VariableType, VoteNode, ScriptActionType } from '../types';
+import { MousePointer2, MoreVertical, Wand2, Plus, Trash2, ArrowRightCircle, Mic, Music, LayoutTemplate, Settings2, Code, Split, Zap, PlayCircle, StopCircle, Target, Clapperboard, Timer, Smartphone, MessageSquare, ImageIcon, Play, Gauge, Package, MinusCircle, ChevronDown, ChevronRight, Vote, Search, Share2, ShoppingCart, ArrowRightLeft, Flag, CheckCircle, XCircle, Clock, Activity, Eye, MousePointerClick, Hand, Lock, Wind, Volume2, VolumeX, UserPlus, UserMinus, Smile, Sun, Aperture, Film } from 'lucide-react';
+import { NodeType, DialogueNode, BranchNode, SwitchNode, SwitchSubjectKind, JumpNode, LocationNode, NodeEvent, Hotspot, ActionNode, ScriptAction, LogicOperator, VariableType, VoteNode, ScriptActionType, NodeEventTrigger, AttributeWatchOperator, DialogueChoice, LogicConditionNode, SceneTransition, SceneTransitionKind, EffectEasing } from '../types';
 import * as GeminiService from '../services/geminiService';
 import { useEditorStore } from '../store/useEditorStore';
 import { ParamConfig } from '../engine/logic/types';
-import { getActionCatalog } from '../engine/logic/uiCatalog';
+import { getActionCatalog, getConditionCatalog } from '../engine/logic/uiCatalog';
+import { parseExpression } from '../engine/logic/Expression';
+import { parseMarkup, renderMarkup } from '../engine/TextMarkup';
+import { VariableStore } from '../engine/VariableStore';
+import { FILTER_PRESETS } from '../engine/EffectsManager';
+import { useRuntimeStore } from '../store/useRuntimeStore';
 import { useShallow } from 'zustand/react/shallow';
 
 const NODE_TYPE_LABELS: Record<NodeType, string> = {
@@ -30,7 +35,9 @@ const ADDON_DEFINITIONS: Record<NodeType, { key: string; label: string; icon: Re
   ],
   [NodeType.LOCATION]: [
     { key: 'bgm', label: '背景音乐 (BGM)', icon: <Music className="w-3 h-3"/>, defaultValue: '' },
-    { key: 'filter', label: '视觉滤镜 (Filter)', icon: <Settings2 className="w-3 h-3"/>, defaultValue: 'none' }
+    { key: 'ambience', label: '环境音 (Ambience)', icon: <Wind className="w-3 h-3"/>, defaultValue: '' },
+    { key: 'filter', label: '视觉滤镜 (Filter)', icon: <Settings2 className="w-3 h-3"/>, defaultValue: 'none' },
+    { key: 'transition', label: '进场转场 (Transition)', icon: <Film className="w-3 h-3"/>, defaultValue: { kind: 'fade', duration: 0.8 } }
   ],
   [NodeType.BRANCH]: [
     { key: 'defaultNextNodeId', label: '默认路径 (Else Path)', icon: <Split className="w-3 h-3"/>, defaultValue: '' }
@@ -49,23 +56,53 @@ const getIcon = (name?: string, colorClass?: string) => {
         case 'Gauge': return <Gauge className={className} />;
         case 'Package': return <Package className={className} />;
         case 'MinusCircle': return <MinusCircle className={className} />;
+        case 'ArrowRightLeft': return <ArrowRightLeft className={className} />;
+        case 'Flag': return <Flag className={className} />;
+        case 'CheckCircle': return <CheckCircle className={className} />;
+        case 'XCircle': return <XCircle className={className} />;
         case 'Search': return <Search className={className} />;
         case 'Share2': return <Share2 className={className} />;
         case 'ShoppingCart': return <ShoppingCart className={className} />;
         case 'Zap': return <Zap className={className} />;
         case 'Timer': return <Timer className={className} />;
+        case 'Clock': return <Clock className={className} />;
         case 'Smartphone': return <Smartphone className={className} />;
         case 'MessageSquare': return <MessageSquare className={className} />;
+        case 'Volume2': return <Volume2 className={className} />;
+        case 'VolumeX': return <VolumeX className={className} />;
+        case 'UserPlus': return <UserPlus className={className} />;
+        case 'UserMinus': return <UserMinus className={className} />;
+        case 'Smile': return <Smile className={className} />;
+        case 'Sun': return <Sun className={className} />;
+        case 'Aperture': return <Aperture className={className} />;
+        case 'Film': return <Film className={className} />;
         default: return <Zap className={className} />;
     }
 };
 
+// 热点交互触发器（事件菜单中每个热点一行）
+const HOTSPOT_TRIGGER_LABELS: Record<string, string> = {
+  onClick: 'Click',
+  onHover: 'Hover',
+  onExamine: 'Examine',
+  onUseItem: 'Use Item'
+};
+
+const HOTSPOT_TRIGGERS: { trigger: NodeEventTrigger; Icon: React.FC<{ className?: string }> }[] = [
+  { trigger: 'onClick', Icon: MousePointerClick },
+  { trigger: 'onHover', Icon: MousePointer2 },
+  { trigger: 'onExamine', Icon: Eye },
+  { trigger: 'onUseItem', Icon: Hand }
+];
+
 const OPERATORS_BY_TYPE: Record<VariableType, LogicOperator[]> = {
   'boolean': ['==', '!='],
   'number': ['==', '!=', '>', '>=', '<', '<='],
   'string': ['==', '!=', 'contains']
 };
 
+const COMPOSITE_CONDITIONS = ['LOGIC_AND', 'LOGIC_OR', 'LOGIC_NOT'];
+
 // --- Reusable Action Stack Editor (Registry Driven) ---
 const ActionStackEditor: React.FC<{
   actions: ScriptAction[];
@@ -79,12 +116,13 @@ const ActionStackEditor: React.FC<{
     return map;
   }, [actionDefs]);
   // Only select meta data needed for dropdowns
-  const { characters, items, clues, attributes, shops } = useEditorStore(useShallow(state => ({
+  const { characters, items, clues, attributes, shops, quests } = useEditorStore(useShallow(state => ({
       characters: state.story.characters,
       items: state.story.items,
       clues: state.story.clues,
       attributes: state.story.attributes,
-      shops: state.story.shops
+      shops: state.story.shops,
+      quests: state.story.quests
   })));
 
   const [showMenu, setShowMenu] = useState(false);
@@ -163,6 +201,26 @@ const ActionStackEditor: React.FC<{
           );
       }
       
+      // Objective picker: list objectives of the selected quest
+      if (param.name === 'objectiveId' && action.type === ScriptActionType.COMPLETE_OBJECTIVE) {
+          const quest = (quests || []).find(q => q.id === action.params?.questId);
+          return (
+              <select 
+                className={commonClasses}
+                value={value || ''}
+                onChange={(e) => onChange(e.target.value)}
+                onBlur={onBlur}
+              >
+                  <option value="">-- Select objective --</option>
+                  {quest?.stages.map(stage => (
+                      <optgroup key={stage.id} label={stage.name}>
+                          {stage.objectives.map(o => <option key={o.id} value={o.id}>{o.description || o.id}</option>)}
+                      </optgroup>
+                  ))}
+              </select>
+          );
+      }
+
       if (param.type === 'select' && param.options) {
           return (
               <select 
@@ -183,6 +241,7 @@ const ActionStackEditor: React.FC<{
           if (param.entityType === 'clue') options = clues;
           if (param.entityType === 'attribute') options = attributes;
           if (param.entityType === 'shop') options = shops || [];
+          if (param.entityType === 'quest') options = quests || [];
 
           return (
               <select 
@@ -298,6 +357,199 @@ const ActionStackEditor: React.FC<{
   );
 };
 
+// Structured condition picker (single registry condition, optional negate)
+const ConditionNodeEditor: React.FC<{
+  value?: LogicConditionNode;
+  onChange: (value?: LogicConditionNode) => void;
+  onBlur: () => void;
+}> = ({ value, onChange, onBlur }) => {
+  // AND / OR / NOT need child conditions, which this compact picker does not edit
+  const conditionDefs = useMemo(() => getConditionCatalog().filter(def => !COMPOSITE_CONDITIONS.includes(def.id)), []);
+  const { characters, items, clues, attributes, shops, quests } = useEditorStore(useShallow(state => ({
+      characters: state.story.characters,
+      items: state.story.items,
+      clues: state.story.clues,
+      attributes: state.story.attributes,
+      shops: state.story.shops,
+      quests: state.story.quests
+  })));
+  const def = value ? conditionDefs.find(d => d.id === value.type) : undefined;
+  const commonClasses = "bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-zinc-300 text-xs w-full focus:outline-none focus:border-indigo-500";
+
+  const setParam = (key: string, paramValue: any) => {
+      if (!value) return;
+      onChange({ ...value, params: { ...value.params, [key]: paramValue } });
+  };
+
+  const renderParam = (param: ParamConfig) => {
+      const current = value?.params?.[param.name];
+      if (param.type === 'entity') {
+          const options: { id: string; name: string }[] =
+              param.entityType === 'character' ? characters :
+              param.entityType === 'item' ? items :
+              param.entityType === 'clue' ? clues :
+              param.entityType === 'attribute' ? attributes :
+              param.entityType === 'shop' ? shops || [] :
+              param.entityType === 'quest' ? quests || [] : [];
+          return (
+              <select className={commonClasses} value={current || ''} onChange={(e) => setParam(param.name, e.target.value || undefined)} onBlur={onBlur}>
+                  <option value="">-- Select {param.entityType} --</option>
+                  {options.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+              </select>
+          );
+      }
+      if (param.type === 'select' && param.options) {
+          return (
+              <select className={commonClasses} value={current ?? param.defaultValue ?? ''} onChange={(e) => setParam(param.name, e.target.value)} onBlur={onBlur}>
+                  {param.options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+              </select>
+          );
+      }
+      if (param.type === 'boolean') {
+          return (
+              <select className={commonClasses} value={String(current ?? param.defaultValue ?? false)} onChange={(e) => setParam(param.name, e.target.value === 'true')} onBlur={onBlur}>
+                  <option value="true">true</option>
+                  <option value="false">false</option>
+              </select>
+          );
+      }
+      return (
+          <input
+            type={param.type === 'number' ? 'number' : 'text'}
+            className={commonClasses}
+            value={current ?? param.defaultValue ?? ''}
+            onChange={(e) => setParam(param.name, param.type === 'number' ? parseFloat(e.target.value) : e.target.value)}
+            onBlur={onBlur}
+            placeholder={param.placeholder}
+          />
+      );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2 items-center">
+        <select
+          className={commonClasses}
+          value={value?.type || ''}
+          onChange={(e) => { onChange(e.target.value ? { type: e.target.value, params: {} } : undefined); onBlur(); }}
+        >
+          <option value="">无条件 (Always)</option>
+          {/* 选择器不能编辑的条件（如组合条件）仍需显示为当前值，才能改选或清除 */}
+          {value && !def && <option value={value.type}>{value.type}</option>}
+          {conditionDefs.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+        </select>
+        {value && (
+          <label className="flex items-center gap-1 text-[10px] text-zinc-500 shrink-0" title="条件取反">
+            <input type="checkbox" checked={!!value.negate} onChange={(e) => { onChange({ ...value, negate: e.target.checked || undefined }); onBlur(); }} />
+            NOT
+          </label>
+        )}
+      </div>
+      {value && !def && <div className="text-[10px] text-zinc-600 italic">结构化条件 ({value.type})</div>}
+      {def?.params?.map(param => (
+        <div key={param.name} className="flex flex-col gap-1">
+          <label className="text-[10px] text-zinc-500 uppercase">{param.label}</label>
+          {renderParam(param)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Live preview of dialogue markup: runtime values while a playtest runs, story defaults otherwise
+const MarkupPreview: React.FC<{ text: string }> = ({ text }) => {
+  const story = useEditorStore(state => state.story);
+  const { isRunning, attributes, characterAttributes, inventory, characterInventories, clues, quests, clock } = useRuntimeStore(useShallow(state => ({
+      isRunning: state.isRunning,
+      attributes: state.attributes,
+      characterAttributes: state.characterAttributes,
+      inventory: state.inventory,
+      characterInventories: state.characterInventories,
+      clues: state.clues,
+      quests: state.quests,
+      clock: state.clock
+  })));
+
+  const store = useMemo(() => {
+    const preview = new VariableStore();
+    preview.init(story);
+    if (isRunning) {
+      preview.restore({ attributes, characterAttributes, inventory, characterInventories, clues, quests, clock });
+    }
+    return preview;
+  }, [story, isRunning, attributes, characterAttributes, inventory, characterInventories, clues, quests, clock]);
+
+  const errors = useMemo(() => parseMarkup(text).errors, [text]);
+  const rendered = useMemo(
+    () => renderMarkup(text, { store, items: story.items, characters: story.characters }),
+    [text, store, story.items, story.characters]
+  );
+
+  if (!text.includes('{')) return null;
+
+  return (
+    <div className="mt-2 p-2 bg-zinc-900/60 border border-zinc-800 rounded space-y-1">
+      <div className="text-[10px] text-zinc-500 uppercase font-semibold flex justify-between">
+        <span>预览 (Preview)</span>
+        <span className="normal-case font-normal text-zinc-600">{isRunning ? '运行时数值' : '默认数值'}</span>
+      </div>
+      <div className="text-xs text-zinc-200 whitespace-pre-wrap leading-relaxed">
+        {rendered.spans.map((span, i) => span.kind === 'pause' ? (
+          <span key={i} className="mx-0.5 px-1 rounded bg-zinc-800 text-[10px] text-zinc-500 font-mono">⏸{span.ms}ms</span>
+        ) : (
+          <span key={i} className={span.shake ? 'nf-text-shake' : undefined} style={{ color: span.color }}>{span.text}</span>
+        ))}
+      </div>
+      {errors.map((error, i) => (
+        <div key={i} className="text-[10px] text-red-400">{error.message} (col {error.start + 1})</div>
+      ))}
+    </div>
+  );
+};
+
+// String condition input with inline parse error underline
+const ExpressionInput: React.FC<{
+  value: string;
+  placeholder?: string;
+  onFocus?: () => void;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+}> = ({ value, placeholder, onFocus, onChange, onBlur }) => {
+  const error = useMemo(() => {
+    if (!value.trim()) return null;
+    const result = parseExpression(value);
+    return result.ok ? null : result.error;
+  }, [value]);
+
+  // Zero-width errors (e.g. unexpected end) still get one visible cell
+  const errStart = error ? Math.min(error.start, value.length) : 0;
+  const errEnd = error ? Math.max(error.end, errStart + 1) : 0;
+
+  return (
+    <div className="space-y-1">
+      <input
+        className={`w-full bg-zinc-900 border rounded px-2 py-1.5 text-xs text-green-300 font-mono focus:outline-none ${error ? 'border-red-500/60' : 'border-zinc-700 focus:border-indigo-500'}`}
+        placeholder={placeholder}
+        value={value}
+        onFocus={onFocus}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        spellCheck={false}
+      />
+      {error && (
+        <>
+          <div className="px-2 text-xs font-mono text-zinc-400 whitespace-pre overflow-x-auto">
+            {value.slice(0, errStart)}
+            <span className="underline decoration-wavy decoration-red-500 text-red-300">{value.slice(errStart, errEnd) || ' '}</span>
+            {value.slice(errEnd)}
+          </div>
+          <div className="px-2 text-[10px] text-red-400">{error.message} (col {error.start + 1})</div>
+        </>
+      )}
+    </div>
+  );
+};
+
 const Inspector: React.FC = () => {
   const { updateNode, startEditing, commitEditing } = useEditorStore(useShallow(state => ({
       updateNode: state.updateNode,
@@ -313,9 +565,11 @@ const Inspector: React.FC = () => {
   }));
 
   // Meta Data for Dropdowns
-  const { characters, attributes } = useEditorStore(useShallow(state => ({
+  const { characters, attributes, items, segments } = useEditorStore(useShallow(state => ({
       characters: state.story.characters,
-      attributes: state.story.attributes
+      attributes: state.story.attributes,
+      items: state.story.items,
+      segments: state.story.segments
   })));
   
   const [isGenerating, setIsGenerating] = useState(false);
@@ -325,6 +579,7 @@ const Inspector: React.FC = () => {
   
   // State to track expanded events in Location Node
   const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [expandedChoiceId, setExpandedChoiceId] = useState<string | null>(null);
 
   const handleAiGenerate = async () => {
     if (!selectedNode || selectedNode.type !== NodeType.DIALOGUE) return;
@@ -381,35 +636,49 @@ const Inspector: React.FC = () => {
     commitEditing();
   };
 
-  const addEvent = (trigger: 'onEnter' | 'onExit' | 'onClick', targetId?: string) => {
+  const addEvent = (trigger: NodeEventTrigger, targetId?: string) => {
     if (!selectedNode) return;
-    const exists = (selectedNode.events || []).some(e => e.trigger === trigger && e.targetId === targetId);
+    // 计划事件与使用物品事件可以有多个（例如不同的计时 / 物品），其它触发器每种只需一个
+    const isScheduled = trigger === 'onTimer' || trigger === 'onClock' || trigger === 'onAttribute';
+    const isHotspotTrigger = trigger === 'onClick' || trigger === 'onHover' || trigger === 'onExamine' || trigger === 'onUseItem';
+    const exists = !isScheduled && trigger !== 'onUseItem' && (selectedNode.events || []).some(e => e.trigger === trigger && e.targetId === targetId);
     if (exists) {
       setShowEventMenu(false);
       return;
     }
     
     let label: string = trigger;
-    if (trigger === 'onClick' && targetId) {
+    if (isHotspotTrigger && targetId) {
       // Only Location nodes have hotspots
       if (selectedNode.type === NodeType.LOCATION) {
           const hs = (selectedNode as LocationNode).hotspots?.find(h => h.id === targetId);
-          label = `Click: ${hs?.name || 'Unknown'}`;
+          label = `${HOTSPOT_TRIGGER_LABELS[trigger]}: ${hs?.name || 'Unknown'}`;
       }
     } else if (trigger === 'onEnter') {
       label = '进入时 (On Enter)';
     } else if (trigger === 'onExit') {
       label = '离开时 (On Exit)';
+    } else if (trigger === 'onTimer') {
+      label = '计时 (Timer)';
+    } else if (trigger === 'onClock') {
+      label = '时钟 (Clock)';
+    } else if (trigger === 'onAttribute') {
+      label = '属性监听 (Watch)';
     }
 
     const newEvent: NodeEvent = {
       id: `evt_${Date.now()}`,
-      type: trigger === 'onClick' ? 'interaction' : 'lifecycle',
+      type: isHotspotTrigger ? 'interaction' : isScheduled ? 'scheduled' : 'lifecycle',
       trigger,
       targetId,
       label,
       actions: []
     };
+    if (trigger === 'onTimer') newEvent.timer = { seconds: 5 };
+    if (trigger === 'onClock') newEvent.clockTime = '12:00';
+    if (trigger === 'onAttribute') {
+      newEvent.watch = { attributeId: attributes.find(a => a.type === 'number')?.id || '', operator: '<', value: 20 };
+    }
 
     startEditing(selectedNode.id);
     updateNode(selectedNode.id, { events: [...(selectedNode.events || []), newEvent] });
@@ -418,6 +687,12 @@ const Inspector: React.FC = () => {
     setExpandedEventId(newEvent.id); // Auto expand new event
   };
 
+  const updateEvent = (evtId: string, data: Partial<NodeEvent>) => {
+    if (!selectedNode) return;
+    const newEvents = (selectedNode.events || []).map(e => e.id === evtId ? { ...e, ...data } : e);
+    updateNode(selectedNode.id, { events: newEvents });
+  };
+
   if (!selectedNode) {
     return (
       <div className="w-80 bg-zinc-900 border-l border-zinc-800 h-full flex flex-col items-center justify-center text-zinc-500 z-10">
@@ -509,6 +784,31 @@ const Inspector: React.FC = () => {
               </select>
             </div>
 
+            <div>
+              <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">私密对话 (Visible To)</label>
+              <div className="flex flex-wrap gap-1.5">
+                {characters.map(c => {
+                  const visibleTo = (selectedNode as DialogueNode).visibleTo || [];
+                  const selected = visibleTo.includes(c.id);
+                  return (
+                    <button
+                      key={c.id}
+                      onClick={() => {
+                        startEditing(selectedNode.id);
+                        const next = selected ? visibleTo.filter(id => id !== c.id) : [...visibleTo, c.id];
+                        updateNode(selectedNode.id, { visibleTo: next.length > 0 ? next : undefined });
+                        commitEditing();
+                      }}
+                      className={`px-2 py-0.5 rounded text-[10px] border transition-colors ${selected ? 'bg-indigo-600/30 border-indigo-500 text-indigo-200' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-zinc-200'}`}
+                    >
+                      {c.name}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-[10px] text-zinc-600 mt-1">未选择时所有玩家可见；派对模式下仅选中角色的玩家可以查看。</p>
+            </div>
+
             <div>
               <div className="flex justify-between items-center mb-1.5">
                  <label className="text-[10px] text-zinc-500 uppercase font-semibold">台词 (Line)</label>
@@ -527,8 +827,10 @@ const Inspector: React.FC = () => {
                 onFocus={() => startEditing(selectedNode.id)}
                 onChange={(e) => updateNode(selectedNode.id, { text: e.target.value })}
                 onBlur={commitEditing}
+                placeholder="支持 {attr:coin}、{item:item_id.count}、{char:char_id.name}、{if sanity < 20}…{/if}、{color:#f87171}…{/color}、{shake}…{/shake}、{pause:500}"
                 className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-2 text-sm text-zinc-300 resize-none focus:ring-1 focus:ring-indigo-500 focus:outline-none"
               />
+              <MarkupPreview text={(selectedNode as DialogueNode).text} />
               
               {/* AI Variations Dropdown */}
               {aiVariations.length > 0 && (
@@ -573,8 +875,24 @@ const Inspector: React.FC = () => {
                </div>
                
                <div className="space-y-2">
-                 {(selectedNode as DialogueNode).choices?.map((c, i) => (
-                    <div key={c.id} className="flex gap-2 items-center group">
+                 {(selectedNode as DialogueNode).choices?.map((c, i) => {
+                    const isExpanded = expandedChoiceId === c.id;
+                    const isGated = !!(c.visibleIf || c.enabledIf || c.actions?.length);
+                    const updateChoice = (data: Partial<DialogueChoice>) => {
+                        const node = selectedNode as DialogueNode;
+                        startEditing(node.id);
+                        updateNode(node.id, { choices: node.choices.map(choice => choice.id === c.id ? { ...choice, ...data } : choice) });
+                    };
+                    return (
+                    <div key={c.id} className="space-y-2">
+                    <div className="flex gap-2 items-center group">
+                       <button
+                          onClick={() => setExpandedChoiceId(isExpanded ? null : c.id)}
+                          className={`p-1 rounded transition-colors ${isGated ? 'text-amber-400' : 'text-zinc-600'} hover:text-white hover:bg-zinc-800`}
+                          title="条件与动作"
+                       >
+                          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                       </button>
                        <input 
                          className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
                          value={c.text} 
@@ -602,7 +920,38 @@ const Inspector: React.FC = () => {
                           <Trash2 className="w-3 h-3" />
                        </button>
                     </div>
-                 ))}
+                    {isExpanded && (
+                       <div className="ml-6 p-2 bg-zinc-900/50 border border-zinc-800 rounded space-y-3">
+                          <div>
+                             <label className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1 mb-1"><Eye className="w-3 h-3" /> 显示条件 (Visible If)</label>
+                             <ConditionNodeEditor value={c.visibleIf} onChange={(value) => updateChoice({ visibleIf: value })} onBlur={commitEditing} />
+                          </div>
+                          <div>
+                             <label className="text-[10px] text-zinc-500 uppercase font-semibold flex items-center gap-1 mb-1"><Lock className="w-3 h-3" /> 可选条件 (Enabled If)</label>
+                             <ConditionNodeEditor value={c.enabledIf} onChange={(value) => updateChoice({ enabledIf: value })} onBlur={commitEditing} />
+                             {c.enabledIf && (
+                                <input
+                                  className="mt-1.5 w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500"
+                                  value={c.disabledReason || ''}
+                                  onChange={(e) => updateChoice({ disabledReason: e.target.value || undefined })}
+                                  onBlur={commitEditing}
+                                  placeholder="禁用原因，如：需要 10 金币"
+                                />
+                             )}
+                          </div>
+                          <div>
+                             <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1">选中时执行 (On Pick)</label>
+                             <ActionStackEditor
+                                actions={c.actions || []}
+                                onChange={(actions) => updateChoice({ actions: actions.length ? actions : undefined })}
+                                onBlur={commitEditing}
+                             />
+                          </div>
+                       </div>
+                    )}
+                    </div>
+                    );
+                 })}
                  
                  {(!((selectedNode as DialogueNode).choices?.length)) && (
                     <div className="text-[10px] text-zinc-600 italic border border-dashed border-zinc-800 p-3 rounded text-center">
@@ -697,6 +1046,38 @@ const Inspector: React.FC = () => {
                          className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-[10px] text-zinc-400"
                        />
                      </div>
+                    {/* Visibility Condition */}
+                     <div className="flex items-start gap-2 mt-1.5" title="可见条件：不满足时热点隐藏且不响应交互">
+                       <Eye className="w-3 h-3 text-zinc-600 shrink-0 mt-1" />
+                       {typeof hs.visibleIf === 'object' ? (
+                         <div className="flex-1">
+                           <ConditionNodeEditor
+                             value={hs.visibleIf}
+                             onChange={(value) => {
+                               const node = selectedNode as LocationNode;
+                               startEditing(node.id);
+                               const newHotspots = node.hotspots.map(h => h.id === hs.id ? { ...h, visibleIf: value } : h);
+                               updateNode(node.id, { hotspots: newHotspots });
+                             }}
+                             onBlur={commitEditing}
+                           />
+                         </div>
+                       ) : (
+                         <div className="flex-1">
+                           <ExpressionInput
+                             value={hs.visibleIf || ''}
+                             placeholder="可见条件, e.g. hasClue('clue_x')"
+                             onFocus={() => startEditing(selectedNode.id)}
+                             onChange={(value) => {
+                               const node = selectedNode as LocationNode;
+                               const newHotspots = node.hotspots.map(h => h.id === hs.id ? { ...h, visibleIf: value || undefined } : h);
+                               updateNode(node.id, { hotspots: newHotspots });
+                             }}
+                             onBlur={commitEditing}
+                           />
+                         </div>
+                       )}
+                     </div>
                   </div>
                 ))}
                 {!((selectedNode as LocationNode).hotspots?.length) && (
@@ -722,14 +1103,33 @@ const Inspector: React.FC = () => {
                     {showEventMenu && (
                       <>
                         <div className="fixed inset-0 z-40" onClick={() => setShowEventMenu(false)}></div>
-                        <div className="absolute right-0 top-full mt-1 w-32 bg-zinc-800 border border-zinc-700 rounded shadow-xl py-1 z-50 animate-in fade-in zoom-in-95 duration-100">
+                        <div className="absolute right-0 top-full mt-1 w-48 bg-zinc-800 border border-zinc-700 rounded shadow-xl py-1 z-50 animate-in fade-in zoom-in-95 duration-100">
                           <button onClick={() => addEvent('onEnter')} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><PlayCircle className="w-3 h-3 text-green-400" /> On Enter</button>
                           <button onClick={() => addEvent('onExit')} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><StopCircle className="w-3 h-3 text-red-400" /> On Exit</button>
                           <div className="border-t border-zinc-700 my-1"></div>
-                          {(selectedNode as LocationNode).hotspots
-                            ?.filter(hs => !(selectedNode.events || []).some(e => e.trigger === 'onClick' && e.targetId === hs.id))
-                            .map(hs => (
-                              <button key={hs.id} onClick={() => addEvent('onClick', hs.id)} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><Target className="w-3 h-3 text-amber-400" /> Click: {hs.name}</button>
+                          <button onClick={() => addEvent('onTimer')} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><Timer className="w-3 h-3 text-cyan-400" /> Timer</button>
+                          <button onClick={() => addEvent('onClock')} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><Clock className="w-3 h-3 text-cyan-400" /> Clock</button>
+                          <button onClick={() => addEvent('onAttribute')} className="w-full text-left px-2 py-1.5 text-xs text-zinc-300 hover:bg-zinc-700 flex items-center gap-2 transition-colors"><Activity className="w-3 h-3 text-cyan-400" /> Watch</button>
+                          <div className="border-t border-zinc-700 my-1"></div>
+                          {(selectedNode as LocationNode).hotspots?.map(hs => (
+                              <div key={hs.id} className="px-2 py-1 flex items-center gap-1 text-xs text-zinc-300">
+                                <Target className="w-3 h-3 text-amber-400 shrink-0" />
+                                <span className="flex-1 truncate">{hs.name}</span>
+                                {HOTSPOT_TRIGGERS.map(({ trigger, Icon }) => {
+                                  const taken = trigger !== 'onUseItem' && (selectedNode.events || []).some(e => e.trigger === trigger && e.targetId === hs.id);
+                                  return (
+                                    <button 
+                                      key={trigger}
+                                      disabled={taken}
+                                      onClick={() => addEvent(trigger, hs.id)}
+                                      className="p-1 rounded hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                                      title={HOTSPOT_TRIGGER_LABELS[trigger]}
+                                    >
+                                      <Icon className="w-3 h-3 text-amber-400" />
+                                    </button>
+                                  );
+                                })}
+                              </div>
                             ))}
                         </div>
                       </>
@@ -749,7 +1149,7 @@ const Inspector: React.FC = () => {
                             >
                                 <div className="flex items-center gap-2 text-xs">
                                     {isExpanded ? <ChevronDown className="w-3 h-3 text-zinc-500"/> : <ChevronRight className="w-3 h-3 text-zinc-500"/>}
-                                    <Zap className={`w-3 h-3 ${evt.trigger === 'onClick' ? 'text-amber-400' : 'text-indigo-400'}`} />
+                                    <Zap className={`w-3 h-3 ${evt.type === 'interaction' ? 'text-amber-400' : evt.type === 'scheduled' ? 'text-cyan-400' : 'text-indigo-400'}`} />
                                     <span className="text-zinc-300 font-semibold">{evt.label}</span>
                                     <span className="text-[9px] bg-zinc-900 text-amber-400/80 px-1 rounded border border-amber-400/30">Connect to Action node</span>
                                 </div>
@@ -775,6 +1175,135 @@ const Inspector: React.FC = () => {
                                         <span>动作需通过连线到动作节点完成</span>
                                     </div>
                                     <p className="text-zinc-500">将此事件的输出端 (闪电) 连到 <span className="text-cyan-300">Action</span> 节点或条件节点，再串联动作序列。</p>
+                                    {evt.trigger === 'onUseItem' && (
+                                        <div className="flex items-center gap-2">
+                                            <label className="text-[10px] text-zinc-500 shrink-0">物品</label>
+                                            <select 
+                                                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-1 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.itemId || ''}
+                                                onChange={(e) => {
+                                                    startEditing(selectedNode.id);
+                                                    updateEvent(evt.id, { itemId: e.target.value || undefined });
+                                                    commitEditing();
+                                                }}
+                                            >
+                                                <option value="">任意物品 (Any)</option>
+                                                {items.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                                            </select>
+                                        </div>
+                                    )}
+                                    {evt.trigger === 'onUseItem' && !evt.itemId && (
+                                        <p className="text-[10px] text-zinc-600">条件中可用 <span className="font-mono text-zinc-400">usedItem</span> 判断使用了哪个物品</p>
+                                    )}
+                                    {evt.trigger === 'onTimer' && (
+                                        <div className="flex items-center gap-2">
+                                            <label className="text-[10px] text-zinc-500 shrink-0">秒数</label>
+                                            <input 
+                                                type="number"
+                                                min={0.1}
+                                                step={0.5}
+                                                className="w-20 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.timer?.seconds ?? 5}
+                                                onFocus={() => startEditing(selectedNode.id)}
+                                                onChange={(e) => updateEvent(evt.id, { timer: { ...evt.timer, seconds: Number(e.target.value) } })}
+                                                onBlur={commitEditing}
+                                            />
+                                            <label className="flex items-center gap-1 text-[10px] text-zinc-500">
+                                                <input 
+                                                    type="checkbox"
+                                                    checked={!!evt.timer?.repeat}
+                                                    onChange={(e) => {
+                                                        startEditing(selectedNode.id);
+                                                        updateEvent(evt.id, { timer: { seconds: evt.timer?.seconds ?? 5, repeat: e.target.checked || undefined } });
+                                                        commitEditing();
+                                                    }}
+                                                />
+                                                重复 (Repeat)
+                                            </label>
+                                        </div>
+                                    )}
+                                    {evt.trigger === 'onClock' && (
+                                        <div className="flex items-center gap-2">
+                                            <label className="text-[10px] text-zinc-500 shrink-0">到达时刻</label>
+                                            <input 
+                                                type="time"
+                                                className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.clockTime || ''}
+                                                onFocus={() => startEditing(selectedNode.id)}
+                                                onChange={(e) => updateEvent(evt.id, { clockTime: e.target.value })}
+                                                onBlur={commitEditing}
+                                            />
+                                            <span className="text-[10px] text-zinc-600">由“推进时钟”动作驱动</span>
+                                        </div>
+                                    )}
+                                    {evt.trigger === 'onAttribute' && (
+                                        <div className="grid grid-cols-[1fr_auto_4rem] gap-1">
+                                            <select 
+                                                className="bg-zinc-950 border border-zinc-700 rounded px-1 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.watch?.attributeId || ''}
+                                                onChange={(e) => {
+                                                    startEditing(selectedNode.id);
+                                                    updateEvent(evt.id, { watch: { operator: '<', value: 0, ...evt.watch, attributeId: e.target.value, characterId: undefined } });
+                                                    commitEditing();
+                                                }}
+                                            >
+                                                <option value="" disabled>属性...</option>
+                                                {attributes.filter(a => a.type === 'number').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                            </select>
+                                            <select 
+                                                className="bg-zinc-950 border border-zinc-700 rounded px-1 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.watch?.operator || '<'}
+                                                onChange={(e) => {
+                                                    startEditing(selectedNode.id);
+                                                    updateEvent(evt.id, { watch: { attributeId: '', value: 0, ...evt.watch, operator: e.target.value as AttributeWatchOperator } });
+                                                    commitEditing();
+                                                }}
+                                            >
+                                                {(['<', '<=', '>', '>=', '=='] as AttributeWatchOperator[]).map(op => <option key={op} value={op}>{op}</option>)}
+                                            </select>
+                                            <input 
+                                                type="number"
+                                                className="bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                value={evt.watch?.value ?? 0}
+                                                onFocus={() => startEditing(selectedNode.id)}
+                                                onChange={(e) => updateEvent(evt.id, { watch: { attributeId: '', operator: '<', ...evt.watch, value: Number(e.target.value) } })}
+                                                onBlur={commitEditing}
+                                            />
+                                            {attributes.find(a => a.id === evt.watch?.attributeId)?.scope === 'character' && (
+                                                <select 
+                                                    className="col-span-3 bg-zinc-950 border border-zinc-700 rounded px-1 py-1 text-xs text-zinc-300 focus:outline-none"
+                                                    value={evt.watch?.characterId || ''}
+                                                    onChange={(e) => {
+                                                        startEditing(selectedNode.id);
+                                                        updateEvent(evt.id, { watch: { ...evt.watch!, characterId: e.target.value || undefined } });
+                                                        commitEditing();
+                                                    }}
+                                                >
+                                                    <option value="">任意角色 (Any)</option>
+                                                    {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                                </select>
+                                            )}
+                                            <span className="col-span-3 text-[10px] text-zinc-600">越过阈值的那一刻触发一次</span>
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1">触发条件 (Condition)</label>
+                                        {typeof evt.condition === 'object' ? (
+                                            <ConditionNodeEditor
+                                                value={evt.condition}
+                                                onChange={(value) => { startEditing(selectedNode.id); updateEvent(evt.id, { condition: value }); }}
+                                                onBlur={commitEditing}
+                                            />
+                                        ) : (
+                                            <ExpressionInput
+                                                value={evt.condition || ''}
+                                                placeholder="e.g. $coin >= 10 && hasItem('key')"
+                                                onFocus={() => startEditing(selectedNode.id)}
+                                                onChange={(value) => updateEvent(evt.id, { condition: value || undefined })}
+                                                onBlur={commitEditing}
+                                            />
+                                        )}
+                                    </div>
                                 </div>
                             )}
                         </div>
@@ -908,6 +1437,138 @@ const Inspector: React.FC = () => {
            </div>
         )}
 
+        {/* Switch Node Editor */}
+        {selectedNode.type === NodeType.SWITCH && (() => {
+           const switchNode = selectedNode as SwitchNode;
+           const subject = switchNode.subject || { kind: 'attribute' as SwitchSubjectKind, refId: '' };
+           const refOptions = subject.kind === 'itemCount' ? items : attributes;
+           return (
+             <div className="space-y-4">
+                <div>
+                  <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">判断对象 (Subject)</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={subject.kind}
+                      onChange={(e) => {
+                        startEditing(switchNode.id);
+                        // Reference id belongs to the previous kind, reset it
+                        updateNode(switchNode.id, { subject: { kind: e.target.value as SwitchSubjectKind, refId: '' } });
+                        commitEditing();
+                      }}
+                      className="w-28 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none"
+                    >
+                      <option value="attribute">属性值</option>
+                      <option value="itemCount">物品数量</option>
+                    </select>
+                    <select
+                      value={subject.refId}
+                      onChange={(e) => {
+                        startEditing(switchNode.id);
+                        updateNode(switchNode.id, { subject: { ...subject, refId: e.target.value } });
+                        commitEditing();
+                      }}
+                      className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:outline-none"
+                    >
+                      <option value="">-- {subject.kind === 'itemCount' ? '物品 (Item)' : '属性 (Attribute)'} --</option>
+                      {refOptions.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">分支值 (Cases)</label>
+                  <div className="space-y-2">
+                    {switchNode.cases?.map((c, idx) => (
+                      <div key={c.id} className="flex gap-2 items-center group">
+                        <span className="text-[10px] text-zinc-500 font-mono w-4 text-center">{idx + 1}</span>
+                        <span className="text-xs font-bold text-sky-400">case</span>
+                        <input
+                          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1.5 text-xs text-green-300 font-mono focus:outline-none"
+                          placeholder="Value..."
+                          value={c.value}
+                          onFocus={() => startEditing(switchNode.id)}
+                          onChange={(e) => {
+                            const newCases = switchNode.cases.map(sc => sc.id === c.id ? { ...sc, value: e.target.value } : sc);
+                            updateNode(switchNode.id, { cases: newCases });
+                          }}
+                          onBlur={commitEditing}
+                        />
+                        <button
+                          onClick={() => {
+                            startEditing(switchNode.id);
+                            updateNode(switchNode.id, { cases: switchNode.cases.filter(sc => sc.id !== c.id) });
+                            commitEditing();
+                          }}
+                          className="p-1.5 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => {
+                        startEditing(switchNode.id);
+                        updateNode(switchNode.id, { cases: [...(switchNode.cases || []), { id: `case_${Date.now()}`, value: '0' }] });
+                        commitEditing();
+                      }}
+                      className="w-full py-1.5 border border-dashed border-zinc-700 hover:border-zinc-500 rounded text-[10px] text-zinc-500 hover:text-zinc-300 transition-colors flex items-center justify-center gap-1"
+                    >
+                      <Plus className="w-3 h-3" /> 添加分支值
+                    </button>
+                    <div className="text-[10px] text-zinc-600">未命中任何分支值时走默认 (default) 端口。</div>
+                  </div>
+                </div>
+             </div>
+           );
+        })()}
+
+        {/* Jump Node Editor */}
+        {selectedNode.type === NodeType.JUMP && (
+           <div className="space-y-4">
+              <div>
+                <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">目标章节 (Target Segment)</label>
+                <select
+                  value={(selectedNode as JumpNode).targetSegmentId || ''}
+                  onChange={(e) => {
+                    startEditing(selectedNode.id);
+                    // Entry node belongs to the previous target, reset it
+                    updateNode(selectedNode.id, { targetSegmentId: e.target.value, targetNodeId: undefined });
+                    commitEditing();
+                  }}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-sm text-zinc-300 focus:outline-none"
+                >
+                  <option value="">-- 选择章节 --</option>
+                  {segments.map(seg => <option key={seg.id} value={seg.id}>{seg.name}</option>)}
+                </select>
+              </div>
+
+              {(() => {
+                const jumpNode = selectedNode as JumpNode;
+                const targetSegment = segments.find(seg => seg.id === jumpNode.targetSegmentId);
+                if (!targetSegment) return null;
+                const entryNodes = Object.values(targetSegment.nodes).filter(n => n.type !== NodeType.START);
+                return (
+                  <div>
+                    <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">入口节点 (Entry Node)</label>
+                    <select
+                      value={jumpNode.targetNodeId || ''}
+                      onChange={(e) => {
+                        startEditing(selectedNode.id);
+                        updateNode(selectedNode.id, { targetNodeId: e.target.value || undefined });
+                        commitEditing();
+                      }}
+                      className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-sm text-zinc-300 focus:outline-none"
+                    >
+                      <option value="">-- 章节起点 (Root) --</option>
+                      {entryNodes.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                    </select>
+                    <p className="text-[10px] text-zinc-600 mt-1">跳转时保留属性、背包与线索状态。</p>
+                  </div>
+                );
+              })()}
+           </div>
+        )}
+
         {/* Action Node Editor (Updated for ECA) */}
         {selectedNode.type === NodeType.ACTION && (
            <div className="space-y-4">
@@ -959,7 +1620,43 @@ const Inspector: React.FC = () => {
                     </div>
                 </div>
 
-                {/* 3. Options */}
+                {/* 3. Strategy */}
+                <div>
+                    <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">结算方式 (Strategy)</label>
+                    <select
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:border-violet-500 focus:outline-none"
+                        value={(selectedNode as VoteNode).voteConfig.strategy}
+                        onChange={(e) => {
+                            startEditing(selectedNode.id);
+                            updateNode(selectedNode.id, { voteConfig: { ...(selectedNode as VoteNode).voteConfig, strategy: e.target.value as VoteNode['voteConfig']['strategy'] } });
+                            commitEditing();
+                        }}
+                    >
+                        <option value="majority">过半数 (Majority)</option>
+                        <option value="branch">得票最多 (Branch)</option>
+                        <option value="score">按分值 (Score)</option>
+                    </select>
+                    <div className="text-[10px] text-zinc-600 mt-1">胜出选项走对应端口；未决（平票 / 无人投票 / 未过半）走默认端口。</div>
+                </div>
+
+                {/* 4. Score Attribute */}
+                <div>
+                    <label className="text-[10px] text-zinc-500 uppercase font-semibold block mb-1.5">计分属性 (Score Attribute)</label>
+                    <select
+                        className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-xs text-zinc-300 focus:border-violet-500 focus:outline-none"
+                        value={(selectedNode as VoteNode).voteConfig.scoreAttributeId || ''}
+                        onChange={(e) => {
+                            startEditing(selectedNode.id);
+                            updateNode(selectedNode.id, { voteConfig: { ...(selectedNode as VoteNode).voteConfig, scoreAttributeId: e.target.value || undefined } });
+                            commitEditing();
+                        }}
+                    >
+                        <option value="">-- 不计分 --</option>
+                        {attributes.filter(a => a.type === 'number').map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                </div>
+
+                {/* 5. Options */}
                 <div>
                     <div className="flex justify-between items-center mb-1.5">
                         <label className="text-[10px] text-zinc-500 uppercase font-semibold">选项 (Options)</label>
@@ -1083,6 +1780,7 @@ const Inspector: React.FC = () => {
              </div>
              <input 
                 type="text"
+                list="speaker-expressions"
                 placeholder="e.g. neutral, happy, angry"
                 value={(selectedNode as DialogueNode).expression}
                 onChange={(e) => {
@@ -1092,6 +1790,11 @@ const Inspector: React.FC = () => {
                 onBlur={commitEditing}
                 className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
              />
+             <datalist id="speaker-expressions">
+                {(characters.find(c => c.id === (selectedNode as DialogueNode).characterId)?.expressions || []).map(expr => (
+                   <option key={expr.name} value={expr.name} />
+                ))}
+             </datalist>
           </div>
         )}
 
@@ -1147,6 +1850,28 @@ const Inspector: React.FC = () => {
           </div>
         )}
 
+        {/* Module: Ambience */}
+        {(selectedNode as LocationNode).ambience !== undefined && (
+          <div className="border border-zinc-700 rounded bg-zinc-800/30 p-3 relative group">
+             <button onClick={() => removeAddon('ambience')} className="absolute top-2 right-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 className="w-3 h-3" /></button>
+             <div className="flex items-center gap-2 mb-2 text-sky-400">
+                <Wind className="w-3 h-3" />
+                <span className="text-xs font-bold uppercase">环境音</span>
+             </div>
+             <input 
+                type="text"
+                placeholder="Audio ID... (雨声、人群等循环音)"
+                value={(selectedNode as LocationNode).ambience}
+                onChange={(e) => {
+                   startEditing(selectedNode.id);
+                   updateNode(selectedNode.id, { ambience: e.target.value });
+                }}
+                onBlur={commitEditing}
+                className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+             />
+          </div>
+        )}
+
         {/* Module: Filter */}
         {(selectedNode as LocationNode).filter !== undefined && (
           <div className="border border-zinc-700 rounded bg-zinc-800/30 p-3 relative group">
@@ -1157,7 +1882,8 @@ const Inspector: React.FC = () => {
              </div>
              <input 
                 type="text"
-                placeholder="CSS filter e.g. grayscale(100%)"
+                list="filter-presets"
+                placeholder="预设 (sepia / night ...) 或 CSS filter"
                 value={(selectedNode as LocationNode).filter}
                 onChange={(e) => {
                    startEditing(selectedNode.id);
@@ -1166,8 +1892,83 @@ const Inspector: React.FC = () => {
                 onBlur={commitEditing}
                 className="w-full bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 font-mono"
              />
+             <datalist id="filter-presets">
+                {Object.keys(FILTER_PRESETS).map(name => <option key={name} value={name} />)}
+             </datalist>
           </div>
         )}
+
+        {/* Module: Transition */}
+        {(selectedNode as LocationNode).transition !== undefined && (() => {
+          const transition = (selectedNode as LocationNode).transition!;
+          const setTransition = (patch: Partial<SceneTransition>) => {
+             startEditing(selectedNode.id);
+             updateNode(selectedNode.id, { transition: { ...transition, ...patch } });
+          };
+          return (
+            <div className="border border-zinc-700 rounded bg-zinc-800/30 p-3 relative group">
+               <button onClick={() => removeAddon('transition')} className="absolute top-2 right-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"><Trash2 className="w-3 h-3" /></button>
+               <div className="flex items-center gap-2 mb-2 text-sky-400">
+                  <Film className="w-3 h-3" />
+                  <span className="text-xs font-bold uppercase">进场转场 (Transition)</span>
+               </div>
+               <div className="grid grid-cols-2 gap-2">
+                  <select
+                     value={transition.kind}
+                     onChange={(e) => setTransition({ kind: e.target.value as SceneTransitionKind })}
+                     onBlur={commitEditing}
+                     className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+                  >
+                     <option value="fade">淡入淡出 (Fade)</option>
+                     <option value="crossfade">交叉溶解 (Crossfade)</option>
+                     <option value="wipe">擦除 (Wipe)</option>
+                     <option value="cut">直接切换 (Cut)</option>
+                  </select>
+                  <input
+                     type="number"
+                     step={0.1}
+                     min={0}
+                     title="时长 (秒)"
+                     value={transition.duration ?? 0.8}
+                     onChange={(e) => setTransition({ duration: parseFloat(e.target.value) || 0 })}
+                     onBlur={commitEditing}
+                     className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+                  />
+                  <select
+                     value={transition.easing || 'ease-in-out'}
+                     onChange={(e) => setTransition({ easing: e.target.value as EffectEasing })}
+                     onBlur={commitEditing}
+                     className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+                  >
+                     {['ease-in-out', 'ease-in', 'ease-out', 'linear'].map(easing => <option key={easing} value={easing}>{easing}</option>)}
+                  </select>
+                  {transition.kind === 'fade' && (
+                     <input
+                        type="text"
+                        title="淡入颜色"
+                        value={transition.color || '#000000'}
+                        onChange={(e) => setTransition({ color: e.target.value })}
+                        onBlur={commitEditing}
+                        className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 font-mono"
+                     />
+                  )}
+                  {transition.kind === 'wipe' && (
+                     <select
+                        value={transition.direction || 'right'}
+                        onChange={(e) => setTransition({ direction: e.target.value as SceneTransition['direction'] })}
+                        onBlur={commitEditing}
+                        className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+                     >
+                        <option value="right">→</option>
+                        <option value="left">←</option>
+                        <option value="down">↓</option>
+                        <option value="up">↑</option>
+                     </select>
+                  )}
+               </div>
+            </div>
+          );
+        })()}
         
         {/* Module: Default Next Node (Else Path for Branch) */}
         {(selectedNode as BranchNode).defaultNextNodeId !== undefined && (
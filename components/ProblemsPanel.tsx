@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle, XCircle, X } from 'lucide-react';
+import { useEditorStore } from '../store/useEditorStore';
+import { StoryDiagnostic } from '../engine/StoryValidator';
+
+interface ProblemsPanelProps {
+  diagnostics: StoryDiagnostic[];
+  onClose: () => void;
+}
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, onClose }) => {
+  const segments = useEditorStore(state => state.story.segments);
+  const focusNode = useEditorStore(state => state.focusNode);
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="h-48 shrink-0 border-t border-zinc-800 bg-[#09090b] flex flex-col">
+      <div className="h-8 px-3 flex items-center justify-between border-b border-zinc-800 select-none">
+        <div className="flex items-center gap-3 text-xs font-semibold text-zinc-400">
+          <span>问题 (Problems)</span>
+          <span className="flex items-center gap-1 text-red-400"><XCircle className="w-3 h-3" /> {errorCount}</span>
+          <span className="flex items-center gap-1 text-amber-400"><AlertTriangle className="w-3 h-3" /> {warningCount}</span>
+        </div>
+        <button onClick={onClose} className="p-0.5 rounded hover:bg-zinc-800 text-zinc-500 hover:text-zinc-300">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {diagnostics.length === 0 && (
+          <div className="px-3 py-2 text-xs text-zinc-600 italic">没有发现问题</div>
+        )}
+        {diagnostics.map((d, i) => {
+          const segmentName = segments.find(s => s.id === d.segmentId)?.name || d.segmentId;
+          return (
+            <div
+              key={`${d.code}_${d.nodeId || d.edgeId || ''}_${i}`}
+              onClick={() => focusNode(d.segmentId, d.nodeId)}
+              className="px-3 py-1 flex items-center gap-2 text-xs cursor-pointer hover:bg-zinc-800/60"
+              title={d.code}
+            >
+              {d.severity === 'error'
+                ? <XCircle className="w-3 h-3 text-red-400 shrink-0" />
+                : <AlertTriangle className="w-3 h-3 text-amber-400 shrink-0" />}
+              <span className="text-zinc-300 truncate flex-1">{d.message}</span>
+              <span className="text-[10px] text-zinc-600 shrink-0">{segmentName}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
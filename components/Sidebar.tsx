@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { Layers, Box, Plus, Type, Image as ImageIcon, Gauge, Trash2, Users, Search, Package, Ghost, ChevronRight, ChevronDown, ShoppingCart } from 'lucide-react';
+import { Layers, Box, Plus, Type, Image as ImageIcon, Gauge, Trash2, Users, Search, Package, Ghost, ChevronRight, ChevronDown, ShoppingCart, Flag, Languages } from 'lucide-react';
 import { NodeType, NarrativeNode } from '../types';
 import { useEditorStore } from '../store/useEditorStore';
 import { useShallow } from 'zustand/react/shallow';
@@ -32,26 +32,29 @@ const SidebarSection: React.FC<{
 };
 
 const Sidebar: React.FC = () => {
-  const { openTab, addCharacter, addItem, addClue, addShop, selectNode } = useEditorStore(
+  const { openTab, addCharacter, addItem, addClue, addShop, addQuest, selectNode } = useEditorStore(
     useShallow(state => ({
         openTab: state.openTab,
         addCharacter: state.addCharacter,
         addItem: state.addItem,
         addClue: state.addClue,
         addShop: state.addShop,
+        addQuest: state.addQuest,
         selectNode: state.selectNode
     }))
   );
 
-  const { segments, activeSegmentId, characters, items, shops, clues, attributes } = useEditorStore(
+  const { segments, activeSegmentId, characters, items, shops, quests, clues, attributes, localization } = useEditorStore(
     useShallow(state => ({
         segments: state.story.segments,
         activeSegmentId: state.story.activeSegmentId,
         characters: state.story.characters,
         items: state.story.items,
         shops: state.story.shops,
+        quests: state.story.quests,
         clues: state.story.clues,
-        attributes: state.story.attributes
+        attributes: state.story.attributes,
+        localization: state.story.localization
     }))
   );
 
@@ -197,6 +200,29 @@ const Sidebar: React.FC = () => {
              </div>
         </SidebarSection>
 
+        {/* Quests */}
+        <SidebarSection 
+            title="任务 (Quests)" 
+            icon={<Flag className="w-4 h-4 text-lime-500" />}
+            action={
+                <button onClick={addQuest} className="p-1 hover:bg-zinc-700 rounded text-zinc-500 hover:text-white mr-2"><Plus className="w-3 h-3" /></button>
+            }
+        >
+             <div className="px-2 space-y-0.5 mt-1">
+                {(quests || []).map(quest => (
+                    <div 
+                        key={quest.id}
+                        onClick={() => openTab('quest', quest.id, quest.name)}
+                        className="flex items-center gap-2 px-3 py-1.5 rounded text-xs text-zinc-400 hover:bg-zinc-800 cursor-pointer"
+                    >
+                        <Flag className="w-3 h-3 text-zinc-600" />
+                        <span className="truncate flex-1">{quest.name}</span>
+                    </div>
+                ))}
+                 {(!quests || quests.length === 0) && <div className="px-4 py-1 text-[10px] text-zinc-600">暂无任务</div>}
+             </div>
+        </SidebarSection>
+
         {/* 6. Clues */}
         <SidebarSection 
             title="线索情报" 
@@ -220,6 +246,27 @@ const Sidebar: React.FC = () => {
              </div>
         </SidebarSection>
 
+        {/* 7. Localization */}
+        <SidebarSection 
+            title="本地化" 
+            icon={<Languages className="w-4 h-4 text-cyan-500" />}
+            action={
+                <button 
+                    onClick={() => openTab('localization', undefined, '本地化')}
+                    className="p-1 hover:bg-zinc-700 rounded text-zinc-500 hover:text-white mr-2"
+                    title="管理翻译"
+                >
+                    <Languages className="w-3 h-3" />
+                </button>
+            }
+        >
+             <div className="px-4 py-2 text-xs text-zinc-500 hover:text-zinc-300 cursor-pointer flex items-center gap-2" onClick={() => openTab('localization', undefined, '本地化')}>
+                 <span className="italic">
+                     {localization?.locales.length ? `${localization.sourceLocale} → ${localization.locales.join(', ')}` : '点击添加翻译语言'}
+                 </span>
+             </div>
+        </SidebarSection>
+
       </div>
       
       <div className="p-2 border-t border-zinc-800 text-[10px] text-zinc-600 text-center">
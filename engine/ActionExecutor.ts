@@ -11,7 +11,8 @@ export class ActionExecutor {
   constructor(
     private store: IVariableStore,
     private eventBus: IEventBus,
-    registry: ActionRegistry = sharedActionRegistry
+    registry: ActionRegistry = sharedActionRegistry,
+    private services: Record<string, any> = {}
   ) {
     this.registry = registry;
   }
@@ -32,7 +33,8 @@ export class ActionExecutor {
     const context: ActionContext = {
       variableStore: this.store,
       eventBus: this.eventBus,
-      scope: 'global'
+      scope: 'global',
+      services: this.services
     };
 
     const runner = async () => {
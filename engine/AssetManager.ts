@@ -63,7 +63,7 @@ export class AssetManager {
       case NodeType.SEQUENCE:
         return { ...base, name: 'Sequence', size: { x: 220, y: 120 } } as any;
       case NodeType.SWITCH:
-        return { ...base, name: 'Switch', size: { x: 240, y: 140 } } as any;
+        return { ...base, name: 'Switch', subject: { kind: 'attribute', refId: '' }, cases: [], size: { x: 240, y: 140 } } as any;
       case NodeType.JUMP:
         return { ...base, name: 'Jump to...', targetSegmentId: '', size: { x: 250, y: 120 } } as any;
       case NodeType.ACTION:
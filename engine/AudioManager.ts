@@ -0,0 +1,326 @@
+import { IEventBus } from './interfaces';
+import { CharacterAsset, DialogueNode, LocationNode, NarrativeNode, NodeType, StoryAsset } from '../types';
+
+export type AudioChannel = 'bgm' | 'ambience' | 'voice' | 'sfx';
+
+export const AUDIO_CHANNELS: AudioChannel[] = ['bgm', 'ambience', 'voice', 'sfx'];
+
+/** 各通道音量与总音量 (0-1) */
+export type AudioVolumes = Record<AudioChannel | 'master', number>;
+
+export const DEFAULT_AUDIO_VOLUMES: AudioVolumes = { master: 1, bgm: 0.7, ambience: 0.7, voice: 1, sfx: 1 };
+
+/** 切换场景时 BGM / 环境音的交叉淡入淡出时长 (ms) */
+export const DEFAULT_CROSSFADE_MS = 1200;
+
+export interface AudioPlayRequest {
+  id: number;
+  channel: AudioChannel;
+  soundId: string;
+  volume: number; // 已乘上通道与总音量
+  loop: boolean;
+  fadeInMs: number;
+}
+
+/**
+ * 音频后端：真正发声的部分
+ * 浏览器使用 HtmlAudioBackend；测试与无头回放使用 NullAudioBackend / LoggingAudioBackend。
+ * 非循环声音播放完毕后后端调用 onEnded，管理器据此释放通道。
+ */
+export interface IAudioBackend {
+  play(request: AudioPlayRequest, onEnded: () => void): void;
+  setVolume(id: number, volume: number, fadeMs: number): void;
+  stop(id: number, fadeMs: number): void;
+}
+
+/**
+ * 静音后端：不发声，非循环声音视为立即播放完毕
+ */
+export class NullAudioBackend implements IAudioBackend {
+  play(request: AudioPlayRequest, onEnded: () => void): void {
+    if (!request.loop) onEnded();
+  }
+  setVolume(_id: number, _volume: number, _fadeMs: number): void {}
+  stop(_id: number, _fadeMs: number): void {}
+}
+
+export type AudioLogEntry =
+  | { op: 'play'; id: number; channel: AudioChannel; soundId: string; volume: number; loop: boolean; fadeMs: number }
+  | { op: 'volume'; id: number; volume: number; fadeMs: number }
+  | { op: 'stop'; id: number; fadeMs: number };
+
+/**
+ * 记录型后端：记下所有调用，供测试断言与 --verbose 回放输出
+ */
+export class LoggingAudioBackend extends NullAudioBackend {
+  readonly log: AudioLogEntry[] = [];
+
+  constructor(private echo?: (line: string) => void) {
+    super();
+  }
+
+  play(request: AudioPlayRequest, onEnded: () => void): void {
+    const { id, channel, soundId, volume, loop, fadeInMs } = request;
+    this.record({ op: 'play', id, channel, soundId, volume, loop, fadeMs: fadeInMs }, `play #${id} ${channel} ${soundId} vol=${volume.toFixed(2)}${loop ? ' loop' : ''}${fadeInMs ? ` fade=${fadeInMs}ms` : ''}`);
+    super.play(request, onEnded);
+  }
+
+  setVolume(id: number, volume: number, fadeMs: number): void {
+    this.record({ op: 'volume', id, volume, fadeMs }, `volume #${id} ${volume.toFixed(2)}${fadeMs ? ` fade=${fadeMs}ms` : ''}`);
+  }
+
+  stop(id: number, fadeMs: number): void {
+    this.record({ op: 'stop', id, fadeMs }, `stop #${id}${fadeMs ? ` fade=${fadeMs}ms` : ''}`);
+  }
+
+  private record(entry: AudioLogEntry, line: string) {
+    this.log.push(entry);
+    this.echo?.(`[Audio] ${line}`);
+  }
+}
+
+const FADE_STEP_MS = 50;
+
+/**
+ * 浏览器后端：每个声音一个 HTMLAudioElement，淡入淡出用定时器逐步调整音量
+ * soundId 默认直接作为 URL，可传入 resolveUrl 做资源映射
+ */
+export class HtmlAudioBackend implements IAudioBackend {
+  private elements: Map<number, HTMLAudioElement> = new Map();
+  private fades: Map<number, ReturnType<typeof setInterval>> = new Map();
+
+  constructor(private resolveUrl: (soundId: string) => string = soundId => soundId) {}
+
+  play(request: AudioPlayRequest, onEnded: () => void): void {
+    const element = new Audio(this.resolveUrl(request.soundId));
+    element.loop = request.loop;
+    element.volume = request.fadeInMs > 0 ? 0 : request.volume;
+    element.addEventListener('ended', () => {
+      this.release(request.id);
+      onEnded();
+    });
+    element.addEventListener('error', () => {
+      console.warn(`[HtmlAudioBackend] Failed to load sound: ${request.soundId}`);
+      this.release(request.id);
+      onEnded();
+    });
+    this.elements.set(request.id, element);
+    // 浏览器自动播放策略可能拒绝播放（用户尚未与页面交互）
+    element.play().catch(e => console.warn(`[HtmlAudioBackend] Playback blocked: ${request.soundId}`, e));
+    if (request.fadeInMs > 0) this.ramp(request.id, request.volume, request.fadeInMs);
+  }
+
+  setVolume(id: number, volume: number, fadeMs: number): void {
+    const element = this.elements.get(id);
+    if (!element) return;
+    if (fadeMs > 0) {
+      this.ramp(id, volume, fadeMs);
+    } else {
+      this.cancelFade(id);
+      element.volume = volume;
+    }
+  }
+
+  stop(id: number, fadeMs: number): void {
+    if (!this.elements.has(id)) return;
+    if (fadeMs > 0) this.ramp(id, 0, fadeMs, () => this.release(id));
+    else this.release(id);
+  }
+
+  private ramp(id: number, target: number, fadeMs: number, done?: () => void) {
+    const element = this.elements.get(id);
+    if (!element) return;
+    this.cancelFade(id);
+    const from = element.volume;
+    const steps = Math.max(1, Math.round(fadeMs / FADE_STEP_MS));
+    let step = 0;
+    this.fades.set(id, setInterval(() => {
+      step++;
+      element.volume = Math.min(1, Math.max(0, from + (target - from) * (step / steps)));
+      if (step >= steps) {
+        this.cancelFade(id);
+        done?.();
+      }
+    }, FADE_STEP_MS));
+  }
+
+  private cancelFade(id: number) {
+    const fade = this.fades.get(id);
+    if (fade !== undefined) clearInterval(fade);
+    this.fades.delete(id);
+  }
+
+  private release(id: number) {
+    this.cancelFade(id);
+    const element = this.elements.get(id);
+    if (!element) return;
+    element.pause();
+    element.removeAttribute('src');
+    this.elements.delete(id);
+  }
+}
+
+interface ActiveSound {
+  id: number;
+  channel: AudioChannel;
+  soundId: string;
+  volume: number; // 声音自身音量，不含通道与总音量
+  loop: boolean;
+}
+
+export interface AudioPlayOptions {
+  volume?: number;
+  loop?: boolean;
+  fadeMs?: number;
+}
+
+const clampVolume = (value: any, fallback: number): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : fallback;
+};
+
+/**
+ * 音频管理
+ * BGM / 环境音 / 语音为独占通道：同一时间只播放一个，新声音会替换旧的（BGM 与环境音交叉淡入淡出）；音效可叠加。
+ * 跟随引擎事件自动播放：进入地点切换 BGM 与环境音（未设置时保持当前曲目），进入对话播放语音，离开节点打断语音。
+ * 脚本通过 audio:play / audio:stop / audio:fade / audio:playSfx 事件控制。
+ */
+export class AudioManager {
+  private sounds: Map<number, ActiveSound> = new Map();
+  private nextId = 1;
+  private volumes: AudioVolumes = { ...DEFAULT_AUDIO_VOLUMES };
+  private characters: CharacterAsset[] = [];
+
+  constructor(private eventBus: IEventBus, private backend: IAudioBackend = new NullAudioBackend()) {
+    this.eventBus.on('node:enter', ({ node }) => this.onNodeEnter(node));
+    this.eventBus.on('node:exit', () => this.stop('voice'));
+    // 读档 / 回想回退：同一曲目继续播放，不从头开始
+    this.eventBus.on('game:restored', ({ scene, node }) => {
+      this.stop('voice');
+      this.stop('sfx');
+      if (scene) this.onNodeEnter(scene);
+      if (node && node.id !== scene?.id) this.onNodeEnter(node);
+    });
+    this.eventBus.on('audio:playSfx', ({ soundId, volume }) => this.play('sfx', soundId, { volume }));
+    this.eventBus.on('audio:play', ({ channel, soundId, volume, fadeMs }) => this.play(channel, soundId, { volume, fadeMs }));
+    this.eventBus.on('audio:stop', ({ channel, fadeMs }) => this.stop(channel || undefined, fadeMs));
+    this.eventBus.on('audio:fade', ({ channel, volume, fadeMs }) => this.fade(channel, volume, fadeMs));
+  }
+
+  init(story: StoryAsset): void {
+    this.stop();
+    this.characters = story.characters || [];
+  }
+
+  setBackend(backend: IAudioBackend): void {
+    this.stop();
+    this.backend = backend;
+  }
+
+  /**
+   * 播放声音，返回声音 ID；独占通道中已在播放同一声音时保持不变
+   */
+  play(channel: AudioChannel, soundId: string, options: AudioPlayOptions = {}): number | null {
+    if (!AUDIO_CHANNELS.includes(channel)) {
+      console.warn(`[AudioManager] Unknown channel: ${channel}`);
+      return null;
+    }
+    if (!soundId) return null;
+
+    const volume = clampVolume(options.volume, 1);
+    const exclusive = channel !== 'sfx';
+    const crossfade = channel === 'bgm' || channel === 'ambience';
+    const fadeMs = Math.max(0, Number(options.fadeMs ?? (crossfade ? DEFAULT_CROSSFADE_MS : 0)) || 0);
+
+    if (exclusive) {
+      const current = this.getChannelSounds(channel)[0];
+      if (current && current.soundId === soundId && crossfade) {
+        if (current.volume !== volume) {
+          current.volume = volume;
+          this.backend.setVolume(current.id, this.mix(current), fadeMs);
+        }
+        return current.id;
+      }
+      this.stop(channel, fadeMs);
+    }
+
+    const sound: ActiveSound = { id: this.nextId++, channel, soundId, volume, loop: options.loop ?? crossfade };
+    this.sounds.set(sound.id, sound);
+    this.backend.play(
+      { id: sound.id, channel, soundId, volume: this.mix(sound), loop: sound.loop, fadeInMs: fadeMs },
+      () => this.sounds.delete(sound.id)
+    );
+    return sound.id;
+  }
+
+  /**
+   * 停止某个通道（不传则全部）
+   */
+  stop(channel?: AudioChannel, fadeMs: number = 0): void {
+    const ms = Math.max(0, Number(fadeMs) || 0);
+    Array.from(this.sounds.values())
+      .filter(sound => !channel || sound.channel === channel)
+      .forEach(sound => {
+        this.sounds.delete(sound.id);
+        this.backend.stop(sound.id, ms);
+      });
+  }
+
+  /**
+   * 将通道内正在播放的声音渐变到指定音量（例如对话时压低 BGM）
+   */
+  fade(channel: AudioChannel, volume: number, fadeMs: number = 0): void {
+    const target = clampVolume(volume, 1);
+    const ms = Math.max(0, Number(fadeMs) || 0);
+    this.getChannelSounds(channel).forEach(sound => {
+      sound.volume = target;
+      this.backend.setVolume(sound.id, this.mix(sound), ms);
+    });
+  }
+
+  setVolume(channel: AudioChannel | 'master', value: number): void {
+    this.setVolumes({ [channel]: value });
+  }
+
+  setVolumes(patch: Partial<AudioVolumes>): void {
+    (Object.keys(patch) as (AudioChannel | 'master')[]).forEach(key => {
+      if (key !== 'master' && !AUDIO_CHANNELS.includes(key)) return;
+      this.volumes[key] = clampVolume(patch[key], this.volumes[key]);
+    });
+    this.sounds.forEach(sound => this.backend.setVolume(sound.id, this.mix(sound), 0));
+  }
+
+  getVolumes(): AudioVolumes {
+    return { ...this.volumes };
+  }
+
+  getPlaying(channel?: AudioChannel): { channel: AudioChannel; soundId: string }[] {
+    return Array.from(this.sounds.values())
+      .filter(sound => !channel || sound.channel === channel)
+      .map(({ channel, soundId }) => ({ channel, soundId }));
+  }
+
+  private getChannelSounds(channel: AudioChannel): ActiveSound[] {
+    return Array.from(this.sounds.values()).filter(sound => sound.channel === channel);
+  }
+
+  private mix(sound: ActiveSound): number {
+    return sound.volume * this.volumes[sound.channel] * this.volumes.master;
+  }
+
+  private onNodeEnter(node?: NarrativeNode) {
+    if (!node) return;
+    if (node.type === NodeType.LOCATION) {
+      const location = node as LocationNode;
+      if (location.bgm) this.play('bgm', location.bgm);
+      if (location.ambience) this.play('ambience', location.ambience);
+      return;
+    }
+    if (node.type === NodeType.DIALOGUE) {
+      const dialogue = node as DialogueNode;
+      // 未单独配音的台词使用角色默认语音
+      const voice = dialogue.voiceId || this.characters.find(c => c.id === dialogue.characterId)?.defaultVoice;
+      if (voice) this.play('voice', voice);
+    }
+  }
+}
@@ -35,6 +35,14 @@ export class CommandBus implements ICommandBus {
     }
   }
 
+  /**
+   * 清空撤销 / 重做历史（例如打开了另一个剧本）
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
   canUndo(): boolean {
     return this.undoStack.length > 0;
   }
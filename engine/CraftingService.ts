@@ -0,0 +1,101 @@
+import { IEventBus, IVariableStore } from './interfaces';
+import { Item, ItemRecipe, StoryAsset } from '../types';
+
+export type CraftFailureReason = 'no_recipe' | 'missing_ingredients' | 'insufficient_cost' | 'already_owned';
+
+export interface CraftCheck {
+  ok: boolean;
+  reason?: CraftFailureReason;
+  missing?: { itemId: string; required: number; owned: number }[];
+}
+
+/**
+ * 合成服务
+ * 基于 VariableStore 检查配方材料与属性消耗，合成时先整体校验再扣除，保证原子性
+ */
+export class CraftingService {
+  private items: Map<string, Item> = new Map();
+
+  constructor(
+    private variableStore: IVariableStore,
+    private eventBus: IEventBus
+  ) {}
+
+  init(story: StoryAsset): void {
+    this.items.clear();
+    story.items.forEach(item => this.items.set(item.id, item));
+  }
+
+  /**
+   * 所有带配方的物品
+   */
+  getRecipes(): Item[] {
+    return Array.from(this.items.values()).filter(item => !!item.recipe);
+  }
+
+  /**
+   * 当前可以合成的物品
+   */
+  getCraftable(): Item[] {
+    return this.getRecipes().filter(item => this.canCraft(item.id));
+  }
+
+  canCraft(itemId: string): boolean {
+    return this.check(itemId).ok;
+  }
+
+  check(itemId: string): CraftCheck {
+    const item = this.items.get(itemId);
+    if (!item?.recipe) return { ok: false, reason: 'no_recipe' };
+
+    // Non-stackable results can only be owned once
+    if (!item.stackable && this.variableStore.getItemCount(itemId) >= 1) {
+      return { ok: false, reason: 'already_owned' };
+    }
+
+    const missing = Object.entries(this.requiredIngredients(item.recipe))
+      .map(([id, required]) => ({ itemId: id, required, owned: this.variableStore.getItemCount(id) }))
+      .filter(entry => entry.owned < entry.required);
+    if (missing.length > 0) return { ok: false, reason: 'missing_ingredients', missing };
+
+    const cost = item.recipe.costAttribute;
+    if (cost && cost.amount > 0 && Number(this.variableStore.getAttribute(cost.attributeId) || 0) < cost.amount) {
+      return { ok: false, reason: 'insufficient_cost' };
+    }
+
+    return { ok: true };
+  }
+
+  craft(itemId: string): boolean {
+    const result = this.check(itemId);
+    if (!result.ok) {
+      console.warn(`[CraftingService] Cannot craft ${itemId}: ${result.reason}`);
+      return false;
+    }
+
+    const item = this.items.get(itemId)!;
+    const recipe = item.recipe!;
+    const consumed = this.requiredIngredients(recipe);
+
+    Object.entries(consumed).forEach(([id, count]) => this.variableStore.removeItem(id, count));
+    if (recipe.costAttribute && recipe.costAttribute.amount > 0) {
+      this.variableStore.modifyAttribute(recipe.costAttribute.attributeId, 'sub', recipe.costAttribute.amount);
+    }
+    this.variableStore.addItem(itemId, 1);
+
+    this.eventBus.emit('item:crafted', { itemId, consumed, cost: recipe.costAttribute || null });
+    return true;
+  }
+
+  // --- Private Helpers ---
+
+  // Merge duplicate ingredient rows so each item is checked against its total
+  private requiredIngredients(recipe: ItemRecipe): Record<string, number> {
+    const required: Record<string, number> = {};
+    for (const ing of recipe.ingredients || []) {
+      if (!ing.itemId || ing.count <= 0) continue;
+      required[ing.itemId] = (required[ing.itemId] || 0) + ing.count;
+    }
+    return required;
+  }
+}
@@ -0,0 +1,139 @@
+import { IEventBus } from './interfaces';
+import { EffectEasing, LocationNode, NarrativeNode, NodeType, SceneTransition, SceneTransitionKind } from '../types';
+
+export type ShakeIntensity = 'low' | 'medium' | 'high';
+
+export const SHAKE_INTENSITIES: ShakeIntensity[] = ['low', 'medium', 'high'];
+
+/**
+ * 滤镜预设；LocationNode.filter 与 SET_FILTER 也接受任意 CSS filter 字符串
+ */
+export const FILTER_PRESETS: Record<string, string> = {
+  none: 'none',
+  sepia: 'sepia(0.85) contrast(1.05)',
+  grayscale: 'grayscale(1)',
+  blur: 'blur(4px)',
+  night: 'brightness(0.55) saturate(0.6) hue-rotate(190deg)'
+};
+
+export const resolveFilter = (value?: string): string => {
+  const key = (value || '').trim();
+  if (!key) return 'none';
+  return FILTER_PRESETS[key] ?? key;
+};
+
+export type VisualEffect =
+  | {
+      kind: 'transition';
+      from: string; // 上一个地点的背景
+      background: string;
+      transition: Exclude<SceneTransitionKind, 'cut'>;
+      durationMs: number;
+      easing: EffectEasing;
+      color: string;
+      direction: NonNullable<SceneTransition['direction']>;
+    }
+  | { kind: 'filter'; filter: string; durationMs: number; easing: EffectEasing }
+  | { kind: 'flash'; color: string; durationMs: number; easing: EffectEasing }
+  | { kind: 'shake'; intensity: ShakeIntensity; durationMs: number };
+
+/**
+ * 效果渲染器：由界面实现，效果播放完毕后 resolve
+ */
+export interface IEffectRenderer {
+  play(effect: VisualEffect): Promise<void>;
+}
+
+const DEFAULT_TRANSITION_SECONDS = 0.8;
+
+/**
+ * 秒转毫秒；非数字或负数时使用 fallback 秒
+ */
+export const toMs = (seconds: any, fallback: number): number => {
+  const n = Number(seconds);
+  return Math.round((Number.isFinite(n) && n >= 0 ? n : fallback) * 1000);
+};
+
+/**
+ * 画面效果管线
+ * 地点切换时按 LocationNode.transition（或 SCENE_TRANSITION 预设的下一次转场）播放背景过渡，并应用地点滤镜；
+ * 动作通过 ActionContext.services.effects 调用 play，返回的 Promise 在效果播完后 resolve，executeGroup 因而可以等待。
+ * 没有渲染器（无头运行）时效果立即完成；所有效果都会发出 fx:play 事件供回放记录。
+ */
+export class EffectsManager {
+  private renderer: IEffectRenderer | null = null;
+  private pendingTransition: SceneTransition | null = null;
+  private filter = 'none';
+  private background = '';
+
+  constructor(private eventBus: IEventBus) {
+    this.eventBus.on('node:enter', ({ node }) => this.onNodeEnter(node));
+    this.eventBus.on('game:restored', ({ scene }) => {
+      this.pendingTransition = null;
+      this.background = scene?.backgroundImage || '';
+      this.applyFilter(resolveFilter(scene?.filter), 0, 'linear');
+    });
+  }
+
+  init(): void {
+    this.pendingTransition = null;
+    this.background = '';
+    // 重新开始时清掉上一局残留的滤镜
+    if (this.filter !== 'none') this.applyFilter('none', 0, 'linear');
+  }
+
+  setRenderer(renderer: IEffectRenderer | null): void {
+    this.renderer = renderer;
+  }
+
+  getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * 预设下一次进入地点时的背景过渡（优先于地点自身的设置，只生效一次）
+   */
+  armTransition(transition: SceneTransition | null): void {
+    this.pendingTransition = transition;
+  }
+
+  play(effect: VisualEffect): Promise<void> {
+    if (effect.kind === 'filter') this.filter = effect.filter;
+    this.eventBus.emit('fx:play', effect);
+    if (!this.renderer) return Promise.resolve();
+    return this.renderer.play(effect).catch(e => console.warn(`[EffectsManager] Effect ${effect.kind} failed`, e));
+  }
+
+  applyFilter(filter: string, durationMs: number, easing: EffectEasing): Promise<void> {
+    return this.play({ kind: 'filter', filter, durationMs, easing });
+  }
+
+  private onNodeEnter(node?: NarrativeNode) {
+    if (node?.type !== NodeType.LOCATION) return;
+    const location = node as LocationNode;
+    const transition = this.pendingTransition || location.transition;
+    this.pendingTransition = null;
+    // 没有背景图的地点沿用上一张背景
+    const from = this.background;
+    this.background = location.backgroundImage || from;
+
+    const durationMs = transition ? toMs(transition.duration, DEFAULT_TRANSITION_SECONDS) : 0;
+    const easing = transition?.easing || 'ease-in-out';
+    if (transition && transition.kind !== 'cut' && durationMs > 0) {
+      this.play({
+        kind: 'transition',
+        from,
+        background: this.background,
+        transition: transition.kind,
+        durationMs,
+        easing,
+        color: transition.color || '#000000',
+        direction: transition.direction || 'right'
+      });
+    }
+
+    // 地点滤镜随背景一起过渡；SET_FILTER 的效果持续到下一次进入地点
+    const filter = resolveFilter(location.filter);
+    if (filter !== this.filter) this.applyFilter(filter, durationMs, easing);
+  }
+}
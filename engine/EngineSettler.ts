@@ -0,0 +1,34 @@
+import { IEventBus } from './interfaces';
+
+/**
+ * 引擎活动事件：节点进出以及会伴随自动推进出现的状态变化
+ */
+export const ACTIVITY_EVENTS = [
+  'node:enter', 'node:settled', 'node:exit', 'node:traversed', 'segment:started', 'segment:exited', 'story:end',
+  'attribute:changed', 'inventory:added', 'inventory:removed',
+  'vote:started', 'vote:resolved', 'ui:toast'
+];
+
+/**
+ * 等待引擎流程稳定
+ * START / BRANCH / ACTION 等节点通过定时器自动推进，无头工具在一段时间内没有活动事件后才视为稳定
+ */
+export class EngineSettler {
+  private lastActivity = Date.now();
+
+  constructor(eventBus: IEventBus, private quietMs: number, private timeoutMs: number) {
+    ACTIVITY_EVENTS.forEach(event => eventBus.on(event, () => this.touch()));
+  }
+
+  touch() {
+    this.lastActivity = Date.now();
+  }
+
+  async settle(): Promise<void> {
+    const deadline = Date.now() + this.timeoutMs;
+    while (Date.now() - this.lastActivity < this.quietMs) {
+      if (Date.now() > deadline) throw new Error(`等待超时 (${this.timeoutMs}ms)，流程未稳定`);
+      await new Promise(resolve => setTimeout(resolve, Math.min(25, this.quietMs)));
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { IEventBus } from './interfaces';
+import { AttributeWatch, NarrativeNode, NodeEvent } from '../types';
+import { crossesClockTime, parseClockTime } from './StoryClock';
+
+const compare = (value: any, watch: AttributeWatch): boolean => {
+  const left = Number(value);
+  if (Number.isNaN(left)) return false;
+  switch (watch.operator) {
+    case '<': return left < watch.value;
+    case '<=': return left <= watch.value;
+    case '>': return left > watch.value;
+    case '>=': return left >= watch.value;
+    case '==': return left === watch.value;
+    default: return false;
+  }
+};
+
+/**
+ * 定时/计划事件调度
+ * 进入节点时为 onTimer / onClock / onAttribute 事件挂上定时器与监听，离开节点时全部取消。
+ * 定时器的已等待时间不进存档：读档后从头计时。
+ */
+export class EventScheduler {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private intervals: ReturnType<typeof setInterval>[] = [];
+  private listeners: { event: string; callback: (payload: any) => void }[] = [];
+
+  constructor(
+    private eventBus: IEventBus,
+    private fire: (nodeId: string, evt: NodeEvent) => void
+  ) {}
+
+  arm(node: NarrativeNode): void {
+    this.disarm();
+    (node.events || []).forEach(evt => {
+      switch (evt.trigger) {
+        case 'onTimer':
+          this.armTimer(node.id, evt);
+          break;
+        case 'onClock':
+          this.armClock(node.id, evt);
+          break;
+        case 'onAttribute':
+          this.armWatch(node.id, evt);
+          break;
+      }
+    });
+  }
+
+  disarm(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.intervals.forEach(interval => clearInterval(interval));
+    this.listeners.forEach(({ event, callback }) => this.eventBus.off(event, callback));
+    this.timers = [];
+    this.intervals = [];
+    this.listeners = [];
+  }
+
+  private armTimer(nodeId: string, evt: NodeEvent) {
+    const seconds = Number(evt.timer?.seconds);
+    if (!(seconds > 0)) {
+      console.warn(`[EventScheduler] Timer event without a positive duration: ${evt.label}`);
+      return;
+    }
+    const ms = seconds * 1000;
+    if (evt.timer?.repeat) {
+      this.intervals.push(setInterval(() => this.fire(nodeId, evt), ms));
+    } else {
+      this.timers.push(setTimeout(() => this.fire(nodeId, evt), ms));
+    }
+  }
+
+  private armClock(nodeId: string, evt: NodeEvent) {
+    const target = parseClockTime(evt.clockTime);
+    if (target === null) {
+      console.warn(`[EventScheduler] Clock event with invalid time: ${evt.clockTime}`);
+      return;
+    }
+    this.listen('clock:changed', ({ time, oldTime }) => {
+      if (crossesClockTime(oldTime, time, target)) this.fire(nodeId, evt);
+    });
+  }
+
+  /**
+   * 只在越过阈值的那一次变化时触发；已经满足阈值时进入节点不会触发
+   */
+  private armWatch(nodeId: string, evt: NodeEvent) {
+    const watch = evt.watch;
+    if (!watch?.attributeId) {
+      console.warn(`[EventScheduler] Attribute event without an attribute: ${evt.label}`);
+      return;
+    }
+    this.listen('attribute:changed', ({ id, key, characterId, value, oldValue }) => {
+      if (watch.attributeId !== id && watch.attributeId !== key) return;
+      if (watch.characterId && watch.characterId !== characterId) return;
+      if (!compare(oldValue, watch) && compare(value, watch)) this.fire(nodeId, evt);
+    });
+  }
+
+  private listen(event: string, callback: (payload: any) => void) {
+    this.eventBus.on(event, callback);
+    this.listeners.push({ event, callback });
+  }
+}
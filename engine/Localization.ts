@@ -0,0 +1,345 @@
+/**
+ * 剧本本地化
+ * 对话文本、选项、投票、物品、线索、商店的原文内联在剧本中 (sourceLocale)，译文按 key 存在 story.localization.tables。
+ * key 由所属对象的 id 组成，改名 / 移动节点不影响已有译文：
+ *   node.<segmentId>.<nodeId>.text
+ *   node.<segmentId>.<nodeId>.choice.<choiceId>[.disabledReason]
+ *   node.<segmentId>.<nodeId>.vote.title / node.<segmentId>.<nodeId>.vote.option.<optionId>
+ *   item.<id>.name / item.<id>.description (线索 clue.、商店 shop. 同理)
+ * 译文缺失或为空时回退原文。
+ * 翻译交换格式为 CSV (key,context,source,<locale>) 与 XLIFF 1.2。
+ */
+import { DialogueNode, NarrativeNode, NodeType, StoryAsset, StoryLocalization, StringTable, VoteNode } from '../types';
+
+export const DEFAULT_SOURCE_LOCALE = 'zh-CN';
+
+export interface LocalizedString {
+  key: string;
+  source: string;
+  context: string; // 给译者看的位置说明
+}
+
+export interface TranslationReport {
+  locale: string;
+  total: number;
+  translated: number;
+  missing: LocalizedString[];
+  unused: string[]; // 字符串表里已找不到原文的 key
+}
+
+export type TranslationFormat = 'csv' | 'xliff';
+
+export interface TranslationImportResult {
+  story: StoryAsset;
+  locale: string;
+  imported: number;
+  unknownKeys: string[];
+}
+
+const nodeKey = (segmentId: string, nodeId: string) => `node.${segmentId}.${nodeId}`;
+
+/**
+ * 剧本中所有可翻译的文本（空文本不计入）
+ */
+export const collectStrings = (story: StoryAsset): LocalizedString[] => {
+  const strings: LocalizedString[] = [];
+  const add = (key: string, source: string | undefined, context: string) => {
+    if (source && source.trim()) strings.push({ key, source, context });
+  };
+
+  for (const segment of story.segments) {
+    for (const node of Object.values(segment.nodes)) {
+      const base = nodeKey(segment.id, node.id);
+      const where = `${segment.name} / ${node.name || node.id}`;
+      if (node.type === NodeType.DIALOGUE) {
+        const dialogue = node as DialogueNode;
+        const speaker = story.characters.find(c => c.id === dialogue.characterId)?.name;
+        add(`${base}.text`, dialogue.text, speaker ? `${where} · ${speaker}` : where);
+        for (const choice of dialogue.choices || []) {
+          add(`${base}.choice.${choice.id}`, choice.text, `${where} · 选项`);
+          add(`${base}.choice.${choice.id}.disabledReason`, choice.disabledReason, `${where} · 选项禁用原因`);
+        }
+      } else if (node.type === NodeType.VOTE) {
+        const config = (node as VoteNode).voteConfig;
+        if (!config) continue;
+        add(`${base}.vote.title`, config.title, `${where} · 投票`);
+        for (const option of config.options || []) {
+          add(`${base}.vote.option.${option.id}`, option.text, `${where} · 投票选项`);
+        }
+      }
+    }
+  }
+
+  const assets: Array<[string, string, Array<{ id: string; name: string; description?: string }>]> = [
+    ['item', '物品', story.items],
+    ['clue', '线索', story.clues],
+    ['shop', '商店', story.shops || []]
+  ];
+  for (const [prefix, label, list] of assets) {
+    for (const asset of list) {
+      add(`${prefix}.${asset.id}.name`, asset.name, `${label} ${asset.id}`);
+      add(`${prefix}.${asset.id}.description`, asset.description, `${label} ${asset.id} · 描述`);
+    }
+  }
+  return strings;
+};
+
+/**
+ * 可切换的语言：原文语言在前
+ */
+export const getStoryLocales = (story: StoryAsset): string[] => {
+  const localization = story.localization;
+  if (!localization) return [];
+  return [localization.sourceLocale, ...localization.locales.filter(l => l !== localization.sourceLocale)];
+};
+
+const translate = (table: StringTable, key: string, source: string): string => table[key] || source;
+
+const localizeNode = (node: NarrativeNode, base: string, table: StringTable): NarrativeNode => {
+  if (node.type === NodeType.DIALOGUE) {
+    const dialogue = node as DialogueNode;
+    return {
+      ...dialogue,
+      text: translate(table, `${base}.text`, dialogue.text),
+      choices: (dialogue.choices || []).map(choice => ({
+        ...choice,
+        text: translate(table, `${base}.choice.${choice.id}`, choice.text),
+        ...(choice.disabledReason
+          ? { disabledReason: translate(table, `${base}.choice.${choice.id}.disabledReason`, choice.disabledReason) }
+          : {})
+      }))
+    } as DialogueNode;
+  }
+  if (node.type === NodeType.VOTE && (node as VoteNode).voteConfig) {
+    const config = (node as VoteNode).voteConfig;
+    return {
+      ...node,
+      voteConfig: {
+        ...config,
+        title: translate(table, `${base}.vote.title`, config.title),
+        options: (config.options || []).map(option => ({
+          ...option,
+          text: translate(table, `${base}.vote.option.${option.id}`, option.text)
+        }))
+      }
+    } as VoteNode;
+  }
+  return node;
+};
+
+/**
+ * 生成指定语言的剧本副本；原文语言或没有对应字符串表时原样返回
+ */
+export const localizeStory = (story: StoryAsset, locale?: string | null): StoryAsset => {
+  const localization = story.localization;
+  if (!locale || !localization || locale === localization.sourceLocale) return story;
+  const table = localization.tables[locale];
+  if (!table || !localization.locales.includes(locale)) return story;
+
+  const asset = <T extends { id: string; name: string; description?: string }>(prefix: string, value: T): T => ({
+    ...value,
+    name: translate(table, `${prefix}.${value.id}.name`, value.name),
+    ...(value.description ? { description: translate(table, `${prefix}.${value.id}.description`, value.description) } : {})
+  });
+
+  return {
+    ...story,
+    segments: story.segments.map(segment => ({
+      ...segment,
+      nodes: Object.fromEntries(
+        Object.entries(segment.nodes).map(([id, node]) => [id, localizeNode(node, nodeKey(segment.id, node.id), table)])
+      )
+    })),
+    items: story.items.map(item => asset('item', item)),
+    clues: story.clues.map(clue => asset('clue', clue)),
+    shops: (story.shops || []).map(shop => asset('shop', shop))
+  };
+};
+
+/**
+ * 缺失翻译报告：每个目标语言的覆盖情况、缺失条目与失效条目
+ */
+export const getTranslationReport = (story: StoryAsset): TranslationReport[] => {
+  const localization = story.localization;
+  if (!localization) return [];
+  const strings = collectStrings(story);
+  const keys = new Set(strings.map(s => s.key));
+  return localization.locales
+    .filter(locale => locale !== localization.sourceLocale)
+    .map(locale => {
+      const table = localization.tables[locale] || {};
+      const missing = strings.filter(s => !table[s.key]);
+      return {
+        locale,
+        total: strings.length,
+        translated: strings.length - missing.length,
+        missing,
+        unused: Object.keys(table).filter(key => !keys.has(key))
+      };
+    });
+};
+
+// --- Export ---
+
+const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportCsv = (story: StoryAsset, locale: string, options: { onlyMissing?: boolean } = {}): string => {
+  const table = story.localization?.tables[locale] || {};
+  const rows = [['key', 'context', 'source', locale]];
+  for (const entry of collectStrings(story)) {
+    if (options.onlyMissing && table[entry.key]) continue;
+    rows.push([entry.key, entry.context, entry.source, table[entry.key] || '']);
+  }
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const exportXliff = (story: StoryAsset, locale: string, options: { onlyMissing?: boolean } = {}): string => {
+  const table = story.localization?.tables[locale] || {};
+  const sourceLocale = story.localization?.sourceLocale || DEFAULT_SOURCE_LOCALE;
+  const units = collectStrings(story)
+    .filter(entry => !options.onlyMissing || !table[entry.key])
+    .map(entry => [
+      `      <trans-unit id="${escapeXml(entry.key)}">`,
+      `        <source>${escapeXml(entry.source)}</source>`,
+      `        <target${table[entry.key] ? '' : ' state="needs-translation"'}>${escapeXml(table[entry.key] || '')}</target>`,
+      `        <note>${escapeXml(entry.context)}</note>`,
+      '      </trans-unit>'
+    ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="${escapeXml(story.id)}" source-language="${escapeXml(sourceLocale)}" target-language="${escapeXml(locale)}" datatype="plaintext">`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+    ''
+  ].join('\n');
+};
+
+// --- Import ---
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+const unescapeXml = (value: string) => value
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_m, data: string) => escapeXml(data))
+  .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(Number(dec)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+/**
+ * 解析译者交回的文件；CSV 表头必须是 key,context,source,<语言>，XLIFF 的语言取自 target-language
+ */
+export const parseTranslations = (text: string, format?: TranslationFormat): { locale: string; entries: StringTable } | null => {
+  const content = text.replace(/^\uFEFF/, '');
+  const kind = format || (content.trimStart().startsWith('<') ? 'xliff' : 'csv');
+
+  if (kind === 'xliff') {
+    const locale = /<file\b[^>]*\btarget-language="([^"]*)"/.exec(content)?.[1];
+    if (!locale) {
+      console.warn('[Localization] XLIFF file has no target-language');
+      return null;
+    }
+    const entries: StringTable = {};
+    const unitPattern = /<trans-unit\b[^>]*\bid="([^"]*)"[^>]*>([\s\S]*?)<\/trans-unit>/g;
+    let match: RegExpExecArray | null;
+    while ((match = unitPattern.exec(content))) {
+      const target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(match[2])?.[1];
+      if (target) entries[unescapeXml(match[1])] = unescapeXml(target);
+    }
+    return { locale: unescapeXml(locale), entries };
+  }
+
+  // 列位置固定：重排或增加列的文件直接拒绝，避免导入错位的单元格
+  const [header, ...rows] = parseCsvRows(content);
+  const columns = (header || []).map(cell => cell.trim());
+  const locale = columns[3];
+  if (columns.length !== 4 || columns[0] !== 'key' || columns[1] !== 'context' || columns[2] !== 'source' || !locale) {
+    console.warn('[Localization] CSV header must be: key,context,source,<locale>');
+    return null;
+  }
+  const entries: StringTable = {};
+  for (const row of rows) {
+    const key = row[0]?.trim();
+    if (key && row[3]) entries[key] = row[3];
+  }
+  return { locale, entries };
+};
+
+/**
+ * 导入译文并合并进字符串表；新语言自动加入目标语言列表，空译文不覆盖已有译文
+ */
+export const importTranslations = (story: StoryAsset, text: string, format?: TranslationFormat): TranslationImportResult | null => {
+  const parsed = parseTranslations(text, format);
+  if (!parsed) return null;
+  const localization: StoryLocalization = story.localization || { sourceLocale: DEFAULT_SOURCE_LOCALE, locales: [], tables: {} };
+  if (parsed.locale === localization.sourceLocale) {
+    console.warn(`[Localization] Cannot import translations into the source locale: ${parsed.locale}`);
+    return null;
+  }
+
+  const keys = new Set(collectStrings(story).map(s => s.key));
+  const unknownKeys = Object.keys(parsed.entries).filter(key => !keys.has(key));
+  const accepted = Object.fromEntries(Object.entries(parsed.entries).filter(([key]) => keys.has(key)));
+
+  return {
+    story: {
+      ...story,
+      localization: {
+        ...localization,
+        locales: localization.locales.includes(parsed.locale) ? localization.locales : [...localization.locales, parsed.locale],
+        tables: { ...localization.tables, [parsed.locale]: { ...localization.tables[parsed.locale], ...accepted } }
+      }
+    },
+    locale: parsed.locale,
+    imported: Object.keys(accepted).length,
+    unknownKeys
+  };
+};
@@ -1,30 +1,62 @@
 
-import { INarrativeEngine, IVariableStore, IEventBus, ISceneGraph } from './interfaces';
+import { INarrativeEngine, IVariableStore, IEventBus, ISceneGraph, SaveGameData, ChoiceState } from './interfaces';
+import { SAVE_FORMAT_VERSION } from './SaveManager';
 import { VariableStore } from './VariableStore';
 import { EventBus } from './EventBus';
 import { SceneGraph } from './SceneGraph';
 import { ActionExecutor } from './ActionExecutor';
-import { StoryAsset, SegmentAsset, NarrativeNode, Edge, NodeType, DialogueNode, ActionNode, BranchNode, LogicOperator } from '../types';
+import { VoteManager, VoteResult } from './VoteManager';
+import { CraftingService } from './CraftingService';
+import { ShopService } from './ShopService';
+import { EventScheduler } from './EventScheduler';
+import { renderMarkup, RichText } from './TextMarkup';
+import { AudioManager, IAudioBackend } from './AudioManager';
+import { StageManager } from './StageManager';
+import { EffectsManager } from './EffectsManager';
+import { localizeStory } from './Localization';
+import { StoryAsset, SegmentAsset, NarrativeNode, Edge, NodeType, DialogueNode, ActionNode, BranchNode, SwitchNode, JumpNode, VoteNode, LocationNode, LogicOperator, NodeEvent, Hotspot, DialogueChoice } from '../types';
 import { ConditionEngine } from './logic/ConditionEngine';
 import { ActionExtension, ConditionExtension } from './logic/types';
 import { actionRegistry, conditionRegistry } from './logic/registries';
 
+export interface NarrativeEngineOptions {
+  /**
+   * ACTION 节点执行完后自动推进前的停顿 (ms)，默认 100
+   * 无头分析工具可设为 0 以加快遍历
+   */
+  actionAdvanceDelayMs?: number;
+  /**
+   * 音频后端，默认静音 (NullAudioBackend)；浏览器传入 HtmlAudioBackend
+   */
+  audioBackend?: IAudioBackend;
+}
+
+const DEFAULT_ACTION_ADVANCE_DELAY_MS = 100;
+
 export class NarrativeEngine implements INarrativeEngine {
   public variableStore: IVariableStore;
   public eventBus: IEventBus;
   public sceneGraph: ISceneGraph;
+  public voteManager: VoteManager;
+  public crafting: CraftingService;
+  public shops: ShopService;
+  public scheduler: EventScheduler;
+  public audio: AudioManager;
+  public stage: StageManager;
+  public effects: EffectsManager;
   private actionExecutor: ActionExecutor;
   private conditionEngine: ConditionEngine;
+  private actionAdvanceDelayMs: number;
   
   private _story: StoryAsset | null = null;
+  private _sourceStory: StoryAsset | null = null; // 未本地化的原文剧本
+  private _locale: string | null = null;
   private _currentSegment: SegmentAsset | null = null;
   private _currentNodeId: string | null = null;
   private _currentSceneNodeId: string | null = null; // track last LOCATION node
-  private edgePass(edge: Edge, sourceNode: NarrativeNode): boolean {
+  private async edgePass(edge: Edge, sourceNode: NarrativeNode, locals?: Record<string, any>): Promise<boolean> {
     if (edge.condition) {
-      return typeof edge.condition === 'string'
-        ? this.conditionEngine.evaluateLegacy(edge.condition)
-        : this.conditionEngine.evaluate(edge.condition);
+      return this.conditionEngine.check(edge.condition, locals);
     }
 
     // Branch node with condition list
@@ -39,6 +71,41 @@ export class NarrativeEngine implements INarrativeEngine {
     return true;
   }
 
+  /**
+   * 按顺序逐条等待条件，返回首个通过的边
+   */
+  private async firstPassingEdge(edges: Edge[], sourceNode: NarrativeNode, locals?: Record<string, any>): Promise<Edge | undefined> {
+    for (const edge of edges) {
+      if (await this.edgePass(edge, sourceNode, locals)) return edge;
+    }
+    return undefined;
+  }
+
+  private async resolveSwitchEdge(node: SwitchNode, outgoing: Edge[]): Promise<Edge | undefined> {
+    const { kind, refId } = node.subject || { kind: 'attribute', refId: '' };
+    const value = kind === 'itemCount'
+      ? this.variableStore.getItemCount(refId)
+      : this.variableStore.getAttribute(refId);
+
+    // First matching case wins; fall back to the default (handle-less) port
+    const matched = (node.cases || []).find(c => this.matchesCase(value, c.value));
+    if (matched) {
+      const caseEdge = await this.firstPassingEdge(outgoing.filter(e => e.sourceHandleId === matched.id), node);
+      if (caseEdge) return caseEdge;
+    }
+    return this.firstPassingEdge(outgoing.filter(e => !e.sourceHandleId), node);
+  }
+
+  /**
+   * case 值总是字符串：去掉首尾空白、按主体的类型转换后严格比较，'' 不会匹配 0 或 false
+   */
+  private matchesCase(value: any, caseValue: string): boolean {
+    const text = String(caseValue ?? '').trim();
+    if (typeof value === 'boolean') return text === String(value);
+    if (typeof value === 'number') return text !== '' && Number(text) === value;
+    return typeof value === 'string' && value === text;
+  }
+
   private compare(left: any, op: LogicOperator, right: any): boolean {
     switch (op) {
       case '==': return left == right; // eslint-disable-line eqeqeq
@@ -59,6 +126,11 @@ export class NarrativeEngine implements INarrativeEngine {
       return;
     }
 
+    // 事件连线经过的 Action/Branch/Switch/Sequence 节点不会成为当前节点，单独通知以便追踪路径
+    if (node.type === NodeType.ACTION || node.type === NodeType.BRANCH || node.type === NodeType.SWITCH || node.type === NodeType.SEQUENCE) {
+      this.eventBus.emit('node:traversed', { nodeId: node.id, type: node.type });
+    }
+
     // Action: 执行并继续沿出边导航
     if (node.type === NodeType.ACTION) {
       const actionNode = node as ActionNode;
@@ -69,7 +141,7 @@ export class NarrativeEngine implements INarrativeEngine {
       for (const edge of outgoing) {
         const target = this._currentSegment?.nodes[edge.targetNodeId];
         if (!target) continue;
-        if (this.edgePass(edge, node)) {
+        if (await this.edgePass(edge, node)) {
           await this.resolveNavigationFromNode(edge.targetNodeId);
           return;
         }
@@ -81,7 +153,7 @@ export class NarrativeEngine implements INarrativeEngine {
     if (node.type === NodeType.BRANCH) {
       const outgoing = this._currentSegment?.edges.filter(e => e.sourceNodeId === node.id) || [];
       for (const edge of outgoing) {
-        if (this.edgePass(edge, node)) {
+        if (await this.edgePass(edge, node)) {
           await this.resolveNavigationFromNode(edge.targetNodeId);
           return;
         }
@@ -90,13 +162,25 @@ export class NarrativeEngine implements INarrativeEngine {
       return;
     }
 
+    // Switch: 匹配 case 出边，否则走默认出边
+    if (node.type === NodeType.SWITCH) {
+      const outgoing = this._currentSegment?.edges.filter(e => e.sourceNodeId === node.id) || [];
+      const edge = await this.resolveSwitchEdge(node as SwitchNode, outgoing);
+      if (edge) {
+        await this.resolveNavigationFromNode(edge.targetNodeId);
+      } else {
+        this.debugWarn(`Switch 无匹配出边: ${node.id}`);
+      }
+      return;
+    }
+
     // Sequence: 顺序执行出边，命中导航即跳转并停止
     if (node.type === NodeType.SEQUENCE) {
       const outgoing = this._currentSegment?.edges.filter(e => e.sourceNodeId === node.id) || [];
       for (const edge of outgoing) {
         const target = this._currentSegment?.nodes[edge.targetNodeId];
         if (!target) continue;
-        if (!this.edgePass(edge, node)) continue;
+        if (!(await this.edgePass(edge, node))) continue;
         if (target.type === NodeType.ACTION) {
           await this.resolveNavigationFromNode(edge.targetNodeId);
         } else {
@@ -115,13 +199,21 @@ export class NarrativeEngine implements INarrativeEngine {
     this.eventBus.emit('ui:toast', { message: message });
   }
 
-  constructor() {
+  constructor(options: NarrativeEngineOptions = {}) {
+    this.actionAdvanceDelayMs = options.actionAdvanceDelayMs ?? DEFAULT_ACTION_ADVANCE_DELAY_MS;
     this.eventBus = new EventBus();
     this.variableStore = new VariableStore();
     this.variableStore.setEventBus(this.eventBus);
     this.sceneGraph = new SceneGraph();
-    this.actionExecutor = new ActionExecutor(this.variableStore, this.eventBus, actionRegistry);
+    this.effects = new EffectsManager(this.eventBus);
+    this.actionExecutor = new ActionExecutor(this.variableStore, this.eventBus, actionRegistry, { effects: this.effects });
     this.conditionEngine = new ConditionEngine(conditionRegistry, this.variableStore, this.eventBus);
+    this.voteManager = new VoteManager(this.variableStore, this.eventBus);
+    this.crafting = new CraftingService(this.variableStore, this.eventBus);
+    this.shops = new ShopService(this.variableStore, this.eventBus);
+    this.scheduler = new EventScheduler(this.eventBus, (nodeId, evt) => this.fireScheduledEvent(nodeId, evt));
+    this.audio = new AudioManager(this.eventBus, options.audioBackend);
+    this.stage = new StageManager(this.eventBus);
 
     // Allow actions to request an engine advance (e.g., close dialogue)
     this.eventBus.on('engine:advance', () => this.advance());
@@ -131,15 +223,50 @@ export class NarrativeEngine implements INarrativeEngine {
   }
 
   loadStory(story: StoryAsset): void {
-    this._story = story;
+    this._sourceStory = story;
+    this._story = localizeStory(story, this._locale);
     // Initialize RPG state
     this.variableStore.init(story);
+    this.crafting.init(story);
+    this.shops.init(story);
+    this.audio.init(story);
+    this.stage.init(story);
+    this.effects.init();
     
     this.eventBus.emit('story:loaded', { storyId: story.id, title: story.title });
     console.log(`[NarrativeEngine] Story loaded: ${story.title}`);
   }
 
-  startSegment(segmentId: string): NarrativeNode | null {
+  getLocale(): string | null {
+    return this._locale;
+  }
+
+  /**
+   * 切换剧本语言；游戏进行中切换时保留进度，当前节点换成译文后发出 locale:changed
+   * 传入 null 或原文语言时使用原文
+   */
+  setLocale(locale: string | null): void {
+    if (locale === this._locale) return;
+    this._locale = locale;
+    if (!this._sourceStory) return;
+    this._story = localizeStory(this._sourceStory, locale);
+
+    if (this._currentSegment) {
+      const segment = this._story.segments.find(s => s.id === this._currentSegment!.id) || null;
+      this._currentSegment = segment;
+      if (segment) {
+        this.sceneGraph.loadSegment(segment.nodes, segment.rootNodeId);
+        if (this._currentNodeId) this.sceneGraph.selectNode(this._currentNodeId);
+      }
+    }
+    this.eventBus.emit('locale:changed', {
+      locale,
+      node: this.getCurrentNode(),
+      scene: this.getCurrentScene()
+    });
+  }
+
+  startSegment(segmentId: string, entryNodeId?: string): NarrativeNode | null {
     if (!this._story) {
       console.error("[NarrativeEngine] No story loaded");
       return null;
@@ -156,8 +283,11 @@ export class NarrativeEngine implements INarrativeEngine {
     
     this.eventBus.emit('segment:started', { segmentId: segment.id, name: segment.name });
 
-    // 从 Root Node 开始，如果未定义 Root Node，则尝试找第一个
-    let startNodeId = segment.rootNodeId;
+    // 优先使用指定入口节点；否则从 Root Node 开始，如果未定义 Root Node，则尝试找第一个
+    if (entryNodeId && !segment.nodes[entryNodeId]) {
+      this.debugWarn(`入口节点不存在，改从章节起点开始: ${entryNodeId}`, { segmentId });
+    }
+    let startNodeId = entryNodeId && segment.nodes[entryNodeId] ? entryNodeId : segment.rootNodeId;
     if (!startNodeId || !segment.nodes[startNodeId]) {
       const firstKey = Object.keys(segment.nodes)[0];
       startNodeId = firstKey;
@@ -178,7 +308,7 @@ export class NarrativeEngine implements INarrativeEngine {
     return this.setCurrentNode(nodeId);
   }
 
-  advance(choiceId?: string): NarrativeNode | null {
+  async advance(choiceId?: string): Promise<NarrativeNode | null> {
     if (!this._currentSegment || !this._currentNodeId) return null;
 
     const currentNode = this._currentSegment.nodes[this._currentNodeId];
@@ -189,6 +319,12 @@ export class NarrativeEngine implements INarrativeEngine {
       edge => edge.sourceNodeId === this._currentNodeId
     );
 
+    // 投票进行中：提前结算，由结算结果决定去向
+    if (currentNode.type === NodeType.VOTE && this.voteManager.isOpen(currentNode.id)) {
+      this.voteManager.close(false);
+      return this.getCurrentNode();
+    }
+
     let targetEdge: Edge | undefined;
 
     // 2. 根据节点类型和输入决定走哪条路
@@ -201,18 +337,34 @@ export class NarrativeEngine implements INarrativeEngine {
         console.warn("[NarrativeEngine] Dialogue node requires a choiceId to advance.");
         return currentNode; // 停留在当前节点
       }
+      const choice = dialogueNode.choices.find(c => c.id === choiceId);
+      if (choice) {
+        const state = await this.evaluateChoice(choice);
+        if (this._currentNodeId !== currentNode.id) return this.getCurrentNode();
+        if (!state.visible || !state.enabled) {
+          console.warn(`[NarrativeEngine] Choice is ${state.visible ? 'disabled' : 'hidden'}: ${choice.text}`);
+          return currentNode;
+        }
+        if (choice.actions?.length) {
+          await this.actionExecutor.executeGroup(choice.actions);
+          // 选项动作可能已跳转 (JUMP_TO / ADVANCE)
+          if (this._currentNodeId !== currentNode.id) return this.getCurrentNode();
+        }
+      }
       targetEdge = outgoingEdges.find(e => e.sourceHandleId === choiceId);
+    } else if (currentNode.type === NodeType.SWITCH) {
+      targetEdge = await this.resolveSwitchEdge(currentNode as SwitchNode, outgoingEdges);
     } else {
       // 线性节点（Location, Branch, Action等）
       const candidates = outgoingEdges.filter(e => !e.sourceHandleId || currentNode.type === NodeType.BRANCH);
       
       // 3. 检查条件
-      for (const edge of candidates) {
-        if (this.edgePass(edge, currentNode)) {
-          targetEdge = edge;
-          break;
-        }
-      }
+      targetEdge = await this.firstPassingEdge(candidates, currentNode);
+    }
+
+    // 等待异步条件期间流程已被其它操作推进（重复点击、跳转等），放弃本次推进
+    if (this._currentNodeId !== currentNode.id) {
+      return this.getCurrentNode();
     }
 
     if (targetEdge) {
@@ -226,10 +378,48 @@ export class NarrativeEngine implements INarrativeEngine {
     }
   }
 
-  async triggerEvent(trigger: string, targetId?: string): Promise<void> {
-      if (!this._currentNodeId || !this._currentSegment) return;
-      const currentNode = this._currentSegment.nodes[this._currentNodeId];
-      if (!currentNode) return;
+  async getChoiceStates(): Promise<ChoiceState[]> {
+    const node = this.getCurrentNode();
+    if (!node || node.type !== NodeType.DIALOGUE) return [];
+    const states: ChoiceState[] = [];
+    for (const choice of (node as DialogueNode).choices || []) {
+      states.push(await this.evaluateChoice(choice));
+    }
+    return states;
+  }
+
+  renderText(text: string): RichText {
+    return renderMarkup(text, {
+      store: this.variableStore,
+      items: this._story?.items || [],
+      characters: this._story?.characters || []
+    });
+  }
+
+  /**
+   * 隐藏的选项不再检查是否可选
+   */
+  private async evaluateChoice(choice: DialogueChoice): Promise<ChoiceState> {
+    const visible = await this.conditionEngine.check(choice.visibleIf);
+    const enabled = visible && await this.conditionEngine.check(choice.enabledIf);
+    return { choice, visible, enabled, reason: visible && !enabled ? choice.disabledReason : undefined };
+  }
+
+  async triggerEvent(trigger: string, targetId?: string, locals?: Record<string, any>): Promise<boolean> {
+      // Capture the segment up front: a JUMP may swap it out while actions are awaited
+      const segment = this._currentSegment;
+      if (!this._currentNodeId || !segment) return false;
+      const currentNode = segment.nodes[this._currentNodeId];
+      if (!currentNode) return false;
+
+      // 隐藏的热点不响应任何交互
+      const hotspot = targetId && currentNode.type === NodeType.LOCATION
+        ? (currentNode as LocationNode).hotspots?.find(h => h.id === targetId)
+        : undefined;
+      if (hotspot && !this.isHotspotVisible(hotspot)) {
+          console.warn(`[NarrativeEngine] Hotspot is hidden: ${hotspot.name}`);
+          return false;
+      }
 
       console.log(`[NarrativeEngine] Trigger: ${trigger} on ${currentNode.name}`);
 
@@ -238,60 +428,88 @@ export class NarrativeEngine implements INarrativeEngine {
       const matchingEvents = (currentNode.events || []).filter(e => {
           if (e.trigger !== trigger) return false;
           if (targetId && e.targetId !== targetId) return false;
+          if (e.trigger === 'onUseItem' && e.itemId && e.itemId !== locals?.usedItem) return false;
           return true;
       });
 
+      let handled = false;
       for (const evt of matchingEvents) {
-          const shouldRun = evt.condition
-            ? (typeof evt.condition === 'string'
-                ? this.conditionEngine.evaluateLegacy(evt.condition)
-                : this.conditionEngine.evaluate(evt.condition))
-            : true;
-
-          if (!shouldRun) continue;
-
-          // 并联：动作边全部执行，导航边取首个命中的跳转
-          const outgoingEdges = this._currentSegment.edges.filter(
-            (edge) => edge.sourceNodeId === currentNode.id && edge.sourceHandleId === evt.id
-          );
-
-          const actionEdges: Edge[] = [];
-          const navEdges: Edge[] = [];
-          for (const edge of outgoingEdges) {
-            const targetNode = this._currentSegment.nodes[edge.targetNodeId];
-            if (!targetNode) continue;
-            if (targetNode.type === NodeType.ACTION) {
-              actionEdges.push(edge);
-            } else {
-              navEdges.push(edge);
-            }
-          }
-
-          // 执行动作边
-          for (const edge of actionEdges) {
-            const targetNode = this._currentSegment.nodes[edge.targetNodeId] as ActionNode;
-            if (!this.edgePass(edge, currentNode)) continue;
-            if (targetNode.actions?.length) {
-              await this.actionExecutor.executeGroup(targetNode.actions);
-            }
-            await this.resolveNavigationFromNode(edge.targetNodeId);
-          }
-
-          // 导航边：取首个命中的
-          let matchedNav: Edge | undefined;
-          for (const edge of navEdges) {
-            if (this.edgePass(edge, currentNode)) {
-              matchedNav = edge;
-              break;
-            }
-          }
+          if (await this.runEvent(evt, currentNode, segment, locals)) handled = true;
+      }
+      return handled;
+  }
+
+  /**
+   * 对热点使用物品：物品 ID 以 usedItem（持有者为 usedBy）传给事件条件与其出边条件
+   * 返回是否有事件响应，供界面提示“没有效果”
+   */
+  async useItemOnHotspot(hotspotId: string, itemId: string, ownerId?: string): Promise<boolean> {
+      if (!this.variableStore.hasItem(itemId, 1, ownerId)) {
+          console.warn(`[NarrativeEngine] Cannot use missing item: ${itemId}`);
+          return false;
+      }
+      return this.triggerEvent('onUseItem', hotspotId, { usedItem: itemId, usedBy: ownerId });
+  }
+
+  isHotspotVisible(hotspot: Hotspot): boolean {
+      return this.conditionEngine.checkSync(hotspot.visibleIf);
+  }
+
+  /**
+   * 定时 / 时钟 / 属性监听事件：只在其所属节点仍为当前节点时执行
+   */
+  private async fireScheduledEvent(nodeId: string, evt: NodeEvent): Promise<void> {
+      const segment = this._currentSegment;
+      if (!segment || this._currentNodeId !== nodeId) return;
+      console.log(`[NarrativeEngine] Scheduled: ${evt.trigger} on ${segment.nodes[nodeId]?.name}`);
+      await this.runEvent(evt, segment.nodes[nodeId], segment);
+  }
+
+  private async runEvent(evt: NodeEvent, currentNode: NarrativeNode, segment: SegmentAsset, locals?: Record<string, any>): Promise<boolean> {
+      const shouldRun = await this.conditionEngine.check(evt.condition, locals);
+      if (!shouldRun) return false;
+
+      // 并联：动作边全部执行，导航边取首个命中的跳转
+      const outgoingEdges = segment.edges.filter(
+        (edge) => edge.sourceNodeId === currentNode.id && edge.sourceHandleId === evt.id
+      );
+
+      const actionEdges: Edge[] = [];
+      const navEdges: Edge[] = [];
+      for (const edge of outgoingEdges) {
+        const targetNode = segment.nodes[edge.targetNodeId];
+        if (!targetNode) continue;
+        if (targetNode.type === NodeType.ACTION) {
+          actionEdges.push(edge);
+        } else {
+          navEdges.push(edge);
+        }
+      }
 
-          if (matchedNav) {
-            await this.resolveNavigationFromNode(matchedNav.targetNodeId);
-          } else if (actionEdges.length === 0) {
-            this.debugWarn(`事件没有找到匹配的连线: ${evt.label}`, { event: evt.id });
-          }
+      // 执行动作边（动作由 resolveNavigationFromNode 执行，避免重复）
+      for (const edge of actionEdges) {
+        if (!(await this.edgePass(edge, currentNode, locals))) continue;
+        await this.resolveNavigationFromNode(edge.targetNodeId);
       }
+
+      // 导航边：取首个命中的
+      const matchedNav = await this.firstPassingEdge(navEdges, currentNode, locals);
+
+      if (matchedNav) {
+        await this.resolveNavigationFromNode(matchedNav.targetNodeId);
+      } else if (actionEdges.length === 0) {
+        this.debugWarn(`事件没有找到匹配的连线: ${evt.label}`, { event: evt.id });
+      }
+      return true;
+  }
+
+  castVote(optionId: string, voterId: string = 'player'): boolean {
+    const node = this.getCurrentNode();
+    if (!node || node.type !== NodeType.VOTE || !this.voteManager.isOpen(node.id)) {
+      console.warn("[NarrativeEngine] No vote in progress on current node.");
+      return false;
+    }
+    return this.voteManager.cast(voterId, optionId);
   }
 
   getCurrentNode(): NarrativeNode | null {
@@ -299,12 +517,92 @@ export class NarrativeEngine implements INarrativeEngine {
     return this._currentSegment.nodes[this._currentNodeId] || null;
   }
 
+  /**
+   * 最近进入的 Location 节点（对话覆盖在其上时仍返回该场景）
+   */
+  getCurrentScene(): LocationNode | null {
+    if (!this._currentSegment || !this._currentSceneNodeId) return null;
+    return (this._currentSegment.nodes[this._currentSceneNodeId] as LocationNode) || null;
+  }
+
+  // --- Save / Load ---
+
+  serialize(): SaveGameData | null {
+    if (!this._story) {
+      console.error("[NarrativeEngine] Cannot serialize: no story loaded");
+      return null;
+    }
+    return {
+      version: SAVE_FORMAT_VERSION,
+      storyId: this._story.id,
+      savedAt: Date.now(),
+      segmentId: this._currentSegment?.id || null,
+      nodeId: this._currentNodeId,
+      sceneNodeId: this._currentSceneNodeId,
+      variables: this.variableStore.serialize(),
+      shops: this.shops.serialize(),
+      stage: this.stage.serialize()
+    };
+  }
+
+  restore(save: SaveGameData): boolean {
+    if (!this._story) {
+      console.error("[NarrativeEngine] Cannot restore: no story loaded");
+      return false;
+    }
+    if (save.version !== SAVE_FORMAT_VERSION) {
+      console.error(`[NarrativeEngine] Unsupported save version: ${save.version}`);
+      return false;
+    }
+    if (save.storyId !== this._story.id) {
+      console.error(`[NarrativeEngine] Save belongs to another story: ${save.storyId}`);
+      return false;
+    }
+
+    const segment = save.segmentId ? this._story.segments.find(s => s.id === save.segmentId) : undefined;
+    if (save.segmentId && !segment) {
+      console.error(`[NarrativeEngine] Segment not found in save: ${save.segmentId}`);
+      return false;
+    }
+
+    this.voteManager.cancel();
+    this.scheduler.disarm();
+    this.variableStore.restore(save.variables);
+    this.shops.restore(save.shops);
+    this.stage.restore(save.stage);
+
+    // Restore position directly: lifecycle events already ran before the save was made
+    this._currentSegment = segment || null;
+    this._currentNodeId = segment && save.nodeId && segment.nodes[save.nodeId] ? save.nodeId : null;
+    this._currentSceneNodeId = segment && save.sceneNodeId && segment.nodes[save.sceneNodeId] ? save.sceneNodeId : null;
+    if (segment) {
+      this.sceneGraph.loadSegment(segment.nodes, segment.rootNodeId);
+      if (this._currentNodeId) this.sceneGraph.selectNode(this._currentNodeId);
+    }
+
+    this.eventBus.emit('game:restored', {
+      segmentId: this._currentSegment?.id || null,
+      node: this.getCurrentNode(),
+      scene: this._currentSceneNodeId ? segment?.nodes[this._currentSceneNodeId] || null : null
+    });
+
+    // Ballots are not part of the save: a restored vote starts over
+    const restoredNode = this.getCurrentNode();
+    if (restoredNode?.type === NodeType.VOTE) this.openVote(restoredNode as VoteNode);
+    // Timers restart from zero: elapsed time is not part of the save
+    if (restoredNode) this.scheduler.arm(restoredNode);
+    return true;
+  }
+
   // --- Private Helpers ---
 
   private setCurrentNode(nodeId: string): NarrativeNode | null {
+     let exited: Promise<boolean> = Promise.resolve(false);
      if (this._currentNodeId) {
+         if (this.voteManager.isOpen(this._currentNodeId)) this.voteManager.cancel();
+         this.scheduler.disarm();
          // Trigger exit event for previous node
-         this.triggerEvent('onExit'); 
+         exited = this.triggerEvent('onExit');
          this.eventBus.emit('node:exit', { nodeId: this._currentNodeId });
      }
 
@@ -320,7 +618,13 @@ export class NarrativeEngine implements INarrativeEngine {
         this.sceneGraph.selectNode(node.id);
 
          // 1. Handle auto-trigger events (Lifecycle: onEnter)
-         this.triggerEvent('onEnter');
+         const entered = this.triggerEvent('onEnter');
+         // onExit / onEnter 的动作在等待条件后才执行：全部完成且仍停在该节点时发出 node:settled，此时的状态才适合拍快照
+         Promise.allSettled([exited, entered]).then(() => {
+             if (this._currentNodeId === node.id) this.eventBus.emit('node:settled', { nodeId: node.id, type: node.type, node });
+         });
+         // Timers, clock and attribute watchers live until the node is left
+         this.scheduler.arm(node);
 
         // 2. Handle ACTION Nodes (Auto-execute and advance)
         if (node.type === NodeType.ACTION) {
@@ -330,34 +634,97 @@ export class NarrativeEngine implements INarrativeEngine {
                     const hasOutgoing = this._currentSegment?.edges.some(e => e.sourceNodeId === node.id);
                     if (hasOutgoing) {
                         // Auto-advance only if有后续连线
-                        setTimeout(() => this.advance(), 100);
+                        setTimeout(() => this.advance(), this.actionAdvanceDelayMs);
                     } else {
-                        // 无后续连线：保持场景，清空前景节点但回退到上一次 Location 以便事件继续触发
-                        this._currentNodeId = this._currentSceneNodeId;
-                        this.eventBus.emit('node:exit', { nodeId: node.id });
+                        this.returnToScene(node.id);
                     }
                 });
             } else {
                 const hasOutgoing = this._currentSegment?.edges.some(e => e.sourceNodeId === node.id);
                 if (hasOutgoing) {
-                    setTimeout(() => this.advance(), 100);
+                    setTimeout(() => this.advance(), this.actionAdvanceDelayMs);
                 } else {
-                    this._currentNodeId = this._currentSceneNodeId;
-                    this.eventBus.emit('node:exit', { nodeId: node.id });
+                    this.returnToScene(node.id);
                 }
             }
         } else if (node.type === NodeType.START) {
             // Auto-step past the synthetic START node so runtime shows the first real scene
             setTimeout(() => this.advance(), 0);
-        } else if (node.type === NodeType.BRANCH) {
-            // Branch nodes应立即评估，避免停留并吞掉点击
+        } else if (node.type === NodeType.BRANCH || node.type === NodeType.SWITCH) {
+            // Branch/Switch nodes应立即评估，避免停留并吞掉点击
             setTimeout(() => this.advance(), 0);
+        } else if (node.type === NodeType.VOTE) {
+            this.openVote(node as VoteNode);
+        } else if (node.type === NodeType.JUMP) {
+            // 跨章节跳转：卸载当前段落并进入目标段落
+            setTimeout(() => {
+                if (this._currentNodeId === node.id) this.jumpToSegment(node as JumpNode);
+            }, 0);
         }
     }
 
      return node;
   }
 
+  /**
+   * 无后续连线的 Action 节点：保持场景，清空前景节点但回退到上一次 Location 以便事件继续触发
+   * 进入前景节点时场景的定时/监听事件已被取消，回到场景时需重新挂上
+   */
+  private returnToScene(nodeId: string) {
+    this._currentNodeId = this._currentSceneNodeId;
+    this.eventBus.emit('node:exit', { nodeId });
+    const scene = this.getCurrentNode();
+    if (scene) this.scheduler.arm(scene);
+  }
+
+  private openVote(node: VoteNode) {
+    this.voteManager.open(node, (result) => this.routeVoteResult(node, result));
+  }
+
+  private async routeVoteResult(node: VoteNode, result: VoteResult) {
+    if (this._currentNodeId !== node.id) return;
+
+    // 胜出选项走对应端口，未决或该端口未连线时走默认端口
+    const outgoing = this._currentSegment?.edges.filter(e => e.sourceNodeId === node.id) || [];
+    const edge = (result.winnerOptionId
+        ? await this.firstPassingEdge(outgoing.filter(e => e.sourceHandleId === result.winnerOptionId), node)
+        : undefined)
+      || await this.firstPassingEdge(outgoing.filter(e => !e.sourceHandleId), node);
+    if (this._currentNodeId !== node.id) return;
+
+    if (edge) {
+      this.setCurrentNode(edge.targetNodeId);
+    } else {
+      this.debugWarn(`投票结果没有对应连线: ${node.name}`, { nodeId: node.id, winner: result.winnerOptionId });
+    }
+  }
+
+  private async jumpToSegment(node: JumpNode): Promise<NarrativeNode | null> {
+    if (!node.targetSegmentId) {
+      this.debugWarn(`跳转节点未设置目标章节: ${node.name}`, { nodeId: node.id });
+      return null;
+    }
+    if (!this._story?.segments.some(s => s.id === node.targetSegmentId)) {
+      this.debugWarn(`跳转目标章节不存在: ${node.targetSegmentId}`, { nodeId: node.id });
+      return null;
+    }
+
+    const fromSegmentId = this._currentSegment?.id;
+
+    // Leave the jump node and unload the current segment. RPG state is intentionally untouched.
+    this.scheduler.disarm();
+    // onExit 的条件与动作仍在当前章节内执行完毕；若它已导航离开跳转节点则不再跳转
+    await this.triggerEvent('onExit');
+    if (this._currentNodeId !== node.id || this._currentSegment?.id !== fromSegmentId) return this.getCurrentNode();
+    this.eventBus.emit('node:exit', { nodeId: node.id });
+    this.eventBus.emit('segment:exited', { segmentId: fromSegmentId, toSegmentId: node.targetSegmentId });
+    this._currentNodeId = null;
+    this._currentSceneNodeId = null;
+    this._currentSegment = null;
+
+    return this.startSegment(node.targetSegmentId, node.targetNodeId);
+  }
+
   // --- Extension Points ---
 
   registerAction(extension: ActionExtension) {
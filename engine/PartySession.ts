@@ -0,0 +1,218 @@
+import { INarrativeEngine } from './interfaces';
+import { VoteManager } from './VoteManager';
+import { DialogueNode, NarrativeNode, NodeType, StoryAsset } from '../types';
+
+export interface PartyPlayer {
+  id: string;
+  name: string;
+  characterId: string;
+}
+
+/**
+ * 玩家操作消息
+ * 所有改变会话状态的操作都经由传输层广播，本地与联网模式共用同一套处理逻辑
+ */
+export type PartyMessage =
+  | { type: 'join'; player: PartyPlayer }
+  | { type: 'leave'; playerId: string }
+  | { type: 'pass'; playerId: string }
+  | { type: 'vote'; playerId: string; optionId: string };
+
+/**
+ * 传输层接口：本地热座模式使用 LocalPartyTransport，联网时替换为 WebSocket 等实现
+ */
+export interface PartyTransport {
+  send(message: PartyMessage): void;
+  /** 订阅消息，返回取消订阅函数 */
+  subscribe(handler: (message: PartyMessage) => void): () => void;
+}
+
+/**
+ * 本地传输：同步回环，所有玩家共用一台设备
+ */
+export class LocalPartyTransport implements PartyTransport {
+  private handlers: Set<(message: PartyMessage) => void> = new Set();
+
+  send(message: PartyMessage): void {
+    this.handlers.forEach(handler => handler(message));
+  }
+
+  subscribe(handler: (message: PartyMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+}
+
+type PartyEngine = Pick<INarrativeEngine, 'variableStore' | 'eventBus' | 'castVote'> & { voteManager: VoteManager };
+
+/**
+ * 派对（热座）会话
+ * 每位玩家认领一个角色；线索与私密对话只对持有者可见；投票每位玩家一票。
+ * 设备在玩家之间传递，activePlayerId 表示当前持有设备的玩家。
+ */
+export class PartySession {
+  private players: PartyPlayer[] = [];
+  private activePlayerId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private story: StoryAsset | null = null;
+
+  constructor(
+    private engine: PartyEngine,
+    private transport: PartyTransport = new LocalPartyTransport()
+  ) {}
+
+  start(story: StoryAsset): void {
+    if (this.unsubscribe) return;
+    this.story = story;
+    this.unsubscribe = this.transport.subscribe(message => this.handle(message));
+    this.syncElectorate();
+  }
+
+  end(): void {
+    if (!this.unsubscribe) return;
+    this.unsubscribe();
+    this.unsubscribe = null;
+    this.story = null;
+    this.players = [];
+    this.activePlayerId = null;
+    this.engine.voteManager.setElectorate(['player']);
+    this.engine.eventBus.emit('party:ended');
+  }
+
+  isActive(): boolean {
+    return !!this.unsubscribe;
+  }
+
+  // --- Player Actions (sent through the transport) ---
+
+  join(name: string, characterId: string): PartyPlayer | null {
+    if (!this.story) {
+      console.warn('[PartySession] Session not started');
+      return null;
+    }
+    if (!this.story.characters.some(c => c.id === characterId)) {
+      console.warn(`[PartySession] Unknown character: ${characterId}`);
+      return null;
+    }
+    if (this.getPlayerForCharacter(characterId)) {
+      console.warn(`[PartySession] Character already claimed: ${characterId}`);
+      return null;
+    }
+    const player: PartyPlayer = { id: `player_${characterId}`, name: name.trim() || characterId, characterId };
+    this.transport.send({ type: 'join', player });
+    return player;
+  }
+
+  leave(playerId: string): void {
+    this.transport.send({ type: 'leave', playerId });
+  }
+
+  /**
+   * 把设备交给指定玩家
+   */
+  passTo(playerId: string): boolean {
+    if (!this.getPlayer(playerId)) return false;
+    this.transport.send({ type: 'pass', playerId });
+    return true;
+  }
+
+  castVote(playerId: string, optionId: string): boolean {
+    if (!this.getPlayer(playerId)) {
+      console.warn(`[PartySession] Unknown player: ${playerId}`);
+      return false;
+    }
+    this.transport.send({ type: 'vote', playerId, optionId });
+    return true;
+  }
+
+  // --- Queries ---
+
+  getPlayers(): PartyPlayer[] {
+    return [...this.players];
+  }
+
+  getPlayer(playerId: string): PartyPlayer | undefined {
+    return this.players.find(p => p.id === playerId);
+  }
+
+  getPlayerForCharacter(characterId: string): PartyPlayer | undefined {
+    return this.players.find(p => p.characterId === characterId);
+  }
+
+  getActivePlayer(): PartyPlayer | null {
+    return (this.activePlayerId && this.getPlayer(this.activePlayerId)) || null;
+  }
+
+  /**
+   * 按座位顺序找到当前玩家之后的下一位玩家，跳过 exclude 中的玩家（例如已投票者）
+   */
+  getNextPlayer(exclude: string[] = []): PartyPlayer | null {
+    const start = this.players.findIndex(p => p.id === this.activePlayerId);
+    for (let i = 1; i <= this.players.length; i++) {
+      const player = this.players[(start + i) % this.players.length];
+      if (!exclude.includes(player.id)) return player;
+    }
+    return null;
+  }
+
+  /**
+   * 已揭示的线索：没有持有者视为公开，否则只有持有者可见
+   */
+  canSeeClue(playerId: string, clueId: string): boolean {
+    const player = this.getPlayer(playerId);
+    const store = this.engine.variableStore;
+    if (!player || !store.isClueRevealed(clueId)) return false;
+    const owners: string[] = store.getAll().clues?.[clueId]?.owners || [];
+    return owners.length === 0 || owners.includes(player.characterId);
+  }
+
+  getVisibleClueIds(playerId: string): string[] {
+    return (this.story?.clues || []).filter(clue => this.canSeeClue(playerId, clue.id)).map(clue => clue.id);
+  }
+
+  /**
+   * 私密对话 (visibleTo) 只对认领了对应角色的玩家可见
+   */
+  canSeeNode(playerId: string, node: NarrativeNode): boolean {
+    const audience = node.type === NodeType.DIALOGUE ? (node as DialogueNode).visibleTo : undefined;
+    if (!audience || audience.length === 0) return true;
+    const player = this.getPlayer(playerId);
+    return !!player && audience.includes(player.characterId);
+  }
+
+  getAudience(node: NarrativeNode): PartyPlayer[] {
+    return this.players.filter(p => this.canSeeNode(p.id, node));
+  }
+
+  // --- Message Handling ---
+
+  private handle(message: PartyMessage): void {
+    switch (message.type) {
+      case 'join':
+        if (this.getPlayerForCharacter(message.player.characterId)) return;
+        this.players = [...this.players, message.player];
+        if (!this.activePlayerId) this.activePlayerId = message.player.id;
+        this.syncElectorate();
+        break;
+      case 'leave':
+        this.players = this.players.filter(p => p.id !== message.playerId);
+        if (this.activePlayerId === message.playerId) this.activePlayerId = this.players[0]?.id || null;
+        this.syncElectorate();
+        break;
+      case 'pass':
+        if (!this.getPlayer(message.playerId)) return;
+        this.activePlayerId = message.playerId;
+        break;
+      case 'vote':
+        if (!this.getPlayer(message.playerId)) return;
+        this.engine.castVote(message.optionId, message.playerId);
+        return; // vote:cast 已由 VoteManager 广播
+    }
+
+    this.engine.eventBus.emit('party:updated', { players: this.getPlayers(), activePlayerId: this.activePlayerId });
+  }
+
+  private syncElectorate() {
+    this.engine.voteManager.setElectorate(this.players.length > 0 ? this.players.map(p => p.id) : ['player']);
+  }
+}
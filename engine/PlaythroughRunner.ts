@@ -0,0 +1,291 @@
+import { NarrativeEngine } from './NarrativeEngine';
+import { EngineSettler } from './EngineSettler';
+import { IAudioBackend } from './AudioManager';
+import { DialogueNode, NodeType, StoryAsset } from '../types';
+
+/**
+ * 脚本步骤：依次模拟玩家的一次操作
+ * - choice: 选择当前对话节点的选项
+ * - advance: 推进无选项的对话 / 线性节点
+ * - click: 点击当前场景中的热点
+ * - use: 对当前场景中的热点 (on) 使用物品，ownerId 指定从哪个角色的背包取出
+ * - trigger: 触发任意事件（可选 targetId）
+ * - vote: 在当前投票节点投票
+ */
+export type PlaythroughStep =
+  | { choice: string }
+  | { advance: true }
+  | { click: string }
+  | { use: string; on: string; ownerId?: string }
+  | { trigger: string; targetId?: string }
+  | { vote: string; voterId?: string };
+
+export interface PlaythroughExpectation {
+  /** 是否应触发 story:end */
+  ended?: boolean;
+  /** 脚本结束时应停留的节点 */
+  nodeId?: string;
+  /** 脚本结束时的属性值（按属性 id 或 key） */
+  attributes?: Record<string, any>;
+}
+
+export interface PlaythroughScript {
+  segmentId?: string;
+  entryNodeId?: string;
+  steps: PlaythroughStep[];
+  expect?: PlaythroughExpectation;
+}
+
+export interface ValueChange {
+  from: any;
+  to: any;
+}
+
+export interface TracedEvent {
+  event: string;
+  payload: any;
+}
+
+export interface StepReport {
+  /** -1 表示开场（进入段落后自动推进的部分） */
+  index: number;
+  step: PlaythroughStep | null;
+  trail: string[];
+  attributes: Record<string, ValueChange>;
+  inventory: Record<string, ValueChange>;
+  events: TracedEvent[];
+  error?: string;
+}
+
+export interface PlaythroughReport {
+  ok: boolean;
+  steps: StepReport[];
+  trail: string[];
+  finalNodeId: string | null;
+  ended: boolean;
+  failures: string[];
+}
+
+export interface PlaythroughOptions {
+  /** 无事件 / 节点变化持续多久视为流程已稳定 (ms) */
+  quietMs?: number;
+  /** 单步最长等待时间 (ms) */
+  stepTimeoutMs?: number;
+  /** 音频后端，默认静音；可传入 LoggingAudioBackend 查看播放记录 */
+  audioBackend?: IAudioBackend;
+}
+
+/**
+ * 输出中记录的事件；node:enter / node:exit 由节点轨迹单独记录
+ */
+export const TRACED_EVENTS = [
+  'segment:started', 'segment:exited', 'story:end',
+  'inventory:added', 'inventory:removed',
+  'clue:obtained', 'clue:revealed', 'clue:shared', 'clue:lost',
+  'item:crafted', 'shop:purchased', 'shop:sold',
+  'vote:started', 'vote:cast', 'vote:resolved', 'vote:cancelled',
+  'ui:toast', 'ui:openShop', 'ui:openCrafting', 'audio:playSfx',
+  'audio:play', 'audio:stop', 'audio:fade',
+  'stage:show', 'stage:hide', 'stage:expression',
+  'fx:play'
+];
+
+const DEFAULT_QUIET_MS = 250;
+const DEFAULT_STEP_TIMEOUT_MS = 10_000;
+
+export const describeStep = (step: PlaythroughStep): string => {
+  if ('choice' in step) return `choice ${step.choice}`;
+  if ('click' in step) return `click ${step.click}`;
+  if ('use' in step) return `use ${step.use} on ${step.on}`;
+  if ('vote' in step) return `vote ${step.vote}${step.voterId ? ` as ${step.voterId}` : ''}`;
+  if ('trigger' in step) return `trigger ${step.trigger}${step.targetId ? ` on ${step.targetId}` : ''}`;
+  return 'advance';
+};
+
+const diffRecords = (before: Record<string, any>, after: Record<string, any>): Record<string, ValueChange> => {
+  const changes: Record<string, ValueChange> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  });
+  return changes;
+};
+
+/**
+ * 在引擎上执行一个脚本步骤；步骤在当前状态下不可用时抛错
+ * 线性节点无出边时引擎触发 story:end，是否符合预期由调用方判断
+ */
+export const applyStep = async (engine: NarrativeEngine, step: PlaythroughStep): Promise<void> => {
+  const node = engine.getCurrentNode();
+
+  if ('choice' in step) {
+    const choices = node?.type === NodeType.DIALOGUE ? (node as DialogueNode).choices || [] : [];
+    if (!choices.some(c => c.id === step.choice)) {
+      throw new Error(`当前节点 ${node?.id || '(无)'} 没有选项 ${step.choice}`);
+    }
+    const state = (await engine.getChoiceStates()).find(s => s.choice.id === step.choice);
+    if (!state?.enabled) {
+      throw new Error(`选项 ${step.choice} 当前${state?.visible ? '不可选' : '不可见'}`);
+    }
+    await engine.advance(step.choice);
+    return;
+  }
+
+  if ('click' in step) {
+    const scene = engine.getCurrentScene();
+    if (!scene?.hotspots?.some(h => h.id === step.click)) {
+      throw new Error(`当前场景 ${scene?.id || '(无)'} 没有热点 ${step.click}`);
+    }
+    await engine.triggerEvent('onClick', step.click);
+    return;
+  }
+
+  if ('use' in step) {
+    const scene = engine.getCurrentScene();
+    if (!scene?.hotspots?.some(h => h.id === step.on)) {
+      throw new Error(`当前场景 ${scene?.id || '(无)'} 没有热点 ${step.on}`);
+    }
+    if (!engine.variableStore.hasItem(step.use, 1, step.ownerId)) {
+      throw new Error(`背包中没有物品 ${step.use}`);
+    }
+    await engine.useItemOnHotspot(step.on, step.use, step.ownerId);
+    return;
+  }
+
+  if ('vote' in step) {
+    if (!engine.castVote(step.vote, step.voterId)) throw new Error(`无法投票给 ${step.vote}`);
+    return;
+  }
+
+  if ('trigger' in step) {
+    await engine.triggerEvent(step.trigger, step.targetId);
+    return;
+  }
+
+  if (!node) throw new Error('没有当前节点可推进');
+  if (node.type === NodeType.DIALOGUE && (node as DialogueNode).choices?.length) {
+    throw new Error(`节点 ${node.id} 需要选择选项`);
+  }
+  await engine.advance();
+};
+
+/**
+ * 无头剧情回放
+ * 不依赖 DOM，按脚本驱动 NarrativeEngine，记录节点轨迹、属性变化与事件，用于 CI 回归测试
+ */
+export class PlaythroughRunner {
+  readonly engine: NarrativeEngine;
+  private settler: EngineSettler;
+
+  private ended = false;
+  private trail: string[] = [];
+  private events: TracedEvent[] = [];
+
+  constructor(private story: StoryAsset, options: PlaythroughOptions = {}) {
+    this.engine = new NarrativeEngine({ audioBackend: options.audioBackend });
+
+    const bus = this.engine.eventBus;
+    this.settler = new EngineSettler(bus, options.quietMs ?? DEFAULT_QUIET_MS, options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS);
+    bus.on('node:enter', ({ nodeId }) => this.trail.push(nodeId));
+    bus.on('node:traversed', ({ nodeId }) => this.trail.push(nodeId));
+    TRACED_EVENTS.forEach(event => bus.on(event, (payload) => {
+      if (event === 'story:end') this.ended = true;
+      this.events.push({ event, payload });
+      this.settler.touch();
+    }));
+  }
+
+  async run(script: PlaythroughScript): Promise<PlaythroughReport> {
+    const report: PlaythroughReport = { ok: false, steps: [], trail: [], finalNodeId: null, ended: false, failures: [] };
+
+    this.engine.loadStory(this.story);
+    const segmentId = script.segmentId || this.story.activeSegmentId || this.story.segments[0]?.id;
+    const opening = await this.record(-1, null, async () => {
+      if (!this.engine.startSegment(segmentId, script.entryNodeId)) {
+        throw new Error(`无法开始段落: ${segmentId}`);
+      }
+    });
+    report.steps.push(opening);
+
+    for (let index = 0; index < script.steps.length && !opening.error; index++) {
+      const step = script.steps[index];
+      if (this.ended) {
+        report.failures.push(`剧情在第 ${index + 1} 步 (${describeStep(step)}) 之前已结束`);
+        break;
+      }
+      const stepReport = await this.record(index, step, () => this.perform(step));
+      report.steps.push(stepReport);
+      if (stepReport.error) break;
+    }
+
+    report.steps.forEach(s => {
+      if (s.error) report.failures.push(s.index < 0 ? s.error : `第 ${s.index + 1} 步 (${describeStep(s.step!)}): ${s.error}`);
+    });
+
+    report.trail = report.steps.flatMap(s => s.trail);
+    report.finalNodeId = this.engine.getCurrentNode()?.id || null;
+    report.ended = this.ended;
+    report.failures.push(...this.checkExpectation(script.expect, report));
+    report.ok = report.failures.length === 0;
+    // 重复定时器会一直挂着，跑完后取消
+    this.engine.scheduler.disarm();
+    return report;
+  }
+
+  // --- Steps ---
+
+  private async perform(step: PlaythroughStep): Promise<void> {
+    await applyStep(this.engine, step);
+    // 选项没有连线时引擎会直接结束剧情，这不是作者有意的结局
+    if ('choice' in step && this.ended) throw new Error(`选项 ${step.choice} 没有可行连线（死路）`);
+  }
+
+  /**
+   * 执行一步并等待引擎的自动推进（START / BRANCH / ACTION 的定时器）稳定后记录差异
+   */
+  private async record(index: number, step: PlaythroughStep | null, action: () => Promise<void>): Promise<StepReport> {
+    const before = this.engine.variableStore.serialize();
+    this.trail = [];
+    this.events = [];
+
+    let error: string | undefined;
+    try {
+      this.settler.touch();
+      await action();
+      await this.settler.settle();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const after = this.engine.variableStore.serialize();
+    return {
+      index,
+      step,
+      trail: this.trail,
+      attributes: diffRecords(before.attributes, after.attributes),
+      inventory: diffRecords(before.inventory, after.inventory),
+      events: this.events,
+      error
+    };
+  }
+
+  private checkExpectation(expect: PlaythroughExpectation | undefined, report: PlaythroughReport): string[] {
+    if (!expect) return [];
+    const failures: string[] = [];
+
+    if (expect.ended !== undefined && expect.ended !== report.ended) {
+      failures.push(expect.ended ? '预期触发 story:end，但剧情未结束' : '剧情意外触发了 story:end');
+    }
+    if (expect.nodeId !== undefined && expect.nodeId !== report.finalNodeId) {
+      failures.push(`预期停留在 ${expect.nodeId}，实际为 ${report.finalNodeId || '(无)'}`);
+    }
+    Object.entries(expect.attributes || {}).forEach(([key, value]) => {
+      const actual = this.engine.variableStore.getAttribute(key);
+      if (JSON.stringify(actual) !== JSON.stringify(value)) {
+        failures.push(`属性 ${key} 预期为 ${JSON.stringify(value)}，实际为 ${JSON.stringify(actual)}`);
+      }
+    });
+    return failures;
+  }
+}
@@ -0,0 +1,60 @@
+import { ISaveStorage } from './interfaces';
+
+/**
+ * 已读记录
+ * 按剧本保存读过的对话节点 ID，供“跳过已读”使用。
+ * 与存档无关：读档、重开都不会清除，键格式: <namespace>:<storyId>
+ */
+export class ReadHistory {
+  private storyId: string | null = null;
+  private read: Set<string> = new Set();
+
+  constructor(
+    private storage: ISaveStorage,
+    private namespace: string = 'narrative-forge:read'
+  ) {}
+
+  load(storyId: string): void {
+    this.storyId = storyId;
+    this.read = new Set();
+    const raw = this.storage.getItem(this.key(storyId));
+    if (!raw) return;
+    try {
+      const ids = JSON.parse(raw);
+      if (Array.isArray(ids)) this.read = new Set(ids.map(String));
+    } catch (e) {
+      console.error(`[ReadHistory] Corrupted read history for ${storyId}`, e);
+    }
+  }
+
+  isRead(nodeId: string): boolean {
+    return this.read.has(nodeId);
+  }
+
+  /**
+   * 标记为已读，返回此前是否已读
+   */
+  markRead(nodeId: string): boolean {
+    if (this.read.has(nodeId)) return true;
+    if (!this.storyId) {
+      console.warn('[ReadHistory] No story loaded');
+      return false;
+    }
+    this.read.add(nodeId);
+    this.storage.setItem(this.key(this.storyId), JSON.stringify(Array.from(this.read)));
+    return false;
+  }
+
+  clear(): void {
+    this.read = new Set();
+    if (this.storyId) this.storage.removeItem(this.key(this.storyId));
+  }
+
+  get size(): number {
+    return this.read.size;
+  }
+
+  private key(storyId: string): string {
+    return `${this.namespace}:${storyId}`;
+  }
+}
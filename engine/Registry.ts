@@ -7,7 +7,7 @@ export interface ParamConfig {
   name: string; // Key in params object
   label: string;
   type: ParamType;
-  entityType?: 'character' | 'item' | 'clue' | 'attribute' | 'shop'; // For 'entity' type
+  entityType?: 'character' | 'item' | 'clue' | 'attribute' | 'shop' | 'quest'; // For 'entity' type
   options?: { label: string; value: any }[]; // For 'select' type
   defaultValue?: any;
   placeholder?: string;
@@ -16,13 +16,41 @@ export interface ParamConfig {
 export interface ActionDefinition {
   type: ScriptActionType;
   label: string;
-  category: 'rpg' | 'inventory' | 'knowledge' | 'interaction' | 'presentation' | 'flow';
+  category: 'rpg' | 'inventory' | 'knowledge' | 'interaction' | 'quest' | 'presentation' | 'flow';
   description?: string;
   iconName?: string; // Lucide icon name hint
   colorClass?: string; // Tailwind color class hint
   params: ParamConfig[];
 }
 
+const AUDIO_CHANNEL_OPTIONS = [
+  { label: '音效 (SFX)', value: 'sfx' },
+  { label: '背景音乐 (BGM)', value: 'bgm' },
+  { label: '环境音 (Ambience)', value: 'ambience' },
+  { label: '语音 (Voice)', value: 'voice' }
+];
+
+const PLACEMENT_OPTIONS = [
+  { label: '左 (Left)', value: 'left' },
+  { label: '中 (Center)', value: 'center' },
+  { label: '右 (Right)', value: 'right' }
+];
+
+const STAGE_TRANSITION_OPTIONS = [
+  { label: '淡入淡出 (Fade)', value: 'fade' },
+  { label: '滑动 (Slide)', value: 'slide' },
+  { label: '无 (None)', value: 'none' }
+];
+
+const EASING_OPTIONS = [
+  { label: 'Ease In-Out', value: 'ease-in-out' },
+  { label: 'Ease In', value: 'ease-in' },
+  { label: 'Ease Out', value: 'ease-out' },
+  { label: 'Linear', value: 'linear' }
+];
+
+const WAIT_PARAM: ParamConfig = { name: 'wait', label: '等待完成', type: 'boolean', defaultValue: true };
+
 export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
   // --- RPG Attributes ---
   [ScriptActionType.UPDATE_ATTRIBUTE]: {
@@ -62,6 +90,20 @@ export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
       { name: 'count', label: '数量', type: 'number', defaultValue: 1 }
     ]
   },
+  [ScriptActionType.TRANSFER_ITEM]: {
+    type: ScriptActionType.TRANSFER_ITEM,
+    label: '转交物品 (Give Item)',
+    category: 'inventory',
+    description: '在角色背包与共享背包之间转移物品',
+    iconName: 'ArrowRightLeft',
+    colorClass: 'text-amber-300',
+    params: [
+      { name: 'itemId', label: '物品', type: 'entity', entityType: 'item' },
+      { name: 'count', label: '数量', type: 'number', defaultValue: 1 },
+      { name: 'fromOwnerId', label: '交出者 (空为共享背包)', type: 'entity', entityType: 'character' },
+      { name: 'toOwnerId', label: '接收者 (空为共享背包)', type: 'entity', entityType: 'character' }
+    ]
+  },
 
   // --- Knowledge ---
   [ScriptActionType.ADD_CLUE]: {
@@ -119,6 +161,39 @@ export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
     params: []
   },
 
+  // --- Quests ---
+  [ScriptActionType.START_QUEST]: {
+    type: ScriptActionType.START_QUEST,
+    label: '开始任务 (Start Quest)',
+    category: 'quest',
+    iconName: 'Flag',
+    colorClass: 'text-lime-400',
+    params: [
+      { name: 'questId', label: '任务', type: 'entity', entityType: 'quest' }
+    ]
+  },
+  [ScriptActionType.COMPLETE_OBJECTIVE]: {
+    type: ScriptActionType.COMPLETE_OBJECTIVE,
+    label: '完成目标 (Objective)',
+    category: 'quest',
+    iconName: 'CheckCircle',
+    colorClass: 'text-lime-300',
+    params: [
+      { name: 'questId', label: '任务', type: 'entity', entityType: 'quest' },
+      { name: 'objectiveId', label: '目标 ID', type: 'string', placeholder: 'obj_xxx' }
+    ]
+  },
+  [ScriptActionType.FAIL_QUEST]: {
+    type: ScriptActionType.FAIL_QUEST,
+    label: '任务失败 (Fail Quest)',
+    category: 'quest',
+    iconName: 'XCircle',
+    colorClass: 'text-red-400',
+    params: [
+      { name: 'questId', label: '任务', type: 'entity', entityType: 'quest' }
+    ]
+  },
+
   // --- Presentation ---
   [ScriptActionType.PLAY_SOUND]: {
     type: ScriptActionType.PLAY_SOUND,
@@ -128,7 +203,67 @@ export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
     colorClass: 'text-pink-400',
     params: [
       { name: 'soundId', label: 'Sound ID/URL', type: 'string' },
-      { name: 'volume', label: '音量 (0-1)', type: 'number', defaultValue: 1 }
+      { name: 'channel', label: '通道', type: 'select', options: AUDIO_CHANNEL_OPTIONS, defaultValue: 'sfx' },
+      { name: 'volume', label: '音量 (0-1)', type: 'number', defaultValue: 1 },
+      { name: 'fadeMs', label: '淡入 (ms)', type: 'number', placeholder: 'BGM 默认交叉淡入' }
+    ]
+  },
+  [ScriptActionType.STOP_AUDIO]: {
+    type: ScriptActionType.STOP_AUDIO,
+    label: '停止音频 (Stop Audio)',
+    category: 'presentation',
+    iconName: 'VolumeX',
+    colorClass: 'text-pink-400',
+    params: [
+      { name: 'channel', label: '通道', type: 'select', options: [{ label: '全部 (All)', value: '' }, ...AUDIO_CHANNEL_OPTIONS], defaultValue: 'bgm' },
+      { name: 'fadeMs', label: '淡出 (ms)', type: 'number', defaultValue: 1000 }
+    ]
+  },
+  [ScriptActionType.FADE_AUDIO]: {
+    type: ScriptActionType.FADE_AUDIO,
+    label: '音量渐变 (Fade Audio)',
+    category: 'presentation',
+    iconName: 'Volume2',
+    colorClass: 'text-pink-400',
+    params: [
+      { name: 'channel', label: '通道', type: 'select', options: AUDIO_CHANNEL_OPTIONS, defaultValue: 'bgm' },
+      { name: 'volume', label: '目标音量 (0-1)', type: 'number', defaultValue: 0.3 },
+      { name: 'fadeMs', label: '时长 (ms)', type: 'number', defaultValue: 1000 }
+    ]
+  },
+  [ScriptActionType.SHOW_CHARACTER]: {
+    type: ScriptActionType.SHOW_CHARACTER,
+    label: '角色登场 (Show)',
+    category: 'presentation',
+    iconName: 'UserPlus',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色', type: 'entity', entityType: 'character' },
+      { name: 'placement', label: '站位', type: 'select', options: PLACEMENT_OPTIONS, defaultValue: 'center' },
+      { name: 'expression', label: '表情', type: 'string', placeholder: '留空保持当前表情' },
+      { name: 'transition', label: '过渡', type: 'select', options: STAGE_TRANSITION_OPTIONS, defaultValue: 'fade' }
+    ]
+  },
+  [ScriptActionType.HIDE_CHARACTER]: {
+    type: ScriptActionType.HIDE_CHARACTER,
+    label: '角色退场 (Hide)',
+    category: 'presentation',
+    iconName: 'UserMinus',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色 (留空全部退场)', type: 'entity', entityType: 'character' },
+      { name: 'transition', label: '过渡', type: 'select', options: STAGE_TRANSITION_OPTIONS, defaultValue: 'fade' }
+    ]
+  },
+  [ScriptActionType.SET_EXPRESSION]: {
+    type: ScriptActionType.SET_EXPRESSION,
+    label: '切换表情 (Expression)',
+    category: 'presentation',
+    iconName: 'Smile',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色', type: 'entity', entityType: 'character' },
+      { name: 'expression', label: '表情', type: 'string', placeholder: 'happy / angry ...' }
     ]
   },
   [ScriptActionType.WAIT]: {
@@ -149,7 +284,79 @@ export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
     colorClass: 'text-orange-400',
     params: [
       { name: 'intensity', label: '强度', type: 'select', options: [{label: 'Low', value: 'low'}, {label: 'Medium', value: 'medium'}, {label: 'High', value: 'high'}], defaultValue: 'medium' },
-      { name: 'duration', label: '时长 (秒)', type: 'number', defaultValue: 0.5 }
+      { name: 'duration', label: '时长 (秒)', type: 'number', defaultValue: 0.5 },
+      WAIT_PARAM
+    ]
+  },
+  [ScriptActionType.FLASH]: {
+    type: ScriptActionType.FLASH,
+    label: '闪屏 (Flash)',
+    category: 'presentation',
+    iconName: 'Sun',
+    colorClass: 'text-yellow-300',
+    params: [
+      { name: 'color', label: '颜色', type: 'string', defaultValue: '#ffffff' },
+      { name: 'duration', label: '时长 (秒)', type: 'number', defaultValue: 0.3 },
+      { name: 'easing', label: '缓动', type: 'select', options: EASING_OPTIONS, defaultValue: 'ease-out' },
+      WAIT_PARAM
+    ]
+  },
+  [ScriptActionType.SET_FILTER]: {
+    type: ScriptActionType.SET_FILTER,
+    label: '画面滤镜 (Filter)',
+    category: 'presentation',
+    iconName: 'Aperture',
+    colorClass: 'text-teal-400',
+    params: [
+      {
+        name: 'filter',
+        label: '滤镜',
+        type: 'select',
+        options: [
+          { label: '无 (None)', value: 'none' },
+          { label: '怀旧 (Sepia)', value: 'sepia' },
+          { label: '黑白 (Grayscale)', value: 'grayscale' },
+          { label: '模糊 (Blur)', value: 'blur' },
+          { label: '夜晚 (Night)', value: 'night' }
+        ],
+        defaultValue: 'sepia'
+      },
+      { name: 'custom', label: '自定义 CSS (覆盖预设)', type: 'string', placeholder: 'e.g. contrast(1.4)' },
+      { name: 'duration', label: '时长 (秒)', type: 'number', defaultValue: 1 },
+      { name: 'easing', label: '缓动', type: 'select', options: EASING_OPTIONS, defaultValue: 'ease-in-out' },
+      WAIT_PARAM
+    ]
+  },
+  [ScriptActionType.SCENE_TRANSITION]: {
+    type: ScriptActionType.SCENE_TRANSITION,
+    label: '转场 (Transition)',
+    category: 'presentation',
+    description: '设置下一次进入地点时的背景过渡',
+    iconName: 'Film',
+    colorClass: 'text-sky-400',
+    params: [
+      {
+        name: 'kind',
+        label: '方式',
+        type: 'select',
+        options: [
+          { label: '淡入淡出 (Fade)', value: 'fade' },
+          { label: '交叉溶解 (Crossfade)', value: 'crossfade' },
+          { label: '擦除 (Wipe)', value: 'wipe' },
+          { label: '直接切换 (Cut)', value: 'cut' }
+        ],
+        defaultValue: 'fade'
+      },
+      { name: 'duration', label: '时长 (秒)', type: 'number', defaultValue: 0.8 },
+      { name: 'easing', label: '缓动', type: 'select', options: EASING_OPTIONS, defaultValue: 'ease-in-out' },
+      { name: 'color', label: '淡入颜色 (Fade)', type: 'string', defaultValue: '#000000' },
+      {
+        name: 'direction',
+        label: '擦除方向 (Wipe)',
+        type: 'select',
+        options: [{ label: '→', value: 'right' }, { label: '←', value: 'left' }, { label: '↓', value: 'down' }, { label: '↑', value: 'up' }],
+        defaultValue: 'right'
+      }
     ]
   },
   [ScriptActionType.SHOW_TOAST]: {
@@ -181,5 +388,16 @@ export const ACTION_REGISTRY: Record<ScriptActionType, ActionDefinition> = {
     params: [
       { name: 'targetNodeId', label: '目标节点ID', type: 'string', placeholder: 'node_xxx' }
     ]
+  },
+  [ScriptActionType.ADVANCE_CLOCK]: {
+    type: ScriptActionType.ADVANCE_CLOCK,
+    label: '推进时钟 (Clock)',
+    category: 'flow',
+    iconName: 'Clock',
+    colorClass: 'text-cyan-400',
+    params: [
+      { name: 'minutes', label: '分钟', type: 'number', defaultValue: 60 },
+      { name: 'until', label: '直到 (HH:MM)', type: 'string', placeholder: '22:00' }
+    ]
   }
 };
@@ -0,0 +1,121 @@
+import { ISaveStorage, SaveGameData } from './interfaces';
+
+export const SAVE_FORMAT_VERSION = 1;
+
+export interface SaveSlotInfo {
+  slot: string;
+  label?: string;
+  savedAt: number;
+}
+
+interface SaveSlotRecord extends SaveSlotInfo {
+  data: SaveGameData;
+}
+
+/**
+ * 浏览器 localStorage 适配器
+ */
+export class LocalStorageSaveStorage implements ISaveStorage {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * 内存适配器 (测试 / 无头运行)
+ */
+export class MemorySaveStorage implements ISaveStorage {
+  private data: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+}
+
+/**
+ * 命名存档槽管理
+ * 存档按剧本隔离，键格式: <namespace>:<storyId>:<slot>
+ */
+export class SaveManager {
+  constructor(
+    private storage: ISaveStorage,
+    private namespace: string = 'narrative-forge:save'
+  ) {}
+
+  save(slot: string, data: SaveGameData, label?: string): void {
+    const record: SaveSlotRecord = { slot, label, savedAt: data.savedAt, data };
+    this.storage.setItem(this.key(data.storyId, slot), JSON.stringify(record));
+  }
+
+  load(storyId: string, slot: string): SaveGameData | null {
+    const record = this.read(this.key(storyId, slot));
+    if (!record) return null;
+    if (record.data.version !== SAVE_FORMAT_VERSION) {
+      console.warn(`[SaveManager] Unsupported save version ${record.data.version} in slot ${slot}`);
+      return null;
+    }
+    return record.data;
+  }
+
+  remove(storyId: string, slot: string): void {
+    this.storage.removeItem(this.key(storyId, slot));
+  }
+
+  listSlots(storyId: string): SaveSlotInfo[] {
+    const prefix = `${this.namespace}:${storyId}:`;
+    return this.storage.keys()
+      .filter(key => key.startsWith(prefix))
+      .map(key => this.read(key))
+      .filter((record): record is SaveSlotRecord => !!record)
+      .map(({ slot, label, savedAt }) => ({ slot, label, savedAt }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  // --- Private Helpers ---
+
+  private key(storyId: string, slot: string): string {
+    return `${this.namespace}:${storyId}:${slot}`;
+  }
+
+  private read(key: string): SaveSlotRecord | null {
+    const raw = this.storage.getItem(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as SaveSlotRecord;
+    } catch (e) {
+      console.error(`[SaveManager] Corrupted save at ${key}`, e);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { IEventBus, IVariableStore, ShopStockSnapshot } from './interfaces';
+import { Item, ShopDefinition, ShopItem, StoryAsset } from '../types';
+
+export const DEFAULT_SELL_RATIO = 0.5;
+
+export type ShopFailureReason = 'unknown_shop' | 'not_listed' | 'invalid_count' | 'out_of_stock' | 'insufficient_funds' | 'already_owned' | 'not_owned' | 'not_buying';
+
+export interface ShopCheck {
+  ok: boolean;
+  reason?: ShopFailureReason;
+}
+
+const isValidCount = (count: number) => Number.isInteger(count) && count > 0;
+
+/**
+ * 商店服务
+ * 持有每个商店的运行时库存（undefined 表示无限），通过 VariableStore 结算货币
+ */
+export class ShopService {
+  private shops: Map<string, ShopDefinition> = new Map();
+  private items: Map<string, Item> = new Map();
+  private stock: ShopStockSnapshot = {};
+
+  constructor(
+    private variableStore: IVariableStore,
+    private eventBus: IEventBus
+  ) {}
+
+  init(story: StoryAsset): void {
+    this.shops.clear();
+    (story.shops || []).forEach(shop => this.shops.set(shop.id, shop));
+    this.items.clear();
+    story.items.forEach(item => this.items.set(item.id, item));
+    this.stock = this.initialStock();
+  }
+
+  // --- Save / Load ---
+
+  serialize(): ShopStockSnapshot {
+    return JSON.parse(JSON.stringify(this.stock));
+  }
+
+  /**
+   * 恢复库存；旧存档没有库存数据时回到初始库存
+   * 存档之后新增的商品沿用定义中的初始库存
+   */
+  restore(snapshot?: ShopStockSnapshot): void {
+    const stock = this.initialStock();
+    Object.entries(snapshot || {}).forEach(([shopId, items]) => {
+      if (!stock[shopId]) return;
+      Object.entries(items).forEach(([itemId, count]) => {
+        if (itemId in stock[shopId]) stock[shopId][itemId] = count;
+      });
+    });
+    this.stock = stock;
+  }
+
+  // --- Queries ---
+
+  /**
+   * 剩余库存，null 表示无限
+   */
+  getStock(shopId: string, itemId: string): number | null {
+    const count = this.stock[shopId]?.[itemId];
+    return count === undefined || count === null ? null : count;
+  }
+
+  getSellPrice(shopId: string, itemId: string): number {
+    const listing = this.findListing(shopId, itemId);
+    if (!listing) return 0;
+    return Math.floor(listing.price * this.sellRatio(shopId));
+  }
+
+  canBuy(shopId: string, itemId: string, count: number = 1): ShopCheck {
+    const listing = this.findListing(shopId, itemId);
+    if (!this.shops.has(shopId)) return { ok: false, reason: 'unknown_shop' };
+    if (!listing) return { ok: false, reason: 'not_listed' };
+    if (!isValidCount(count)) return { ok: false, reason: 'invalid_count' };
+
+    // Non-stackable items can only be owned once, so they are bought one at a time
+    const item = this.items.get(itemId);
+    if (item && !item.stackable) {
+      if (this.variableStore.getItemCount(itemId) >= 1) return { ok: false, reason: 'already_owned' };
+      if (count > 1) return { ok: false, reason: 'invalid_count' };
+    }
+
+    const stock = this.getStock(shopId, itemId);
+    if (stock !== null && stock < count) return { ok: false, reason: 'out_of_stock' };
+
+    const funds = Number(this.variableStore.getAttribute(listing.currencyAttributeId) || 0);
+    if (funds < listing.price * count) return { ok: false, reason: 'insufficient_funds' };
+
+    return { ok: true };
+  }
+
+  canSell(shopId: string, itemId: string, count: number = 1): ShopCheck {
+    if (!this.shops.has(shopId)) return { ok: false, reason: 'unknown_shop' };
+    if (!this.findListing(shopId, itemId)) return { ok: false, reason: 'not_listed' };
+    if (!isValidCount(count)) return { ok: false, reason: 'invalid_count' };
+    if (this.sellRatio(shopId) <= 0) return { ok: false, reason: 'not_buying' };
+    if (!this.variableStore.hasItem(itemId, count)) return { ok: false, reason: 'not_owned' };
+    return { ok: true };
+  }
+
+  // --- Transactions ---
+
+  buy(shopId: string, itemId: string, count: number = 1): boolean {
+    const check = this.canBuy(shopId, itemId, count);
+    if (!check.ok) {
+      console.warn(`[ShopService] Cannot buy ${itemId} from ${shopId}: ${check.reason}`);
+      return false;
+    }
+
+    const listing = this.findListing(shopId, itemId)!;
+    const total = listing.price * count;
+    this.variableStore.modifyAttribute(listing.currencyAttributeId, 'sub', total);
+    this.variableStore.addItem(itemId, count);
+    const stock = this.getStock(shopId, itemId);
+    if (stock !== null) this.stock[shopId][itemId] = stock - count;
+
+    this.eventBus.emit('shop:purchased', {
+      shopId, itemId, count, price: total,
+      currencyAttributeId: listing.currencyAttributeId,
+      stock: this.getStock(shopId, itemId)
+    });
+    return true;
+  }
+
+  sell(shopId: string, itemId: string, count: number = 1): boolean {
+    const check = this.canSell(shopId, itemId, count);
+    if (!check.ok) {
+      console.warn(`[ShopService] Cannot sell ${itemId} to ${shopId}: ${check.reason}`);
+      return false;
+    }
+
+    const listing = this.findListing(shopId, itemId)!;
+    const total = this.getSellPrice(shopId, itemId) * count;
+    this.variableStore.removeItem(itemId, count);
+    this.variableStore.modifyAttribute(listing.currencyAttributeId, 'add', total);
+    const stock = this.getStock(shopId, itemId);
+    if (stock !== null) this.stock[shopId][itemId] = stock + count;
+
+    this.eventBus.emit('shop:sold', {
+      shopId, itemId, count, price: total,
+      currencyAttributeId: listing.currencyAttributeId,
+      stock: this.getStock(shopId, itemId)
+    });
+    return true;
+  }
+
+  // --- Private Helpers ---
+
+  private initialStock(): ShopStockSnapshot {
+    const stock: ShopStockSnapshot = {};
+    this.shops.forEach(shop => {
+      stock[shop.id] = {};
+      (shop.inventory || []).forEach(listing => {
+        stock[shop.id][listing.itemId] = listing.stock ?? null;
+      });
+    });
+    return stock;
+  }
+
+  private findListing(shopId: string, itemId: string): ShopItem | undefined {
+    return this.shops.get(shopId)?.inventory?.find(listing => listing.itemId === itemId);
+  }
+
+  private sellRatio(shopId: string): number {
+    const ratio = this.shops.get(shopId)?.sellRatio;
+    return ratio === undefined ? DEFAULT_SELL_RATIO : Math.max(0, ratio);
+  }
+}
@@ -0,0 +1,160 @@
+import { IEventBus, StageCharacter } from './interfaces';
+import { CharacterAsset, DialogueNode, NarrativeNode, NodeType, StagePlacement, StageTransition, StoryAsset } from '../types';
+
+export const STAGE_PLACEMENTS: StagePlacement[] = ['left', 'center', 'right'];
+
+const DEFAULT_PLACEMENT: StagePlacement = 'center';
+const DEFAULT_EXPRESSION = 'neutral';
+
+export type StageChange =
+  | { kind: 'enter'; characterId: string; transition: StageTransition }
+  | { kind: 'exit'; characterId: string; transition: StageTransition }
+  | { kind: 'move'; characterId: string; from: StagePlacement; to: StagePlacement; transition: StageTransition }
+  | { kind: 'expression'; characterId: string; expression: string };
+
+export interface StageShowOptions {
+  expression?: string;
+  placement?: StagePlacement;
+  transition?: StageTransition;
+}
+
+/**
+ * 角色在某表情下的立绘：没有该表情时用默认表情，再退回头像
+ */
+export const getCharacterSprite = (character: CharacterAsset, expression?: string): string =>
+  character.expressions?.find(e => e.name === expression)?.imageUrl
+    || character.expressions?.[0]?.imageUrl
+    || character.avatarUrl;
+
+/**
+ * 角色立绘舞台
+ * 记录在场角色的表情与站位，跨节点保留并写入存档；界面根据 stage:changed 渲染并播放过渡。
+ * 对话节点设置了站位时说话人自动登场 / 移动，说话人在场且设置了表情时切换表情。
+ * 每个站位只站一人：登场或移动到有人的站位时，原来的角色退场。
+ */
+export class StageManager {
+  private characters: Map<string, CharacterAsset> = new Map();
+  private onStage: StageCharacter[] = [];
+
+  constructor(private eventBus: IEventBus) {
+    this.eventBus.on('node:enter', ({ node }) => this.onNodeEnter(node));
+    this.eventBus.on('stage:show', ({ characterId, expression, placement, transition }) =>
+      this.show(characterId, { expression: expression || undefined, placement: placement || undefined, transition }));
+    this.eventBus.on('stage:hide', ({ characterId, transition }) => this.hide(characterId || undefined, transition));
+    this.eventBus.on('stage:expression', ({ characterId, expression }) => this.setExpression(characterId, expression));
+  }
+
+  init(story: StoryAsset): void {
+    this.characters = new Map((story.characters || []).map(c => [c.id, c]));
+    this.onStage = [];
+    this.emit([]);
+  }
+
+  getCharacters(): StageCharacter[] {
+    return this.onStage.map(entry => ({ ...entry }));
+  }
+
+  serialize(): StageCharacter[] {
+    return this.getCharacters();
+  }
+
+  /**
+   * 读档时直接还原舞台，不播放过渡
+   */
+  restore(snapshot?: StageCharacter[]): void {
+    this.onStage = (snapshot || [])
+      .filter(entry => this.characters.has(entry.characterId))
+      .map(entry => ({ ...entry }));
+    this.emit([]);
+  }
+
+  /**
+   * 角色登场；已在场时按参数移动站位 / 切换表情
+   */
+  show(characterId: string, options: StageShowOptions = {}): boolean {
+    const character = this.characters.get(characterId);
+    if (!character) {
+      console.warn(`[StageManager] Character not found: ${characterId}`);
+      return false;
+    }
+    if (options.placement && !STAGE_PLACEMENTS.includes(options.placement)) {
+      console.warn(`[StageManager] Unknown placement: ${options.placement}`);
+      return false;
+    }
+    const transition = options.transition || 'fade';
+    const changes: StageChange[] = [];
+    const current = this.onStage.find(entry => entry.characterId === characterId);
+    const placement = options.placement || current?.placement || DEFAULT_PLACEMENT;
+
+    this.onStage
+      .filter(entry => entry.characterId !== characterId && entry.placement === placement)
+      .forEach(entry => changes.push(this.remove(entry.characterId, transition)));
+
+    if (current) {
+      if (current.placement !== placement) {
+        changes.push({ kind: 'move', characterId, from: current.placement, to: placement, transition });
+        current.placement = placement;
+      }
+      if (options.expression && current.expression !== options.expression) {
+        this.warnUnknownExpression(character, options.expression);
+        current.expression = options.expression;
+        changes.push({ kind: 'expression', characterId, expression: options.expression });
+      }
+    } else {
+      const expression = options.expression || character.expressions?.[0]?.name || DEFAULT_EXPRESSION;
+      if (options.expression) this.warnUnknownExpression(character, options.expression);
+      this.onStage.push({ characterId, expression, placement });
+      changes.push({ kind: 'enter', characterId, transition });
+    }
+
+    if (changes.length) this.emit(changes);
+    return true;
+  }
+
+  /**
+   * 角色退场；不传角色时清空舞台
+   */
+  hide(characterId?: string, transition: StageTransition = 'fade'): void {
+    const targets = this.onStage.filter(entry => !characterId || entry.characterId === characterId);
+    if (!targets.length) return;
+    this.emit(targets.map(entry => this.remove(entry.characterId, transition)));
+  }
+
+  setExpression(characterId: string, expression: string): boolean {
+    const current = this.onStage.find(entry => entry.characterId === characterId);
+    if (!current) {
+      console.warn(`[StageManager] Character is not on stage: ${characterId}`);
+      return false;
+    }
+    if (!expression || current.expression === expression) return true;
+    this.warnUnknownExpression(this.characters.get(characterId), expression);
+    current.expression = expression;
+    this.emit([{ kind: 'expression', characterId, expression }]);
+    return true;
+  }
+
+  private onNodeEnter(node?: NarrativeNode) {
+    if (node?.type !== NodeType.DIALOGUE) return;
+    const dialogue = node as DialogueNode;
+    if (!dialogue.characterId || !this.characters.has(dialogue.characterId)) return;
+    const present = this.onStage.some(entry => entry.characterId === dialogue.characterId);
+    if (dialogue.placement || (present && dialogue.expression)) {
+      this.show(dialogue.characterId, { expression: dialogue.expression, placement: dialogue.placement });
+    }
+  }
+
+  private remove(characterId: string, transition: StageTransition): StageChange {
+    this.onStage = this.onStage.filter(entry => entry.characterId !== characterId);
+    return { kind: 'exit', characterId, transition };
+  }
+
+  private warnUnknownExpression(character: CharacterAsset | undefined, expression: string) {
+    if (character?.expressions?.length && !character.expressions.some(e => e.name === expression)) {
+      console.warn(`[StageManager] ${character.name} has no expression "${expression}"`);
+    }
+  }
+
+  private emit(changes: StageChange[]) {
+    this.eventBus.emit('stage:changed', { characters: this.getCharacters(), changes });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * 故事时钟工具
+ * 时钟以“分钟”计数：0 表示第 1 天 00:00，每天 1440 分钟，只会向前推进
+ */
+export const MINUTES_PER_DAY = 1440;
+
+/**
+ * 解析 HH:MM，返回当天的分钟数；格式不合法时返回 null
+ */
+export const parseClockTime = (text?: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((text || '').trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatClockTime = (clock: number): string => {
+  const day = Math.floor(clock / MINUTES_PER_DAY) + 1;
+  const minuteOfDay = clock % MINUTES_PER_DAY;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `第 ${day} 天 ${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)}`;
+};
+
+/**
+ * 从 from 之后第一次到达 minuteOfDay 的时钟值
+ */
+export const nextClockOccurrence = (from: number, minuteOfDay: number): number => {
+  let next = from - (from % MINUTES_PER_DAY) + minuteOfDay;
+  if (next <= from) next += MINUTES_PER_DAY;
+  return next;
+};
+
+/**
+ * 时钟从 from 推进到 to 的过程中是否经过 minuteOfDay（不含 from，含 to）
+ */
+export const crossesClockTime = (from: number, to: number, minuteOfDay: number): boolean =>
+  to > from && nextClockOccurrence(from, minuteOfDay) <= to;
@@ -0,0 +1,357 @@
+import { NarrativeEngine } from './NarrativeEngine';
+import { EngineSettler } from './EngineSettler';
+import { PlaythroughStep, applyStep } from './PlaythroughRunner';
+import { SaveGameData } from './interfaces';
+import { DialogueNode, LocationNode, NodeType, StoryAsset, VoteNode } from '../types';
+
+export interface ExplorerOptions {
+  /** 最多探索的玩家操作步数 */
+  maxDepth?: number;
+  /** 最多记录的不同状态数（节点位置 + 属性 / 物品 / 线索 / 库存） */
+  maxStates?: number;
+  /** 无活动多久视为流程稳定 (ms) */
+  quietMs?: number;
+  /** 单步最长等待时间 (ms) */
+  stepTimeoutMs?: number;
+}
+
+export interface ExploredEnding {
+  /** end: 触发 story:end；exit: 通过 JUMP 离开本段落 */
+  kind: 'end' | 'exit';
+  nodeId: string;
+  targetSegmentId?: string;
+  /** 最短的操作序列，可直接作为 PlaythroughScript.steps 回放 */
+  witness: PlaythroughStep[];
+}
+
+export interface ExploredTrap {
+  /** loop: 只能在若干状态间循环；dead_end: 没有任何可用操作 */
+  kind: 'loop' | 'dead_end';
+  nodeIds: string[];
+  witness: PlaythroughStep[];
+}
+
+export interface ExplorationReport {
+  segmentId: string;
+  statesExplored: number;
+  truncated: { depth: boolean; states: boolean };
+  endings: ExploredEnding[];
+  /** 探索中从未进入的节点；结果被截断时只能视为"可能不可达" */
+  unreachableNodeIds: string[];
+  /** 无法再到达任何结局的状态区域 */
+  traps: ExploredTrap[];
+}
+
+interface ExplorationState {
+  key: string;
+  save: SaveGameData;
+  nodeId: string | null;
+  depth: number;
+  witness: PlaythroughStep[];
+  successors: Set<string>;
+  expanded: boolean;
+  /** 存在通往结局或未展开区域的操作 */
+  escapes: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 40;
+const DEFAULT_MAX_STATES = 2000;
+const DEFAULT_QUIET_MS = 20;
+const DEFAULT_STEP_TIMEOUT_MS = 5000;
+
+/**
+ * 剧情路径探索
+ * 以存档快照为状态，对每个状态尝试全部玩家操作（选项、推进、热点点击、投票），广度优先遍历。
+ * 状态按节点位置与变量快照去重，并受深度 / 状态数限制。
+ */
+export class StoryExplorer {
+  private engine: NarrativeEngine;
+  private settler: EngineSettler;
+  private options: Required<ExplorerOptions>;
+
+  private segmentId = '';
+  private visitedNodes: Set<string> = new Set();
+  private outcome: Omit<ExploredEnding, 'witness'> | null = null;
+
+  constructor(private story: StoryAsset, options: ExplorerOptions = {}) {
+    this.options = {
+      maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+      maxStates: options.maxStates ?? DEFAULT_MAX_STATES,
+      quietMs: options.quietMs ?? DEFAULT_QUIET_MS,
+      stepTimeoutMs: options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS
+    };
+    this.engine = new NarrativeEngine({ actionAdvanceDelayMs: 0 });
+    this.settler = new EngineSettler(this.engine.eventBus, this.options.quietMs, this.options.stepTimeoutMs);
+
+    const bus = this.engine.eventBus;
+    const visit = ({ nodeId }: { nodeId: string }) => {
+      if (!this.outcome) this.visitedNodes.add(nodeId);
+    };
+    bus.on('node:enter', visit);
+    bus.on('node:traversed', visit);
+    bus.on('story:end', () => {
+      if (!this.outcome) this.outcome = { kind: 'end', nodeId: this.engine.getCurrentNode()?.id || '' };
+    });
+    bus.on('segment:exited', ({ toSegmentId }) => {
+      if (!this.outcome) this.outcome = { kind: 'exit', nodeId: this.engine.getCurrentNode()?.id || '', targetSegmentId: toSegmentId };
+    });
+  }
+
+  async explore(segmentId?: string): Promise<ExplorationReport> {
+    this.segmentId = segmentId || this.story.activeSegmentId || this.story.segments[0]?.id;
+    const segment = this.story.segments.find(s => s.id === this.segmentId);
+    const report: ExplorationReport = {
+      segmentId: this.segmentId,
+      statesExplored: 0,
+      truncated: { depth: false, states: false },
+      endings: [],
+      unreachableNodeIds: [],
+      traps: []
+    };
+    if (!segment) {
+      console.error(`[StoryExplorer] Segment not found: ${this.segmentId}`);
+      return report;
+    }
+
+    this.visitedNodes.clear();
+    this.outcome = null;
+    this.engine.loadStory(this.story);
+    this.engine.startSegment(this.segmentId);
+    await this.settler.settle();
+
+    const endings: Map<string, ExploredEnding> = new Map();
+    const states: Map<string, ExplorationState> = new Map();
+    const queue: ExplorationState[] = [];
+
+    const opening = this.takeOutcome();
+    if (opening) {
+      endings.set(`${opening.kind}:${opening.nodeId}`, { ...opening, witness: [] });
+    } else {
+      const root = this.capture(0, []);
+      states.set(root.key, root);
+      queue.push(root);
+    }
+
+    while (queue.length > 0) {
+      const state = queue.shift()!;
+      if (state.depth >= this.options.maxDepth) {
+        report.truncated.depth = true;
+        continue;
+      }
+
+      this.engine.restore(state.save);
+      const moves = await this.availableMoves();
+      state.expanded = true;
+
+      for (const move of moves) {
+        this.engine.restore(state.save);
+        this.outcome = null;
+        const witness = [...state.witness, move];
+
+        try {
+          this.settler.touch();
+          await applyStep(this.engine, move);
+          await this.settler.settle();
+        } catch (e) {
+          console.warn(`[StoryExplorer] Move failed after ${witness.length} steps`, e);
+          continue;
+        }
+
+        const outcome = this.takeOutcome();
+        if (outcome) {
+          const key = `${outcome.kind}:${outcome.nodeId}`;
+          if (!endings.has(key)) endings.set(key, { ...outcome, witness });
+          state.escapes = true;
+          continue;
+        }
+
+        const next = this.capture(state.depth + 1, witness);
+        if (!states.has(next.key)) {
+          if (states.size >= this.options.maxStates) {
+            report.truncated.states = true;
+            state.escapes = true; // 未知后续，不能断定为死循环
+            continue;
+          }
+          states.set(next.key, next);
+          queue.push(next);
+        }
+        state.successors.add(next.key);
+      }
+    }
+
+    report.statesExplored = states.size;
+    report.endings = Array.from(endings.values());
+    report.unreachableNodeIds = Object.keys(segment.nodes).filter(id => !this.visitedNodes.has(id));
+    report.traps = this.findTraps(states);
+    this.engine.scheduler.disarm();
+    return report;
+  }
+
+  // --- State ---
+
+  private capture(depth: number, witness: PlaythroughStep[]): ExplorationState {
+    const save = this.engine.serialize()!;
+    const { savedAt, ...position } = save;
+    return {
+      key: JSON.stringify(position),
+      save,
+      nodeId: save.nodeId,
+      depth,
+      witness,
+      successors: new Set(),
+      expanded: false,
+      escapes: false
+    };
+  }
+
+  private takeOutcome() {
+    const outcome = this.outcome;
+    this.outcome = null;
+    return outcome;
+  }
+
+  /**
+   * 当前稳定状态下玩家可以做的操作
+   * 场景热点只在没有对话覆盖时提供，避免对话与点击的无意义组合
+   * 隐藏或禁用的对话选项不算可用操作
+   */
+  private async availableMoves(): Promise<PlaythroughStep[]> {
+    const node = this.engine.getCurrentNode();
+    if (!node) return [];
+
+    if (node.type === NodeType.VOTE) {
+      if (!this.engine.voteManager.isOpen(node.id)) return [];
+      return ((node as VoteNode).voteConfig?.options || []).map(option => ({ vote: option.id }));
+    }
+
+    if (node.type === NodeType.DIALOGUE) {
+      if (!(node as DialogueNode).choices?.length) return [{ advance: true }];
+      const states = await this.engine.getChoiceStates();
+      return states.filter(state => state.enabled).map(state => ({ choice: state.choice.id }));
+    }
+
+    const scene = this.engine.getCurrentScene();
+    if (node.type === NodeType.LOCATION && scene?.id === node.id) {
+      const moves: PlaythroughStep[] = [];
+      const held = Object.keys(this.engine.variableStore.getInventory());
+      (scene as LocationNode).hotspots
+        .filter(hotspot => this.engine.isHotspotVisible(hotspot))
+        .forEach(hotspot => {
+          const events = (node.events || []).filter(evt => evt.targetId === hotspot.id);
+          if (events.some(evt => evt.trigger === 'onClick')) moves.push({ click: hotspot.id });
+          ['onHover', 'onExamine'].forEach(trigger => {
+            if (events.some(evt => evt.trigger === trigger)) moves.push({ trigger, targetId: hotspot.id });
+          });
+          // 共享背包中能触发“使用物品”事件的物品
+          held
+            .filter(itemId => events.some(evt => evt.trigger === 'onUseItem' && (!evt.itemId || evt.itemId === itemId)))
+            .forEach(itemId => moves.push({ use: itemId, on: hotspot.id }));
+        });
+      const segment = this.story.segments.find(s => s.id === this.segmentId);
+      if (segment?.edges.some(e => e.sourceNodeId === node.id && !e.sourceHandleId)) moves.push({ advance: true });
+      return moves;
+    }
+
+    return [];
+  }
+
+  // --- Trap Detection ---
+
+  /**
+   * 找出无法到达结局的"底部"强连通分量：进入后只能在其中打转或停滞
+   */
+  private findTraps(states: Map<string, ExplorationState>): ExploredTrap[] {
+    // 反向传播可逃逸性：能到达结局或未展开状态即视为可逃逸
+    const predecessors: Map<string, string[]> = new Map();
+    states.forEach(state => state.successors.forEach(next => {
+      if (!predecessors.has(next)) predecessors.set(next, []);
+      predecessors.get(next)!.push(state.key);
+    }));
+
+    const canEscape: Set<string> = new Set();
+    const pending = Array.from(states.values()).filter(s => s.escapes || !s.expanded).map(s => s.key);
+    pending.forEach(key => canEscape.add(key));
+    while (pending.length > 0) {
+      const key = pending.pop()!;
+      (predecessors.get(key) || []).forEach(prev => {
+        if (!canEscape.has(prev)) {
+          canEscape.add(prev);
+          pending.push(prev);
+        }
+      });
+    }
+
+    const trapped = Array.from(states.values()).filter(s => !canEscape.has(s.key));
+    const components = this.stronglyConnected(trapped, states);
+    const componentOf: Map<string, number> = new Map();
+    components.forEach((component, index) => component.forEach(state => componentOf.set(state.key, index)));
+
+    return components
+      .filter((component, index) => component.every(state =>
+        Array.from(state.successors).every(next => componentOf.get(next) === index)))
+      .map(component => {
+        const first = component.reduce((a, b) => (b.depth < a.depth ? b : a));
+        const isDeadEnd = component.length === 1 && first.successors.size === 0;
+        return {
+          kind: isDeadEnd ? 'dead_end' : 'loop',
+          nodeIds: Array.from(new Set(component.map(state => state.nodeId || ''))).sort(),
+          witness: first.witness
+        } as ExploredTrap;
+      });
+  }
+
+  /**
+   * Tarjan 强连通分量（迭代实现，避免深递归）
+   */
+  private stronglyConnected(subset: ExplorationState[], states: Map<string, ExplorationState>): ExplorationState[][] {
+    const inSubset = new Set(subset.map(s => s.key));
+    const index: Map<string, number> = new Map();
+    const lowLink: Map<string, number> = new Map();
+    const onStack: Set<string> = new Set();
+    const stack: string[] = [];
+    const components: ExplorationState[][] = [];
+    let counter = 0;
+
+    subset.forEach(root => {
+      if (index.has(root.key)) return;
+      const work: { key: string; next: string[] }[] = [];
+      const visit = (key: string) => {
+        index.set(key, counter);
+        lowLink.set(key, counter);
+        counter++;
+        stack.push(key);
+        onStack.add(key);
+        work.push({ key, next: Array.from(states.get(key)!.successors).filter(k => inSubset.has(k)) });
+      };
+      visit(root.key);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const next = frame.next.shift();
+        if (next !== undefined) {
+          if (!index.has(next)) visit(next);
+          else if (onStack.has(next)) lowLink.set(frame.key, Math.min(lowLink.get(frame.key)!, index.get(next)!));
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].key;
+          lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.key)!));
+        }
+        if (lowLink.get(frame.key) === index.get(frame.key)) {
+          const component: ExplorationState[] = [];
+          let key: string;
+          do {
+            key = stack.pop()!;
+            onStack.delete(key);
+            component.push(states.get(key)!);
+          } while (key !== frame.key);
+          components.push(component);
+        }
+      }
+    });
+
+    return components;
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * 剧本导入
+ * 读入导出的 JSON → 按 formatVersion 逐级迁移旧格式 → 按 StorySchema 校验 → 得到可加载的 StoryAsset
+ * 没有 formatVersion 的旧导出视为版本 1。迁移不会丢弃无法转换的内容，而是原样保留并记入 notes。
+ */
+import { AttributeDefinition, LogicConditionNode, NodeType, StoryAsset } from '../types';
+import { ExpressionNode, parseExpression } from './logic/Expression';
+import { ActionRegistry } from './logic/ActionRegistry';
+import { actionRegistry as defaultActionRegistry } from './logic/registries';
+import { SchemaError, validateSchema } from './StorySchema';
+
+export const STORY_FORMAT_VERSION = 4;
+
+export interface StoryMigration {
+  version: number; // 迁移后的版本
+  description: string;
+  migrate(story: any, notes: string[], registry: ActionRegistry): void;
+}
+
+export interface StoryImportResult {
+  story: StoryAsset | null;
+  fromVersion: number | null;
+  errors: SchemaError[];
+  notes: string[]; // 迁移过程的说明
+}
+
+// --- Expression → LogicConditionNode ---
+
+const MIRRORED_OPERATORS: Record<string, string> = { '==': '==', '!=': '!=', '>': '<', '>=': '<=', '<': '>', '<=': '>=' };
+const COMPARE_OPERATORS = ['==', '!=', '>', '>=', '<', '<='];
+
+const literalOf = (node: ExpressionNode): { value: any } | null => {
+  if (node.kind === 'literal') return { value: node.value };
+  if (node.kind === 'unary' && node.op === '-' && node.operand.kind === 'literal' && typeof node.operand.value === 'number') {
+    return { value: -node.operand.value };
+  }
+  return null;
+};
+
+const literalArgs = (node: Extract<ExpressionNode, { kind: 'call' }>): any[] | null => {
+  const values = node.args.map(literalOf);
+  return values.every(Boolean) ? values.map(v => v!.value) : null;
+};
+
+const convertCall = (node: Extract<ExpressionNode, { kind: 'call' }>): LogicConditionNode | null => {
+  const args = literalArgs(node);
+  if (!args) return null;
+  const [first, second, third] = args;
+  switch (node.name) {
+    case 'hasItem':
+      return { type: 'HAS_ITEM', params: { itemId: first, count: second ?? 1, ...(third !== undefined ? { ownerId: third } : {}) } };
+    case 'hasClue':
+      return { type: 'HAS_CLUE', params: { clueId: first, ...(second !== undefined ? { characterId: second } : {}) } };
+    case 'objectiveDone':
+      return { type: 'QUEST_STATE', params: { questId: first, objectiveId: second } };
+    default:
+      return null;
+  }
+};
+
+/**
+ * 比较：一侧为属性引用 / attr() / itemCount() / questState()，另一侧为字面量
+ */
+const convertComparison = (op: string, subject: ExpressionNode, literal: { value: any }): LogicConditionNode | null => {
+  // `$` 开头的字符串在结构化条件里会被当作属性引用
+  if (typeof literal.value === 'string' && literal.value.startsWith('$')) return null;
+
+  if (subject.kind === 'ref') {
+    if (subject.name === 'usedItem') {
+      if (op !== '==' && op !== '!=') return null;
+      return { type: 'USED_ITEM', params: { itemId: literal.value }, ...(op === '!=' ? { negate: true } : {}) };
+    }
+    return { type: 'ATTR_COMPARE', params: { attributeId: subject.name, operator: op, value: literal.value } };
+  }
+  if (subject.kind !== 'call') return null;
+  const args = literalArgs(subject);
+  if (!args) return null;
+  if (subject.name === 'attr') {
+    return { type: 'ATTR_COMPARE', params: { attributeId: args[0], ...(args[1] !== undefined ? { characterId: args[1] } : {}), operator: op, value: literal.value } };
+  }
+  if (subject.name === 'itemCount' && args.length === 1 && typeof literal.value === 'number') {
+    return { type: 'VAL_COMPARE', params: { left: { kind: 'itemCount', itemId: args[0] }, operator: op, right: literal.value } };
+  }
+  if (subject.name === 'questState' && (op === '==' || op === '!=')) {
+    return { type: 'QUEST_STATE', params: { questId: args[0], status: literal.value }, ...(op === '!=' ? { negate: true } : {}) };
+  }
+  return null;
+};
+
+const convertAst = (node: ExpressionNode): LogicConditionNode | null => {
+  switch (node.kind) {
+    case 'binary': {
+      if (node.op === '&&' || node.op === '||') {
+        const type = node.op === '&&' ? 'LOGIC_AND' : 'LOGIC_OR';
+        const left = convertAst(node.left);
+        const right = convertAst(node.right);
+        if (!left || !right) return null;
+        // a && b && c 展平为一个组
+        const flatten = (child: LogicConditionNode) => (child.type === type && !child.negate ? child.children || [] : [child]);
+        return { type, children: [...flatten(left), ...flatten(right)] };
+      }
+      if (!COMPARE_OPERATORS.includes(node.op)) return null;
+      const right = literalOf(node.right);
+      if (right) return convertComparison(node.op, node.left, right);
+      const left = literalOf(node.left);
+      if (left) return convertComparison(MIRRORED_OPERATORS[node.op], node.right, left);
+      return null;
+    }
+    case 'unary': {
+      if (node.op !== '!') return null;
+      const inner = convertAst(node.operand);
+      if (!inner) return null;
+      return inner.negate ? { ...inner, negate: undefined } : { ...inner, negate: true };
+    }
+    case 'ref':
+      return node.name === 'usedItem' ? null : { type: 'CHECK_FLAG', params: { key: node.name, expected: true } };
+    case 'call':
+      return convertCall(node);
+    default:
+      return null;
+  }
+};
+
+/**
+ * 把字符串条件转换为等价的结构化条件；含有算术、变量间比较等无法表达的写法时返回 null
+ */
+export const expressionToCondition = (source: string): LogicConditionNode | null => {
+  const parsed = parseExpression(source);
+  if (!parsed.ok || !parsed.ast) return null;
+  const result = convertAst(parsed.ast);
+  // JSON 中不保留 negate: undefined
+  return result ? JSON.parse(JSON.stringify(result)) : null;
+};
+
+// --- Migrations ---
+
+/**
+ * Inspector 的条件选择器只能编辑单个条件且参数均为标量；组合条件、itemCount 比较等保留为表达式，仍可在表达式输入框里修改
+ */
+const isEditableCondition = (condition: LogicConditionNode): boolean =>
+  !condition.children && Object.values(condition.params || {}).every(value => value === null || typeof value !== 'object');
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ACTION_FIELDS = ['id', 'type', 'params', 'delayMs', 'async', 'ignoreError'];
+
+const forEachNode = (story: any, visit: (node: any) => void) => {
+  for (const segment of story.segments || []) {
+    for (const node of Object.values(segment?.nodes || {})) {
+      if (node && typeof node === 'object') visit(node);
+    }
+  }
+};
+
+const actionLists = (story: any): any[][] => {
+  const lists: any[][] = [];
+  forEachNode(story, node => {
+    if (Array.isArray(node.actions)) lists.push(node.actions);
+    for (const event of node.events || []) if (Array.isArray(event?.actions)) lists.push(event.actions);
+    for (const choice of node.choices || []) if (Array.isArray(choice?.actions)) lists.push(choice.actions);
+  });
+  return lists;
+};
+
+export const STORY_MIGRATIONS: StoryMigration[] = [
+  {
+    version: 2,
+    description: '全局变量 (globalVariables) 迁移为属性 (attributes)',
+    migrate(story, notes) {
+      const attributes: AttributeDefinition[] = Array.isArray(story.attributes) ? story.attributes : [];
+      const variables: any[] = Array.isArray(story.globalVariables) ? story.globalVariables : [];
+      const keys = new Set(attributes.map(a => a.key));
+      let moved = 0;
+      for (const variable of variables) {
+        if (!variable?.id || attributes.some(a => a.id === variable.id)) continue;
+        // 沿用变量 id，分支条件等按 id 引用的地方无需改动
+        const base = IDENTIFIER.test(variable.name || '') ? variable.name : variable.id;
+        let key = base;
+        for (let n = 2; keys.has(key); n++) key = `${base}_${n}`;
+        keys.add(key);
+        attributes.push({
+          id: variable.id,
+          key,
+          name: variable.name || variable.id,
+          type: variable.type || 'number',
+          defaultValue: variable.defaultValue
+        });
+        moved++;
+      }
+      story.attributes = attributes;
+      story.globalVariables = [];
+      if (moved) notes.push(`${moved} 个全局变量已转换为属性`);
+    }
+  },
+  {
+    version: 3,
+    description: '旧版动作 (ACTION_REGISTRY) 转换为动作注册表格式',
+    migrate(story, notes, registry) {
+      let upgraded = 0;
+      const unknown = new Set<string>();
+      let seq = 0;
+      for (const list of actionLists(story)) {
+        list.forEach(action => {
+          if (!action || typeof action !== 'object') return;
+          let changed = false;
+          // 旧版把参数直接平铺在动作上
+          if (!action.params || typeof action.params !== 'object') {
+            action.params = Object.fromEntries(Object.entries(action).filter(([key]) => !ACTION_FIELDS.includes(key)));
+            Object.keys(action.params).forEach(key => delete action[key]);
+            changed = true;
+          }
+          if (!action.id) {
+            action.id = `act_migrated_${++seq}`;
+            changed = true;
+          }
+          const extension = registry.get(String(action.type));
+          if (!extension) {
+            unknown.add(String(action.type));
+          } else {
+            for (const param of extension.ui.params) {
+              if (action.params[param.name] === undefined && param.defaultValue !== undefined) {
+                action.params[param.name] = param.defaultValue;
+                changed = true;
+              }
+            }
+          }
+          if (changed) upgraded++;
+        });
+      }
+      if (upgraded) notes.push(`${upgraded} 个动作已补全为注册表格式`);
+      if (unknown.size) notes.push(`未知的动作类型（保留原样）: ${[...unknown].join(', ')}`);
+    }
+  },
+  {
+    version: 4,
+    description: '字符串条件转换为结构化条件 (LogicConditionNode)',
+    migrate(story, notes) {
+      let converted = 0;
+      const kept: string[] = [];
+      const attributeIds = new Map<string, string>((story.attributes || []).map((a: any) => [a.key, a.id]));
+      const convert = (owner: any, field: string) => {
+        const source = owner?.[field];
+        if (typeof source !== 'string') return;
+        if (!source.trim()) {
+          delete owner[field];
+          return;
+        }
+        const condition = expressionToCondition(source);
+        if (condition && isEditableCondition(condition)) {
+          // 结构化条件里的属性用 id 引用，编辑器的属性下拉才能选中
+          if (condition.type === 'ATTR_COMPARE') condition.params!.attributeId = attributeIds.get(condition.params!.attributeId) ?? condition.params!.attributeId;
+          owner[field] = condition;
+          converted++;
+        } else {
+          kept.push(source);
+        }
+      };
+      for (const segment of story.segments || []) {
+        for (const edge of segment?.edges || []) convert(edge, 'condition');
+      }
+      forEachNode(story, node => {
+        for (const event of node.events || []) convert(event, 'condition');
+        if (node.type === NodeType.LOCATION) for (const hotspot of node.hotspots || []) convert(hotspot, 'visibleIf');
+      });
+      if (converted) notes.push(`${converted} 个字符串条件已转换为结构化条件`);
+      if (kept.length) notes.push(`${kept.length} 个条件保留为表达式: ${kept.map(s => `"${s}"`).join(', ')}`);
+    }
+  }
+];
+
+/**
+ * 补齐后来才加入、旧导出中可能缺少的集合字段
+ */
+const fillDefaults = (story: any) => {
+  story.description ??= '';
+  for (const key of ['characters', 'items', 'shops', 'clues', 'attributes', 'globalVariables']) {
+    story[key] ??= [];
+  }
+  if (!story.activeSegmentId && Array.isArray(story.segments)) story.activeSegmentId = story.segments[0]?.id || '';
+};
+
+/**
+ * 对已解析的剧本对象执行迁移与校验
+ */
+export const migrateStory = (data: any, registry: ActionRegistry = defaultActionRegistry): StoryImportResult => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { story: null, fromVersion: null, errors: [{ path: '/', message: '应为剧本对象' }], notes: [] };
+  }
+  const fromVersion = data.formatVersion === undefined ? 1 : Number(data.formatVersion);
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { story: null, fromVersion: null, errors: [{ path: '/formatVersion', message: `无效的版本号: ${data.formatVersion}` }], notes: [] };
+  }
+  if (fromVersion > STORY_FORMAT_VERSION) {
+    return {
+      story: null,
+      fromVersion,
+      errors: [{ path: '/formatVersion', message: `剧本版本 ${fromVersion} 高于当前支持的版本 ${STORY_FORMAT_VERSION}，请升级编辑器` }],
+      notes: []
+    };
+  }
+
+  const story = JSON.parse(JSON.stringify(data));
+  const notes: string[] = [];
+  fillDefaults(story);
+  // 结构不对（例如 segments 不是数组）时跳过迁移，直接交给 schema 报告
+  if (Array.isArray(story.segments)) {
+    for (const migration of STORY_MIGRATIONS.filter(m => m.version > fromVersion)) {
+      migration.migrate(story, notes, registry);
+    }
+  }
+  story.formatVersion = STORY_FORMAT_VERSION;
+
+  const errors = validateSchema(story);
+  return { story: errors.length ? null : story as StoryAsset, fromVersion, errors, notes };
+};
+
+/**
+ * 从导出的 JSON 文本导入剧本
+ */
+export const importStory = (text: string, registry?: ActionRegistry): StoryImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { story: null, fromVersion: null, errors: [{ path: '/', message: `不是有效的 JSON: ${(e as Error).message}` }], notes: [] };
+  }
+  return migrateStory(data, registry);
+};
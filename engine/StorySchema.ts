@@ -0,0 +1,293 @@
+/**
+ * StoryAsset 的 JSON Schema 与校验器
+ * 校验器只实现剧本用到的子集: type / enum / required / properties / additionalProperties / items / anyOf / allOf / if-then / $ref
+ * 错误带 JSON Pointer 路径（如 /segments/0/nodes/n_1/choices/2/text），可直接定位到出错字段
+ */
+import { NodeType } from '../types';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null' | Array<'object' | 'array' | 'string' | 'number' | 'boolean' | 'null'>;
+  enum?: any[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+const arrayOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const STRING: JsonSchema = { type: 'string' };
+const NUMBER: JsonSchema = { type: 'number' };
+const BOOLEAN: JsonSchema = { type: 'boolean' };
+const PARAMS: JsonSchema = { type: 'object' };
+
+const whenType = (type: NodeType, then: JsonSchema): JsonSchema => ({
+  if: { properties: { type: { enum: [type] } } },
+  then
+});
+
+export const STORY_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'title', 'segments', 'characters', 'items', 'clues', 'attributes', 'activeSegmentId'],
+  properties: {
+    formatVersion: NUMBER,
+    id: STRING,
+    title: STRING,
+    description: STRING,
+    activeSegmentId: STRING,
+    clockStart: STRING,
+    segments: arrayOf(ref('segment')),
+    characters: arrayOf(ref('character')),
+    items: arrayOf(ref('item')),
+    shops: arrayOf(ref('shop')),
+    clues: arrayOf(ref('clue')),
+    quests: arrayOf(ref('quest')),
+    attributes: arrayOf(ref('attribute')),
+    globalVariables: arrayOf({ type: 'object', required: ['id', 'name', 'type'] }),
+    localization: {
+      type: 'object',
+      required: ['sourceLocale', 'locales', 'tables'],
+      properties: {
+        sourceLocale: STRING,
+        locales: arrayOf(STRING),
+        tables: { type: 'object', additionalProperties: { type: 'object', additionalProperties: STRING } }
+      }
+    }
+  },
+  definitions: {
+    vector: { type: 'object', required: ['x', 'y'], properties: { x: NUMBER, y: NUMBER } },
+    condition: {
+      type: 'object',
+      required: ['type'],
+      properties: { type: STRING, params: PARAMS, children: arrayOf(ref('condition')), negate: BOOLEAN }
+    },
+    conditionOrExpression: { anyOf: [STRING, ref('condition')] },
+    action: {
+      type: 'object',
+      required: ['id', 'type', 'params'],
+      properties: { id: STRING, type: STRING, params: PARAMS, delayMs: NUMBER, async: BOOLEAN, ignoreError: BOOLEAN }
+    },
+    event: {
+      type: 'object',
+      required: ['id', 'trigger', 'actions'],
+      properties: {
+        id: STRING,
+        type: { enum: ['lifecycle', 'interaction', 'scheduled'] },
+        trigger: STRING,
+        label: STRING,
+        targetId: STRING,
+        condition: ref('conditionOrExpression'),
+        actions: arrayOf(ref('action'))
+      }
+    },
+    choice: {
+      type: 'object',
+      required: ['id', 'text'],
+      properties: {
+        id: STRING,
+        text: STRING,
+        nextNodeId: STRING,
+        visibleIf: ref('condition'),
+        enabledIf: ref('condition'),
+        disabledReason: STRING,
+        actions: arrayOf(ref('action'))
+      }
+    },
+    hotspot: {
+      type: 'object',
+      required: ['id', 'rect'],
+      properties: {
+        id: STRING,
+        name: STRING,
+        rect: { type: 'object', required: ['x', 'y', 'w', 'h'], properties: { x: NUMBER, y: NUMBER, w: NUMBER, h: NUMBER } },
+        image: STRING,
+        visibleIf: ref('conditionOrExpression')
+      }
+    },
+    node: {
+      type: 'object',
+      required: ['id', 'type', 'position'],
+      properties: {
+        id: STRING,
+        type: { enum: Object.values(NodeType) },
+        name: STRING,
+        position: ref('vector'),
+        size: ref('vector'),
+        events: arrayOf(ref('event'))
+      },
+      allOf: [
+        whenType(NodeType.DIALOGUE, {
+          required: ['text', 'choices'],
+          properties: { characterId: STRING, text: STRING, choices: arrayOf(ref('choice')) }
+        }),
+        whenType(NodeType.LOCATION, {
+          required: ['hotspots'],
+          properties: { backgroundImage: STRING, hotspots: arrayOf(ref('hotspot')) }
+        }),
+        whenType(NodeType.ACTION, { required: ['actions'], properties: { actions: arrayOf(ref('action')) } }),
+        whenType(NodeType.BRANCH, {
+          properties: {
+            conditions: arrayOf({ type: 'object', required: ['id', 'variableId', 'operator'], properties: { id: STRING, variableId: STRING } })
+          }
+        }),
+        whenType(NodeType.SWITCH, {
+          required: ['subject', 'cases'],
+          properties: {
+            subject: { type: 'object', required: ['kind', 'refId'], properties: { kind: { enum: ['attribute', 'itemCount'] }, refId: STRING } },
+            cases: arrayOf({ type: 'object', required: ['id', 'value'], properties: { id: STRING } })
+          }
+        }),
+        whenType(NodeType.VOTE, {
+          required: ['voteConfig'],
+          properties: {
+            voteConfig: {
+              type: 'object',
+              required: ['title', 'duration', 'options', 'strategy'],
+              properties: {
+                title: STRING,
+                duration: NUMBER,
+                strategy: { enum: ['majority', 'score', 'branch'] },
+                options: arrayOf({ type: 'object', required: ['id', 'text'], properties: { id: STRING, text: STRING, score: NUMBER } })
+              }
+            }
+          }
+        })
+      ]
+    },
+    edge: {
+      type: 'object',
+      required: ['id', 'sourceNodeId', 'targetNodeId'],
+      properties: { id: STRING, sourceNodeId: STRING, targetNodeId: STRING, sourceHandleId: STRING, condition: ref('conditionOrExpression') }
+    },
+    segment: {
+      type: 'object',
+      required: ['id', 'name', 'nodes', 'edges', 'rootNodeId'],
+      properties: {
+        id: STRING,
+        name: STRING,
+        rootNodeId: STRING,
+        nodes: { type: 'object', additionalProperties: ref('node') },
+        edges: arrayOf(ref('edge'))
+      }
+    },
+    character: {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: {
+        id: STRING,
+        name: STRING,
+        avatarUrl: STRING,
+        expressions: arrayOf({ type: 'object', required: ['name', 'imageUrl'], properties: { name: STRING, imageUrl: STRING } })
+      }
+    },
+    item: { type: 'object', required: ['id', 'name'], properties: { id: STRING, name: STRING, description: STRING, stackable: BOOLEAN } },
+    clue: { type: 'object', required: ['id', 'name'], properties: { id: STRING, name: STRING, description: STRING, revealed: BOOLEAN, owners: arrayOf(STRING) } },
+    shop: {
+      type: 'object',
+      required: ['id', 'name', 'inventory'],
+      properties: {
+        id: STRING,
+        name: STRING,
+        inventory: arrayOf({ type: 'object', required: ['itemId', 'price'], properties: { itemId: STRING, price: NUMBER, stock: NUMBER } }),
+        sellRatio: NUMBER
+      }
+    },
+    quest: {
+      type: 'object',
+      required: ['id', 'name', 'stages'],
+      properties: {
+        id: STRING,
+        name: STRING,
+        stages: arrayOf({
+          type: 'object',
+          required: ['id', 'objectives'],
+          properties: { id: STRING, objectives: arrayOf({ type: 'object', required: ['id'], properties: { id: STRING, optional: BOOLEAN } }) }
+        })
+      }
+    },
+    attribute: {
+      type: 'object',
+      required: ['id', 'key', 'name', 'type'],
+      properties: {
+        id: STRING,
+        key: STRING,
+        name: STRING,
+        type: { enum: ['boolean', 'number', 'string'] },
+        min: NUMBER,
+        max: NUMBER,
+        scope: { enum: ['global', 'character'] }
+      }
+    }
+  }
+};
+
+const typeOf = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const escapePointer = (segment: string | number) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * 按 schema 校验，返回所有错误（空数组表示通过）
+ */
+export const validateSchema = (value: any, schema: JsonSchema = STORY_SCHEMA, root: JsonSchema = schema): SchemaError[] => {
+  const errors: SchemaError[] = [];
+
+  const visit = (current: any, node: JsonSchema, path: string) => {
+    if (node.$ref) {
+      const target = root.definitions?.[node.$ref.replace('#/definitions/', '')];
+      if (!target) throw new Error(`[StorySchema] Unknown $ref: ${node.$ref}`);
+      visit(current, target, path);
+      return;
+    }
+
+    const actual = typeOf(current);
+    if (node.type) {
+      const expected = Array.isArray(node.type) ? node.type : [node.type];
+      if (!expected.includes(actual as any)) {
+        errors.push({ path: path || '/', message: `应为 ${expected.join(' | ')}，实际为 ${actual}` });
+        return;
+      }
+    }
+    if (node.enum && !node.enum.includes(current)) {
+      errors.push({ path: path || '/', message: `取值应为 ${node.enum.join(' | ')}，实际为 ${JSON.stringify(current)}` });
+      return;
+    }
+    if (node.anyOf && !node.anyOf.some(option => validateSchema(current, option, root).length === 0)) {
+      errors.push({ path: path || '/', message: `不符合任何允许的格式 (${actual})` });
+      return;
+    }
+
+    if (actual === 'object') {
+      for (const key of node.required || []) {
+        if (current[key] === undefined) errors.push({ path: `${path}/${escapePointer(key)}`, message: '缺少必填字段' });
+      }
+      for (const [key, child] of Object.entries(current)) {
+        const childSchema = node.properties?.[key] || node.additionalProperties;
+        if (childSchema && child !== undefined) visit(child, childSchema, `${path}/${escapePointer(key)}`);
+      }
+    }
+    if (actual === 'array' && node.items) {
+      (current as any[]).forEach((child, i) => visit(child, node.items!, `${path}/${i}`));
+    }
+
+    for (const part of node.allOf || []) visit(current, part, path);
+    if (node.if && node.then && validateSchema(current, node.if, root).length === 0) visit(current, node.then, path);
+  };
+
+  visit(value, schema, '');
+  return errors;
+};
@@ -0,0 +1,352 @@
+import { StoryAsset, SegmentAsset, NodeType, DialogueNode, ActionNode, JumpNode, LocationNode, LogicConditionNode, ScriptAction, NodeEvent } from '../types';
+import { ActionRegistry } from './logic/ActionRegistry';
+import { ConditionRegistry } from './logic/ConditionRegistry';
+import { ParamConfig } from './logic/types';
+import { parseExpression } from './logic/Expression';
+import { parseClockTime } from './StoryClock';
+import { findMarkupEntity, MarkupNode, parseMarkup } from './TextMarkup';
+import { actionRegistry as defaultActionRegistry, conditionRegistry as defaultConditionRegistry } from './logic/registries';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'SEGMENT_ROOT_MISSING'
+  | 'EDGE_MISSING_SOURCE'
+  | 'EDGE_MISSING_TARGET'
+  | 'CHOICE_WITHOUT_EDGE'
+  | 'NODE_UNREACHABLE'
+  | 'JUMP_MISSING_TARGET'
+  | 'ACTION_UNKNOWN_TYPE'
+  | 'ACTION_MISSING_REFERENCE'
+  | 'CONDITION_UNKNOWN_TYPE'
+  | 'CONDITION_MISSING_REFERENCE'
+  | 'CONDITION_SYNTAX_ERROR'
+  | 'CONDITION_ASYNC_NOT_ALLOWED'
+  | 'EVENT_INVALID_SCHEDULE'
+  | 'EVENT_MISSING_REFERENCE'
+  | 'BRANCH_WITHOUT_DEFAULT'
+  | 'TEXT_MARKUP_ERROR';
+
+export interface StoryDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  segmentId: string;
+  nodeId?: string;
+  edgeId?: string;
+}
+
+export interface ValidatorRegistries {
+  actions?: ActionRegistry;
+  conditions?: ConditionRegistry;
+}
+
+type EntityType = NonNullable<ParamConfig['entityType']>;
+
+/**
+ * 剧本静态检查
+ * 在运行前找出断线、孤立节点、失效引用等问题，结果用于编辑器 Problems 面板
+ */
+export const validateStory = (story: StoryAsset, registries: ValidatorRegistries = {}): StoryDiagnostic[] => {
+  const actions = registries.actions || defaultActionRegistry;
+  const conditions = registries.conditions || defaultConditionRegistry;
+  const diagnostics: StoryDiagnostic[] = [];
+
+  // Attributes may be referenced by id or key
+  const entityIds: Record<EntityType, Set<string>> = {
+    character: new Set(story.characters.map(c => c.id)),
+    item: new Set(story.items.map(i => i.id)),
+    clue: new Set(story.clues.map(c => c.id)),
+    attribute: new Set(story.attributes.flatMap(a => [a.id, a.key])),
+    shop: new Set((story.shops || []).map(s => s.id)),
+    quest: new Set((story.quests || []).map(q => q.id))
+  };
+
+  // Entry points reached from elsewhere (JUMP entry nodes, JUMP_TO actions) count as roots
+  const externalEntries = collectExternalEntries(story);
+
+  for (const segment of story.segments) {
+    const report = (code: DiagnosticCode, severity: DiagnosticSeverity, message: string, refs: { nodeId?: string; edgeId?: string } = {}) => {
+      diagnostics.push({ code, severity, message, segmentId: segment.id, ...refs });
+    };
+
+    if (!segment.nodes[segment.rootNodeId]) {
+      report('SEGMENT_ROOT_MISSING', 'error', `章节 "${segment.name}" 的起点节点不存在`);
+    }
+
+    // --- Edges ---
+    for (const edge of segment.edges) {
+      if (!segment.nodes[edge.sourceNodeId]) {
+        report('EDGE_MISSING_SOURCE', 'error', `连线的起点节点不存在: ${edge.sourceNodeId}`, { edgeId: edge.id });
+      }
+      if (!segment.nodes[edge.targetNodeId]) {
+        report('EDGE_MISSING_TARGET', 'error', `连线指向不存在的节点: ${edge.targetNodeId}`, { edgeId: edge.id, nodeId: segment.nodes[edge.sourceNodeId] ? edge.sourceNodeId : undefined });
+      }
+      if (edge.condition && typeof edge.condition !== 'string') {
+        checkCondition(edge.condition, conditions, entityIds, (code, message) => report(code, 'error', message, { edgeId: edge.id, nodeId: edge.sourceNodeId }));
+      } else if (typeof edge.condition === 'string') {
+        checkExpression(edge.condition, message => report('CONDITION_SYNTAX_ERROR', 'error', message, { edgeId: edge.id, nodeId: edge.sourceNodeId }));
+      }
+    }
+
+    // --- Nodes ---
+    const reachable = collectReachable(segment, externalEntries.get(segment.id));
+
+    for (const node of Object.values(segment.nodes)) {
+      const outgoing = segment.edges.filter(e => e.sourceNodeId === node.id);
+      const at = { nodeId: node.id };
+      const label = node.name || node.id;
+
+      if (!reachable.has(node.id)) {
+        report('NODE_UNREACHABLE', 'warning', `节点 "${label}" 无法从章节起点到达`, at);
+      }
+
+      if (node.type === NodeType.DIALOGUE) {
+        const dialogue = node as DialogueNode;
+        const markupErrors = [dialogue.text, ...(dialogue.choices || []).map(c => c.text)].flatMap(text => checkMarkup(text, story));
+        markupErrors.forEach(message => report('TEXT_MARKUP_ERROR', 'warning', `对话 "${label}": ${message}`, at));
+        for (const choice of dialogue.choices || []) {
+          if (!outgoing.some(e => e.sourceHandleId === choice.id)) {
+            report('CHOICE_WITHOUT_EDGE', 'warning', `对话 "${label}" 的选项 "${choice.text}" 没有连线`, at);
+          }
+        }
+      }
+
+      if (node.type === NodeType.JUMP) {
+        const jump = node as JumpNode;
+        const target = story.segments.find(s => s.id === jump.targetSegmentId);
+        if (!jump.targetSegmentId) {
+          report('JUMP_MISSING_TARGET', 'error', `跳转节点 "${label}" 未设置目标章节`, at);
+        } else if (!target) {
+          report('JUMP_MISSING_TARGET', 'error', `跳转节点 "${label}" 的目标章节不存在: ${jump.targetSegmentId}`, at);
+        } else if (jump.targetNodeId && !target.nodes[jump.targetNodeId]) {
+          report('JUMP_MISSING_TARGET', 'error', `跳转节点 "${label}" 的入口节点不存在: ${jump.targetNodeId}`, at);
+        }
+      }
+
+      if (node.type === NodeType.BRANCH && !outgoing.some(e => !e.sourceHandleId)) {
+        report('BRANCH_WITHOUT_DEFAULT', 'warning', `分支 "${label}" 没有默认 (Else) 出边`, at);
+      }
+
+      const checkActions = (list: ScriptAction[] | undefined) => {
+        for (const action of list || []) {
+          checkAction(action, actions, entityIds, (code, message) => report(code, 'error', `${label}: ${message}`, at));
+        }
+      };
+
+      if (node.type === NodeType.ACTION) checkActions((node as ActionNode).actions);
+      if (node.type === NodeType.DIALOGUE) {
+        for (const choice of (node as DialogueNode).choices || []) {
+          checkActions(choice.actions);
+          for (const [condition, kind] of [[choice.visibleIf, '可见'], [choice.enabledIf, '可选']] as const) {
+            if (!condition) continue;
+            checkCondition(condition, conditions, entityIds, (code, message) => report(code, 'error', `${label} / 选项 ${choice.text} 的${kind}条件: ${message}`, at));
+          }
+        }
+      }
+      for (const evt of node.events || []) {
+        checkActions(evt.actions);
+        if (evt.condition && typeof evt.condition !== 'string') {
+          checkCondition(evt.condition, conditions, entityIds, (code, message) => report(code, 'error', `${label} / ${evt.label}: ${message}`, at));
+        } else if (typeof evt.condition === 'string') {
+          checkExpression(evt.condition, message => report('CONDITION_SYNTAX_ERROR', 'error', `${label} / ${evt.label}: ${message}`, at));
+        }
+        const scheduleError = checkSchedule(evt, entityIds);
+        if (scheduleError) report('EVENT_INVALID_SCHEDULE', 'error', `${label} / ${evt.label}: ${scheduleError}`, at);
+        if (evt.itemId && !entityIds.item.has(evt.itemId)) {
+          report('EVENT_MISSING_REFERENCE', 'error', `${label} / ${evt.label}: 引用了不存在的物品 ${evt.itemId}`, at);
+        }
+        if (evt.targetId && node.type === NodeType.LOCATION && !(node as LocationNode).hotspots?.some(h => h.id === evt.targetId)) {
+          report('EVENT_MISSING_REFERENCE', 'error', `${label} / ${evt.label}: 引用了不存在的热点 ${evt.targetId}`, at);
+        }
+      }
+
+      if (node.type === NodeType.LOCATION) {
+        for (const hotspot of (node as LocationNode).hotspots || []) {
+          const prefix = `${label} / 热点 ${hotspot.name} 的可见条件`;
+          if (hotspot.visibleIf && typeof hotspot.visibleIf !== 'string') {
+            checkCondition(hotspot.visibleIf, conditions, entityIds, (code, message) => report(code, 'error', `${prefix}: ${message}`, at));
+            // 可见性在渲染时同步求值，异步条件只会得到 false，热点永远隐藏
+            const asyncType = findAsyncCondition(hotspot.visibleIf, conditions);
+            if (asyncType) report('CONDITION_ASYNC_NOT_ALLOWED', 'error', `${prefix}: 不能使用异步条件 ${asyncType}`, at);
+          } else if (typeof hotspot.visibleIf === 'string') {
+            checkExpression(hotspot.visibleIf, message => report('CONDITION_SYNTAX_ERROR', 'error', `${prefix}: ${message}`, at));
+          }
+        }
+      }
+    }
+  }
+
+  return diagnostics;
+};
+
+// --- Private Helpers ---
+
+const collectExternalEntries = (story: StoryAsset): Map<string, Set<string>> => {
+  const entries = new Map<string, Set<string>>();
+  const add = (segmentId: string, nodeId: string) => {
+    if (!entries.has(segmentId)) entries.set(segmentId, new Set());
+    entries.get(segmentId)!.add(nodeId);
+  };
+
+  for (const segment of story.segments) {
+    for (const node of Object.values(segment.nodes)) {
+      if (node.type === NodeType.JUMP) {
+        const jump = node as JumpNode;
+        if (jump.targetSegmentId && jump.targetNodeId) add(jump.targetSegmentId, jump.targetNodeId);
+      }
+      const actionLists = [
+        node.type === NodeType.ACTION ? (node as ActionNode).actions : [],
+        ...(node.events || []).map(e => e.actions)
+      ];
+      for (const list of actionLists) {
+        for (const action of list || []) {
+          if (action.type === 'JUMP_TO' && action.params?.targetNodeId) add(segment.id, action.params.targetNodeId);
+        }
+      }
+    }
+  }
+  return entries;
+};
+
+const collectReachable = (segment: SegmentAsset, extraRoots?: Set<string>): Set<string> => {
+  const reachable = new Set<string>();
+  const queue = [segment.rootNodeId, ...(extraRoots || [])].filter(id => !!segment.nodes[id]);
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    for (const edge of segment.edges) {
+      if (edge.sourceNodeId === id && segment.nodes[edge.targetNodeId]) queue.push(edge.targetNodeId);
+    }
+  }
+  return reachable;
+};
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  character: '角色',
+  item: '物品',
+  clue: '线索',
+  attribute: '属性',
+  shop: '商店',
+  quest: '任务'
+};
+
+const findMissingRefs = (
+  params: Record<string, any> | undefined,
+  schema: ParamConfig[] | undefined,
+  entityIds: Record<EntityType, Set<string>>
+): string[] => {
+  const missing: string[] = [];
+  for (const param of schema || []) {
+    if (param.type !== 'entity' || !param.entityType) continue;
+    const value = params?.[param.name];
+    // Empty values are "not configured yet", not dangling references
+    if (value === undefined || value === null || value === '') continue;
+    if (!entityIds[param.entityType].has(String(value))) {
+      missing.push(`${ENTITY_LABELS[param.entityType]} ${value}`);
+    }
+  }
+  return missing;
+};
+
+const checkAction = (
+  action: ScriptAction,
+  registry: ActionRegistry,
+  entityIds: Record<EntityType, Set<string>>,
+  report: (code: DiagnosticCode, message: string) => void
+) => {
+  const handler = registry.get(String(action.type));
+  if (!handler) {
+    report('ACTION_UNKNOWN_TYPE', `未注册的动作类型 ${action.type}`);
+    return;
+  }
+  for (const ref of findMissingRefs(action.params, handler.ui?.params, entityIds)) {
+    report('ACTION_MISSING_REFERENCE', `动作 ${action.type} 引用了已删除的${ref}`);
+  }
+};
+
+const checkCondition = (
+  node: LogicConditionNode,
+  registry: ConditionRegistry,
+  entityIds: Record<EntityType, Set<string>>,
+  report: (code: DiagnosticCode, message: string) => void
+) => {
+  const handler = registry.get(node.type);
+  if (!handler) {
+    report('CONDITION_UNKNOWN_TYPE', `未注册的条件类型 ${node.type}`);
+  } else {
+    for (const ref of findMissingRefs(node.params, handler.ui?.params, entityIds)) {
+      report('CONDITION_MISSING_REFERENCE', `条件 ${node.type} 引用了已删除的${ref}`);
+    }
+  }
+  for (const child of node.children || []) {
+    checkCondition(child, registry, entityIds, report);
+  }
+};
+
+const findAsyncCondition = (node: LogicConditionNode, registry: ConditionRegistry): string | undefined => {
+  if (registry.get(node.type)?.async) return node.type;
+  for (const child of node.children || []) {
+    const found = findAsyncCondition(child, registry);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/**
+ * 文本标记：语法错误与指向不存在的属性 / 物品 / 角色的插值
+ */
+const checkMarkup = (text: string | undefined, story: StoryAsset): string[] => {
+  if (!text || !text.includes('{')) return [];
+  const { nodes, errors } = parseMarkup(text);
+  const messages = errors.map(error => error.message);
+  const hasAttribute = (ref: string) => story.attributes.some(a => a.id === ref || a.key === ref);
+
+  const walk = (list: MarkupNode[]) => {
+    for (const node of list) {
+      if (node.kind === 'if') {
+        walk(node.then);
+        walk(node.else);
+      } else if (node.kind === 'style') {
+        walk(node.children);
+      } else if (node.kind === 'value') {
+        const missing =
+          node.namespace === 'attr' ? (node.field === undefined ? !hasAttribute(node.ref) : !findMarkupEntity(story.characters, node.ref) || !hasAttribute(node.field)) :
+          node.namespace === 'item' ? !findMarkupEntity(story.items, node.ref) :
+          !findMarkupEntity(story.characters, node.ref);
+        if (missing) messages.push(`插值引用不存在: ${node.source}`);
+      }
+    }
+  };
+  walk(nodes);
+  return messages;
+};
+
+const checkExpression = (source: string, report: (message: string) => void) => {
+  const result = parseExpression(source);
+  if (!result.ok) report(`条件表达式错误 (第 ${result.error.start + 1} 列): ${result.error.message}`);
+};
+
+/**
+ * 定时 / 时钟 / 属性监听事件的配置检查，返回错误描述
+ */
+const checkSchedule = (evt: NodeEvent, entityIds: Record<EntityType, Set<string>>): string | null => {
+  switch (evt.trigger) {
+    case 'onTimer':
+      return Number(evt.timer?.seconds) > 0 ? null : '计时事件的秒数必须大于 0';
+    case 'onClock':
+      return parseClockTime(evt.clockTime) !== null ? null : `时钟事件的时刻无效: ${evt.clockTime || '(空)'}`;
+    case 'onAttribute':
+      if (!evt.watch?.attributeId || !entityIds.attribute.has(evt.watch.attributeId)) {
+        return `属性监听引用了不存在的属性: ${evt.watch?.attributeId || '(空)'}`;
+      }
+      if (evt.watch.characterId && !entityIds.character.has(evt.watch.characterId)) {
+        return `属性监听引用了不存在的角色: ${evt.watch.characterId}`;
+      }
+      return null;
+    default:
+      return null;
+  }
+};
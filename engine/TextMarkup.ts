@@ -0,0 +1,297 @@
+/**
+ * 对话文本标记
+ * 插值: {attr:coin}、{attr:char_a.trust} (角色属性)、{item:item_key.count}、{item:item_key.name}、{char:char_a.name}
+ * 条件: {if sanity < 20}…{else}…{/if}，条件使用表达式语言 (见 logic/Expression.ts)，可嵌套
+ * 样式: {color:#f87171}…{/color}、{shake}…{/shake}，停顿 {pause:500} (毫秒)
+ * 字面量花括号写作 {{ 与 }}
+ *
+ * 解析与求值都在引擎内完成，无头运行与界面渲染结果一致。
+ * 无法识别或不成对的标签按原文输出，并在解析结果中记录错误区间 [start, end) 供编辑器标注。
+ */
+import { IVariableStore } from './interfaces';
+import { CharacterAsset, Item } from '../types';
+import { createStoreExpressionContext, evaluateExpression, parseExpression } from './logic/Expression';
+
+export type MarkupNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; namespace: 'attr' | 'item' | 'char'; ref: string; field?: string; source: string }
+  | { kind: 'if'; condition: string; then: MarkupNode[]; else: MarkupNode[] }
+  | { kind: 'style'; style: 'color' | 'shake'; value?: string; children: MarkupNode[] }
+  | { kind: 'pause'; ms: number };
+
+export interface MarkupError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface MarkupParseResult {
+  nodes: MarkupNode[];
+  errors: MarkupError[];
+}
+
+/**
+ * 渲染结果：连续的文本片段（带样式）与停顿
+ * plain 为去掉样式与停顿的纯文本，用于历史记录与无头输出
+ */
+export type RichTextSpan =
+  | { kind: 'text'; text: string; color?: string; shake?: boolean }
+  | { kind: 'pause'; ms: number };
+
+export interface RichText {
+  spans: RichTextSpan[];
+  plain: string;
+}
+
+export interface MarkupContext {
+  store: IVariableStore;
+  items: Item[];
+  characters: CharacterAsset[];
+}
+
+// --- Parser ---
+
+type Frame =
+  | { tag: 'root'; nodes: MarkupNode[] }
+  | { tag: 'if'; node: Extract<MarkupNode, { kind: 'if' }>; inElse: boolean; start: number; end: number; raw: string }
+  | { tag: 'color' | 'shake'; node: Extract<MarkupNode, { kind: 'style' }>; start: number; end: number; raw: string };
+
+const VALUE_NAMESPACES = ['attr', 'item', 'char'];
+
+export const parseMarkup = (source: string): MarkupParseResult => {
+  const errors: MarkupError[] = [];
+  const root: Frame = { tag: 'root', nodes: [] };
+  const stack: Frame[] = [root];
+
+  const target = (): MarkupNode[] => {
+    const frame = stack[stack.length - 1];
+    if (frame.tag === 'root') return frame.nodes;
+    if (frame.tag === 'if') return frame.inElse ? frame.node.else : frame.node.then;
+    return frame.node.children;
+  };
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const nodes = target();
+    const last = nodes[nodes.length - 1];
+    if (last?.kind === 'text') last.text += text;
+    else nodes.push({ kind: 'text', text });
+  };
+
+  const fail = (message: string, start: number, end: number) => {
+    errors.push({ message, start, end });
+    pushText(source.slice(start, end));
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if ((ch === '{' || ch === '}') && source[i + 1] === ch) {
+      pushText(ch);
+      i += 2;
+      continue;
+    }
+    if (ch !== '{') {
+      const next = source.indexOf('{', i);
+      const stop = next === -1 ? source.length : next;
+      // 单独的 } 原样输出
+      pushText(source.slice(i, stop).replace(/\}\}/g, '}'));
+      i = stop;
+      continue;
+    }
+
+    const close = source.indexOf('}', i + 1);
+    if (close === -1) {
+      fail('标签缺少 }', i, source.length);
+      break;
+    }
+    const start = i;
+    const end = close + 1;
+    const raw = source.slice(start, end);
+    const body = source.slice(i + 1, close).trim();
+    i = end;
+
+    if (body.startsWith('/')) {
+      const name = body.slice(1).trim();
+      const frame = stack[stack.length - 1];
+      if (frame.tag === 'root' || frame.tag !== name) {
+        fail(`多余的结束标签 {/${name}}`, start, end);
+        continue;
+      }
+      stack.pop();
+      continue;
+    }
+
+    if (body === 'else') {
+      const frame = stack[stack.length - 1];
+      if (frame.tag !== 'if' || frame.inElse) {
+        fail('{else} 不在 {if} 内', start, end);
+        continue;
+      }
+      frame.inElse = true;
+      continue;
+    }
+
+    if (body.startsWith('if ') || body === 'if') {
+      const condition = body.slice(2).trim();
+      const parsed = parseExpression(condition);
+      if (!condition || !parsed.ok) {
+        fail(`条件无效: ${condition ? parsed.error?.message : '缺少条件'}`, start, end);
+        continue;
+      }
+      const node: MarkupNode = { kind: 'if', condition, then: [], else: [] };
+      target().push(node);
+      stack.push({ tag: 'if', node, inElse: false, start, end, raw });
+      continue;
+    }
+
+    if (body === 'shake' || body.startsWith('color:')) {
+      const style = body === 'shake' ? 'shake' : 'color';
+      const value = style === 'color' ? body.slice(6).trim() : undefined;
+      if (style === 'color' && !value) {
+        fail('颜色标签缺少颜色值', start, end);
+        continue;
+      }
+      const node: MarkupNode = { kind: 'style', style, value, children: [] };
+      target().push(node);
+      stack.push({ tag: style, node, start, end, raw });
+      continue;
+    }
+
+    if (body.startsWith('pause:')) {
+      const ms = Number(body.slice(6));
+      if (!(ms >= 0)) {
+        fail('停顿时长无效', start, end);
+        continue;
+      }
+      target().push({ kind: 'pause', ms });
+      continue;
+    }
+
+    const colon = body.indexOf(':');
+    const namespace = colon === -1 ? '' : body.slice(0, colon).trim();
+    if (VALUE_NAMESPACES.includes(namespace)) {
+      const path = body.slice(colon + 1).trim();
+      if (!path) {
+        fail(`{${namespace}:} 缺少引用`, start, end);
+        continue;
+      }
+      const dot = path.indexOf('.');
+      target().push({
+        kind: 'value',
+        namespace: namespace as 'attr' | 'item' | 'char',
+        ref: dot === -1 ? path : path.slice(0, dot),
+        field: dot === -1 ? undefined : path.slice(dot + 1),
+        source: raw
+      });
+      continue;
+    }
+
+    fail(`未知标签 ${raw}`, start, end);
+  }
+
+  // 未闭合的块：保留其内容，报告开始标签
+  while (stack.length > 1) {
+    const frame = stack.pop() as Exclude<Frame, { tag: 'root' }>;
+    errors.push({ message: `标签 ${frame.raw} 没有闭合`, start: frame.start, end: frame.end });
+  }
+
+  return { nodes: root.nodes, errors };
+};
+
+const cache: Map<string, MarkupParseResult> = new Map();
+
+const parseCached = (source: string): MarkupParseResult => {
+  let parsed = cache.get(source);
+  if (!parsed) {
+    parsed = parseMarkup(source);
+    cache.set(source, parsed);
+  }
+  return parsed;
+};
+
+// --- Renderer ---
+
+/**
+ * 物品 / 角色引用可写 ID 或名称（不区分大小写）
+ */
+export const findMarkupEntity = <T extends { id: string; name: string }>(list: T[], ref: string): T | undefined =>
+  list.find(entry => entry.id === ref) || list.find(entry => entry.name.toLowerCase() === ref.toLowerCase());
+
+const resolveValue = (node: Extract<MarkupNode, { kind: 'value' }>, context: MarkupContext): any => {
+  const { store } = context;
+  switch (node.namespace) {
+    case 'attr':
+      // {attr:char_a.trust} 读取角色属性
+      return node.field === undefined ? store.getAttribute(node.ref) : store.getAttribute(node.field, node.ref);
+    case 'item': {
+      const item = findMarkupEntity(context.items, node.ref);
+      if (!item) return undefined;
+      const field = node.field || 'count';
+      if (field === 'count') return store.getItemCount(item.id);
+      return (item as any)[field];
+    }
+    case 'char': {
+      const character = findMarkupEntity(context.characters, node.ref);
+      if (!character) return undefined;
+      const field = node.field || 'name';
+      // 角色自身字段之外的名称按角色属性读取
+      return field in character ? (character as any)[field] : store.getAttribute(field, character.id);
+    }
+  }
+};
+
+/**
+ * 解析并按当前状态渲染
+ * 引用不存在时输出原标签并记录警告，方便作者在试玩中发现拼写错误
+ */
+export const renderMarkup = (source: string, context: MarkupContext): RichText => {
+  const spans: RichTextSpan[] = [];
+  if (!source) return { spans, plain: '' };
+
+  const expressionContext = createStoreExpressionContext(context.store);
+
+  const emit = (text: string, color?: string, shake?: boolean) => {
+    if (!text) return;
+    const last = spans[spans.length - 1];
+    if (last?.kind === 'text' && last.color === color && last.shake === shake) {
+      last.text += text;
+    } else {
+      spans.push({ kind: 'text', text, color, shake });
+    }
+  };
+
+  const walk = (nodes: MarkupNode[], color?: string, shake?: boolean) => {
+    for (const node of nodes) {
+      switch (node.kind) {
+        case 'text':
+          emit(node.text, color, shake);
+          break;
+        case 'value': {
+          const value = resolveValue(node, context);
+          if (value === undefined || value === null) {
+            console.warn(`[TextMarkup] Unresolved reference: ${node.source}`);
+            emit(node.source, color, shake);
+          } else {
+            emit(String(value), color, shake);
+          }
+          break;
+        }
+        case 'if':
+          walk(evaluateExpression(node.condition, expressionContext) ? node.then : node.else, color, shake);
+          break;
+        case 'style':
+          walk(node.children, node.style === 'color' ? node.value : color, node.style === 'shake' ? true : shake);
+          break;
+        case 'pause':
+          spans.push({ kind: 'pause', ms: node.ms });
+          break;
+      }
+    }
+  };
+
+  walk(parseCached(source).nodes);
+
+  const plain = spans.map(span => span.kind === 'text' ? span.text : '').join('');
+  return { spans, plain };
+};
@@ -1,7 +1,9 @@
 // 文件路径: engine/VariableStore.ts
 
-import { IVariableStore, IEventBus } from './interfaces';
-import { StoryAsset, AttributeDefinition, Item, Clue } from '../types';
+import { IVariableStore, IEventBus, VariableStoreSnapshot, QuestProgress } from './interfaces';
+import { StoryAsset, AttributeDefinition, Item, Clue, QuestDefinition } from '../types';
+import { evaluateExpression, createStoreExpressionContext } from './logic/Expression';
+import { parseClockTime } from './StoryClock';
 
 interface RuntimeClueState {
   revealed: boolean;
@@ -14,11 +16,19 @@ export class VariableStore implements IVariableStore {
   // Definitions (Read-only reference to Story Asset)
   private attributeDefs: Map<string, AttributeDefinition> = new Map();
   private itemDefs: Map<string, Item> = new Map();
+  private questDefs: Map<string, QuestDefinition> = new Map();
+  private clueDefs: Map<string, Clue> = new Map();
   
   // Runtime State
   private attributes: Record<string, any> = {}; // key -> value
-  private inventory: Record<string, number> = {}; // itemId -> count
+  private characterAttributes: Record<string, Record<string, any>> = {}; // characterId -> attributeId -> value
+  private characterDefaults: Record<string, Record<string, any>> = {}; // characterId -> initial values
+  private inventory: Record<string, number> = {}; // itemId -> count (shared bag)
+  private characterInventories: Record<string, Record<string, number>> = {}; // characterId -> itemId -> count
   private clueStates: Record<string, RuntimeClueState> = {}; // clueId -> state
+  private questStates: Record<string, QuestProgress> = {}; // questId -> progress
+  private clockStart = 0;
+  private clock = 0; // 故事时钟（分钟）
 
   constructor() {}
 
@@ -34,23 +44,44 @@ export class VariableStore implements IVariableStore {
     this.itemDefs.clear();
     story.items.forEach(item => this.itemDefs.set(item.id, item));
 
+    this.questDefs.clear();
+    (story.quests || []).forEach(quest => this.questDefs.set(quest.id, quest));
+
+    this.clueDefs.clear();
+    story.clues.forEach(clue => this.clueDefs.set(clue.id, clue));
+
     // 2. Initialize Runtime State with Defaults
-    this.attributes = {};
-    story.attributes.forEach(attr => {
-      this.attributes[attr.id] = attr.defaultValue;
+    this.characterDefaults = {};
+    story.characters.forEach(character => {
+      const values: Record<string, any> = {};
+      story.attributes.filter(attr => attr.scope === 'character').forEach(attr => {
+        values[attr.id] = character.attributeDefaults?.[attr.id] ?? attr.defaultValue;
+      });
+      this.characterDefaults[character.id] = values;
     });
+    this.attributes = this.defaultAttributes();
+    this.characterAttributes = this.defaultCharacterAttributes();
 
     // Reset Inventory
     this.inventory = {};
+    this.characterInventories = {};
+    story.characters.forEach(character => {
+      this.characterInventories[character.id] = {};
+    });
 
     // Reset Clues
-    this.clueStates = {};
-    story.clues.forEach(clue => {
-      this.clueStates[clue.id] = {
-        revealed: clue.revealed,
-        owners: [...(clue.owners || [])]
-      };
-    });
+    this.clueStates = this.defaultClueStates();
+
+    // Reset Quests
+    this.questStates = this.defaultQuestStates();
+
+    // Reset Story Clock
+    const start = parseClockTime(story.clockStart);
+    if (story.clockStart && start === null) {
+      console.warn(`[VariableStore] Invalid clockStart: ${story.clockStart}`);
+    }
+    this.clockStart = start ?? 0;
+    this.clock = this.clockStart;
 
     console.log('[VariableStore] Initialized with RPG State:', { 
       attrs: this.attributes, 
@@ -61,18 +92,77 @@ export class VariableStore implements IVariableStore {
   getAll(): Record<string, any> {
     return {
       attributes: { ...this.attributes },
+      characterAttributes: this.copyCharacterAttributes(),
+      inventory: { ...this.inventory },
+      characterInventories: this.copyCharacterInventories(),
+      clues: { ...this.clueStates },
+      quests: this.copyQuestStates(),
+      clock: this.clock
+    };
+  }
+
+  // --- Save / Load ---
+
+  serialize(): VariableStoreSnapshot {
+    const clues: VariableStoreSnapshot['clues'] = {};
+    Object.entries(this.clueStates).forEach(([id, state]) => {
+      clues[id] = { revealed: state.revealed, owners: [...state.owners] };
+    });
+    return {
+      attributes: { ...this.attributes },
+      characterAttributes: this.copyCharacterAttributes(),
       inventory: { ...this.inventory },
-      clues: { ...this.clueStates }
+      characterInventories: this.copyCharacterInventories(),
+      clues,
+      quests: this.copyQuestStates(),
+      clock: this.clock
     };
   }
 
+  restore(snapshot: VariableStoreSnapshot): void {
+    // Attributes added to the story after the save keep their defaults
+    this.attributes = { ...this.defaultAttributes(), ...(snapshot.attributes || {}) };
+    const characterAttributes = this.defaultCharacterAttributes();
+    Object.entries(snapshot.characterAttributes || {}).forEach(([characterId, values]) => {
+      if (characterAttributes[characterId]) Object.assign(characterAttributes[characterId], values);
+    });
+    this.characterAttributes = characterAttributes;
+
+    this.inventory = { ...(snapshot.inventory || {}) };
+    Object.keys(this.characterInventories).forEach(characterId => {
+      this.characterInventories[characterId] = { ...(snapshot.characterInventories?.[characterId] || {}) };
+    });
+
+    // Clues added to the story after the save keep their defaults
+    const clues = this.defaultClueStates();
+    Object.entries(snapshot.clues || {}).forEach(([id, state]) => {
+      if (!clues[id]) return;
+      clues[id] = { revealed: !!state.revealed, owners: [...(state.owners || [])] };
+    });
+    this.clueStates = clues;
+
+    // Quests added to the story after the save stay inactive
+    const quests = this.defaultQuestStates();
+    Object.entries(snapshot.quests || {}).forEach(([id, progress]) => {
+      if (!quests[id]) return;
+      quests[id] = {
+        status: progress.status || 'inactive',
+        stageIndex: Number(progress.stageIndex) || 0,
+        completedObjectives: [...(progress.completedObjectives || [])]
+      };
+    });
+    this.questStates = quests;
+
+    this.clock = typeof snapshot.clock === 'number' ? snapshot.clock : this.clockStart;
+
+    this.eventBus?.emit('state:restored', this.getAll());
+  }
+
   // --- Attribute System ---
 
-  setAttribute(id: string, value: any): void {
-    const def = this.attributeDefs.get(id);
-    // Support setting by key as well if id not found
-    const targetId = def ? id : Array.from(this.attributeDefs.values()).find(a => a.key === id)?.id || id;
-    const targetDef = this.attributeDefs.get(targetId);
+  setAttribute(id: string, value: any, characterId?: string): void {
+    const targetDef = this.findAttributeDef(id);
+    const targetId = targetDef?.id || id;
 
     let finalValue = value;
 
@@ -87,6 +177,20 @@ export class VariableStore implements IVariableStore {
         }
     }
 
+    if (targetDef?.scope === 'character') {
+      const values = characterId ? this.characterAttributes[characterId] : undefined;
+      if (!values) {
+        console.warn(`[VariableStore] Character attribute ${targetDef.key} needs a valid characterId, got: ${characterId}`);
+        return;
+      }
+      const oldValue = values[targetId];
+      values[targetId] = finalValue;
+      if (oldValue !== finalValue && this.eventBus) {
+        this.eventBus.emit('attribute:changed', { id: targetId, key: targetDef.key, characterId, value: finalValue, oldValue });
+      }
+      return;
+    }
+
     const oldValue = this.attributes[targetId];
     this.attributes[targetId] = finalValue;
 
@@ -95,32 +199,68 @@ export class VariableStore implements IVariableStore {
     }
   }
 
-  getAttribute(idOrKey: string): any {
+  getAttribute(idOrKey: string, characterId?: string): any {
+    const def = this.findAttributeDef(idOrKey);
+    if (def?.scope === 'character') {
+      return characterId ? this.characterAttributes[characterId]?.[def.id] : undefined;
+    }
+
     // Try direct ID match
     if (this.attributes[idOrKey] !== undefined) return this.attributes[idOrKey];
     
     // Try Key match
-    const def = Array.from(this.attributeDefs.values()).find(a => a.key === idOrKey);
     if (def) return this.attributes[def.id];
     
     return undefined;
   }
 
-  modifyAttribute(id: string, operator: 'add' | 'sub' | 'set', value: number): void {
-    const current = Number(this.getAttribute(id) || 0);
+  modifyAttribute(id: string, operator: 'add' | 'sub' | 'set', value: number, characterId?: string): void {
+    const current = Number(this.getAttribute(id, characterId) || 0);
     let newVal = current;
     
     if (operator === 'add') newVal += value;
     if (operator === 'sub') newVal -= value;
     if (operator === 'set') newVal = value;
 
-    this.setAttribute(id, newVal);
+    this.setAttribute(id, newVal, characterId);
+  }
+
+  private findAttributeDef(idOrKey: string): AttributeDefinition | undefined {
+    return this.attributeDefs.get(idOrKey) || Array.from(this.attributeDefs.values()).find(a => a.key === idOrKey);
+  }
+
+  private defaultAttributes(): Record<string, any> {
+    const attributes: Record<string, any> = {};
+    this.attributeDefs.forEach(def => {
+      if (def.scope !== 'character') attributes[def.id] = def.defaultValue;
+    });
+    return attributes;
+  }
+
+  private defaultCharacterAttributes(): Record<string, Record<string, any>> {
+    const result: Record<string, Record<string, any>> = {};
+    Object.entries(this.characterDefaults).forEach(([characterId, values]) => {
+      result[characterId] = { ...values };
+    });
+    return result;
+  }
+
+  private copyCharacterAttributes(): Record<string, Record<string, any>> {
+    const result: Record<string, Record<string, any>> = {};
+    Object.entries(this.characterAttributes).forEach(([characterId, values]) => {
+      result[characterId] = { ...values };
+    });
+    return result;
   }
 
   // --- Inventory System ---
+  // 不传 ownerId 时使用共享背包；传入角色 ID 时使用该角色的私人背包
 
-  addItem(itemId: string, count: number = 1): void {
-    const current = this.inventory[itemId] || 0;
+  addItem(itemId: string, count: number = 1, ownerId?: string): void {
+    const bag = this.getBag(ownerId);
+    if (!bag) return;
+
+    const current = bag[itemId] || 0;
     const def = this.itemDefs.get(itemId);
     
     // Check stackability
@@ -129,34 +269,91 @@ export class VariableStore implements IVariableStore {
        return; 
     }
 
-    this.inventory[itemId] = current + count;
+    bag[itemId] = current + count;
     
     if (this.eventBus) {
-        this.eventBus.emit('inventory:added', { itemId, count, total: this.inventory[itemId] });
+        this.eventBus.emit('inventory:added', { itemId, count, total: bag[itemId], ownerId });
     }
   }
 
-  removeItem(itemId: string, count: number = 1): void {
-    const current = this.inventory[itemId] || 0;
+  removeItem(itemId: string, count: number = 1, ownerId?: string): void {
+    const bag = this.getBag(ownerId);
+    if (!bag) return;
+
+    const current = bag[itemId] || 0;
     const newVal = Math.max(0, current - count);
     
     if (newVal === 0) {
-        delete this.inventory[itemId];
+        delete bag[itemId];
     } else {
-        this.inventory[itemId] = newVal;
+        bag[itemId] = newVal;
     }
 
     if (this.eventBus) {
-        this.eventBus.emit('inventory:removed', { itemId, count, total: newVal });
+        this.eventBus.emit('inventory:removed', { itemId, count, total: newVal, ownerId });
+    }
+  }
+
+  /**
+   * 在两个背包之间转移物品（角色之间交换 / 交给共享背包）
+   * 数量不是正整数、数量不足或目标已持有不可堆叠物品时不做任何改动并返回 false
+   */
+  transferItem(itemId: string, count: number = 1, fromOwnerId?: string, toOwnerId?: string): boolean {
+    const from = this.getBag(fromOwnerId);
+    const to = this.getBag(toOwnerId);
+    if (!from || !to || from === to) return false;
+
+    if (!Number.isInteger(count) || count <= 0) {
+        console.warn(`[VariableStore] Invalid transfer count ${count} for ${itemId}`);
+        return false;
     }
+
+    if ((from[itemId] || 0) < count) {
+        console.warn(`[VariableStore] Cannot transfer ${count} x ${itemId}: ${fromOwnerId || 'shared'} has ${from[itemId] || 0}`);
+        return false;
+    }
+    const def = this.itemDefs.get(itemId);
+    if (def && !def.stackable && (to[itemId] || 0) + count > 1) {
+        console.warn(`[VariableStore] Item ${def.name} is not stackable and ${toOwnerId || 'shared'} can only hold one.`);
+        return false;
+    }
+
+    this.removeItem(itemId, count, fromOwnerId);
+    this.addItem(itemId, count, toOwnerId);
+    this.eventBus?.emit('inventory:transferred', { itemId, count, fromOwnerId, toOwnerId });
+    return true;
+  }
+
+  getItemCount(itemId: string, ownerId?: string): number {
+    const bag = ownerId ? this.characterInventories[ownerId] : this.inventory;
+    return bag?.[itemId] || 0;
+  }
+
+  hasItem(itemId: string, count: number = 1, ownerId?: string): boolean {
+    return this.getItemCount(itemId, ownerId) >= count;
   }
 
-  getItemCount(itemId: string): number {
-    return this.inventory[itemId] || 0;
+  getInventory(ownerId?: string): Record<string, number> {
+    const bag = ownerId ? this.characterInventories[ownerId] : this.inventory;
+    return { ...(bag || {}) };
+  }
+
+  private getBag(ownerId?: string): Record<string, number> | null {
+    if (!ownerId) return this.inventory;
+    const bag = this.characterInventories[ownerId];
+    if (!bag) {
+      console.warn(`[VariableStore] Unknown inventory owner: ${ownerId}`);
+      return null;
+    }
+    return bag;
   }
 
-  hasItem(itemId: string, count: number = 1): boolean {
-    return this.getItemCount(itemId) >= count;
+  private copyCharacterInventories(): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    Object.entries(this.characterInventories).forEach(([characterId, bag]) => {
+      result[characterId] = { ...bag };
+    });
+    return result;
   }
 
   // --- Knowledge System (Clues) ---
@@ -208,46 +405,123 @@ export class VariableStore implements IVariableStore {
       return this.clueStates[clueId]?.revealed || false;
   }
 
-  // --- Condition Logic (Safe Implementation) ---
+  // --- Quest System ---
+
+  /**
+   * 开始任务：未开始或已失败的任务从第一阶段重新开始
+   */
+  startQuest(questId: string): boolean {
+    const quest = this.questDefs.get(questId);
+    const state = this.questStates[questId];
+    if (!quest || !state) {
+      console.warn(`[VariableStore] Unknown quest: ${questId}`);
+      return false;
+    }
+    if (state.status === 'active' || state.status === 'completed') return false;
 
-  evaluateCondition(condition: string): boolean {
-    if (!condition || condition.trim() === '') return true;
+    this.questStates[questId] = { status: 'active', stageIndex: 0, completedObjectives: [] };
+    this.eventBus?.emit('quest:started', { questId });
+    this.advanceQuestStage(quest);
+    return true;
+  }
 
-    // Remove logic: Use a safe parser instead of eval/new Function
-    // Supports: "varName >= 10", "hasKey == true", "coin < 5"
-    
-    // 1. Simple Tokenizer
-    // Matches: [Variable] [Operator] [Value]
-    const match = condition.match(/^(\w+)\s*([><=!]+|contains)\s*(.+)$/);
-    
-    if (!match) {
-        // Fallback: Check if it's just a boolean variable name like "hasKey"
-        const val = this.getAttribute(condition.trim());
-        return !!val;
+  /**
+   * 完成当前阶段的目标；必需目标全部完成后进入下一阶段，最后一个阶段完成即任务完成
+   * 已经过的阶段中未完成的可选目标在任务结束前仍可完成
+   */
+  completeObjective(questId: string, objectiveId: string): boolean {
+    const quest = this.questDefs.get(questId);
+    const state = this.questStates[questId];
+    if (!quest || !state || state.status !== 'active') return false;
+
+    const stage = quest.stages.slice(0, state.stageIndex + 1).find((s, index) =>
+      s.objectives.some(o => o.id === objectiveId && (index === state.stageIndex || o.optional))
+    );
+    if (!stage) {
+      console.warn(`[VariableStore] Objective ${objectiveId} is not part of the current stage of ${questId}`);
+      return false;
     }
+    if (state.completedObjectives.includes(objectiveId)) return false;
 
-    const [, key, op, valStr] = match;
-    const currentVal = this.getAttribute(key);
-    
-    // Parse target value
-    let targetVal: any = valStr.trim();
-    if (targetVal === 'true') targetVal = true;
-    else if (targetVal === 'false') targetVal = false;
-    else if (!isNaN(Number(targetVal))) targetVal = Number(targetVal);
-    else if (targetVal.startsWith("'") || targetVal.startsWith('"')) targetVal = targetVal.slice(1, -1);
-
-    // Compare
-    switch (op) {
-        case '==': return currentVal == targetVal;
-        case '!=': return currentVal != targetVal;
-        case '>': return Number(currentVal) > Number(targetVal);
-        case '>=': return Number(currentVal) >= Number(targetVal);
-        case '<': return Number(currentVal) < Number(targetVal);
-        case '<=': return Number(currentVal) <= Number(targetVal);
-        case 'contains': return String(currentVal).includes(String(targetVal));
-        default: 
-            console.warn(`[VariableStore] Unknown operator ${op} in condition ${condition}`);
-            return false;
+    state.completedObjectives.push(objectiveId);
+    this.eventBus?.emit('quest:objectiveCompleted', { questId, objectiveId, stageId: stage.id });
+    this.advanceQuestStage(quest);
+    return true;
+  }
+
+  failQuest(questId: string): boolean {
+    const state = this.questStates[questId];
+    if (!state || state.status !== 'active') return false;
+
+    state.status = 'failed';
+    this.eventBus?.emit('quest:failed', { questId });
+    return true;
+  }
+
+  getQuestProgress(questId: string): QuestProgress | null {
+    const state = this.questStates[questId];
+    return state ? { ...state, completedObjectives: [...state.completedObjectives] } : null;
+  }
+
+  // --- Story Clock ---
+
+  getClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * 推进故事时钟（分钟）；时钟不会倒退
+   */
+  advanceClock(minutes: number): void {
+    const delta = Math.floor(Number(minutes));
+    if (!(delta > 0)) return;
+    const oldTime = this.clock;
+    this.clock += delta;
+    this.eventBus?.emit('clock:changed', { time: this.clock, oldTime });
+  }
+
+  private advanceQuestStage(quest: QuestDefinition) {
+    const state = this.questStates[quest.id];
+    let stage = quest.stages[state.stageIndex];
+    while (stage && stage.objectives.every(o => o.optional || state.completedObjectives.includes(o.id))) {
+      state.stageIndex++;
+      stage = quest.stages[state.stageIndex];
+      if (stage) this.eventBus?.emit('quest:stageAdvanced', { questId: quest.id, stageId: stage.id, stageIndex: state.stageIndex });
+    }
+    if (!stage) {
+      state.status = 'completed';
+      this.eventBus?.emit('quest:completed', { questId: quest.id });
     }
   }
+
+  private defaultClueStates(): Record<string, RuntimeClueState> {
+    const states: Record<string, RuntimeClueState> = {};
+    this.clueDefs.forEach(clue => {
+      states[clue.id] = { revealed: clue.revealed, owners: [...(clue.owners || [])] };
+    });
+    return states;
+  }
+
+  private defaultQuestStates(): Record<string, QuestProgress> {
+    const states: Record<string, QuestProgress> = {};
+    this.questDefs.forEach(quest => {
+      states[quest.id] = { status: 'inactive', stageIndex: 0, completedObjectives: [] };
+    });
+    return states;
+  }
+
+  private copyQuestStates(): Record<string, QuestProgress> {
+    const result: Record<string, QuestProgress> = {};
+    Object.entries(this.questStates).forEach(([id, state]) => {
+      result[id] = { ...state, completedObjectives: [...state.completedObjectives] };
+    });
+    return result;
+  }
+
+  // --- Condition Logic (Safe Implementation) ---
+
+  evaluateCondition(condition: string): boolean {
+    // Parsed by the expression language instead of eval/new Function
+    return evaluateExpression(condition, createStoreExpressionContext(this));
+  }
 }
\ No newline at end of file
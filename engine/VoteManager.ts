@@ -0,0 +1,213 @@
+import { IEventBus, IVariableStore } from './interfaces';
+import { VoteNode, VoteOption } from '../types';
+
+export interface VoteBallot {
+  voterId: string;   // characterId 或 playerId
+  optionId: string;
+}
+
+export interface VoteResult {
+  nodeId: string;
+  strategy: VoteNode['voteConfig']['strategy'];
+  ballots: VoteBallot[];
+  tally: Record<string, number>;      // optionId -> 票数
+  winnerOptionId: string | null;      // null 表示未决，走默认端口
+  correct: boolean | null;            // 胜出选项是否为正确答案 (无胜者时为 null)
+  scoreAwarded: number;
+  timedOut: boolean;
+}
+
+interface VoteSession {
+  node: VoteNode;
+  ballots: Map<string, string>;
+  endsAt: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  onResolved: (result: VoteResult) => void;
+}
+
+/**
+ * 投票子系统
+ * 收集每位角色/玩家的选票，按 duration 计时，到时或全员投票后按策略结算：
+ * - majority: 过半数选项胜出，否则未决
+ * - branch:   得票最多的选项胜出（平票按选项顺序）
+ * - score:    按选项 score 加权计票，得分最高者胜出
+ * 配置了 scoreAttributeId 时，所有选票的 score 会累加到该属性
+ */
+export class VoteManager {
+  private session: VoteSession | null = null;
+  private electorate: string[] = ['player'];
+
+  constructor(
+    private variableStore: IVariableStore,
+    private eventBus: IEventBus
+  ) {}
+
+  /**
+   * 设置有投票权的角色/玩家，全部投票后提前结算
+   * 投票进行中时丢弃已离开者的选票，剩余投票人均已投票则立即结算
+   */
+  setElectorate(voterIds: string[]): void {
+    this.electorate = [...voterIds];
+    const session = this.session;
+    if (!session || this.electorate.length === 0) return;
+    session.ballots.forEach((_, voterId) => {
+      if (!this.electorate.includes(voterId)) session.ballots.delete(voterId);
+    });
+    this.closeIfComplete(session);
+  }
+
+  getElectorate(): string[] {
+    return [...this.electorate];
+  }
+
+  isOpen(nodeId?: string): boolean {
+    return !!this.session && (!nodeId || this.session.node.id === nodeId);
+  }
+
+  open(node: VoteNode, onResolved: (result: VoteResult) => void): void {
+    this.cancel();
+
+    const duration = Number(node.voteConfig?.duration) || 0;
+    const session: VoteSession = {
+      node,
+      ballots: new Map(),
+      endsAt: duration > 0 ? Date.now() + duration * 1000 : null,
+      timer: null,
+      onResolved
+    };
+    if (duration > 0) {
+      session.timer = setTimeout(() => {
+        if (this.session === session) this.close(true);
+      }, duration * 1000);
+    }
+    this.session = session;
+
+    this.eventBus.emit('vote:started', {
+      nodeId: node.id,
+      duration,
+      endsAt: session.endsAt,
+      electorate: this.getElectorate()
+    });
+  }
+
+  /**
+   * 投票（同一投票人重复投票会覆盖之前的选择）
+   */
+  cast(voterId: string, optionId: string): boolean {
+    const session = this.session;
+    if (!session) {
+      console.warn('[VoteManager] No vote in progress');
+      return false;
+    }
+    if (!session.node.voteConfig.options.some(o => o.id === optionId)) {
+      console.warn(`[VoteManager] Unknown vote option: ${optionId}`);
+      return false;
+    }
+    if (this.electorate.length > 0 && !this.electorate.includes(voterId)) {
+      console.warn(`[VoteManager] Voter not in electorate: ${voterId}`);
+      return false;
+    }
+
+    session.ballots.set(voterId, optionId);
+    this.eventBus.emit('vote:cast', {
+      nodeId: session.node.id,
+      voterId,
+      optionId,
+      tally: this.tally(session)
+    });
+
+    this.closeIfComplete(session);
+    return true;
+  }
+
+  /**
+   * 立即结算当前投票
+   */
+  close(timedOut: boolean = false): VoteResult | null {
+    const session = this.session;
+    if (!session) return null;
+    this.clear();
+
+    const config = session.node.voteConfig;
+    const ballots = Array.from(session.ballots.entries()).map(([voterId, optionId]) => ({ voterId, optionId }));
+    const tally = this.tally(session);
+    const winner = this.pickWinner(config.strategy, config.options, tally, ballots.length);
+
+    let scoreAwarded = 0;
+    for (const ballot of ballots) {
+      scoreAwarded += Number(config.options.find(o => o.id === ballot.optionId)?.score) || 0;
+    }
+    if (config.scoreAttributeId && scoreAwarded !== 0) {
+      this.variableStore.modifyAttribute(config.scoreAttributeId, 'add', scoreAwarded);
+    }
+
+    const result: VoteResult = {
+      nodeId: session.node.id,
+      strategy: config.strategy,
+      ballots,
+      tally,
+      winnerOptionId: winner?.id || null,
+      correct: winner ? !!winner.isCorrect : null,
+      scoreAwarded,
+      timedOut
+    };
+
+    this.eventBus.emit('vote:resolved', result);
+    session.onResolved(result);
+    return result;
+  }
+
+  /**
+   * 放弃当前投票（离开节点 / 读档时），不结算
+   */
+  cancel(): void {
+    if (!this.session) return;
+    const nodeId = this.session.node.id;
+    this.clear();
+    this.eventBus.emit('vote:cancelled', { nodeId });
+  }
+
+  // --- Private Helpers ---
+
+  private closeIfComplete(session: VoteSession) {
+    if (this.electorate.length > 0 && this.electorate.every(id => session.ballots.has(id))) {
+      this.close(false);
+    }
+  }
+
+  private clear() {
+    if (this.session?.timer) clearTimeout(this.session.timer);
+    this.session = null;
+  }
+
+  private tally(session: VoteSession): Record<string, number> {
+    const tally: Record<string, number> = {};
+    session.node.voteConfig.options.forEach(o => { tally[o.id] = 0; });
+    session.ballots.forEach(optionId => { tally[optionId] = (tally[optionId] || 0) + 1; });
+    return tally;
+  }
+
+  private pickWinner(
+    strategy: VoteNode['voteConfig']['strategy'],
+    options: VoteOption[],
+    tally: Record<string, number>,
+    ballotCount: number
+  ): VoteOption | null {
+    if (ballotCount === 0) return null;
+
+    const weight = (o: VoteOption) => strategy === 'score'
+      ? tally[o.id] * (Number(o.score) || 0)
+      : tally[o.id];
+
+    // 平票时保留靠前的选项
+    let best: VoteOption | null = null;
+    for (const option of options) {
+      if (tally[option.id] === 0) continue;
+      if (!best || weight(option) > weight(best)) best = option;
+    }
+    if (!best) return null;
+
+    if (strategy === 'majority' && tally[best.id] * 2 <= ballotCount) return null;
+    return best;
+  }
+}
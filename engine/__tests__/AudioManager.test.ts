@@ -0,0 +1,101 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { EventBus } from '../EventBus';
+import { AudioManager, LoggingAudioBackend } from '../AudioManager';
+import { NodeType, ScriptActionType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const line = (id: string, extra: Record<string, any> = {}) =>
+  node(id, NodeType.DIALOGUE, { characterId: 'char_a', text: id, choices: [], ...extra });
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_audio',
+  characters: [{ id: 'char_a', name: 'Ada', avatarUrl: '', defaultVoice: 'blip' }],
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    hall: node('hall', NodeType.LOCATION, { backgroundImage: '', hotspots: [], bgm: 'night', ambience: 'rain' }),
+    voiced: line('voiced', { voiceId: 'v_voiced' }),
+    plain: line('plain'),
+    cellar: node('cellar', NodeType.LOCATION, { backgroundImage: '', hotspots: [], bgm: 'dread' }),
+    hush: node('hush', NodeType.ACTION, {
+      actions: [
+        { id: 'a_stop', type: ScriptActionType.STOP_AUDIO, params: { channel: 'ambience', fadeMs: 500 } },
+        { id: 'a_fade', type: ScriptActionType.FADE_AUDIO, params: { channel: 'bgm', volume: 0.5, fadeMs: 800 } },
+      ],
+    }),
+    end: line('end', { characterId: '' }),
+  }, [
+    { id: 'e1', sourceNodeId: 'start', targetNodeId: 'hall' },
+    { id: 'e2', sourceNodeId: 'hall', targetNodeId: 'voiced' },
+    { id: 'e3', sourceNodeId: 'voiced', targetNodeId: 'plain' },
+    { id: 'e4', sourceNodeId: 'plain', targetNodeId: 'cellar' },
+    { id: 'e5', sourceNodeId: 'cellar', targetNodeId: 'hush' },
+    { id: 'e6', sourceNodeId: 'hush', targetNodeId: 'end' },
+  ], { name: 'Night' })],
+});
+
+describe('AudioManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('crossfades location music, voices lines and cuts voice on advance', async () => {
+    vi.useFakeTimers();
+    // 不会自行播完的后端，便于观察语音被打断
+    const backend = { play: vi.fn(), setVolume: vi.fn(), stop: vi.fn() };
+    const engine = new NarrativeEngine({ audioBackend: backend });
+    engine.loadStory(createStory());
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(engine.getCurrentNode()?.id).toBe('hall');
+    expect(engine.audio.getPlaying()).toEqual([
+      { channel: 'bgm', soundId: 'night' },
+      { channel: 'ambience', soundId: 'rain' },
+    ]);
+    expect(backend.play.mock.calls[0][0]).toMatchObject({ id: 1, soundId: 'night', loop: true, fadeInMs: 1200 });
+
+    await engine.advance();
+    expect(engine.audio.getPlaying('voice')).toEqual([{ channel: 'voice', soundId: 'v_voiced' }]);
+
+    // 推进时打断上一句语音，无单独配音的台词使用角色默认语音
+    await engine.advance();
+    expect(backend.stop).toHaveBeenCalledWith(3, 0);
+    expect(engine.audio.getPlaying('voice')).toEqual([{ channel: 'voice', soundId: 'blip' }]);
+
+    // 新地点：BGM 交叉淡入淡出，未设置的环境音保持
+    await engine.advance();
+    expect(engine.getCurrentNode()?.id).toBe('cellar');
+    expect(engine.audio.getPlaying()).toEqual([
+      { channel: 'ambience', soundId: 'rain' },
+      { channel: 'bgm', soundId: 'dread' },
+    ]);
+    expect(backend.stop).toHaveBeenCalledWith(1, 1200);
+
+    await engine.advance();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(engine.audio.getPlaying()).toEqual([{ channel: 'bgm', soundId: 'dread' }]);
+    expect(backend.stop).toHaveBeenCalledWith(2, 500);
+    expect(backend.setVolume).toHaveBeenLastCalledWith(5, 0.35, 800);
+  });
+
+  it('mixes channel and master volumes and keeps a track that is already playing', () => {
+    const backend = new LoggingAudioBackend();
+    const audio = new AudioManager(new EventBus(), backend);
+    audio.setVolumes({ master: 0.5, bgm: 0.8 });
+
+    const id = audio.play('bgm', 'theme');
+    expect(backend.log[0]).toMatchObject({ op: 'play', volume: 0.4 });
+    expect(audio.play('bgm', 'theme')).toBe(id);
+    expect(backend.log).toHaveLength(1);
+
+    audio.setVolume('bgm', 1);
+    expect(backend.log[1]).toEqual({ op: 'volume', id, volume: 0.5, fadeMs: 0 });
+
+    // 音效可叠加，静音后端视为立即播完
+    audio.play('sfx', 'click');
+    audio.play('sfx', 'click');
+    expect(backend.log.filter(e => e.op === 'play' && e.channel === 'sfx')).toHaveLength(2);
+    expect(audio.getPlaying()).toEqual([{ channel: 'bgm', soundId: 'theme' }]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CraftingService } from '../CraftingService';
+import { VariableStore } from '../VariableStore';
+import { EventBus } from '../EventBus';
+import { StoryAsset } from '../../types';
+
+const createStory = (): StoryAsset => ({
+  id: 'story_craft',
+  title: 'Craft',
+  description: '',
+  activeSegmentId: '',
+  globalVariables: [],
+  attributes: [{ id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 5 }],
+  characters: [],
+  items: [
+    { id: 'item_herb', name: 'Herb', description: '', stackable: true },
+    { id: 'item_water', name: 'Water', description: '', stackable: true },
+    {
+      id: 'item_potion', name: 'Potion', description: '', stackable: true,
+      recipe: { ingredients: [{ itemId: 'item_herb', count: 2 }, { itemId: 'item_water', count: 1 }], costAttribute: { attributeId: 'attr_coin', amount: 3 } },
+    },
+    {
+      id: 'item_amulet', name: 'Amulet', description: '', stackable: false,
+      recipe: { ingredients: [{ itemId: 'item_herb', count: 1 }] },
+    },
+  ],
+  shops: [],
+  clues: [],
+  segments: [],
+});
+
+const setup = () => {
+  const bus = new EventBus();
+  const store = new VariableStore();
+  store.setEventBus(bus);
+  const story = createStory();
+  store.init(story);
+  const crafting = new CraftingService(store, bus);
+  crafting.init(story);
+  return { bus, store, crafting };
+};
+
+describe('CraftingService', () => {
+  it('consumes ingredients and cost, then emits item:crafted', () => {
+    const { bus, store, crafting } = setup();
+    const crafted = vi.fn();
+    bus.on('item:crafted', crafted);
+    store.addItem('item_herb', 3);
+    store.addItem('item_water', 1);
+
+    expect(crafting.canCraft('item_potion')).toBe(true);
+    expect(crafting.craft('item_potion')).toBe(true);
+
+    expect(store.getItemCount('item_potion')).toBe(1);
+    expect(store.getItemCount('item_herb')).toBe(1);
+    expect(store.getItemCount('item_water')).toBe(0);
+    expect(store.getAttribute('coin')).toBe(2);
+    expect(crafted).toHaveBeenCalledWith(expect.objectContaining({ itemId: 'item_potion', consumed: { item_herb: 2, item_water: 1 } }));
+  });
+
+  it('leaves state untouched when any requirement is missing', () => {
+    const { store, crafting } = setup();
+    store.addItem('item_herb', 2);
+    store.addItem('item_water', 1);
+    store.setAttribute('attr_coin', 1);
+
+    expect(crafting.check('item_potion').reason).toBe('insufficient_cost');
+    expect(crafting.craft('item_potion')).toBe(false);
+    expect(store.getItemCount('item_herb')).toBe(2);
+    expect(store.getItemCount('item_water')).toBe(1);
+  });
+
+  it('refuses to craft a second non-stackable item', () => {
+    const { store, crafting } = setup();
+    store.addItem('item_herb', 2);
+
+    expect(crafting.craft('item_amulet')).toBe(true);
+    expect(crafting.check('item_amulet').reason).toBe('already_owned');
+    expect(store.getItemCount('item_herb')).toBe(1);
+    expect(crafting.getCraftable().map(i => i.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { FILTER_PRESETS, VisualEffect } from '../EffectsManager';
+import { NodeType, ScriptActionType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node, settle } from './fixtures';
+
+const location = (id: string, extra: Record<string, any> = {}) =>
+  node(id, NodeType.LOCATION, { backgroundImage: `${id}.png`, hotspots: [], ...extra });
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_fx',
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    boom: node('boom', NodeType.ACTION, {
+      actions: [
+        { id: 'a1', type: ScriptActionType.SCREEN_SHAKE, params: { intensity: 'high', duration: 1, wait: false } },
+        { id: 'a2', type: ScriptActionType.FLASH, params: { color: '#ff0000', duration: 0.5 } },
+        { id: 'a3', type: ScriptActionType.SET_FILTER, params: { filter: 'grayscale', duration: 1 } },
+        { id: 'a4', type: ScriptActionType.SCENE_TRANSITION, params: { kind: 'wipe', duration: 0.4, direction: 'left' } },
+      ],
+    }),
+    hall: location('hall', { filter: 'sepia', transition: { kind: 'fade', duration: 2 } }),
+    yard: location('yard', { backgroundImage: '', transition: { kind: 'crossfade', duration: 0.5 } }),
+  }, [
+    { id: 'e1', sourceNodeId: 'start', targetNodeId: 'boom' },
+    { id: 'e2', sourceNodeId: 'boom', targetNodeId: 'hall' },
+    { id: 'e3', sourceNodeId: 'hall', targetNodeId: 'yard' },
+  ], { name: 'Scene' })],
+});
+
+describe('EffectsManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('awaits flash and filter effects before the action node advances', async () => {
+    vi.useFakeTimers();
+    const engine = new NarrativeEngine();
+    const played: VisualEffect[] = [];
+    const finish: Array<() => void> = [];
+    // 手动结束效果的渲染器
+    engine.effects.setRenderer({
+      play: (effect) => new Promise<void>(resolve => {
+        played.push(effect);
+        finish.push(resolve);
+      }),
+    });
+    engine.loadStory(createStory());
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    // 震动不等待，闪屏还没播完，滤镜尚未开始
+    expect(played.map(e => e.kind)).toEqual(['shake', 'flash']);
+    expect(played[0]).toMatchObject({ intensity: 'high', durationMs: 1000 });
+
+    finish[1]();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(played[2]).toEqual({ kind: 'filter', filter: FILTER_PRESETS.grayscale, durationMs: 1000, easing: 'ease-in-out' });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(engine.getCurrentNode()?.id).toBe('boom');
+
+    finish[2]();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(engine.getCurrentNode()?.id).toBe('hall');
+  });
+
+  it('plays armed and location transitions and applies location filters', async () => {
+    vi.useFakeTimers();
+    const engine = new NarrativeEngine();
+    const played: VisualEffect[] = [];
+    engine.eventBus.on('fx:play', effect => played.push(effect));
+    engine.loadStory(createStory());
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(engine.getCurrentNode()?.id).toBe('hall');
+    // SCENE_TRANSITION 预设的擦除优先于地点自身的淡入淡出
+    const entered = played.filter(e => e.kind === 'transition' || (e.kind === 'filter' && e.filter === FILTER_PRESETS.sepia));
+    expect(entered).toEqual([
+      { kind: 'transition', from: '', background: 'hall.png', transition: 'wipe', durationMs: 400, easing: 'ease-in-out', color: '#000000', direction: 'left' },
+      { kind: 'filter', filter: FILTER_PRESETS.sepia, durationMs: 400, easing: 'ease-in-out' },
+    ]);
+    expect(engine.effects.getFilter()).toBe(FILTER_PRESETS.sepia);
+
+    // 预设只生效一次；没有背景图的地点沿用上一张背景
+    played.length = 0;
+    engine.jumpToNode('yard');
+    expect(played).toEqual([
+      { kind: 'transition', from: 'hall.png', background: 'hall.png', transition: 'crossfade', durationMs: 500, easing: 'ease-in-out', color: '#000000', direction: 'right' },
+      { kind: 'filter', filter: 'none', durationMs: 500, easing: 'ease-in-out' },
+    ]);
+  });
+
+  it('falls back to medium shake for unknown intensities', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const engine = new NarrativeEngine();
+    const played: VisualEffect[] = [];
+    engine.eventBus.on('fx:play', effect => played.push(effect));
+    engine.loadStory(buildStory({
+      segments: [buildSegment({
+        start: node('start', NodeType.START),
+        boom: node('boom', NodeType.ACTION, {
+          actions: [{ id: 'a1', type: ScriptActionType.SCREEN_SHAKE, params: { intensity: 'extreme', duration: 'soon', wait: false } }],
+        }),
+      }, [{ id: 'e1', sourceNodeId: 'start', targetNodeId: 'boom' }])],
+    }));
+    engine.startSegment('seg_1');
+    await settle();
+    expect(played).toEqual([{ kind: 'shake', intensity: 'medium', durationMs: 500 }]);
+  });
+});
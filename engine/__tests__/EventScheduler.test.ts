@@ -0,0 +1,158 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { crossesClockTime, formatClockTime, nextClockOccurrence, parseClockTime } from '../StoryClock';
+import { NodeType, ScriptActionType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const addCoin = (id: string, value: number) => node(id, NodeType.ACTION, {
+  actions: [{ id: `${id}_a`, type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_coin', op: 'add', value } }],
+});
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_timers',
+  clockStart: '20:00',
+  attributes: [
+    { id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 0 },
+    { id: 'attr_sanity', key: 'sanity', name: 'Sanity', type: 'number', defaultValue: 50 },
+  ],
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    hall: node('hall', NodeType.LOCATION, {
+      backgroundImage: '',
+      hotspots: [],
+      events: [
+        { id: 'evt_tick', type: 'scheduled', trigger: 'onTimer', label: 'Tick', timer: { seconds: 2, repeat: true }, actions: [] },
+        { id: 'evt_panic', type: 'scheduled', trigger: 'onAttribute', label: 'Panic', watch: { attributeId: 'sanity', operator: '<', value: 20 }, actions: [] },
+        { id: 'evt_midnight', type: 'scheduled', trigger: 'onClock', label: 'Midnight', clockTime: '00:00', actions: [] },
+      ],
+    }),
+    tick: addCoin('tick', 1),
+    panic: addCoin('panic', 100),
+    midnight: node('midnight', NodeType.DIALOGUE, { characterId: '', text: 'bong', choices: [] }),
+  }, [
+    { id: 'e_start', sourceNodeId: 'start', targetNodeId: 'hall' },
+    { id: 'e_tick', sourceNodeId: 'hall', sourceHandleId: 'evt_tick', targetNodeId: 'tick' },
+    { id: 'e_panic', sourceNodeId: 'hall', sourceHandleId: 'evt_panic', targetNodeId: 'panic' },
+    { id: 'e_midnight', sourceNodeId: 'hall', sourceHandleId: 'evt_midnight', targetNodeId: 'midnight' },
+  ], { name: 'Night' })],
+});
+
+const enterHall = async () => {
+  vi.useFakeTimers();
+  const engine = new NarrativeEngine();
+  engine.loadStory(createStory());
+  engine.startSegment('seg_1');
+  await vi.advanceTimersByTimeAsync(0);
+  expect(engine.getCurrentNode()?.id).toBe('hall');
+  return engine;
+};
+
+const coin = (engine: NarrativeEngine) => engine.variableStore.getAttribute('coin');
+
+describe('EventScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('repeats timer events while the node is current and cancels them on exit', async () => {
+    const engine = await enterHall();
+
+    await vi.advanceTimersByTimeAsync(4100);
+    expect(coin(engine)).toBe(2);
+
+    engine.jumpToNode('midnight');
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(coin(engine)).toBe(2);
+  });
+
+  it('fires attribute watchers only when the threshold is crossed', async () => {
+    const engine = await enterHall();
+    const store = engine.variableStore;
+
+    store.setAttribute('sanity', 30);
+    store.setAttribute('sanity', 10);
+    store.setAttribute('sanity', 5);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(coin(engine)).toBe(100);
+
+    store.setAttribute('sanity', 50);
+    store.setAttribute('sanity', 19);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(coin(engine)).toBe(200);
+  });
+
+  it('re-arms the scene when a dialogue ends on an action node without outgoing edges', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    const seg = story.segments[0];
+    const hall = seg.nodes.hall as any;
+    hall.hotspots = [{ id: 'hs_bar', name: 'Bar', rect: { x: 0, y: 0, w: 10, h: 10 } }];
+    hall.events.push({ id: 'evt_bar', type: 'interaction', trigger: 'onClick', targetId: 'hs_bar', label: 'Bar', actions: [] });
+    seg.nodes.talk = node('talk', NodeType.DIALOGUE, { characterId: '', text: 'hi', choices: [{ id: 'c_pay', text: 'Pay' }] });
+    seg.nodes.pay = addCoin('pay', 5);
+    seg.edges.push(
+      { id: 'e_bar', sourceNodeId: 'hall', sourceHandleId: 'evt_bar', targetNodeId: 'talk' },
+      { id: 'e_pay', sourceNodeId: 'talk', sourceHandleId: 'c_pay', targetNodeId: 'pay' },
+    );
+    const engine = new NarrativeEngine();
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await engine.triggerEvent('onClick', 'hs_bar');
+    expect(engine.getCurrentNode()?.id).toBe('talk');
+    await engine.advance('c_pay');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(engine.getCurrentNode()?.id).toBe('hall');
+    expect(coin(engine)).toBe(5);
+
+    engine.variableStore.setAttribute('sanity', 10);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(coin(engine)).toBe(105);
+  });
+
+  it('fires clock events when the story clock passes their time and restores the clock from saves', async () => {
+    const engine = await enterHall();
+    const store = engine.variableStore;
+    expect(formatClockTime(store.getClock())).toBe('第 1 天 20:00');
+
+    const save = engine.serialize()!;
+    store.advanceClock(120);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(engine.getCurrentNode()?.id).toBe('hall');
+
+    store.advanceClock(240);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(engine.getCurrentNode()?.id).toBe('midnight');
+    expect(formatClockTime(store.getClock())).toBe('第 2 天 02:00');
+
+    // Restored saves re-arm the scheduled events of the saved node
+    engine.restore(save);
+    expect(store.getClock()).toBe(20 * 60);
+    await vi.advanceTimersByTimeAsync(2100);
+    expect(coin(engine)).toBe(1);
+  });
+
+  it('moves the clock forward with ADVANCE_CLOCK', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    const seg = story.segments[0];
+    seg.nodes.wait = node('wait', NodeType.ACTION, {
+      actions: [
+        { id: 'w1', type: ScriptActionType.ADVANCE_CLOCK, params: { minutes: 90 } },
+        { id: 'w2', type: ScriptActionType.ADVANCE_CLOCK, params: { until: '06:30' } },
+      ],
+    });
+    seg.edges = [{ id: 'e_start', sourceNodeId: 'start', targetNodeId: 'wait' }];
+    const engine = new NarrativeEngine();
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(engine.variableStore.getClock()).toBe(nextClockOccurrence(21 * 60 + 30, parseClockTime('06:30')!));
+    expect(formatClockTime(engine.variableStore.getClock())).toBe('第 2 天 06:30');
+    expect(crossesClockTime(23 * 60, 25 * 60, 0)).toBe(true);
+    expect(crossesClockTime(60, 60, 60)).toBe(false);
+    expect(parseClockTime('24:00')).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { exportCsv, exportXliff, getTranslationReport, importTranslations, localizeStory } from '../Localization';
+import { DialogueNode, NodeType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_l10n',
+  characters: [{ id: 'char_a', name: 'Ada', avatarUrl: '' }],
+  items: [{ id: 'item_key', name: '钥匙', description: '生锈的, "旧"钥匙\n第二行' }],
+  clues: [{ id: 'clue_1', name: '脚印', description: '', revealed: false }],
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    hello: node('hello', NodeType.DIALOGUE, {
+      characterId: 'char_a',
+      text: '你好',
+      choices: [{ id: 'c1', text: '离开', disabledReason: '门锁着' }],
+    }),
+    vote: node('vote', NodeType.VOTE, {
+      voteConfig: { title: '谁是凶手？', duration: 30, strategy: 'majority', options: [{ id: 'o1', text: '管家' }] },
+    }),
+  }, [
+    { id: 'e1', sourceNodeId: 'start', targetNodeId: 'hello' },
+    { id: 'e2', sourceNodeId: 'hello', targetNodeId: 'vote' },
+  ], { name: 'Hall' })],
+  localization: {
+    sourceLocale: 'zh-CN',
+    locales: ['en'],
+    tables: {
+      en: {
+        'node.seg_1.hello.text': 'Hello',
+        'node.seg_1.hello.choice.c1': 'Leave',
+        'item.item_key.name': 'Key',
+        'node.seg_1.gone.text': 'Removed line',
+      },
+    },
+  },
+});
+
+describe('Localization', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves string tables with source fallback and switches locale mid-game', async () => {
+    const story = createStory();
+    expect(localizeStory(story, 'zh-CN')).toBe(story);
+    const en = localizeStory(story, 'en');
+    const hello = en.segments[0].nodes.hello as DialogueNode;
+    expect(hello.text).toBe('Hello');
+    expect(hello.choices[0]).toMatchObject({ text: 'Leave', disabledReason: '门锁着' });
+    expect(en.items[0].name).toBe('Key');
+    expect(story.items[0].name).toBe('钥匙');
+
+    const [report] = getTranslationReport(story);
+    expect(report).toMatchObject({ locale: 'en', total: 8, translated: 3, unused: ['node.seg_1.gone.text'] });
+    expect(report.missing.map(m => m.key)).toEqual([
+      'node.seg_1.hello.choice.c1.disabledReason',
+      'node.seg_1.vote.vote.title',
+      'node.seg_1.vote.vote.option.o1',
+      'item.item_key.description',
+      'clue.clue_1.name',
+    ]);
+
+    vi.useFakeTimers();
+    const engine = new NarrativeEngine();
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect((engine.getCurrentNode() as DialogueNode).text).toBe('你好');
+
+    const changed = vi.fn();
+    engine.eventBus.on('locale:changed', changed);
+    engine.setLocale('en');
+    expect((engine.getCurrentNode() as DialogueNode).text).toBe('Hello');
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ locale: 'en', node: engine.getCurrentNode() }));
+    expect(engine.renderText('{item:item_key.name}').plain).toBe('Key');
+
+    // 进度保留，后续节点同样使用译文（投票没有译文则回退原文）
+    engine.jumpToNode('vote');
+    expect((engine.getCurrentNode() as any).voteConfig.options[0].text).toBe('管家');
+    engine.setLocale(null);
+    expect((engine.getCurrentNode() as any).voteConfig.title).toBe('谁是凶手？');
+  });
+
+  it('round-trips translations through CSV and XLIFF', () => {
+    const story = createStory();
+    const csv = exportCsv(story, 'en', { onlyMissing: true });
+    const lines = csv.trim().split('\r\n');
+    expect(lines[0]).toBe('key,context,source,en');
+    expect(csv).toContain('item.item_key.description,物品 item_key · 描述,"生锈的, ""旧""钥匙\n第二行",');
+    expect(csv).not.toContain('node.seg_1.hello.text');
+
+    // 译者填好最后一列交回
+    const filled = csv
+      .replace('item.item_key.description,物品 item_key · 描述,"生锈的, ""旧""钥匙\n第二行",', 'item.item_key.description,,"x","A rusty, ""old"" key\nline two"')
+      .replace('node.seg_1.vote.vote.title,Hall / vote · 投票,谁是凶手？,', 'node.seg_1.vote.vote.title,,,Who did it?')
+      + 'node.seg_1.unknown.text,,,Nope\r\n';
+    const fromCsv = importTranslations(story, '\uFEFF' + filled)!;
+    expect(fromCsv).toMatchObject({ locale: 'en', imported: 2, unknownKeys: ['node.seg_1.unknown.text'] });
+    expect(fromCsv.story.localization!.tables.en['item.item_key.description']).toBe('A rusty, "old" key\nline two');
+    expect(fromCsv.story.localization!.tables.en['node.seg_1.hello.text']).toBe('Hello');
+
+    const xliff = exportXliff(fromCsv.story, 'en')
+      .replace('target-language="en"', 'target-language="ja"')
+      .replace(/<target>Hello<\/target>/, '<target>こんにちは &amp; &lt;ようこそ&gt;</target>');
+    expect(xliff).toContain('<trans-unit id="node.seg_1.vote.vote.option.o1">');
+    const fromXliff = importTranslations(fromCsv.story, xliff)!;
+    expect(fromXliff.locale).toBe('ja');
+    expect(fromXliff.story.localization!.locales).toEqual(['en', 'ja']);
+    expect(localizeStory(fromXliff.story, 'ja').segments[0].nodes.hello).toMatchObject({ text: 'こんにちは & <ようこそ>' });
+
+    // 不能把译文导入原文语言
+    expect(importTranslations(story, 'key,context,source,zh-CN\r\n')).toBeNull();
+    // 列被重排或多出列时拒绝导入，而不是读错单元格
+    expect(importTranslations(story, 'context,key,source,en\r\nx,item.item_key.name,钥匙,Key\r\n')).toBeNull();
+    expect(importTranslations(story, 'key,context,source,note,en\r\nitem.item_key.name,x,钥匙,todo,Key\r\n')).toBeNull();
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { NodeType, ScriptActionType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_test',
+  attributes: [{ id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 10 }],
+  segments: [
+    buildSegment({
+      s1_start: node('s1_start', NodeType.START),
+      s1_jump: node('s1_jump', NodeType.JUMP, { targetSegmentId: 'seg_2' }),
+    }, [{ id: 'e1', sourceNodeId: 's1_start', targetNodeId: 's1_jump' }], { rootNodeId: 's1_start' }),
+    buildSegment({
+      s2_start: node('s2_start', NodeType.START),
+      s2_intro: node('s2_intro', NodeType.DIALOGUE, { characterId: '', text: 'intro', choices: [] }),
+      s2_later: node('s2_later', NodeType.DIALOGUE, { characterId: '', text: 'later', choices: [] }),
+    }, [{ id: 'e2', sourceNodeId: 's2_start', targetNodeId: 's2_intro' }], { id: 'seg_2', name: 'Chapter 2', rootNodeId: 's2_start' }),
+  ],
+});
+
+describe('NarrativeEngine', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows JUMP nodes into the target segment root and keeps variable state', async () => {
+    vi.useFakeTimers();
+    const engine = new NarrativeEngine();
+    const exited = vi.fn();
+    engine.eventBus.on('segment:exited', exited);
+
+    engine.loadStory(createStory());
+    engine.startSegment('seg_1');
+    engine.variableStore.setAttribute('attr_coin', 42);
+
+    await vi.runAllTimersAsync();
+
+    expect(engine.getCurrentNode()?.id).toBe('s2_intro');
+    expect(engine.variableStore.getAttribute('coin')).toBe(42);
+    expect(exited).toHaveBeenCalledWith({ segmentId: 'seg_1', toSegmentId: 'seg_2' });
+  });
+
+  it('enters the target segment at the configured entry node', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    (story.segments[0].nodes.s1_jump as any).targetNodeId = 's2_later';
+    const engine = new NarrativeEngine();
+
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.runAllTimersAsync();
+
+    expect(engine.getCurrentNode()?.id).toBe('s2_later');
+  });
+
+  it('parks on a JUMP node without a valid target', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    (story.segments[0].nodes.s1_jump as any).targetSegmentId = 'seg_missing';
+    const engine = new NarrativeEngine();
+
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.runAllTimersAsync();
+
+    expect(engine.getCurrentNode()?.id).toBe('s1_jump');
+  });
+
+  it('runs the onExit events of a JUMP node before unloading its segment', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    const seg = story.segments[0];
+    seg.nodes.s1_jump.events = [{ id: 'evt_leave', type: 'lifecycle', trigger: 'onExit', label: 'Leave', actions: [] }];
+    seg.nodes.pay = node('pay', NodeType.ACTION, {
+      actions: [{ id: 'a_pay', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_coin', op: 'sub', value: 3 } }],
+    });
+    seg.edges.push({ id: 'e_pay', sourceNodeId: 's1_jump', sourceHandleId: 'evt_leave', targetNodeId: 'pay' });
+    const engine = new NarrativeEngine();
+    const coinOnExit = vi.fn();
+    engine.eventBus.on('segment:exited', () => coinOnExit(engine.variableStore.getAttribute('coin')));
+
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.runAllTimersAsync();
+
+    expect(engine.getCurrentNode()?.id).toBe('s2_intro');
+    expect(coinOnExit).toHaveBeenCalledWith(7);
+    expect(engine.variableStore.getAttribute('coin')).toBe(7);
+  });
+
+  it('stays in the segment when the onExit event of a JUMP node navigates away', async () => {
+    vi.useFakeTimers();
+    const story = createStory();
+    const seg = story.segments[0];
+    seg.nodes.s1_jump.events = [{ id: 'evt_leave', type: 'lifecycle', trigger: 'onExit', label: 'Leave', actions: [] }];
+    seg.nodes.s1_stay = node('s1_stay', NodeType.DIALOGUE, { characterId: '', text: 'stay', choices: [] });
+    seg.edges.push({ id: 'e_stay', sourceNodeId: 's1_jump', sourceHandleId: 'evt_leave', targetNodeId: 's1_stay' });
+    const engine = new NarrativeEngine();
+    const exited = vi.fn();
+    engine.eventBus.on('segment:exited', exited);
+
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    await vi.runAllTimersAsync();
+
+    expect(engine.getCurrentNode()?.id).toBe('s1_stay');
+    expect(exited).not.toHaveBeenCalled();
+  });
+
+  describe('SWITCH', () => {
+    const createSwitchStory = (): StoryAsset => ({
+      ...createStory(),
+      segments: [buildSegment({
+        start: node('start', NodeType.START),
+        sw: node('sw', NodeType.SWITCH, {
+          subject: { kind: 'attribute', refId: 'attr_coin' },
+          cases: [{ id: 'case_10', value: '10' }, { id: 'case_20', value: '20' }],
+        }),
+        rich: node('rich', NodeType.DIALOGUE, { characterId: '', text: 'rich', choices: [] }),
+        richer: node('richer', NodeType.DIALOGUE, { characterId: '', text: 'richer', choices: [] }),
+        other: node('other', NodeType.DIALOGUE, { characterId: '', text: 'other', choices: [] }),
+      }, [
+        { id: 'e_start', sourceNodeId: 'start', targetNodeId: 'sw' },
+        { id: 'e_10', sourceNodeId: 'sw', sourceHandleId: 'case_10', targetNodeId: 'rich' },
+        { id: 'e_20', sourceNodeId: 'sw', sourceHandleId: 'case_20', targetNodeId: 'richer' },
+        { id: 'e_default', sourceNodeId: 'sw', targetNodeId: 'other' },
+      ])],
+    });
+
+    it('routes through the handle of the matching case', async () => {
+      vi.useFakeTimers();
+      const engine = new NarrativeEngine();
+      engine.loadStory(createSwitchStory());
+      engine.variableStore.setAttribute('attr_coin', 20);
+      engine.startSegment('seg_1');
+      await vi.runAllTimersAsync();
+
+      expect(engine.getCurrentNode()?.id).toBe('richer');
+    });
+
+    it('falls back to the default port when no case matches', async () => {
+      vi.useFakeTimers();
+      const engine = new NarrativeEngine();
+      engine.loadStory(createSwitchStory());
+      engine.variableStore.setAttribute('attr_coin', 5);
+      engine.startSegment('seg_1');
+      await vi.runAllTimersAsync();
+
+      expect(engine.getCurrentNode()?.id).toBe('other');
+    });
+
+    it('coerces case values to the subject type before comparing', async () => {
+      vi.useFakeTimers();
+      const runWith = async (cases: { id: string; value: string }[], type: 'boolean' | 'number' | 'string', value: any) => {
+        const story = createSwitchStory();
+        story.attributes[0] = { ...story.attributes[0], type, defaultValue: value };
+        (story.segments[0].nodes.sw as any).cases = cases;
+        const engine = new NarrativeEngine();
+        engine.loadStory(story);
+        engine.startSegment('seg_1');
+        await vi.runAllTimersAsync();
+        return engine.getCurrentNode()?.id;
+      };
+
+      expect(await runWith([{ id: 'case_10', value: 'false' }, { id: 'case_20', value: 'true' }], 'boolean', true)).toBe('richer');
+      expect(await runWith([{ id: 'case_10', value: 'true' }, { id: 'case_20', value: 'false' }], 'boolean', false)).toBe('richer');
+      // 空的 case 值既不等于 0 也不等于 false
+      expect(await runWith([{ id: 'case_10', value: '' }, { id: 'case_20', value: '0' }], 'number', 0)).toBe('richer');
+      expect(await runWith([{ id: 'case_10', value: '' }], 'boolean', false)).toBe('other');
+      // 所有类型的 case 值都会去掉首尾空白
+      expect(await runWith([{ id: 'case_10', value: ' 3' }], 'number', 3)).toBe('rich');
+      expect(await runWith([{ id: 'case_10', value: 'gold ' }], 'string', 'gold')).toBe('rich');
+    });
+  });
+});
+
+describe('lifecycle events', () => {
+  it('emits node:settled once the onExit and onEnter actions of a transition have run', async () => {
+    const story = createStory();
+    const seg = story.segments[1];
+    story.items = [{ id: 'item_key', name: 'Key', description: '' }];
+    seg.nodes.s2_intro.events = [{ id: 'evt_leave', type: 'lifecycle', trigger: 'onExit', label: 'Leave', actions: [] }];
+    seg.nodes.s2_later.events = [{ id: 'evt_arrive', type: 'lifecycle', trigger: 'onEnter', label: 'Arrive', actions: [] }];
+    seg.nodes.give = node('give', NodeType.ACTION, {
+      actions: [{ id: 'a_give', type: ScriptActionType.ADD_ITEM, params: { itemId: 'item_key', count: 1 } }],
+    });
+    seg.nodes.pay = node('pay', NodeType.ACTION, {
+      actions: [{ id: 'a_pay', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_coin', op: 'sub', value: 3 } }],
+    });
+    seg.edges.push(
+      { id: 'e_next', sourceNodeId: 's2_intro', targetNodeId: 's2_later' },
+      { id: 'e_give', sourceNodeId: 's2_intro', sourceHandleId: 'evt_leave', targetNodeId: 'give' },
+      { id: 'e_pay', sourceNodeId: 's2_later', sourceHandleId: 'evt_arrive', targetNodeId: 'pay' },
+    );
+    const engine = new NarrativeEngine();
+    engine.loadStory(story);
+    engine.startSegment('seg_2', 's2_intro');
+
+    const settled = new Promise<any>(resolve => engine.eventBus.on('node:settled', ({ nodeId }) => {
+      if (nodeId === 's2_later') resolve(engine.serialize());
+    }));
+    await engine.advance();
+    const save = await settled;
+    expect(save.variables.inventory).toEqual({ item_key: 1 });
+    expect(save.variables.attributes.attr_coin).toBe(7);
+
+    // 回到该快照不会重复也不会丢失转场时的效果
+    engine.variableStore.setAttribute('attr_coin', 0);
+    expect(engine.restore(save)).toBe(true);
+    expect(engine.variableStore.getAttribute('coin')).toBe(7);
+    expect(engine.variableStore.getItemCount('item_key')).toBe(1);
+  });
+});
+
+describe('async conditions', () => {
+  it('awaits async edge conditions when advancing', async () => {
+    const story = createStory();
+    story.segments[1].edges.push(
+      { id: 'e_roll', sourceNodeId: 's2_intro', targetNodeId: 's2_later', condition: { type: 'TEST_DICE_ROLL', params: { min: 4 } } },
+    );
+    const engine = new NarrativeEngine();
+    let roll = 2;
+    engine.registerCondition({
+      id: 'TEST_DICE_ROLL',
+      evaluate: async (condition) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        return roll >= condition.params!.min;
+      },
+    });
+    engine.loadStory(story);
+    engine.startSegment('seg_2', 's2_intro');
+
+    expect(await engine.advance()).toBeNull();
+
+    engine.jumpToNode('s2_intro');
+    roll = 6;
+    expect((await engine.advance())?.id).toBe('s2_later');
+  });
+});
+
+describe('hotspot interactions', () => {
+  const createRoomStory = (): StoryAsset => ({
+    ...createStory(),
+    items: [
+      { id: 'item_key', name: 'Key', description: '' },
+      { id: 'item_rock', name: 'Rock', description: '' },
+    ],
+    clues: [{ id: 'clue_map', name: 'Map', description: '', revealed: false }],
+    segments: [buildSegment({
+      room: node('room', NodeType.LOCATION, {
+        backgroundImage: '',
+        hotspots: [
+          { id: 'hs_door', name: 'Door', rect: { x: 0, y: 0, w: 10, h: 10 }, visibleIf: "hasClue('clue_map')" },
+          { id: 'hs_chest', name: 'Chest', rect: { x: 50, y: 50, w: 10, h: 10 } },
+        ],
+        events: [
+          { id: 'evt_examine', type: 'interaction', trigger: 'onExamine', targetId: 'hs_chest', label: 'Examine', actions: [] },
+          { id: 'evt_door', type: 'interaction', trigger: 'onUseItem', targetId: 'hs_door', label: 'Use', condition: "usedItem == 'item_key'", actions: [] },
+          { id: 'evt_chest', type: 'interaction', trigger: 'onUseItem', targetId: 'hs_chest', itemId: 'item_rock', label: 'Use', actions: [] },
+        ],
+      }),
+      find_map: node('find_map', NodeType.ACTION, { actions: [{ id: 'a1', type: ScriptActionType.ADD_CLUE, params: { clueId: 'clue_map' } }] }),
+      smash: node('smash', NodeType.ACTION, { actions: [{ id: 'a2', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_coin', op: 'add', value: 5 } }] }),
+      outside: node('outside', NodeType.DIALOGUE, { characterId: '', text: 'free', choices: [] }),
+    }, [
+      { id: 'e_examine', sourceNodeId: 'room', sourceHandleId: 'evt_examine', targetNodeId: 'find_map' },
+      { id: 'e_door', sourceNodeId: 'room', sourceHandleId: 'evt_door', targetNodeId: 'outside' },
+      { id: 'e_chest', sourceNodeId: 'room', sourceHandleId: 'evt_chest', targetNodeId: 'smash', condition: { type: 'USED_ITEM', params: { itemId: 'item_rock' } } },
+    ], { name: 'Room', rootNodeId: 'room' })],
+  });
+
+  it('hides hotspots until their visibility condition holds', async () => {
+    const engine = new NarrativeEngine();
+    const story = createRoomStory();
+    engine.loadStory(story);
+    engine.startSegment('seg_1');
+    const door = (story.segments[0].nodes.room as any).hotspots[0];
+
+    expect(engine.isHotspotVisible(door)).toBe(false);
+    engine.variableStore.addItem('item_key');
+    expect(await engine.useItemOnHotspot('hs_door', 'item_key')).toBe(false);
+
+    expect(await engine.triggerEvent('onExamine', 'hs_chest')).toBe(true);
+    expect(engine.isHotspotVisible(door)).toBe(true);
+  });
+
+  it('passes the used item to event filters and conditions', async () => {
+    const engine = new NarrativeEngine();
+    engine.loadStory(createRoomStory());
+    engine.startSegment('seg_1');
+    engine.variableStore.addClue('clue_map');
+    engine.variableStore.addItem('item_key');
+    engine.variableStore.addItem('item_rock');
+
+    expect(await engine.useItemOnHotspot('hs_chest', 'item_key')).toBe(false);
+    expect(await engine.useItemOnHotspot('hs_chest', 'item_rock')).toBe(true);
+    expect(engine.variableStore.getAttribute('coin')).toBe(15);
+
+    expect(await engine.useItemOnHotspot('hs_door', 'item_rock')).toBe(false);
+    expect(engine.getCurrentNode()?.id).toBe('room');
+    engine.variableStore.removeItem('item_key');
+    expect(await engine.useItemOnHotspot('hs_door', 'item_key')).toBe(false);
+
+    engine.variableStore.addItem('item_key');
+    expect(await engine.useItemOnHotspot('hs_door', 'item_key')).toBe(true);
+    expect(engine.getCurrentNode()?.id).toBe('outside');
+  });
+});
+
+describe('dialogue choice gating', () => {
+  const createShopStory = (): StoryAsset => ({
+    ...createStory(),
+    clues: [{ id: 'clue_secret', name: 'Secret', description: '', revealed: false }],
+    segments: [buildSegment({
+      clerk: node('clerk', NodeType.DIALOGUE, {
+        characterId: '',
+        text: 'What will it be?',
+        choices: [
+          {
+            id: 'c_buy',
+            text: 'Buy (15)',
+            enabledIf: { type: 'ATTR_COMPARE', params: { attributeId: 'attr_coin', operator: '>=', value: 15 } },
+            disabledReason: 'Not enough coin',
+            actions: [{ id: 'a1', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_coin', op: 'add', value: -15 } }],
+          },
+          { id: 'c_secret', text: 'The password', visibleIf: { type: 'HAS_CLUE', params: { clueId: 'clue_secret' } } },
+          { id: 'c_leave', text: 'Leave' },
+        ],
+      }),
+      bought: node('bought', NodeType.DIALOGUE, { characterId: '', text: 'bought', choices: [] }),
+      backroom: node('backroom', NodeType.DIALOGUE, { characterId: '', text: 'backroom', choices: [] }),
+      street: node('street', NodeType.DIALOGUE, { characterId: '', text: 'street', choices: [] }),
+    }, [
+      { id: 'e_buy', sourceNodeId: 'clerk', sourceHandleId: 'c_buy', targetNodeId: 'bought' },
+      { id: 'e_secret', sourceNodeId: 'clerk', sourceHandleId: 'c_secret', targetNodeId: 'backroom' },
+      { id: 'e_leave', sourceNodeId: 'clerk', sourceHandleId: 'c_leave', targetNodeId: 'street' },
+    ], { name: 'Shop', rootNodeId: 'clerk' })],
+  });
+
+  it('reports hidden and disabled choices and refuses to pick them', async () => {
+    const engine = new NarrativeEngine();
+    engine.loadStory(createShopStory());
+    engine.startSegment('seg_1');
+
+    const states = await engine.getChoiceStates();
+    expect(states.map(s => [s.choice.id, s.visible, s.enabled, s.reason])).toEqual([
+      ['c_buy', true, false, 'Not enough coin'],
+      ['c_secret', false, false, undefined],
+      ['c_leave', true, true, undefined],
+    ]);
+
+    expect((await engine.advance('c_secret'))?.id).toBe('clerk');
+    expect((await engine.advance('c_buy'))?.id).toBe('clerk');
+    expect(engine.variableStore.getAttribute('coin')).toBe(10);
+  });
+
+  it('runs the picked choice actions before leaving the node', async () => {
+    const engine = new NarrativeEngine();
+    engine.loadStory(createShopStory());
+    engine.startSegment('seg_1');
+    engine.variableStore.setAttribute('attr_coin', 20);
+
+    expect((await engine.advance('c_buy'))?.id).toBe('bought');
+    expect(engine.variableStore.getAttribute('coin')).toBe(5);
+  });
+});
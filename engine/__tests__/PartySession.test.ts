@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { PartyMessage, PartySession, PartyTransport } from '../PartySession';
+import { NodeType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node, settle } from './fixtures';
+
+const character = (id: string) => ({ id, name: id, description: '', avatarUrl: '' });
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_party',
+  characters: [character('char_a'), character('char_b')],
+  clues: [
+    { id: 'clue_public', name: 'Public', description: '', revealed: false },
+    { id: 'clue_secret', name: 'Secret', description: '', revealed: false },
+  ],
+  segments: [buildSegment({
+    vote: node('vote', NodeType.VOTE, {
+      voteConfig: {
+        title: 'Who did it?',
+        duration: 0,
+        strategy: 'majority',
+        options: [{ id: 'opt_butler', text: 'Butler' }, { id: 'opt_maid', text: 'Maid' }],
+      },
+    }),
+    whisper: node('whisper', NodeType.DIALOGUE, { characterId: 'char_a', text: 'psst', choices: [], visibleTo: ['char_a'] }),
+    butler: node('butler', NodeType.DIALOGUE, { characterId: '', text: 'butler', choices: [] }),
+    maid: node('maid', NodeType.DIALOGUE, { characterId: '', text: 'maid', choices: [] }),
+  }, [
+    { id: 'e_butler', sourceNodeId: 'vote', sourceHandleId: 'opt_butler', targetNodeId: 'butler' },
+    { id: 'e_maid', sourceNodeId: 'vote', sourceHandleId: 'opt_maid', targetNodeId: 'maid' },
+  ], { name: 'Trial', rootNodeId: 'vote' })],
+});
+
+const startParty = (transport?: PartyTransport) => {
+  const story = createStory();
+  const engine = new NarrativeEngine();
+  engine.loadStory(story);
+  const party = new PartySession(engine, transport);
+  party.start(story);
+  return { engine, party, story };
+};
+
+describe('PartySession', () => {
+  it('lets each character be claimed once and keeps the electorate in sync', () => {
+    const { engine, party } = startParty();
+    const updated = vi.fn();
+    engine.eventBus.on('party:updated', updated);
+
+    const alice = party.join('Alice', 'char_a')!;
+    expect(party.join('Mallory', 'char_a')).toBeNull();
+    expect(party.join('Nobody', 'char_x')).toBeNull();
+    const bob = party.join('Bob', 'char_b')!;
+
+    expect(engine.voteManager.getElectorate()).toEqual([alice.id, bob.id]);
+    expect(party.getActivePlayer()?.id).toBe(alice.id);
+    expect(updated).toHaveBeenCalledTimes(2);
+
+    expect(party.passTo(bob.id)).toBe(true);
+    expect(party.getActivePlayer()?.id).toBe(bob.id);
+    expect(party.getNextPlayer()?.id).toBe(alice.id);
+
+    party.leave(bob.id);
+    expect(party.getActivePlayer()?.id).toBe(alice.id);
+
+    party.end();
+    expect(party.getPlayers()).toEqual([]);
+    expect(engine.voteManager.getElectorate()).toEqual(['player']);
+  });
+
+  it('shows owned clues and private dialogue only to their owners', () => {
+    const { engine, party, story } = startParty();
+    const alice = party.join('Alice', 'char_a')!;
+    const bob = party.join('Bob', 'char_b')!;
+
+    expect(party.canSeeClue(alice.id, 'clue_public')).toBe(false);
+    engine.variableStore.addClue('clue_public');
+    engine.variableStore.addClue('clue_secret', 'char_a');
+
+    expect(party.getVisibleClueIds(alice.id)).toEqual(['clue_public', 'clue_secret']);
+    expect(party.getVisibleClueIds(bob.id)).toEqual(['clue_public']);
+
+    const whisper = story.segments[0].nodes.whisper;
+    expect(party.canSeeNode(alice.id, whisper)).toBe(true);
+    expect(party.canSeeNode(bob.id, whisper)).toBe(false);
+    expect(party.getAudience(whisper).map(p => p.id)).toEqual([alice.id]);
+    expect(party.canSeeNode(bob.id, story.segments[0].nodes.butler)).toBe(true);
+  });
+
+  it('collects one ballot per player before resolving the vote', async () => {
+    const { engine, party } = startParty();
+    const alice = party.join('Alice', 'char_a')!;
+    const bob = party.join('Bob', 'char_b')!;
+    engine.startSegment('seg_1');
+
+    party.castVote(alice.id, 'opt_maid');
+    party.castVote(alice.id, 'opt_butler');
+    await settle();
+    expect(engine.voteManager.isOpen('vote')).toBe(true);
+    expect(party.getNextPlayer([alice.id])?.id).toBe(bob.id);
+
+    expect(party.castVote('player_ghost', 'opt_maid')).toBe(false);
+    party.castVote(bob.id, 'opt_butler');
+    await settle();
+
+    expect(engine.getCurrentNode()?.id).toBe('butler');
+  });
+
+  it('resolves an open vote when the only player who has not voted leaves', async () => {
+    const { engine, party } = startParty();
+    const alice = party.join('Alice', 'char_a')!;
+    const bob = party.join('Bob', 'char_b')!;
+    engine.startSegment('seg_1');
+
+    party.castVote(alice.id, 'opt_maid');
+    await settle();
+    expect(engine.voteManager.isOpen('vote')).toBe(true);
+
+    party.leave(bob.id);
+    await settle();
+    expect(engine.getCurrentNode()?.id).toBe('maid');
+  });
+
+  it('drops the ballot of a player who leaves mid-vote', async () => {
+    const { engine, party } = startParty();
+    const resolved = vi.fn();
+    engine.eventBus.on('vote:resolved', resolved);
+    const alice = party.join('Alice', 'char_a')!;
+    const bob = party.join('Bob', 'char_b')!;
+    engine.startSegment('seg_1');
+
+    party.castVote(bob.id, 'opt_maid');
+    party.leave(bob.id);
+    await settle();
+    expect(engine.voteManager.isOpen('vote')).toBe(true);
+
+    party.castVote(alice.id, 'opt_butler');
+    await settle();
+    expect(resolved).toHaveBeenCalledWith(expect.objectContaining({ ballots: [{ voterId: alice.id, optionId: 'opt_butler' }] }));
+    expect(engine.getCurrentNode()?.id).toBe('butler');
+  });
+
+  it('only applies actions once the transport delivers them', () => {
+    const queued: PartyMessage[] = [];
+    let deliver: (message: PartyMessage) => void = () => {};
+    const transport: PartyTransport = {
+      send: message => { queued.push(message); },
+      subscribe: handler => {
+        deliver = handler;
+        return () => { deliver = () => {}; };
+      },
+    };
+    const { party } = startParty(transport);
+
+    party.join('Alice', 'char_a');
+    expect(party.getPlayers()).toEqual([]);
+
+    queued.splice(0).forEach(message => deliver(message));
+    expect(party.getPlayers().map(p => p.name)).toEqual(['Alice']);
+  });
+});
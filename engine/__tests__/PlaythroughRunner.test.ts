@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { PlaythroughRunner, PlaythroughScript } from '../PlaythroughRunner';
+import { StoryAsset } from '../../types';
+import sampleStory from '../sample_story.json';
+import samplePlaythrough from '../sample_playthrough.json';
+
+// ACTION nodes auto-advance after 100ms, so stay just above that
+const OPTIONS = { quietMs: 150, stepTimeoutMs: 3000 };
+
+const run = (script: PlaythroughScript) => new PlaythroughRunner(sampleStory as StoryAsset, OPTIONS).run(script);
+
+describe('PlaythroughRunner', () => {
+  it('replays the sample script with trail, attribute diffs and events', async () => {
+    const report = await run(samplePlaythrough as PlaythroughScript);
+
+    expect(report.failures).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.trail.slice(0, 4)).toEqual(['node_start', 'node_loc_poster', 'node_action_poster_enter', 'node_dialog_intro']);
+    const pay = report.steps[report.steps.length - 1];
+    expect(pay.attributes.attr_coin).toEqual({ from: 200, to: 180 });
+    expect(pay.events.map(e => e.event)).toContain('ui:toast');
+  });
+
+  it('fails on choices that are not offered at the current node', async () => {
+    const report = await run({ steps: [{ click: 'hs_join' }, { choice: 'c_missing' }] });
+
+    expect(report.ok).toBe(false);
+    expect(report.finalNodeId).toBe('node_dialog_intro');
+    expect(report.failures[0]).toContain('c_missing');
+  });
+
+  it('reports story:end mismatches', async () => {
+    const report = await run({ steps: [{ click: 'hs_join' }], expect: { ended: true, nodeId: 'node_dialog_intro' } });
+
+    expect(report.ended).toBe(false);
+    expect(report.failures).toHaveLength(1);
+  });
+});
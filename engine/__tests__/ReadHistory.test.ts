@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ReadHistory } from '../ReadHistory';
+import { MemorySaveStorage } from '../SaveManager';
+
+describe('ReadHistory', () => {
+  it('remembers read lines per story across instances', () => {
+    const storage = new MemorySaveStorage();
+    const history = new ReadHistory(storage);
+    history.load('story_a');
+
+    expect(history.markRead('n1')).toBe(false);
+    expect(history.markRead('n1')).toBe(true);
+    expect(history.isRead('n1')).toBe(true);
+
+    const reopened = new ReadHistory(storage);
+    reopened.load('story_a');
+    expect(reopened.isRead('n1')).toBe(true);
+    reopened.load('story_b');
+    expect(reopened.isRead('n1')).toBe(false);
+  });
+
+  it('starts empty when the stored data is corrupted or cleared', () => {
+    const storage = new MemorySaveStorage();
+    storage.setItem('narrative-forge:read:story_a', '{not json');
+    const history = new ReadHistory(storage);
+    history.load('story_a');
+    expect(history.size).toBe(0);
+
+    history.markRead('n1');
+    history.clear();
+    history.load('story_a');
+    expect(history.isRead('n1')).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { MemorySaveStorage, SaveManager, SAVE_FORMAT_VERSION } from '../SaveManager';
+import { NodeType, StoryAsset } from '../../types';
+
+const createStory = (): StoryAsset => ({
+  id: 'story_save',
+  title: 'Save Test',
+  description: '',
+  activeSegmentId: 'seg_main',
+  globalVariables: [],
+  attributes: [{ id: 'attr_sanity', key: 'sanity', name: 'Sanity', type: 'number', defaultValue: 80, min: 0, max: 100 }],
+  characters: [],
+  items: [{ id: 'item_key', name: 'Key', description: '', stackable: true }],
+  shops: [],
+  clues: [{ id: 'clue_1', name: 'Clue', description: '', revealed: false }],
+  segments: [{
+    id: 'seg_main',
+    name: 'Main',
+    rootNodeId: 'node_loc',
+    nodes: {
+      node_loc: { id: 'node_loc', type: NodeType.LOCATION, name: 'Hall', position: { x: 0, y: 0 }, size: { x: 100, y: 100 }, backgroundImage: '', hotspots: [] } as any,
+      node_dialog: { id: 'node_dialog', type: NodeType.DIALOGUE, name: 'Talk', position: { x: 0, y: 0 }, size: { x: 100, y: 100 }, characterId: '', text: 'hi', choices: [] } as any,
+    },
+    edges: [{ id: 'e1', sourceNodeId: 'node_loc', targetNodeId: 'node_dialog' }],
+  }],
+});
+
+describe('SaveManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips engine position and variable state through a slot', async () => {
+    const saves = new SaveManager(new MemorySaveStorage());
+    const engine = new NarrativeEngine();
+    engine.loadStory(createStory());
+    engine.startSegment('seg_main');
+    await engine.advance();
+    engine.variableStore.setAttribute('sanity', 30);
+    engine.variableStore.addItem('item_key', 2);
+    engine.variableStore.addClue('clue_1', 'char_a');
+
+    const data = engine.serialize()!;
+    expect(data.version).toBe(SAVE_FORMAT_VERSION);
+    saves.save('slot A', data, 'Talk');
+
+    const fresh = new NarrativeEngine();
+    const restored = vi.fn();
+    fresh.eventBus.on('game:restored', restored);
+    fresh.loadStory(createStory());
+
+    expect(fresh.restore(saves.load('story_save', 'slot A')!)).toBe(true);
+    expect(fresh.getCurrentNode()?.id).toBe('node_dialog');
+    expect(fresh.variableStore.getAttribute('sanity')).toBe(30);
+    expect(fresh.variableStore.getItemCount('item_key')).toBe(2);
+    expect(fresh.variableStore.hasClue('clue_1', 'char_a')).toBe(true);
+    expect(restored.mock.calls[0][0].scene.id).toBe('node_loc');
+  });
+
+  it('lists slots per story and removes them', () => {
+    const saves = new SaveManager(new MemorySaveStorage());
+    const base = { version: SAVE_FORMAT_VERSION, segmentId: null, nodeId: null, sceneNodeId: null, variables: { attributes: {}, inventory: {}, clues: {} } };
+    saves.save('old', { ...base, storyId: 's1', savedAt: 1 });
+    saves.save('new', { ...base, storyId: 's1', savedAt: 2 });
+    saves.save('other', { ...base, storyId: 's2', savedAt: 3 });
+
+    expect(saves.listSlots('s1').map(s => s.slot)).toEqual(['new', 'old']);
+    saves.remove('s1', 'old');
+    expect(saves.listSlots('s1').map(s => s.slot)).toEqual(['new']);
+  });
+
+  it('rejects saves from another story or format version', () => {
+    const engine = new NarrativeEngine();
+    engine.loadStory(createStory());
+    const data = engine.serialize()!;
+
+    expect(engine.restore({ ...data, storyId: 'other' })).toBe(false);
+    expect(engine.restore({ ...data, version: SAVE_FORMAT_VERSION + 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { StoryAsset } from '../../types';
+
+const createStory = (): StoryAsset => ({
+  id: 'story_shop',
+  title: 'Shop',
+  description: '',
+  activeSegmentId: '',
+  globalVariables: [],
+  attributes: [{ id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 100 }],
+  characters: [],
+  items: [
+    { id: 'item_bread', name: 'Bread', description: '', stackable: true },
+    { id: 'item_map', name: 'Map', description: '', stackable: true },
+    { id: 'item_lamp', name: 'Lamp', description: '', stackable: false },
+  ],
+  shops: [{
+    id: 'shop_1',
+    name: 'Bakery',
+    sellRatio: 0.5,
+    inventory: [
+      { itemId: 'item_bread', price: 30, currencyAttributeId: 'attr_coin', stock: 2 },
+      { itemId: 'item_map', price: 15, currencyAttributeId: 'attr_coin' },
+      { itemId: 'item_lamp', price: 20, currencyAttributeId: 'attr_coin' },
+    ],
+  }],
+  clues: [],
+  segments: [],
+});
+
+const setup = () => {
+  const engine = new NarrativeEngine();
+  engine.loadStory(createStory());
+  return engine;
+};
+
+describe('ShopService', () => {
+  it('charges currency, hands over the item and decrements stock', () => {
+    const engine = setup();
+    const purchased = vi.fn();
+    engine.eventBus.on('shop:purchased', purchased);
+
+    expect(engine.shops.buy('shop_1', 'item_bread')).toBe(true);
+    expect(engine.shops.buy('shop_1', 'item_bread')).toBe(true);
+
+    expect(engine.variableStore.getAttribute('coin')).toBe(40);
+    expect(engine.variableStore.getItemCount('item_bread')).toBe(2);
+    expect(engine.shops.getStock('shop_1', 'item_bread')).toBe(0);
+    expect(engine.shops.canBuy('shop_1', 'item_bread').reason).toBe('out_of_stock');
+    expect(engine.shops.getStock('shop_1', 'item_map')).toBeNull();
+    expect(purchased).toHaveBeenLastCalledWith(expect.objectContaining({ shopId: 'shop_1', itemId: 'item_bread', price: 30, stock: 0 }));
+  });
+
+  it('rejects purchases the player cannot afford without touching state', () => {
+    const engine = setup();
+    engine.variableStore.setAttribute('attr_coin', 10);
+
+    expect(engine.shops.buy('shop_1', 'item_map')).toBe(false);
+    expect(engine.variableStore.getAttribute('coin')).toBe(10);
+    expect(engine.variableStore.getItemCount('item_map')).toBe(0);
+  });
+
+  it('rejects a second non-stackable item and non-positive or fractional counts', () => {
+    const engine = setup();
+
+    expect(engine.shops.canBuy('shop_1', 'item_lamp', 2).reason).toBe('invalid_count');
+    expect(engine.shops.buy('shop_1', 'item_lamp')).toBe(true);
+    expect(engine.shops.canBuy('shop_1', 'item_lamp').reason).toBe('already_owned');
+    expect(engine.shops.buy('shop_1', 'item_lamp')).toBe(false);
+    expect(engine.variableStore.getAttribute('coin')).toBe(80);
+    expect(engine.variableStore.getItemCount('item_lamp')).toBe(1);
+
+    expect(engine.shops.buy('shop_1', 'item_map', -1)).toBe(false);
+    expect(engine.shops.canBuy('shop_1', 'item_map', 1.5).reason).toBe('invalid_count');
+    expect(engine.shops.sell('shop_1', 'item_lamp', 0)).toBe(false);
+    expect(engine.shops.canSell('shop_1', 'item_lamp', -1).reason).toBe('invalid_count');
+    expect(engine.variableStore.getAttribute('coin')).toBe(80);
+    expect(engine.shops.getStock('shop_1', 'item_map')).toBeNull();
+  });
+
+  it('buys items back at the sell ratio and restocks', () => {
+    const engine = setup();
+    const sold = vi.fn();
+    engine.eventBus.on('shop:sold', sold);
+    engine.shops.buy('shop_1', 'item_bread');
+
+    expect(engine.shops.sell('shop_1', 'item_bread')).toBe(true);
+    expect(engine.variableStore.getAttribute('coin')).toBe(85);
+    expect(engine.shops.getStock('shop_1', 'item_bread')).toBe(2);
+    expect(sold).toHaveBeenCalledWith(expect.objectContaining({ itemId: 'item_bread', price: 15 }));
+    expect(engine.shops.canSell('shop_1', 'item_bread').reason).toBe('not_owned');
+  });
+
+  it('keeps stock across save and restore', () => {
+    const engine = setup();
+    engine.shops.buy('shop_1', 'item_bread');
+    const save = engine.serialize()!;
+
+    const fresh = setup();
+    expect(fresh.restore(save)).toBe(true);
+    expect(fresh.shops.getStock('shop_1', 'item_bread')).toBe(1);
+
+    const { shops, ...legacy } = save;
+    expect(fresh.restore(legacy)).toBe(true);
+    expect(fresh.shops.getStock('shop_1', 'item_bread')).toBe(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { getCharacterSprite } from '../StageManager';
+import { NodeType, ScriptActionType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const line = (id: string, characterId: string, extra: Record<string, any> = {}) =>
+  node(id, NodeType.DIALOGUE, { characterId, text: id, choices: [], ...extra });
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_stage',
+  characters: [
+    {
+      id: 'char_a',
+      name: 'Ada',
+      avatarUrl: 'ada.png',
+      expressions: [{ name: 'neutral', imageUrl: 'ada_neutral.png' }, { name: 'happy', imageUrl: 'ada_happy.png' }],
+    },
+    { id: 'char_b', name: 'Bo', avatarUrl: 'bo.png' },
+  ],
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    greet: line('greet', 'char_a', { placement: 'left' }),
+    smile: line('smile', 'char_a', { expression: 'happy' }),
+    enter_b: node('enter_b', NodeType.ACTION, {
+      actions: [
+        { id: 'a1', type: ScriptActionType.SHOW_CHARACTER, params: { characterId: 'char_b', placement: 'right', transition: 'slide' } },
+        { id: 'a2', type: ScriptActionType.SET_EXPRESSION, params: { characterId: 'char_a', expression: 'neutral' } },
+      ],
+    }),
+    swap: line('swap', 'char_b', { placement: 'left' }),
+    leave: node('leave', NodeType.ACTION, {
+      actions: [{ id: 'a3', type: ScriptActionType.HIDE_CHARACTER, params: { characterId: '' } }],
+    }),
+    end: line('end', ''),
+  }, [
+    { id: 'e1', sourceNodeId: 'start', targetNodeId: 'greet' },
+    { id: 'e2', sourceNodeId: 'greet', targetNodeId: 'smile' },
+    { id: 'e3', sourceNodeId: 'smile', targetNodeId: 'enter_b' },
+    { id: 'e4', sourceNodeId: 'enter_b', targetNodeId: 'swap' },
+    { id: 'e5', sourceNodeId: 'swap', targetNodeId: 'leave' },
+    { id: 'e6', sourceNodeId: 'leave', targetNodeId: 'end' },
+  ], { name: 'Scene' })],
+});
+
+const start = async () => {
+  vi.useFakeTimers();
+  const engine = new NarrativeEngine();
+  engine.loadStory(createStory());
+  engine.startSegment('seg_1');
+  await vi.advanceTimersByTimeAsync(0);
+  return engine;
+};
+
+describe('StageManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stages speakers from dialogue add-ons and stage actions across nodes', async () => {
+    const engine = await start();
+    const changes: any[] = [];
+    engine.eventBus.on('stage:changed', ({ changes: list }) => changes.push(...list));
+
+    expect(engine.getCurrentNode()?.id).toBe('greet');
+    expect(engine.stage.getCharacters()).toEqual([{ characterId: 'char_a', expression: 'neutral', placement: 'left' }]);
+
+    await engine.advance();
+    expect(engine.stage.getCharacters()).toEqual([{ characterId: 'char_a', expression: 'happy', placement: 'left' }]);
+
+    await engine.advance();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(engine.getCurrentNode()?.id).toBe('swap');
+    // Bo 移到左侧，原本站在左侧的 Ada 退场
+    expect(engine.stage.getCharacters()).toEqual([{ characterId: 'char_b', expression: 'neutral', placement: 'left' }]);
+    expect(changes).toEqual([
+      { kind: 'expression', characterId: 'char_a', expression: 'happy' },
+      { kind: 'enter', characterId: 'char_b', transition: 'slide' },
+      { kind: 'expression', characterId: 'char_a', expression: 'neutral' },
+      { kind: 'exit', characterId: 'char_a', transition: 'fade' },
+      { kind: 'move', characterId: 'char_b', from: 'right', to: 'left', transition: 'fade' },
+    ]);
+
+    await engine.advance();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(engine.getCurrentNode()?.id).toBe('end');
+    expect(engine.stage.getCharacters()).toEqual([]);
+  });
+
+  it('saves who is on stage and resolves expression sprites', async () => {
+    const engine = await start();
+    await engine.advance();
+    const save = engine.serialize()!;
+    expect(save.stage).toEqual([{ characterId: 'char_a', expression: 'happy', placement: 'left' }]);
+
+    engine.stage.hide();
+    expect(engine.restore(save)).toBe(true);
+    expect(engine.stage.getCharacters()).toEqual(save.stage);
+
+    const [ada, bo] = createStory().characters;
+    expect(getCharacterSprite(ada, 'happy')).toBe('ada_happy.png');
+    expect(getCharacterSprite(ada, 'angry')).toBe('ada_neutral.png');
+    expect(getCharacterSprite(bo, 'happy')).toBe('bo.png');
+  });
+});
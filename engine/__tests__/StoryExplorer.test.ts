@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { StoryExplorer } from '../StoryExplorer';
+import { PlaythroughRunner } from '../PlaythroughRunner';
+import { NodeType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const dialogue = (id: string, choices: string[] = []) =>
+  node(id, NodeType.DIALOGUE, { characterId: '', text: id, choices: choices.map(c => ({ id: c, text: c })) });
+
+const hotspot = (id: string) => ({ id, name: id, rect: { x: 0, y: 0, w: 10, h: 10 } });
+
+const click = (id: string, hotspotId: string) => ({ id, type: 'interaction', trigger: 'onClick', label: id, targetId: hotspotId });
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_explore',
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    hall: node('hall', NodeType.LOCATION, {
+      backgroundImage: '',
+      hotspots: [hotspot('hs_door'), hotspot('hs_mirror')],
+      events: [click('evt_door', 'hs_door'), click('evt_mirror', 'hs_mirror')],
+    }),
+    door: dialogue('door', ['c_leave', 'c_wait']),
+    outro: dialogue('outro'),
+    mirror: dialogue('mirror', ['c_stare']),
+    stare: dialogue('stare', ['c_again']),
+    orphan: dialogue('orphan'),
+  }, [
+    { id: 'e_start', sourceNodeId: 'start', targetNodeId: 'hall' },
+    { id: 'e_door', sourceNodeId: 'hall', sourceHandleId: 'evt_door', targetNodeId: 'door' },
+    { id: 'e_leave', sourceNodeId: 'door', sourceHandleId: 'c_leave', targetNodeId: 'outro' },
+    { id: 'e_wait', sourceNodeId: 'door', sourceHandleId: 'c_wait', targetNodeId: 'door' },
+    { id: 'e_mirror', sourceNodeId: 'hall', sourceHandleId: 'evt_mirror', targetNodeId: 'mirror' },
+    { id: 'e_stare', sourceNodeId: 'mirror', sourceHandleId: 'c_stare', targetNodeId: 'stare' },
+    { id: 'e_again', sourceNodeId: 'stare', sourceHandleId: 'c_again', targetNodeId: 'mirror' },
+  ])],
+});
+
+describe('StoryExplorer', () => {
+  it('reports endings with witnesses, unreachable nodes and loops without exit', async () => {
+    const story = createStory();
+    const report = await new StoryExplorer(story, { quietMs: 10 }).explore();
+
+    expect(report.truncated).toEqual({ depth: false, states: false });
+    expect(report.endings).toEqual([
+      { kind: 'end', nodeId: 'outro', witness: [{ click: 'hs_door' }, { choice: 'c_leave' }, { advance: true }] },
+    ]);
+    expect(report.unreachableNodeIds).toEqual(['orphan']);
+    expect(report.traps).toEqual([{ kind: 'loop', nodeIds: ['mirror', 'stare'], witness: [{ click: 'hs_mirror' }] }]);
+
+    // Witnesses replay through the headless runner
+    const replay = await new PlaythroughRunner(story, { quietMs: 150 }).run({
+      steps: report.endings[0].witness,
+      expect: { ended: true, nodeId: 'outro' },
+    });
+    expect(replay.failures).toEqual([]);
+  });
+
+  it('flags truncated searches instead of reporting traps', async () => {
+    const report = await new StoryExplorer(createStory(), { quietMs: 10, maxDepth: 1 }).explore();
+
+    expect(report.truncated.depth).toBe(true);
+    expect(report.traps).toEqual([]);
+  });
+});
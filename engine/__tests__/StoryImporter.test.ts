@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { expressionToCondition, importStory, migrateStory, STORY_FORMAT_VERSION } from '../StoryImporter';
+import sampleStory from '../sample_story.json';
+
+const legacyStory = () => ({
+  id: 'story_legacy',
+  title: 'Legacy',
+  activeSegmentId: 'seg_1',
+  globalVariables: [
+    { id: 'var_gold', name: 'gold', type: 'number', defaultValue: 5 },
+    { id: 'var_door', name: '门已开', type: 'boolean', defaultValue: false },
+  ],
+  attributes: [{ id: 'attr_hp', key: 'gold', name: 'HP', type: 'number', defaultValue: 10 }],
+  characters: [],
+  items: [{ id: 'item_key', name: 'Key', description: '' }],
+  clues: [],
+  segments: [{
+    id: 'seg_1',
+    name: 'Hall',
+    rootNodeId: 'start',
+    nodes: {
+      start: { id: 'start', type: 'START', name: 'Start', position: { x: 0, y: 0 }, size: { x: 100, y: 60 } },
+      pay: {
+        id: 'pay',
+        type: 'ACTION',
+        name: 'Pay',
+        position: { x: 0, y: 0 },
+        size: { x: 100, y: 60 },
+        actions: [
+          { type: 'UPDATE_ATTRIBUTE', attributeId: 'var_gold', op: 'sub', value: 2 },
+          { id: 'a2', type: 'ADD_ITEM', params: { itemId: 'item_key' } },
+          { id: 'a3', type: 'TELEPORT', params: {} },
+        ],
+      },
+      hall: {
+        id: 'hall',
+        type: 'LOCATION',
+        name: 'Hall',
+        position: { x: 0, y: 0 },
+        size: { x: 100, y: 60 },
+        backgroundImage: '',
+        hotspots: [{ id: 'hs_1', name: 'Door', rect: { x: 0, y: 0, w: 10, h: 10 }, visibleIf: "!hasItem('item_key')" }],
+        events: [{ id: 'evt_1', type: 'interaction', trigger: 'onClick', label: 'Open', condition: 'gold * 2 > 3', actions: [] }],
+      },
+    },
+    edges: [
+      { id: 'e1', sourceNodeId: 'start', targetNodeId: 'pay', condition: "gold >= 2 && (var_door || questState('q_main') != 'failed')" },
+      { id: 'e2', sourceNodeId: 'pay', targetNodeId: 'hall', condition: ' ' },
+      { id: 'e3', sourceNodeId: 'hall', targetNodeId: 'start', condition: '3 > gold' },
+    ],
+  }],
+});
+
+describe('StoryImporter', () => {
+  it('migrates a legacy export through every format version', () => {
+    const result = importStory(JSON.stringify(legacyStory()));
+    expect(result.errors).toEqual([]);
+    expect(result.fromVersion).toBe(1);
+    const story = result.story!;
+    expect(story.formatVersion).toBe(STORY_FORMAT_VERSION);
+
+    // 全局变量 → 属性：沿用 id，key 冲突或不是标识符时改用其它 key
+    expect(story.globalVariables).toEqual([]);
+    expect(story.attributes.map(a => [a.id, a.key])).toEqual([['attr_hp', 'gold'], ['var_gold', 'gold_2'], ['var_door', 'var_door']]);
+    expect(story).toMatchObject({ description: '', shops: [] });
+
+    // 平铺的旧版参数收进 params，并补上 id 与注册表默认值
+    const [pay, addItem, unknown] = (story.segments[0].nodes.pay as any).actions;
+    expect(pay).toEqual({ id: 'act_migrated_1', type: 'UPDATE_ATTRIBUTE', params: { attributeId: 'var_gold', op: 'sub', value: 2 } });
+    expect(addItem.params).toEqual({ itemId: 'item_key', count: 1 });
+    expect(unknown.params).toEqual({});
+
+    const [e1, e2, e3] = story.segments[0].edges;
+    // 单个条件转换为 Inspector 可编辑的结构化条件，属性 key 换成 id
+    expect(e3.condition).toEqual({ type: 'ATTR_COMPARE', params: { attributeId: 'attr_hp', operator: '<', value: 3 } });
+    expect(e2.condition).toBeUndefined();
+    const hall = story.segments[0].nodes.hall as any;
+    expect(hall.hotspots[0].visibleIf).toEqual({ type: 'HAS_ITEM', params: { itemId: 'item_key', count: 1 }, negate: true });
+    // 组合条件与含算术的条件保留为表达式，仍可在表达式输入框里编辑
+    expect(e1.condition).toBe("gold >= 2 && (var_door || questState('q_main') != 'failed')");
+    expect(hall.events[0].condition).toBe('gold * 2 > 3');
+
+    expect(result.notes).toEqual([
+      '2 个全局变量已转换为属性',
+      '2 个动作已补全为注册表格式',
+      '未知的动作类型（保留原样）: TELEPORT',
+      '2 个字符串条件已转换为结构化条件',
+      '2 个条件保留为表达式: "gold >= 2 && (var_door || questState(\'q_main\') != \'failed\')", "gold * 2 > 3"',
+    ]);
+    expect(expressionToCondition(e1.condition as string)).toEqual({
+      type: 'LOGIC_AND',
+      children: [
+        { type: 'ATTR_COMPARE', params: { attributeId: 'gold', operator: '>=', value: 2 } },
+        {
+          type: 'LOGIC_OR',
+          children: [
+            { type: 'CHECK_FLAG', params: { key: 'var_door', expected: true } },
+            { type: 'QUEST_STATE', params: { questId: 'q_main', status: 'failed' }, negate: true },
+          ],
+        },
+      ],
+    });
+    expect(expressionToCondition("3 < attr('trust', 'char_a')")).toEqual({
+      type: 'ATTR_COMPARE',
+      params: { attributeId: 'trust', characterId: 'char_a', operator: '>', value: 3 },
+    });
+  });
+
+  it('reports schema errors with JSON pointer paths and rejects unsupported input', () => {
+    const broken: any = legacyStory();
+    broken.formatVersion = STORY_FORMAT_VERSION;
+    broken.segments[0].nodes.pay.type = 'PAUSE';
+    broken.segments[0].nodes.hall.hotspots[0].rect = { x: 0, y: 0, w: '10' };
+    delete broken.segments[0].edges[0].targetNodeId;
+    broken.items[0].name = 7;
+
+    const result = migrateStory(broken);
+    expect(result.story).toBeNull();
+    expect(result.notes).toEqual([]);
+    expect(result.errors).toEqual([
+      { path: '/items/0/name', message: '应为 string，实际为 number' },
+      { path: '/segments/0/nodes/pay/type', message: expect.stringContaining('实际为 "PAUSE"') },
+      { path: '/segments/0/nodes/hall/hotspots/0/rect/h', message: '缺少必填字段' },
+      { path: '/segments/0/nodes/hall/hotspots/0/rect/w', message: '应为 number，实际为 string' },
+      { path: '/segments/0/edges/0/targetNodeId', message: '缺少必填字段' },
+    ]);
+
+    expect(importStory('{ not json').errors[0].message).toContain('不是有效的 JSON');
+    expect(migrateStory({ ...legacyStory(), formatVersion: STORY_FORMAT_VERSION + 1 }).errors[0].path).toBe('/formatVersion');
+
+    // 当前版本的示例剧本原样通过
+    const sample = migrateStory(sampleStory);
+    expect(sample.errors).toEqual([]);
+    expect(sample.notes).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { validateStory } from '../StoryValidator';
+import { createDefaultConditionRegistry } from '../logic/builtins/conditions';
+import { NodeType, StoryAsset } from '../../types';
+import { buildSegment, buildStory, node } from './fixtures';
+
+const createStory = (): StoryAsset => buildStory({
+  id: 'story_lint',
+  attributes: [{ id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 0 }],
+  items: [{ id: 'item_key', name: 'Key', description: '' }],
+  segments: [buildSegment({
+    start: node('start', NodeType.START),
+    talk: node('talk', NodeType.DIALOGUE, { characterId: '', text: 'hi', choices: [{ id: 'c_yes', text: 'Yes' }] }),
+    done: node('done', NodeType.DIALOGUE, { characterId: '', text: 'bye', choices: [] }),
+  }, [
+    { id: 'e1', sourceNodeId: 'start', targetNodeId: 'talk' },
+    { id: 'e2', sourceNodeId: 'talk', sourceHandleId: 'c_yes', targetNodeId: 'done' },
+  ])],
+});
+
+const codes = (story: StoryAsset) => validateStory(story).map(d => `${d.code}:${d.nodeId || d.edgeId}`);
+
+describe('validateStory', () => {
+  it('reports nothing for a well-formed story', () => {
+    expect(validateStory(createStory())).toEqual([]);
+  });
+
+  it('flags broken edges, dangling choices and unreachable nodes', () => {
+    const story = createStory();
+    const seg = story.segments[0];
+    seg.edges = [
+      seg.edges[0],
+      { id: 'e_bad', sourceNodeId: 'talk', targetNodeId: 'ghost' },
+    ];
+
+    expect(codes(story)).toEqual(expect.arrayContaining([
+      'EDGE_MISSING_TARGET:talk',
+      'CHOICE_WITHOUT_EDGE:talk',
+      'NODE_UNREACHABLE:done',
+    ]));
+  });
+
+  it('treats JUMP entry nodes as reachable and flags missing jump targets', () => {
+    const story = createStory();
+    story.segments.push({
+      id: 'seg_2',
+      name: 'Chapter 2',
+      rootNodeId: 's2_start',
+      nodes: {
+        s2_start: node('s2_start', NodeType.START),
+        s2_bad_jump: node('s2_bad_jump', NodeType.JUMP, { targetSegmentId: '' }),
+        s2_jump: node('s2_jump', NodeType.JUMP, { targetSegmentId: 'seg_1', targetNodeId: 'done' }),
+      },
+      edges: [
+        { id: 's2_e1', sourceNodeId: 's2_start', targetNodeId: 's2_bad_jump' },
+        { id: 's2_e2', sourceNodeId: 's2_start', targetNodeId: 's2_jump' },
+      ],
+    });
+    story.segments[0].edges.pop();
+
+    const result = codes(story);
+    expect(result).toContain('JUMP_MISSING_TARGET:s2_bad_jump');
+    expect(result).not.toContain('NODE_UNREACHABLE:done');
+  });
+
+  it('flags deleted entity references, unknown condition types and branches without a default', () => {
+    const story = createStory();
+    const seg = story.segments[0];
+    seg.nodes.act = node('act', NodeType.ACTION, {
+      actions: [
+        { id: 'a1', type: 'ADD_ITEM', params: { itemId: 'item_deleted', count: 1 } },
+        { id: 'a2', type: 'UPDATE_ATTRIBUTE', params: { attributeId: 'coin', op: 'add', value: 1 } },
+      ],
+    });
+    seg.nodes.branch = node('branch', NodeType.BRANCH, { conditions: [{ id: 'cond_1', variableId: 'attr_coin', operator: '>', value: '1' }] });
+    seg.edges.push(
+      { id: 'e3', sourceNodeId: 'done', targetNodeId: 'act', condition: { type: 'NO_SUCH_CONDITION' } },
+      { id: 'e4', sourceNodeId: 'act', targetNodeId: 'branch' },
+      { id: 'e5', sourceNodeId: 'branch', sourceHandleId: 'cond_1', targetNodeId: 'done' },
+    );
+
+    const result = validateStory(story);
+    expect(result.map(d => d.code)).toEqual(['CONDITION_UNKNOWN_TYPE', 'ACTION_MISSING_REFERENCE', 'BRANCH_WITHOUT_DEFAULT']);
+    expect(result[1].message).toContain('item_deleted');
+  });
+
+  it('rejects async conditions in hotspot visibility, which is checked synchronously', () => {
+    const story = createStory();
+    const conditions = createDefaultConditionRegistry();
+    conditions.register({ id: 'DICE_ROLL', async: true, evaluate: async () => true });
+    story.segments[0].nodes.room = node('room', NodeType.LOCATION, {
+      backgroundImage: '',
+      hotspots: [
+        { id: 'hs_1', name: 'Door', rect: { x: 0, y: 0, w: 1, h: 1 }, visibleIf: { type: 'LOGIC_AND', children: [{ type: 'CHECK_FLAG', params: { key: 'coin' } }, { type: 'DICE_ROLL' }] } },
+        { id: 'hs_2', name: 'Window', rect: { x: 0, y: 0, w: 1, h: 1 }, visibleIf: { type: 'CHECK_FLAG', params: { key: 'coin' } } },
+      ],
+    });
+    story.segments[0].edges.push({ id: 'e3', sourceNodeId: 'done', targetNodeId: 'room', condition: { type: 'DICE_ROLL' } });
+
+    const result = validateStory(story, { conditions });
+    expect(result.map(d => `${d.code}:${d.nodeId}`)).toEqual(['CONDITION_ASYNC_NOT_ALLOWED:room']);
+    expect(result[0].message).toContain('Door');
+  });
+
+  it('flags scheduled events with invalid timers, clock times or watched attributes', () => {
+    const story = createStory();
+    story.segments[0].nodes.talk.events = [
+      { id: 'evt_1', type: 'scheduled', trigger: 'onTimer', label: 'Timer', timer: { seconds: 0 }, actions: [] },
+      { id: 'evt_2', type: 'scheduled', trigger: 'onClock', label: 'Clock', clockTime: '25:00', actions: [] },
+      { id: 'evt_3', type: 'scheduled', trigger: 'onAttribute', label: 'Watch', watch: { attributeId: 'coin', operator: '>', value: 5 }, actions: [] },
+      { id: 'evt_4', type: 'scheduled', trigger: 'onAttribute', label: 'Watch', watch: { attributeId: 'attr_gone', operator: '<', value: 1 }, actions: [] },
+    ];
+
+    const result = validateStory(story);
+    expect(result.map(d => d.code)).toEqual(['EVENT_INVALID_SCHEDULE', 'EVENT_INVALID_SCHEDULE', 'EVENT_INVALID_SCHEDULE']);
+    expect(result[2].message).toContain('attr_gone');
+  });
+
+  it('flags malformed dialogue markup and unknown interpolation references', () => {
+    const story = createStory();
+    const talk = story.segments[0].nodes.talk as any;
+    talk.text = 'You have {attr:coin} coins and {item:item_gone.count} {if coin >}...{/if}';
+    talk.choices[0].text = 'Ask {char:char_ghost.name}';
+
+    const messages = validateStory(story).filter(d => d.code === 'TEXT_MARKUP_ERROR').map(d => d.message);
+    expect(messages).toHaveLength(4);
+    expect(messages.join('\n')).toContain('{item:item_gone.count}');
+    expect(messages.join('\n')).toContain('{char:char_ghost.name}');
+  });
+});
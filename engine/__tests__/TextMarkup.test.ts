@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkup, renderMarkup, MarkupContext } from '../TextMarkup';
+import { VariableStore } from '../VariableStore';
+import { StoryAsset } from '../../types';
+
+const createStory = (): StoryAsset => ({
+  id: 'story_markup',
+  title: 'Markup',
+  description: '',
+  activeSegmentId: 'seg_1',
+  globalVariables: [],
+  attributes: [
+    { id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 7 },
+    { id: 'attr_sanity', key: 'sanity', name: 'Sanity', type: 'number', defaultValue: 15 },
+    { id: 'attr_trust', key: 'trust', name: 'Trust', type: 'number', defaultValue: 2, scope: 'character' },
+  ],
+  characters: [{ id: 'char_a', name: 'Alice', description: 'A detective', avatarUrl: '' }],
+  items: [{ id: 'item_key', name: 'Key', description: 'Rusty' }],
+  shops: [],
+  clues: [],
+  segments: [],
+});
+
+const createContext = (): MarkupContext => {
+  const story = createStory();
+  const store = new VariableStore();
+  store.init(story);
+  store.addItem('item_key', 3);
+  return { store, items: story.items, characters: story.characters };
+};
+
+describe('TextMarkup', () => {
+  it('interpolates attributes, items and characters', () => {
+    const context = createContext();
+    const text = renderMarkup('{char:char_a.name} has {attr:coin} coins, {item:item_key.count} {item:key.name}s and trust {attr:char_a.trust}.', context);
+    expect(text.plain).toBe('Alice has 7 coins, 3 Keys and trust 2.');
+    expect(renderMarkup('{char:alice.trust} / {{literal}}', context).plain).toBe('2 / {literal}');
+  });
+
+  it('renders conditional sections against the current state', () => {
+    const context = createContext();
+    const source = 'You feel {if sanity < 20}{color:#f87171}uneasy{/color}{else}fine{/if}.';
+    expect(renderMarkup(source, context).plain).toBe('You feel uneasy.');
+
+    context.store.setAttribute('attr_sanity', 40);
+    expect(renderMarkup(source, context).plain).toBe('You feel fine.');
+  });
+
+  it('splits styled text and pauses into spans', () => {
+    const text = renderMarkup('Wait{pause:500} {shake}{color:red}NOW{/color}{/shake}', createContext());
+    expect(text.spans).toEqual([
+      { kind: 'text', text: 'Wait', color: undefined, shake: undefined },
+      { kind: 'pause', ms: 500 },
+      { kind: 'text', text: ' ', color: undefined, shake: undefined },
+      { kind: 'text', text: 'NOW', color: 'red', shake: true },
+    ]);
+  });
+
+  it('reports malformed tags and keeps their source text', () => {
+    const result = parseMarkup('{bogus} {if coin >}x{/if} {shake}open');
+    expect(result.errors.map(e => e.message)).toEqual([
+      '未知标签 {bogus}',
+      expect.stringContaining('条件无效'),
+      '多余的结束标签 {/if}',
+      '标签 {shake} 没有闭合',
+    ]);
+    expect(renderMarkup('{bogus} {attr:missing}', createContext()).plain).toBe('{bogus} {attr:missing}');
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VariableStore } from '../VariableStore';
+import { EventBus } from '../EventBus';
+import { ActionExecutor } from '../ActionExecutor';
+import { ConditionEngine } from '../logic/ConditionEngine';
+import { createDefaultActionRegistry } from '../logic/builtins/actions';
+import { createDefaultConditionRegistry } from '../logic/builtins/conditions';
+import { ScriptActionType, StoryAsset } from '../../types';
+
+const createStory = (): StoryAsset => ({
+  id: 'story_party',
+  title: 'Party',
+  description: '',
+  activeSegmentId: '',
+  globalVariables: [],
+  attributes: [
+    { id: 'attr_coin', key: 'coin', name: 'Coin', type: 'number', defaultValue: 10 },
+    { id: 'attr_trust', key: 'trust', name: 'Trust', type: 'number', defaultValue: 50, min: 0, max: 100, scope: 'character' },
+  ],
+  characters: [
+    { id: 'char_a', name: 'Alice', avatarUrl: '' },
+    { id: 'char_b', name: 'Bob', avatarUrl: '', attributeDefaults: { attr_trust: 20 } },
+  ],
+  items: [
+    { id: 'item_coin', name: 'Coin', description: '', stackable: true },
+    { id: 'item_letter', name: 'Letter', description: '' },
+  ],
+  shops: [],
+  clues: [
+    { id: 'clue_map', name: 'Map', description: '', revealed: false },
+    { id: 'clue_rumor', name: 'Rumor', description: '', revealed: true, owners: ['char_a'] },
+  ],
+  quests: [{
+    id: 'quest_heist',
+    name: 'Heist',
+    description: '',
+    stages: [
+      { id: 'stage_plan', name: 'Plan', objectives: [{ id: 'obj_map', description: 'Get the map' }, { id: 'obj_bribe', description: 'Bribe the guard', optional: true }] },
+      { id: 'stage_vault', name: 'Vault', objectives: [{ id: 'obj_vault', description: 'Open the vault' }] },
+    ],
+  }],
+  segments: [],
+});
+
+const setup = () => {
+  const bus = new EventBus();
+  const store = new VariableStore();
+  store.setEventBus(bus);
+  store.init(createStory());
+  return { bus, store };
+};
+
+describe('VariableStore character attributes', () => {
+  it('keeps one value per character, seeded from character defaults', () => {
+    const { bus, store } = setup();
+    const changed = vi.fn();
+    bus.on('attribute:changed', changed);
+
+    expect(store.getAttribute('trust', 'char_a')).toBe(50);
+    expect(store.getAttribute('attr_trust', 'char_b')).toBe(20);
+    expect(store.getAttribute('trust')).toBeUndefined();
+
+    store.modifyAttribute('trust', 'add', 80, 'char_b');
+    expect(store.getAttribute('trust', 'char_b')).toBe(100);
+    expect(store.getAttribute('trust', 'char_a')).toBe(50);
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ id: 'attr_trust', characterId: 'char_b', value: 100 }));
+
+    // Writes without a valid owner are rejected; global attributes ignore the owner
+    store.setAttribute('trust', 1);
+    store.setAttribute('trust', 1, 'char_missing');
+    store.setAttribute('coin', 7, 'char_a');
+    expect(store.getAll().characterAttributes).toEqual({ char_a: { attr_trust: 50 }, char_b: { attr_trust: 100 } });
+    expect(store.getAttribute('coin')).toBe(7);
+  });
+
+  it('round-trips character attributes through save snapshots', () => {
+    const { store } = setup();
+    store.setAttribute('trust', 75, 'char_a');
+    const snapshot = store.serialize();
+
+    const { store: fresh } = setup();
+    fresh.restore(snapshot);
+    expect(fresh.getAttribute('trust', 'char_a')).toBe(75);
+
+    fresh.restore({ attributes: {}, inventory: {}, clues: {} });
+    expect(fresh.getAttribute('trust', 'char_b')).toBe(20);
+  });
+
+  it('routes characterId through actions, conditions and expressions', async () => {
+    const { bus, store } = setup();
+    const executor = new ActionExecutor(store, bus, createDefaultActionRegistry());
+    const conditions = new ConditionEngine(createDefaultConditionRegistry(), store, bus);
+
+    await executor.execute({ id: 'a1', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'attr_trust', characterId: 'char_a', op: 'sub', value: 30 } });
+
+    expect(store.getAttribute('trust', 'char_a')).toBe(20);
+    expect(conditions.evaluate({ type: 'ATTR_COMPARE', params: { attributeId: 'attr_trust', characterId: 'char_a', operator: '<', value: 25 } })).toBe(true);
+    expect(conditions.evaluate({ type: 'VAL_COMPARE', params: { left: { var: 'trust', characterId: 'char_b' }, operator: '==', right: 20 } })).toBe(true);
+    expect(conditions.evaluateExpression("attr('trust', 'char_a') < attr('trust', 'char_b') + 1")).toBe(true);
+  });
+});
+
+describe('VariableStore character inventories', () => {
+  it('keeps a private bag per character next to the shared bag', () => {
+    const { bus, store } = setup();
+    const transferred = vi.fn();
+    bus.on('inventory:transferred', transferred);
+
+    store.addItem('item_coin', 5, 'char_a');
+    store.addItem('item_letter', 1);
+    store.addItem('item_coin', 1, 'char_missing');
+    expect(store.getItemCount('item_coin', 'char_a')).toBe(5);
+    expect(store.getItemCount('item_coin')).toBe(0);
+    expect(store.getInventory('char_b')).toEqual({});
+
+    expect(store.transferItem('item_coin', 2, 'char_a', 'char_b')).toBe(true);
+    expect(store.transferItem('item_coin', 9, 'char_a', 'char_b')).toBe(false);
+    expect(store.transferItem('item_letter', 1, undefined, 'char_b')).toBe(true);
+    store.addItem('item_letter', 1);
+    expect(store.transferItem('item_letter', 1, undefined, 'char_b')).toBe(false);
+
+    expect(store.getAll().characterInventories).toEqual({
+      char_a: { item_coin: 3 },
+      char_b: { item_coin: 2, item_letter: 1 },
+    });
+    expect(transferred).toHaveBeenCalledWith({ itemId: 'item_coin', count: 2, fromOwnerId: 'char_a', toOwnerId: 'char_b' });
+
+    const { store: fresh } = setup();
+    fresh.restore(store.serialize());
+    expect(fresh.getInventory('char_b')).toEqual({ item_coin: 2, item_letter: 1 });
+  });
+
+  it('rejects transfers that are not a positive whole count', () => {
+    const { store } = setup();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store.addItem('item_coin', 5, 'char_a');
+    store.addItem('item_letter', 2);
+
+    [-5, 0, 1.5, NaN].forEach(count => {
+      expect(store.transferItem('item_coin', count, 'char_a', 'char_b')).toBe(false);
+    });
+    // 不可堆叠物品一次只能转交一个，即使接收者还没有
+    expect(store.transferItem('item_letter', 2, undefined, 'char_b')).toBe(false);
+
+    expect(store.getInventory('char_a')).toEqual({ item_coin: 5 });
+    expect(store.getInventory('char_b')).toEqual({});
+    expect(store.getInventory()).toEqual({ item_letter: 2 });
+    warn.mockRestore();
+  });
+
+  it('routes owners through item actions, HAS_ITEM and expressions', async () => {
+    const { bus, store } = setup();
+    const executor = new ActionExecutor(store, bus, createDefaultActionRegistry());
+    const conditions = new ConditionEngine(createDefaultConditionRegistry(), store, bus);
+
+    await executor.execute({ id: 'a1', type: ScriptActionType.ADD_ITEM, params: { itemId: 'item_letter', count: 1, ownerId: 'char_a' } });
+    await executor.execute({ id: 'a2', type: ScriptActionType.TRANSFER_ITEM, params: { itemId: 'item_letter', count: 1, fromOwnerId: 'char_a', toOwnerId: 'char_b' } });
+
+    expect(conditions.evaluate({ type: 'HAS_ITEM', params: { itemId: 'item_letter', ownerId: 'char_b' } })).toBe(true);
+    expect(conditions.evaluate({ type: 'HAS_ITEM', params: { itemId: 'item_letter', ownerId: 'char_a' } })).toBe(false);
+    expect(conditions.evaluate({ type: 'HAS_ITEM', params: { itemId: 'item_letter' } })).toBe(false);
+    expect(conditions.evaluateExpression("hasItem('item_letter', 1, 'char_b') && itemCount('item_letter') == 0")).toBe(true);
+  });
+});
+
+describe('VariableStore clues', () => {
+  it('restores clues from the story defaults overlaid with the snapshot', () => {
+    const { store } = setup();
+    const snapshot = store.serialize();
+
+    store.addClue('clue_map', 'char_b');
+    store.removeClue('clue_rumor', 'char_a');
+    store.restore(snapshot);
+    expect(store.hasClue('clue_map')).toBe(false);
+    expect(store.hasClue('clue_rumor', 'char_a')).toBe(true);
+
+    // 存档之后新增的线索保持默认，已删除的线索被忽略
+    store.restore({ attributes: {}, inventory: {}, clues: { clue_map: { revealed: true, owners: ['char_b'] }, clue_gone: { revealed: true, owners: [] } } });
+    expect(store.hasClue('clue_map', 'char_b')).toBe(true);
+    expect(store.hasClue('clue_rumor', 'char_a')).toBe(true);
+    expect(store.hasClue('clue_gone')).toBe(false);
+  });
+});
+
+describe('VariableStore quests', () => {
+  it('advances stages once required objectives are done and can fail and restart', () => {
+    const { bus, store } = setup();
+    const events = vi.fn();
+    ['quest:started', 'quest:stageAdvanced', 'quest:completed', 'quest:failed'].forEach(e => bus.on(e, () => events(e)));
+
+    expect(store.completeObjective('quest_heist', 'obj_map')).toBe(false);
+    expect(store.startQuest('quest_heist')).toBe(true);
+    expect(store.startQuest('quest_missing')).toBe(false);
+
+    // Objectives from a later stage are not accepted yet
+    expect(store.completeObjective('quest_heist', 'obj_vault')).toBe(false);
+    expect(store.completeObjective('quest_heist', 'obj_map')).toBe(true);
+    expect(store.getQuestProgress('quest_heist')).toMatchObject({ status: 'active', stageIndex: 1 });
+
+    expect(store.failQuest('quest_heist')).toBe(true);
+    expect(store.completeObjective('quest_heist', 'obj_vault')).toBe(false);
+    expect(store.startQuest('quest_heist')).toBe(true);
+    expect(store.getQuestProgress('quest_heist')).toEqual({ status: 'active', stageIndex: 0, completedObjectives: [] });
+
+    store.completeObjective('quest_heist', 'obj_map');
+    const { store: fresh } = setup();
+    fresh.restore(store.serialize());
+    expect(fresh.completeObjective('quest_heist', 'obj_vault')).toBe(true);
+    expect(fresh.getQuestProgress('quest_heist')?.status).toBe('completed');
+    expect(fresh.startQuest('quest_heist')).toBe(false);
+
+    expect(events.mock.calls.map(c => c[0])).toEqual(['quest:started', 'quest:stageAdvanced', 'quest:failed', 'quest:started', 'quest:stageAdvanced']);
+  });
+
+  it('keeps optional objectives of passed stages completable until the quest ends', () => {
+    const { store } = setup();
+    store.startQuest('quest_heist');
+    store.completeObjective('quest_heist', 'obj_map');
+    expect(store.getQuestProgress('quest_heist')?.stageIndex).toBe(1);
+
+    // obj_bribe belongs to the passed stage but is optional; obj_map is already done
+    expect(store.completeObjective('quest_heist', 'obj_bribe')).toBe(true);
+    expect(store.completeObjective('quest_heist', 'obj_map')).toBe(false);
+    expect(store.getQuestProgress('quest_heist')).toMatchObject({ status: 'active', stageIndex: 1, completedObjectives: ['obj_map', 'obj_bribe'] });
+
+    store.completeObjective('quest_heist', 'obj_vault');
+    expect(store.getQuestProgress('quest_heist')?.status).toBe('completed');
+  });
+
+  it('drives quests from actions, QUEST_STATE and expressions', async () => {
+    const { bus, store } = setup();
+    const executor = new ActionExecutor(store, bus, createDefaultActionRegistry());
+    const conditions = new ConditionEngine(createDefaultConditionRegistry(), store, bus);
+
+    expect(conditions.evaluate({ type: 'QUEST_STATE', params: { questId: 'quest_heist', status: 'inactive' } })).toBe(true);
+    await executor.execute({ id: 'a1', type: ScriptActionType.START_QUEST, params: { questId: 'quest_heist' } });
+    await executor.execute({ id: 'a2', type: ScriptActionType.COMPLETE_OBJECTIVE, params: { questId: 'quest_heist', objectiveId: 'obj_bribe' } });
+
+    expect(conditions.evaluate({ type: 'QUEST_STATE', params: { questId: 'quest_heist', status: 'active' } })).toBe(true);
+    expect(conditions.evaluate({ type: 'QUEST_STATE', params: { questId: 'quest_heist', objectiveId: 'obj_bribe' } })).toBe(true);
+    expect(conditions.evaluateExpression("objectiveDone('quest_heist', 'obj_bribe') && !objectiveDone('quest_heist', 'obj_map')")).toBe(true);
+
+    await executor.execute({ id: 'a3', type: ScriptActionType.FAIL_QUEST, params: { questId: 'quest_heist' } });
+    expect(conditions.evaluateExpression("questState('quest_heist') == 'failed'")).toBe(true);
+  });
+});
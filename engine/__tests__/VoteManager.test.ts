@@ -0,0 +1,105 @@
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { NarrativeEngine } from '../NarrativeEngine';
+import { NodeType, StoryAsset, VoteConfig } from '../../types';
+import { buildSegment, buildStory, node, settle } from './fixtures';
+
+const createStory = (config: Partial<VoteConfig> = {}): StoryAsset => buildStory({
+  id: 'story_vote',
+  attributes: [{ id: 'attr_score', key: 'score', name: 'Score', type: 'number', defaultValue: 0 }],
+  segments: [buildSegment({
+    vote: node('vote', NodeType.VOTE, {
+      voteConfig: {
+        title: 'Who did it?',
+        duration: 30,
+        strategy: 'majority',
+        options: [
+          { id: 'opt_butler', text: 'Butler', isCorrect: true, score: 10 },
+          { id: 'opt_maid', text: 'Maid', score: 1 },
+        ],
+        ...config,
+      },
+    }),
+    butler: node('butler', NodeType.DIALOGUE, { characterId: '', text: 'butler', choices: [] }),
+    maid: node('maid', NodeType.DIALOGUE, { characterId: '', text: 'maid', choices: [] }),
+    undecided: node('undecided', NodeType.DIALOGUE, { characterId: '', text: 'undecided', choices: [] }),
+  }, [
+    { id: 'e_butler', sourceNodeId: 'vote', sourceHandleId: 'opt_butler', targetNodeId: 'butler' },
+    { id: 'e_maid', sourceNodeId: 'vote', sourceHandleId: 'opt_maid', targetNodeId: 'maid' },
+    { id: 'e_default', sourceNodeId: 'vote', targetNodeId: 'undecided' },
+  ], { name: 'Trial', rootNodeId: 'vote' })],
+});
+
+const startVote = (config: Partial<VoteConfig>, electorate: string[]) => {
+  const engine = new NarrativeEngine();
+  const resolved = vi.fn();
+  engine.eventBus.on('vote:resolved', resolved);
+  engine.voteManager.setElectorate(electorate);
+  engine.loadStory(createStory(config));
+  engine.startSegment('seg_1');
+  return { engine, resolved };
+};
+
+describe('VoteManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves a majority once every voter has cast a ballot', async () => {
+    const { engine, resolved } = startVote({}, ['char_a', 'char_b', 'char_c']);
+
+    engine.castVote('opt_butler', 'char_a');
+    engine.castVote('opt_maid', 'char_b');
+    expect(resolved).not.toHaveBeenCalled();
+    engine.castVote('opt_butler', 'char_c');
+    await settle();
+
+    expect(engine.getCurrentNode()?.id).toBe('butler');
+    expect(resolved.mock.calls[0][0]).toMatchObject({
+      winnerOptionId: 'opt_butler',
+      correct: true,
+      tally: { opt_butler: 2, opt_maid: 1 },
+      timedOut: false,
+    });
+  });
+
+  it('routes a split majority vote through the default port', async () => {
+    const { engine } = startVote({}, ['char_a', 'char_b']);
+
+    engine.castVote('opt_butler', 'char_a');
+    engine.castVote('opt_maid', 'char_b');
+    await settle();
+
+    expect(engine.getCurrentNode()?.id).toBe('undecided');
+  });
+
+  it('resolves with the ballots in hand when the timer runs out', async () => {
+    vi.useFakeTimers();
+    const { engine, resolved } = startVote({ strategy: 'branch' }, ['char_a', 'char_b']);
+
+    engine.castVote('opt_maid', 'char_a');
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(resolved.mock.calls[0][0]).toMatchObject({ winnerOptionId: 'opt_maid', correct: false, timedOut: true });
+    expect(engine.getCurrentNode()?.id).toBe('maid');
+  });
+
+  it('weights ballots by score and awards the total into the score attribute', async () => {
+    const { engine } = startVote({ strategy: 'score', scoreAttributeId: 'attr_score' }, ['char_a', 'char_b', 'char_c']);
+
+    engine.castVote('opt_maid', 'char_a');
+    engine.castVote('opt_maid', 'char_b');
+    engine.castVote('opt_butler', 'char_c');
+    await settle();
+
+    expect(engine.getCurrentNode()?.id).toBe('butler');
+    expect(engine.variableStore.getAttribute('score')).toBe(12);
+  });
+
+  it('rejects ballots from voters outside the electorate', () => {
+    const { engine } = startVote({}, ['player']);
+
+    expect(engine.castVote('opt_butler', 'char_x')).toBe(false);
+    expect(engine.castVote('opt_unknown')).toBe(false);
+    expect(engine.voteManager.isOpen('vote')).toBe(true);
+  });
+});
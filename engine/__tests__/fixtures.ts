@@ -0,0 +1,51 @@
+import { NodeType, SegmentAsset, StoryAsset } from '../../types';
+
+/**
+ * 引擎测试共用的剧本构造工具
+ */
+
+export const node = (id: string, type: NodeType, extra: Record<string, any> = {}) => ({
+  id,
+  type,
+  name: id,
+  position: { x: 0, y: 0 },
+  size: { x: 100, y: 100 },
+  ...extra,
+});
+
+/**
+ * 只含必填字段的空剧本，测试按需覆盖
+ */
+export const buildStory = (overrides: Partial<StoryAsset> = {}): StoryAsset => ({
+  id: 'story_test',
+  title: 'Test',
+  description: '',
+  activeSegmentId: 'seg_1',
+  globalVariables: [],
+  attributes: [],
+  characters: [],
+  items: [],
+  shops: [],
+  clues: [],
+  segments: [],
+  ...overrides,
+});
+
+/**
+ * 默认以 start 节点为起点的章节 seg_1
+ */
+export const buildSegment = (
+  nodes: SegmentAsset['nodes'],
+  edges: SegmentAsset['edges'],
+  overrides: Partial<SegmentAsset> = {}
+): SegmentAsset => ({
+  id: 'seg_1',
+  name: 'Chapter 1',
+  rootNodeId: 'start',
+  nodes,
+  edges,
+  ...overrides,
+});
+
+// Routing awaits (possibly async) edge conditions before moving on
+export const settle = () => new Promise(resolve => setTimeout(resolve, 0));
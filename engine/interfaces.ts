@@ -1,5 +1,6 @@
 
-import { NarrativeNode, StoryAsset, AttributeDefinition, Clue, Item } from '../types';
+import { RichText } from './TextMarkup';
+import { NarrativeNode, LocationNode, StoryAsset, AttributeDefinition, Clue, Item, QuestStatus, DialogueChoice, StagePlacement } from '../types';
 
 /**
  * 事件总线接口
@@ -63,6 +64,31 @@ export interface ICommandBus {
   redo(): void;
   canUndo(): boolean;
   canRedo(): boolean;
+  clear(): void;
+}
+
+/**
+ * 任务进度
+ * stageIndex 指向当前阶段；任务完成后等于阶段数
+ */
+export interface QuestProgress {
+  status: QuestStatus;
+  stageIndex: number;
+  completedObjectives: string[];
+}
+
+/**
+ * 变量存储快照
+ * 可 JSON 序列化的运行时状态，用于存档
+ */
+export interface VariableStoreSnapshot {
+  attributes: Record<string, any>;
+  characterAttributes?: Record<string, Record<string, any>>; // characterId -> attributeId -> value
+  inventory: Record<string, number>;
+  characterInventories?: Record<string, Record<string, number>>; // characterId -> itemId -> count
+  clues: Record<string, { revealed: boolean; owners: string[] }>;
+  quests?: Record<string, QuestProgress>;
+  clock?: number; // 故事时钟（分钟）
 }
 
 /**
@@ -79,16 +105,24 @@ export interface IVariableStore {
   getAll(): Record<string, any>;
   evaluateCondition(condition: string): boolean;
 
+  // --- Save / Load ---
+  serialize(): VariableStoreSnapshot;
+  restore(snapshot: VariableStoreSnapshot): void;
+
   // --- Attribute System ---
-  setAttribute(key: string, value: any): void;
-  getAttribute(key: string): any;
-  modifyAttribute(key: string, operator: 'add' | 'sub' | 'set', value: number): void;
+  // 角色属性 (scope: 'character') 需要传入 characterId；全局属性忽略 characterId
+  setAttribute(key: string, value: any, characterId?: string): void;
+  getAttribute(key: string, characterId?: string): any;
+  modifyAttribute(key: string, operator: 'add' | 'sub' | 'set', value: number, characterId?: string): void;
 
   // --- Inventory System ---
-  addItem(itemId: string, count?: number): void;
-  removeItem(itemId: string, count?: number): void;
-  getItemCount(itemId: string): number;
-  hasItem(itemId: string, count?: number): boolean;
+  // ownerId 为角色 ID 时操作该角色的私人背包，省略时操作共享背包
+  addItem(itemId: string, count?: number, ownerId?: string): void;
+  removeItem(itemId: string, count?: number, ownerId?: string): void;
+  transferItem(itemId: string, count?: number, fromOwnerId?: string, toOwnerId?: string): boolean;
+  getItemCount(itemId: string, ownerId?: string): number;
+  hasItem(itemId: string, count?: number, ownerId?: string): boolean;
+  getInventory(ownerId?: string): Record<string, number>;
 
   // --- Knowledge System (Clues) ---
   addClue(clueId: string, characterId?: string): void;
@@ -96,6 +130,69 @@ export interface IVariableStore {
   shareClue(clueId: string, fromCharacterId: string, toCharacterId: string): void;
   hasClue(clueId: string, characterId?: string): boolean;
   isClueRevealed(clueId: string): boolean;
+
+  // --- Quest System ---
+  startQuest(questId: string): boolean;
+  completeObjective(questId: string, objectiveId: string): boolean;
+  failQuest(questId: string): boolean;
+  getQuestProgress(questId: string): QuestProgress | null;
+
+  // --- Story Clock ---
+  getClock(): number;
+  advanceClock(minutes: number): void;
+}
+
+/**
+ * 商店库存快照
+ * shopId -> itemId -> 剩余数量 (null 表示无限)
+ */
+export type ShopStockSnapshot = Record<string, Record<string, number | null>>;
+
+/**
+ * 舞台上的角色（按登场顺序，后登场的在上层）
+ */
+export interface StageCharacter {
+  characterId: string;
+  expression: string;
+  placement: StagePlacement;
+}
+
+/**
+ * 存档数据 (版本化)
+ * version 变化时需在 SaveManager 中处理兼容
+ */
+export interface SaveGameData {
+  version: number;
+  storyId: string;
+  savedAt: number;
+  segmentId: string | null;
+  nodeId: string | null;
+  sceneNodeId: string | null;
+  variables: VariableStoreSnapshot;
+  shops?: ShopStockSnapshot; // 缺省时恢复为初始库存
+  stage?: StageCharacter[]; // 缺省时舞台为空
+}
+
+/**
+ * 存档存储适配器接口
+ * 默认使用 localStorage，测试与无头运行可替换为内存实现
+ */
+export interface ISaveStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * 对话选项在当前状态下的可见 / 可选状态
+ * reason 仅在禁用时给出，供界面提示
+ */
+export interface ChoiceState {
+  choice: DialogueChoice;
+  visible: boolean;
+  enabled: boolean;
+  reason?: string;
 }
 
 /**
@@ -111,8 +208,9 @@ export interface INarrativeEngine {
   
   /**
    * 开始运行指定段落
+   * @param entryNodeId 可选入口节点，未指定时从段落根节点开始
    */
-  startSegment(segmentId: string): NarrativeNode | null;
+  startSegment(segmentId: string, entryNodeId?: string): NarrativeNode | null;
   
   /**
    * 跳转到特定节点
@@ -121,14 +219,49 @@ export interface INarrativeEngine {
   
   /**
    * 推进剧情
-   * @param choiceId 如果是分支选项，传入选项ID
+   * @param choiceId 如果是分支选项，传入选项ID；选项附带的动作在离开节点前执行
+   * 出边条件可能是异步扩展，因此等待全部条件求值后才返回
+   */
+  advance(choiceId?: string): Promise<NarrativeNode | null>;
+
+  /**
+   * 当前对话节点各选项的可见 / 可选状态（条件可能是异步扩展）
+   * 隐藏或禁用的选项不能通过 advance 选择
+   */
+  getChoiceStates(): Promise<ChoiceState[]>;
+
+  /**
+   * 按当前状态渲染对话文本标记（插值、条件段落、样式与停顿，见 TextMarkup.ts）
    */
-  advance(choiceId?: string): NarrativeNode | null;
+  renderText(text: string): RichText;
   
   /**
    * 触发交互事件 (Phase 2 ECA)
+   * @param locals 事件局部变量，可在事件及其出边条件中引用（如 usedItem）
+   * @returns 是否有事件通过条件并执行
    */
-  triggerEvent(trigger: string, targetId?: string): Promise<void>;
+  triggerEvent(trigger: string, targetId?: string, locals?: Record<string, any>): Promise<boolean>;
+
+  /**
+   * 在当前投票节点投票
+   * @param voterId 投票的角色/玩家ID，默认 'player'
+   */
+  castVote(optionId: string, voterId?: string): boolean;
 
   getCurrentNode(): NarrativeNode | null;
+
+  /**
+   * 当前所在场景（最近进入的 Location 节点）
+   */
+  getCurrentScene(): LocationNode | null;
+
+  /**
+   * 导出当前运行状态为存档
+   */
+  serialize(): SaveGameData | null;
+
+  /**
+   * 从存档恢复运行状态（不会重新触发 onEnter 事件）
+   */
+  restore(save: SaveGameData): boolean;
 }
@@ -2,6 +2,7 @@ import { LogicConditionNode } from '../../types';
 import { ConditionRegistry } from './ConditionRegistry';
 import { ConditionContext, ConditionExtension } from './types';
 import { IEventBus, IVariableStore } from '../interfaces';
+import { evaluateExpression, createStoreExpressionContext } from './Expression';
 
 export class ConditionEngine {
   constructor(
@@ -33,7 +34,57 @@ export class ConditionEngine {
     return node.negate ? !resolved : resolved;
   }
 
-  evaluateLegacy(expression: string): boolean {
-    return this.variableStore.evaluateCondition(expression);
+  /**
+   * 异步管线：等待扩展返回的 Promise（骰子动画、玩家输入、外部规则服务等）
+   * 子条件同样走异步管线；扩展抛错视为不通过
+   */
+  async evaluateAsync(node?: LogicConditionNode, context?: Partial<ConditionContext>): Promise<boolean> {
+    if (!node) return true;
+
+    const mergedContext: ConditionContext = {
+      variableStore: this.variableStore,
+      eventBus: this.eventBus,
+      scope: context?.scope,
+      resolveValue: context?.resolveValue,
+      evaluate: (child) => this.evaluateAsync(child, context),
+    };
+
+    let resolved: boolean;
+    try {
+      resolved = !!(await this.registry.evaluate(node, mergedContext));
+    } catch (error) {
+      console.error(`[ConditionEngine] Async condition ${node.type} failed`, error);
+      resolved = false;
+    }
+
+    return node.negate ? !resolved : resolved;
+  }
+
+  /**
+   * 边 / 事件上的条件：字符串走表达式语言，结构化条件走异步管线
+   * locals 为触发事件时附带的局部变量（如使用物品时的 usedItem）
+   */
+  async check(condition?: string | LogicConditionNode, locals?: Record<string, any>): Promise<boolean> {
+    if (!condition) return true;
+    return typeof condition === 'string'
+      ? this.evaluateExpression(condition, locals)
+      : this.evaluateAsync(condition, locals ? { resolveValue: key => locals[key] } : undefined);
+  }
+
+  /**
+   * 同步检查（热点可见性等需要在渲染时求值的场合）
+   */
+  checkSync(condition?: string | LogicConditionNode): boolean {
+    if (!condition) return true;
+    return typeof condition === 'string'
+      ? this.evaluateExpression(condition)
+      : this.evaluate(condition);
+  }
+
+  /**
+   * 字符串条件：按表达式语言解析求值 (见 Expression.ts)
+   */
+  evaluateExpression(expression: string, locals?: Record<string, any>): boolean {
+    return evaluateExpression(expression, createStoreExpressionContext(this.variableStore, locals));
   }
 }
@@ -0,0 +1,325 @@
+/**
+ * 条件表达式语言
+ * 支持: && || ! 括号、四则运算与取模、比较 (== != > >= < <= contains)、
+ * 数字 / 字符串 / 布尔字面量、属性引用 ($key 或裸标识符) 以及函数调用 hasItem('key')、attr('trust', 'char_a')
+ * 事件局部变量（如使用物品时的 usedItem）与属性引用写法相同
+ *
+ * 解析错误携带字符区间 [start, end)，供编辑器标注
+ */
+import { IVariableStore } from '../interfaces';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any; start: number; end: number }
+  | { kind: 'ref'; name: string; bare?: boolean; start: number; end: number } // bare: 不带 $ 的标识符
+  | { kind: 'unary'; op: '!' | '-'; operand: ExpressionNode; start: number; end: number }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode; start: number; end: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; start: number; end: number };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+export interface ExpressionContext {
+  resolveRef(name: string): any;
+  functions: Record<string, (...args: any[]) => any>;
+}
+
+export interface ParseResult {
+  ok: boolean;
+  ast?: ExpressionNode;
+  error?: ExpressionError;
+}
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'string' | 'ident' | 'ref' | 'op' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!', '+', '-', '*', '/', '%'];
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const start = i;
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const text = source.slice(start, i);
+      if (isNaN(Number(text))) throw new ExpressionError(`无效的数字 "${text}"`, start, i);
+      tokens.push({ type: 'number', value: text, start, end: i });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) throw new ExpressionError('字符串缺少结束引号', start, source.length);
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    if (ch === '$' || /[A-Za-z_]/.test(ch)) {
+      const start = i;
+      if (ch === '$') i++;
+      const nameStart = i;
+      while (i < source.length && /\w/.test(source[i])) i++;
+      if (i === nameStart) throw new ExpressionError('$ 后缺少属性名', start, i);
+      const name = source.slice(nameStart, i);
+      tokens.push({ type: ch === '$' ? 'ref' : 'ident', value: name, start, end: i });
+      continue;
+    }
+
+    if (ch === '(') { tokens.push({ type: 'lparen', value: ch, start: i, end: i + 1 }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', value: ch, start: i, end: i + 1 }); i++; continue; }
+    if (ch === ',') { tokens.push({ type: 'comma', value: ch, start: i, end: i + 1 }); i++; continue; }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (op) {
+      tokens.push({ type: 'op', value: op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    throw new ExpressionError(`无法识别的字符 "${ch}"`, i, i + 1);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+};
+
+// --- Parser (recursive descent, lowest precedence first) ---
+
+const BINARY_LEVELS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['>', '>=', '<', '<=', 'contains'],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.type !== 'eof') throw new ExpressionError(`多余的内容 "${next.value}"`, next.start, next.end);
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private matchOperator(ops: string[]): Token | null {
+    const token = this.peek();
+    // `contains` is a word operator, tokenized as an identifier
+    const isOp = token.type === 'op' || (token.type === 'ident' && token.value === 'contains');
+    if (isOp && ops.includes(token.value)) return this.next();
+    return null;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    let op = this.matchOperator(BINARY_LEVELS[level]);
+    while (op) {
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', op: op.value, left, right, start: left.start, end: right.end };
+      op = this.matchOperator(BINARY_LEVELS[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const op = this.matchOperator(['!', '-']);
+    if (op) {
+      const operand = this.parseUnary();
+      return { kind: 'unary', op: op.value as '!' | '-', operand, start: op.start, end: operand.end };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+      case 'ref':
+        return { kind: 'ref', name: token.value, start: token.start, end: token.end };
+      case 'ident': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', start: token.start, end: token.end };
+        }
+        if (token.value === 'null') return { kind: 'literal', value: null, start: token.start, end: token.end };
+        if (this.peek().type === 'lparen') return this.parseCall(token);
+        return { kind: 'ref', name: token.value, bare: true, start: token.start, end: token.end };
+      }
+      case 'lparen': {
+        const inner = this.parseBinary(0);
+        const close = this.next();
+        if (close.type !== 'rparen') throw new ExpressionError('缺少右括号 ")"', token.start, close.end);
+        return { ...inner, start: token.start, end: close.end };
+      }
+      case 'eof':
+        throw new ExpressionError('表达式不完整', token.start, token.end);
+      default:
+        throw new ExpressionError(`意外的 "${token.value}"`, token.start, token.end);
+    }
+  }
+
+  private parseCall(name: Token): ExpressionNode {
+    this.next(); // (
+    const args: ExpressionNode[] = [];
+    if (this.peek().type !== 'rparen') {
+      args.push(this.parseBinary(0));
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.parseBinary(0));
+      }
+    }
+    const close = this.next();
+    if (close.type !== 'rparen') throw new ExpressionError(`函数 ${name.value} 缺少右括号 ")"`, name.start, close.end);
+    return { kind: 'call', name: name.value, args, start: name.start, end: close.end };
+  }
+}
+
+export const parseExpression = (source: string): ParseResult => {
+  try {
+    return { ok: true, ast: new Parser(tokenize(source)).parse() };
+  } catch (e) {
+    if (e instanceof ExpressionError) return { ok: false, error: e };
+    throw e;
+  }
+};
+
+// --- Evaluator ---
+
+const TEXT_COMPARISONS = ['==', '!=', 'contains'];
+
+/**
+ * 旧版条件把比较右侧不带引号的值当作字符串（name == Alice）：
+ * 右侧裸标识符找不到属性或局部变量时，按其文本比较
+ */
+const evaluateComparand = (node: Extract<ExpressionNode, { kind: 'binary' }>, context: ExpressionContext): any => {
+  const value = evaluateAst(node.right, context);
+  if (value === undefined && node.right.kind === 'ref' && node.right.bare && TEXT_COMPARISONS.includes(node.op)) return node.right.name;
+  return value;
+};
+
+export const evaluateAst = (node: ExpressionNode, context: ExpressionContext): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'ref':
+      return context.resolveRef(node.name);
+    case 'unary': {
+      const value = evaluateAst(node.operand, context);
+      return node.op === '!' ? !value : -Number(value);
+    }
+    case 'call': {
+      const fn = context.functions[node.name];
+      if (!fn) throw new ExpressionError(`未知函数 ${node.name}`, node.start, node.end);
+      return fn(...node.args.map(arg => evaluateAst(arg, context)));
+    }
+    case 'binary': {
+      // Short-circuit logic operators
+      if (node.op === '&&') return !!evaluateAst(node.left, context) && !!evaluateAst(node.right, context);
+      if (node.op === '||') return !!evaluateAst(node.left, context) || !!evaluateAst(node.right, context);
+
+      const left = evaluateAst(node.left, context);
+      const right = evaluateComparand(node, context);
+      switch (node.op) {
+        case '==': return left == right; // eslint-disable-line eqeqeq
+        case '!=': return left != right; // eslint-disable-line eqeqeq
+        case '>': return Number(left) > Number(right);
+        case '>=': return Number(left) >= Number(right);
+        case '<': return Number(left) < Number(right);
+        case '<=': return Number(left) <= Number(right);
+        case 'contains': return String(left ?? '').includes(String(right ?? ''));
+        case '+': return typeof left === 'string' || typeof right === 'string' ? `${left ?? ''}${right ?? ''}` : Number(left) + Number(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+        default:
+          throw new ExpressionError(`未知运算符 ${node.op}`, node.start, node.end);
+      }
+    }
+  }
+};
+
+/**
+ * 基于 VariableStore 的默认求值上下文
+ * 裸标识符与 $key 均按属性 id / key 查找；locals 为事件附带的局部变量（如 usedItem），优先于同名属性
+ */
+export const createStoreExpressionContext = (store: IVariableStore, locals?: Record<string, any>): ExpressionContext => ({
+  resolveRef: (name) => locals && name in locals ? locals[name] : store.getAttribute(name),
+  functions: {
+    hasItem: (itemId: string, count: number = 1, ownerId?: string) => store.hasItem(String(itemId), Number(count), ownerId === undefined ? undefined : String(ownerId)),
+    itemCount: (itemId: string, ownerId?: string) => store.getItemCount(String(itemId), ownerId === undefined ? undefined : String(ownerId)),
+    hasClue: (clueId: string, characterId?: string) => store.hasClue(String(clueId), characterId === undefined ? undefined : String(characterId)),
+    attr: (key: string, characterId?: string) => store.getAttribute(String(key), characterId === undefined ? undefined : String(characterId)),
+    questState: (questId: string) => store.getQuestProgress(String(questId))?.status,
+    objectiveDone: (questId: string, objectiveId: string) => !!store.getQuestProgress(String(questId))?.completedObjectives.includes(String(objectiveId))
+  }
+});
+
+const cache: Map<string, ParseResult> = new Map();
+
+/**
+ * 解析并求值（带解析缓存）
+ * 空表达式视为 true；解析 / 求值错误记录警告并返回 false
+ */
+export const evaluateExpression = (source: string, context: ExpressionContext): boolean => {
+  if (!source || source.trim() === '') return true;
+
+  let parsed = cache.get(source);
+  if (!parsed) {
+    parsed = parseExpression(source);
+    cache.set(source, parsed);
+  }
+  if (!parsed.ok) {
+    console.warn(`[Expression] ${parsed.error.message} at ${parsed.error.start} in "${source}"`);
+    return false;
+  }
+
+  try {
+    return !!evaluateAst(parsed.ast, context);
+  } catch (e) {
+    console.warn(`[Expression] Failed to evaluate "${source}"`, e);
+    return false;
+  }
+};
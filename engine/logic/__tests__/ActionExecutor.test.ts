@@ -15,18 +15,28 @@ const createMockStore = () => {
     init: () => {},
     getAll: () => ({}),
     evaluateCondition: () => true,
+    serialize: () => ({ attributes: {}, inventory: {}, clues: {} }),
+    restore: vi.fn(),
     setAttribute: vi.fn(),
     getAttribute: vi.fn(),
     modifyAttribute,
     addItem,
     removeItem,
+    transferItem: vi.fn(),
     getItemCount: () => 0,
     hasItem: () => false,
+    getInventory: () => ({}),
     addClue: vi.fn(),
     removeClue: vi.fn(),
     shareClue: vi.fn(),
     hasClue: () => false,
     isClueRevealed: () => false,
+    startQuest: vi.fn(),
+    completeObjective: vi.fn(),
+    failQuest: vi.fn(),
+    getQuestProgress: () => null,
+    getClock: () => 0,
+    advanceClock: vi.fn(),
   };
 
   return { store, modifyAttribute, addItem, removeItem };
@@ -53,7 +63,7 @@ describe('ActionExecutor', () => {
     const executor = new ActionExecutor(store, bus, createDefaultActionRegistry());
 
     await executor.execute({ id: 'a1', type: ScriptActionType.UPDATE_ATTRIBUTE, params: { attributeId: 'hp', op: 'add', value: 5 } });
-    expect(modifyAttribute).toHaveBeenCalledWith('hp', 'add', 5);
+    expect(modifyAttribute).toHaveBeenCalledWith('hp', 'add', 5, undefined);
 
     await executor.execute({ id: 'a2', type: ScriptActionType.SHOW_TOAST, params: { message: 'hi' } });
     expect(emit).toHaveBeenCalledWith('ui:toast', { message: 'hi', duration: undefined });
@@ -14,6 +14,8 @@ const createStore = () => {
     init: () => {},
     getAll: () => ({ attributes, inventory, clues }),
     evaluateCondition: () => true,
+    serialize: () => ({ attributes: { ...attributes }, inventory: { ...inventory }, clues: {} }),
+    restore: () => {},
     setAttribute: (key, value) => { attributes[key] = value; },
     getAttribute: (key) => attributes[key],
     modifyAttribute: (key, op, value) => {
@@ -24,8 +26,10 @@ const createStore = () => {
     },
     addItem: (id, count = 1) => { inventory[id] = (inventory[id] || 0) + count; },
     removeItem: (id, count = 1) => { inventory[id] = Math.max(0, (inventory[id] || 0) - count); },
+    transferItem: () => false,
     getItemCount: (id) => inventory[id] || 0,
     hasItem: (id, count = 1) => (inventory[id] || 0) >= count,
+    getInventory: () => ({ ...inventory }),
     addClue: (id, characterId) => {
       if (!clues[id]) clues[id] = { revealed: true, owners: new Set() };
       clues[id].revealed = true;
@@ -48,6 +52,12 @@ const createStore = () => {
       return state.owners.has(characterId);
     },
     isClueRevealed: (id) => !!clues[id]?.revealed,
+    startQuest: () => false,
+    completeObjective: () => false,
+    failQuest: () => false,
+    getQuestProgress: () => null,
+    getClock: () => 0,
+    advanceClock: () => {},
   };
 
   return { store, attributes, inventory, clues };
@@ -90,4 +100,25 @@ describe('ConditionEngine', () => {
     expect(engine.evaluate({ type: 'HAS_CLUE', params: { clueId: 'clue_1', characterId: 'char_1' } })).toBe(true);
     expect(engine.evaluate({ type: 'HAS_CLUE', params: { clueId: 'clue_1', characterId: 'char_missing' } })).toBe(false);
   });
+
+  it('awaits async extensions inside logic trees on the async path', async () => {
+    attributes.hp = 10;
+    engine.register({ id: 'ASYNC_FLAG', evaluate: async (node) => !!node.params?.value });
+    engine.register({ id: 'ASYNC_THROWS', evaluate: async () => { throw new Error('rules service down'); } });
+
+    const node: LogicConditionNode = {
+      type: 'LOGIC_AND',
+      children: [
+        { type: 'ASYNC_FLAG', params: { value: true } },
+        { type: 'LOGIC_NOT', children: [{ type: 'ASYNC_FLAG', params: { value: false } }] },
+        { type: 'VAL_COMPARE', params: { left: { var: 'hp' }, operator: '>=', right: 5 } },
+      ],
+    };
+
+    expect(await engine.evaluateAsync(node)).toBe(true);
+    expect(await engine.evaluateAsync({ type: 'ASYNC_FLAG', params: { value: true }, negate: true })).toBe(false);
+    expect(await engine.evaluateAsync({ type: 'ASYNC_THROWS' })).toBe(false);
+    // The sync pipeline still refuses pending promises
+    expect(engine.evaluate(node)).toBe(false);
+  });
 });
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, parseExpression, ExpressionContext } from '../Expression';
+
+const createContext = (): ExpressionContext => {
+  const attributes: Record<string, any> = { coin: 12, hp: 3, name: 'Alice', hasKey: true };
+  const inventory: Record<string, number> = { key: 1, gem: 4 };
+  return {
+    resolveRef: (name) => attributes[name],
+    functions: {
+      hasItem: (id: string, count: number = 1) => (inventory[id] || 0) >= count,
+      itemCount: (id: string) => inventory[id] || 0,
+      hasClue: (clueId: string, characterId?: string) => clueId === 'c1' && (!characterId || characterId === 'char_a'),
+    },
+  };
+};
+
+const run = (source: string) => evaluateExpression(source, createContext());
+
+describe('Expression', () => {
+  it('keeps the legacy single comparison form working', () => {
+    expect(run('coin >= 10')).toBe(true);
+    expect(run('hasKey == true')).toBe(true);
+    expect(run("name == 'Alice'")).toBe(true);
+    expect(run('name == Alice')).toBe(true);
+    expect(run('name != Bob')).toBe(true);
+    expect(run('$name == $Alice')).toBe(false);
+    expect(run('name contains "lic"')).toBe(true);
+    expect(run('hasKey')).toBe(true);
+    expect(run('')).toBe(true);
+  });
+
+  it('supports logic operators, parentheses and precedence', () => {
+    expect(run('$coin > 10 && !($hp > 5)')).toBe(true);
+    expect(run('$hp > 5 || $coin < 5')).toBe(false);
+    expect(run('true || false && false')).toBe(true);
+    expect(run('!(true || false) && false')).toBe(false);
+  });
+
+  it('evaluates arithmetic and string concatenation', () => {
+    expect(run('$coin - $hp * 2 == 6')).toBe(true);
+    expect(run('($coin + 3) / 5 == 3')).toBe(true);
+    expect(run('$coin % 5 == 2')).toBe(true);
+    expect(run('-$hp < 0')).toBe(true);
+    expect(run("$name + '!' == 'Alice!'")).toBe(true);
+  });
+
+  it('calls inventory and clue functions', () => {
+    expect(run("hasItem('key') && itemCount('gem') >= 4")).toBe(true);
+    expect(run("hasItem('gem', 5)")).toBe(false);
+    expect(run("hasClue('c1', 'char_a') && !hasClue('c1', 'char_b')")).toBe(true);
+    expect(run("unknownFn('x')")).toBe(false);
+  });
+
+  it('reports parse errors with source positions', () => {
+    const unclosed = parseExpression('($coin > 1');
+    expect(unclosed.ok).toBe(false);
+    if (!unclosed.ok) expect(unclosed.error.start).toBe(0);
+
+    const stray = parseExpression('$coin > 1 )');
+    expect(stray.ok).toBe(false);
+    if (!stray.ok) expect([stray.error.start, stray.error.end]).toEqual([10, 11]);
+
+    const badChar = parseExpression('$coin # 2');
+    expect(badChar.ok).toBe(false);
+    if (!badChar.ok) expect(badChar.error.start).toBe(6);
+
+    const unterminated = parseExpression("hasItem('key)");
+    expect(unterminated.ok).toBe(false);
+    if (!unterminated.ok) expect(unterminated.error.start).toBe(8);
+
+    expect(run('$coin >')).toBe(false);
+  });
+});
@@ -2,12 +2,15 @@ import { ScriptActionType } from '../../../types';
 import { ActionRegistry } from '../ActionRegistry';
 import { ActionContext, ActionExtension, ActionUIMetadata, ParamType } from '../types';
 import { IEventBus, IVariableStore } from '../../interfaces';
+import { nextClockOccurrence, parseClockTime } from '../../StoryClock';
+import { EffectsManager, SHAKE_INTENSITIES, ShakeIntensity, resolveFilter, toMs } from '../../EffectsManager';
 
 const STRING: ParamType = 'string';
 const NUMBER: ParamType = 'number';
 const SELECT: ParamType = 'select';
 const ENTITY: ParamType = 'entity';
 const NONE: ParamType = 'string';
+const BOOLEAN: ParamType = 'boolean';
 
 class UpdateAttributeAction extends ActionExtension {
   readonly id = ScriptActionType.UPDATE_ATTRIBUTE;
@@ -19,17 +22,19 @@ class UpdateAttributeAction extends ActionExtension {
     colorClass: 'text-purple-400',
     params: [
       { name: 'attributeId', label: '属性', type: ENTITY, entityType: 'attribute' },
+      { name: 'characterId', label: '角色 (角色属性)', type: ENTITY, entityType: 'character' },
       { name: 'op', label: '操作', type: SELECT, options: [{ label: '=', value: 'set' }, { label: '+', value: 'add' }, { label: '-', value: 'sub' }], defaultValue: 'set' },
       { name: 'value', label: '值', type: NUMBER, defaultValue: 0 }
     ]
   };
   execute(params: Record<string, any>, context: ActionContext) {
-    const { attributeId, op = 'set', value } = params;
+    const { attributeId, characterId, op = 'set', value } = params;
     if (!attributeId) return;
+    const owner = characterId ? String(characterId) : undefined;
     if (op === 'set') {
-      context.variableStore.setAttribute(String(attributeId), value);
+      context.variableStore.setAttribute(String(attributeId), value, owner);
     } else {
-      context.variableStore.modifyAttribute(String(attributeId), op, Number(value));
+      context.variableStore.modifyAttribute(String(attributeId), op, Number(value), owner);
     }
   }
 }
@@ -44,13 +49,14 @@ class AddItemAction extends ActionExtension {
     colorClass: 'text-amber-400',
     params: [
       { name: 'itemId', label: '物品', type: ENTITY, entityType: 'item' },
-      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 }
+      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 },
+      { name: 'ownerId', label: '持有者 (空为共享背包)', type: ENTITY, entityType: 'character' }
     ]
   };
   execute(params: Record<string, any>, context: ActionContext) {
-    const { itemId, count = 1 } = params;
+    const { itemId, count = 1, ownerId } = params;
     if (!itemId) return;
-    context.variableStore.addItem(String(itemId), Number(count));
+    context.variableStore.addItem(String(itemId), Number(count), ownerId ? String(ownerId) : undefined);
   }
 }
 
@@ -64,13 +70,41 @@ class RemoveItemAction extends ActionExtension {
     colorClass: 'text-red-400',
     params: [
       { name: 'itemId', label: '物品', type: ENTITY, entityType: 'item' },
-      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 }
+      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 },
+      { name: 'ownerId', label: '持有者 (空为共享背包)', type: ENTITY, entityType: 'character' }
     ]
   };
   execute(params: Record<string, any>, context: ActionContext) {
-    const { itemId, count = 1 } = params;
+    const { itemId, count = 1, ownerId } = params;
     if (!itemId) return;
-    context.variableStore.removeItem(String(itemId), Number(count));
+    context.variableStore.removeItem(String(itemId), Number(count), ownerId ? String(ownerId) : undefined);
+  }
+}
+
+class TransferItemAction extends ActionExtension {
+  readonly id = ScriptActionType.TRANSFER_ITEM;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '转交物品 (Give Item)',
+    category: 'inventory',
+    iconName: 'ArrowRightLeft',
+    colorClass: 'text-amber-300',
+    params: [
+      { name: 'itemId', label: '物品', type: ENTITY, entityType: 'item' },
+      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 },
+      { name: 'fromOwnerId', label: '交出者 (空为共享背包)', type: ENTITY, entityType: 'character' },
+      { name: 'toOwnerId', label: '接收者 (空为共享背包)', type: ENTITY, entityType: 'character' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { itemId, count = 1, fromOwnerId, toOwnerId } = params;
+    if (!itemId) return;
+    context.variableStore.transferItem(
+      String(itemId),
+      Number(count),
+      fromOwnerId ? String(fromOwnerId) : undefined,
+      toOwnerId ? String(toOwnerId) : undefined
+    );
   }
 }
 
@@ -168,6 +202,62 @@ class OpenCraftingAction extends ActionExtension {
   }
 }
 
+class StartQuestAction extends ActionExtension {
+  readonly id = ScriptActionType.START_QUEST;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '开始任务 (Start Quest)',
+    category: 'quest',
+    iconName: 'Flag',
+    colorClass: 'text-lime-400',
+    params: [
+      { name: 'questId', label: '任务', type: ENTITY, entityType: 'quest' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    if (!params.questId) return;
+    context.variableStore.startQuest(String(params.questId));
+  }
+}
+
+class CompleteObjectiveAction extends ActionExtension {
+  readonly id = ScriptActionType.COMPLETE_OBJECTIVE;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '完成目标 (Objective)',
+    category: 'quest',
+    iconName: 'CheckCircle',
+    colorClass: 'text-lime-300',
+    params: [
+      { name: 'questId', label: '任务', type: ENTITY, entityType: 'quest' },
+      { name: 'objectiveId', label: '目标 ID', type: STRING, placeholder: 'obj_xxx' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { questId, objectiveId } = params;
+    if (!questId || !objectiveId) return;
+    context.variableStore.completeObjective(String(questId), String(objectiveId));
+  }
+}
+
+class FailQuestAction extends ActionExtension {
+  readonly id = ScriptActionType.FAIL_QUEST;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '任务失败 (Fail Quest)',
+    category: 'quest',
+    iconName: 'XCircle',
+    colorClass: 'text-red-400',
+    params: [
+      { name: 'questId', label: '任务', type: ENTITY, entityType: 'quest' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    if (!params.questId) return;
+    context.variableStore.failQuest(String(params.questId));
+  }
+}
+
 class ShowToastAction extends ActionExtension {
   readonly id = ScriptActionType.SHOW_TOAST;
   readonly ui: ActionUIMetadata = {
@@ -186,6 +276,13 @@ class ShowToastAction extends ActionExtension {
   }
 }
 
+const AUDIO_CHANNEL_OPTIONS = [
+  { label: '音效 (SFX)', value: 'sfx' },
+  { label: '背景音乐 (BGM)', value: 'bgm' },
+  { label: '环境音 (Ambience)', value: 'ambience' },
+  { label: '语音 (Voice)', value: 'voice' }
+];
+
 class PlaySoundAction extends ActionExtension {
   readonly id = ScriptActionType.PLAY_SOUND;
   readonly ui: ActionUIMetadata = {
@@ -196,16 +293,155 @@ class PlaySoundAction extends ActionExtension {
     colorClass: 'text-pink-400',
     params: [
       { name: 'soundId', label: 'Sound ID/URL', type: STRING },
-      { name: 'volume', label: '音量 (0-1)', type: NUMBER, defaultValue: 1 }
+      { name: 'channel', label: '通道', type: SELECT, options: AUDIO_CHANNEL_OPTIONS, defaultValue: 'sfx' },
+      { name: 'volume', label: '音量 (0-1)', type: NUMBER, defaultValue: 1 },
+      { name: 'fadeMs', label: '淡入 (ms)', type: NUMBER, placeholder: 'BGM 默认交叉淡入' }
     ]
   };
   execute(params: Record<string, any>, context: ActionContext) {
-    const { soundId, volume } = params;
+    const { soundId, volume, channel = 'sfx', fadeMs } = params;
     if (!soundId) return;
-    context.eventBus.emit('audio:playSfx', { soundId, volume });
+    if (channel === 'sfx') {
+      context.eventBus.emit('audio:playSfx', { soundId, volume });
+      return;
+    }
+    context.eventBus.emit('audio:play', {
+      channel,
+      soundId,
+      volume,
+      fadeMs: fadeMs === undefined || fadeMs === '' ? undefined : Number(fadeMs)
+    });
+  }
+}
+
+class StopAudioAction extends ActionExtension {
+  readonly id = ScriptActionType.STOP_AUDIO;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '停止音频 (Stop Audio)',
+    category: 'presentation',
+    iconName: 'VolumeX',
+    colorClass: 'text-pink-400',
+    params: [
+      { name: 'channel', label: '通道', type: SELECT, options: [{ label: '全部 (All)', value: '' }, ...AUDIO_CHANNEL_OPTIONS], defaultValue: 'bgm' },
+      { name: 'fadeMs', label: '淡出 (ms)', type: NUMBER, defaultValue: 1000 }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { channel, fadeMs } = params;
+    context.eventBus.emit('audio:stop', { channel: channel || null, fadeMs: Number(fadeMs) || 0 });
+  }
+}
+
+class FadeAudioAction extends ActionExtension {
+  readonly id = ScriptActionType.FADE_AUDIO;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '音量渐变 (Fade Audio)',
+    category: 'presentation',
+    iconName: 'Volume2',
+    colorClass: 'text-pink-400',
+    params: [
+      { name: 'channel', label: '通道', type: SELECT, options: AUDIO_CHANNEL_OPTIONS, defaultValue: 'bgm' },
+      { name: 'volume', label: '目标音量 (0-1)', type: NUMBER, defaultValue: 0.3 },
+      { name: 'fadeMs', label: '时长 (ms)', type: NUMBER, defaultValue: 1000 }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { channel, volume, fadeMs } = params;
+    if (!channel) return;
+    context.eventBus.emit('audio:fade', { channel, volume: Number(volume), fadeMs: Number(fadeMs) || 0 });
+  }
+}
+
+const PLACEMENT_OPTIONS = [
+  { label: '左 (Left)', value: 'left' },
+  { label: '中 (Center)', value: 'center' },
+  { label: '右 (Right)', value: 'right' }
+];
+
+const STAGE_TRANSITION_OPTIONS = [
+  { label: '淡入淡出 (Fade)', value: 'fade' },
+  { label: '滑动 (Slide)', value: 'slide' },
+  { label: '无 (None)', value: 'none' }
+];
+
+class ShowCharacterAction extends ActionExtension {
+  readonly id = ScriptActionType.SHOW_CHARACTER;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '角色登场 (Show)',
+    category: 'presentation',
+    iconName: 'UserPlus',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色', type: ENTITY, entityType: 'character' },
+      { name: 'placement', label: '站位', type: SELECT, options: PLACEMENT_OPTIONS, defaultValue: 'center' },
+      { name: 'expression', label: '表情', type: STRING, placeholder: '留空保持当前表情' },
+      { name: 'transition', label: '过渡', type: SELECT, options: STAGE_TRANSITION_OPTIONS, defaultValue: 'fade' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { characterId, placement, expression, transition } = params;
+    if (!characterId) return;
+    context.eventBus.emit('stage:show', { characterId, placement, expression, transition });
+  }
+}
+
+class HideCharacterAction extends ActionExtension {
+  readonly id = ScriptActionType.HIDE_CHARACTER;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '角色退场 (Hide)',
+    category: 'presentation',
+    iconName: 'UserMinus',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色 (留空全部退场)', type: ENTITY, entityType: 'character' },
+      { name: 'transition', label: '过渡', type: SELECT, options: STAGE_TRANSITION_OPTIONS, defaultValue: 'fade' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { characterId, transition } = params;
+    context.eventBus.emit('stage:hide', { characterId: characterId || null, transition });
   }
 }
 
+class SetExpressionAction extends ActionExtension {
+  readonly id = ScriptActionType.SET_EXPRESSION;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '切换表情 (Expression)',
+    category: 'presentation',
+    iconName: 'Smile',
+    colorClass: 'text-rose-400',
+    params: [
+      { name: 'characterId', label: '角色', type: ENTITY, entityType: 'character' },
+      { name: 'expression', label: '表情', type: STRING, placeholder: 'happy / angry ...' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const { characterId, expression } = params;
+    if (!characterId || !expression) return;
+    context.eventBus.emit('stage:expression', { characterId, expression });
+  }
+}
+
+const EASING_OPTIONS = [
+  { label: 'Ease In-Out', value: 'ease-in-out' },
+  { label: 'Ease In', value: 'ease-in' },
+  { label: 'Ease Out', value: 'ease-out' },
+  { label: 'Linear', value: 'linear' }
+];
+
+const WAIT_PARAM = { name: 'wait', label: '等待完成', type: BOOLEAN, defaultValue: true };
+
+const getEffects = (context: ActionContext): EffectsManager | null => {
+  const effects = context.services?.effects as EffectsManager | undefined;
+  if (!effects) console.warn('[Actions] No effects service, visual effect skipped');
+  return effects || null;
+};
+
 class ScreenShakeAction extends ActionExtension {
   readonly id = ScriptActionType.SCREEN_SHAKE;
   readonly ui: ActionUIMetadata = {
@@ -216,12 +452,124 @@ class ScreenShakeAction extends ActionExtension {
     colorClass: 'text-orange-400',
     params: [
       { name: 'intensity', label: '强度', type: SELECT, options: [{ label: 'Low', value: 'low' }, { label: 'Medium', value: 'medium' }, { label: 'High', value: 'high' }], defaultValue: 'medium' },
-      { name: 'duration', label: '时长 (秒)', type: NUMBER, defaultValue: 0.5 }
+      { name: 'duration', label: '时长 (秒)', type: NUMBER, defaultValue: 0.5 },
+      WAIT_PARAM
+    ]
+  };
+  async execute(params: Record<string, any>, context: ActionContext) {
+    const effects = getEffects(context);
+    if (!effects) return;
+    const { duration, wait } = params;
+    let intensity: ShakeIntensity = params.intensity ?? 'medium';
+    if (!SHAKE_INTENSITIES.includes(intensity)) {
+      console.warn(`[Actions] Unknown shake intensity "${intensity}", using medium`);
+      intensity = 'medium';
+    }
+    const done = effects.play({ kind: 'shake', intensity, durationMs: toMs(duration, 0.5) });
+    if (wait !== false) await done;
+  }
+}
+
+class FlashAction extends ActionExtension {
+  readonly id = ScriptActionType.FLASH;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '闪屏 (Flash)',
+    category: 'presentation',
+    iconName: 'Sun',
+    colorClass: 'text-yellow-300',
+    params: [
+      { name: 'color', label: '颜色', type: STRING, defaultValue: '#ffffff' },
+      { name: 'duration', label: '时长 (秒)', type: NUMBER, defaultValue: 0.3 },
+      { name: 'easing', label: '缓动', type: SELECT, options: EASING_OPTIONS, defaultValue: 'ease-out' },
+      WAIT_PARAM
+    ]
+  };
+  async execute(params: Record<string, any>, context: ActionContext) {
+    const effects = getEffects(context);
+    if (!effects) return;
+    const { color, duration, easing, wait } = params;
+    const done = effects.play({ kind: 'flash', color: color || '#ffffff', durationMs: toMs(duration, 0.3), easing: easing || 'ease-out' });
+    if (wait !== false) await done;
+  }
+}
+
+class SetFilterAction extends ActionExtension {
+  readonly id = ScriptActionType.SET_FILTER;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '画面滤镜 (Filter)',
+    category: 'presentation',
+    iconName: 'Aperture',
+    colorClass: 'text-teal-400',
+    params: [
+      {
+        name: 'filter',
+        label: '滤镜',
+        type: SELECT,
+        options: [
+          { label: '无 (None)', value: 'none' },
+          { label: '怀旧 (Sepia)', value: 'sepia' },
+          { label: '黑白 (Grayscale)', value: 'grayscale' },
+          { label: '模糊 (Blur)', value: 'blur' },
+          { label: '夜晚 (Night)', value: 'night' }
+        ],
+        defaultValue: 'sepia'
+      },
+      { name: 'custom', label: '自定义 CSS (覆盖预设)', type: STRING, placeholder: 'e.g. contrast(1.4)' },
+      { name: 'duration', label: '时长 (秒)', type: NUMBER, defaultValue: 1 },
+      { name: 'easing', label: '缓动', type: SELECT, options: EASING_OPTIONS, defaultValue: 'ease-in-out' },
+      WAIT_PARAM
+    ]
+  };
+  async execute(params: Record<string, any>, context: ActionContext) {
+    const effects = getEffects(context);
+    if (!effects) return;
+    const { filter, custom, duration, easing, wait } = params;
+    const done = effects.applyFilter(resolveFilter(custom || filter), toMs(duration, 1), easing || 'ease-in-out');
+    if (wait !== false) await done;
+  }
+}
+
+class SceneTransitionAction extends ActionExtension {
+  readonly id = ScriptActionType.SCENE_TRANSITION;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '转场 (Transition)',
+    category: 'presentation',
+    iconName: 'Film',
+    colorClass: 'text-sky-400',
+    description: '设置下一次进入地点时的背景过渡',
+    params: [
+      {
+        name: 'kind',
+        label: '方式',
+        type: SELECT,
+        options: [
+          { label: '淡入淡出 (Fade)', value: 'fade' },
+          { label: '交叉溶解 (Crossfade)', value: 'crossfade' },
+          { label: '擦除 (Wipe)', value: 'wipe' },
+          { label: '直接切换 (Cut)', value: 'cut' }
+        ],
+        defaultValue: 'fade'
+      },
+      { name: 'duration', label: '时长 (秒)', type: NUMBER, defaultValue: 0.8 },
+      { name: 'easing', label: '缓动', type: SELECT, options: EASING_OPTIONS, defaultValue: 'ease-in-out' },
+      { name: 'color', label: '淡入颜色 (Fade)', type: STRING, defaultValue: '#000000' },
+      {
+        name: 'direction',
+        label: '擦除方向 (Wipe)',
+        type: SELECT,
+        options: [{ label: '→', value: 'right' }, { label: '←', value: 'left' }, { label: '↓', value: 'down' }, { label: '↑', value: 'up' }],
+        defaultValue: 'right'
+      }
     ]
   };
   execute(params: Record<string, any>, context: ActionContext) {
-    const { intensity, duration } = params;
-    context.eventBus.emit('ui:shake', { intensity, duration });
+    const effects = getEffects(context);
+    if (!effects) return;
+    const { kind = 'fade', duration, easing, color, direction } = params;
+    effects.armTransition({ kind, duration: Number(duration), easing, color, direction });
   }
 }
 
@@ -261,6 +609,35 @@ class JumpToAction extends ActionExtension {
   }
 }
 
+class AdvanceClockAction extends ActionExtension {
+  readonly id = ScriptActionType.ADVANCE_CLOCK;
+  readonly ui: ActionUIMetadata = {
+    id: this.id,
+    label: '推进时钟 (Clock)',
+    category: 'flow',
+    iconName: 'Clock',
+    colorClass: 'text-cyan-400',
+    description: '填写“直到”时推进到下一次到达该时刻，忽略分钟数',
+    params: [
+      { name: 'minutes', label: '分钟', type: NUMBER, defaultValue: 60 },
+      { name: 'until', label: '直到 (HH:MM)', type: STRING, placeholder: '22:00' }
+    ]
+  };
+  execute(params: Record<string, any>, context: ActionContext) {
+    const store = context.variableStore;
+    if (params.until) {
+      const target = parseClockTime(String(params.until));
+      if (target === null) {
+        console.warn(`[AdvanceClockAction] Invalid time: ${params.until}`);
+        return;
+      }
+      store.advanceClock(nextClockOccurrence(store.getClock(), target) - store.getClock());
+      return;
+    }
+    store.advanceClock(Number(params.minutes) || 0);
+  }
+}
+
 class AdvanceStoryAction extends ActionExtension {
   readonly id = ScriptActionType.ADVANCE;
   readonly ui: ActionUIMetadata = {
@@ -285,16 +662,29 @@ export const createDefaultActionRegistry = (
   registry.register(new UpdateAttributeAction());
   registry.register(new AddItemAction());
   registry.register(new RemoveItemAction());
+  registry.register(new TransferItemAction());
   registry.register(new AddClueAction());
   registry.register(new RemoveClueAction());
   registry.register(new ShareClueAction());
   registry.register(new OpenShopAction());
   registry.register(new OpenCraftingAction());
+  registry.register(new StartQuestAction());
+  registry.register(new CompleteObjectiveAction());
+  registry.register(new FailQuestAction());
   registry.register(new ShowToastAction());
   registry.register(new PlaySoundAction());
+  registry.register(new StopAudioAction());
+  registry.register(new FadeAudioAction());
+  registry.register(new ShowCharacterAction());
+  registry.register(new HideCharacterAction());
+  registry.register(new SetExpressionAction());
   registry.register(new ScreenShakeAction());
+  registry.register(new FlashAction());
+  registry.register(new SetFilterAction());
+  registry.register(new SceneTransitionAction());
   registry.register(new WaitAction());
   registry.register(new AdvanceStoryAction());
+  registry.register(new AdvanceClockAction());
   registry.register(new JumpToAction());
 
   return registry;
@@ -13,15 +13,20 @@ const resolveOperand = (raw: any, ctx: ConditionContext): any => {
   if (raw === undefined || raw === null) return raw;
 
   if (typeof raw === 'object') {
-    if ('var' in raw) return ctx.variableStore.getAttribute(String(raw.var));
-    if ('attributeId' in raw) return ctx.variableStore.getAttribute(String((raw as any).attributeId));
-    if ('attributeKey' in raw) return ctx.variableStore.getAttribute(String((raw as any).attributeKey));
+    // characterId 指定角色属性的持有者
+    const owner = (raw as any).characterId ? String((raw as any).characterId) : undefined;
+    if ('var' in raw) return ctx.variableStore.getAttribute(String(raw.var), owner);
+    if ('attributeId' in raw) return ctx.variableStore.getAttribute(String((raw as any).attributeId), owner);
+    if ('attributeKey' in raw) return ctx.variableStore.getAttribute(String((raw as any).attributeKey), owner);
     if ((raw as any).kind === 'itemCount' && (raw as any).itemId) {
       return ctx.variableStore.getItemCount(String((raw as any).itemId));
     }
     if ((raw as any).kind === 'flag' && (raw as any).key) {
       return ctx.variableStore.getAttribute(String((raw as any).key));
     }
+    if ((raw as any).kind === 'quest' && (raw as any).questId) {
+      return ctx.variableStore.getQuestProgress(String((raw as any).questId))?.status;
+    }
   }
 
   if (typeof raw === 'string') {
@@ -51,33 +56,50 @@ const compareValues = (left: any, right: any, operator: string): boolean => {
   }
 };
 
+const isPromise = (value: any): value is Promise<boolean> => typeof value?.then === 'function';
+
+/**
+ * 依次求值子条件，遇到 stopOn 即短路返回
+ * 子条件返回 Promise（异步管线）时，剩余子条件在其完成后继续求值
+ */
+const reduceChildren = (children: LogicConditionNode[], ctx: ConditionContext, stopOn: boolean): boolean | Promise<boolean> => {
+  for (let i = 0; i < children.length; i++) {
+    const result = ctx.evaluate ? ctx.evaluate(children[i]) : false;
+    if (isPromise(result)) {
+      return result.then(value => (!!value === stopOn ? stopOn : reduceChildren(children.slice(i + 1), ctx, stopOn)));
+    }
+    if (!!result === stopOn) return stopOn;
+  }
+  return !stopOn;
+};
+
 class LogicAndCondition implements ConditionExtension {
   readonly id = 'LOGIC_AND';
   readonly ui: ConditionUIMetadata = { id: this.id, label: '逻辑与 (AND)', description: '所有子条件为真' };
-  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean | Promise<boolean> {
     const children = node.children || [];
     if (children.length === 0) return true;
-    return children.every(child => ctx.evaluate ? ctx.evaluate(child) : false);
+    return reduceChildren(children, ctx, false);
   }
 }
 
 class LogicOrCondition implements ConditionExtension {
   readonly id = 'LOGIC_OR';
   readonly ui: ConditionUIMetadata = { id: this.id, label: '逻辑或 (OR)', description: '任一子条件为真' };
-  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean | Promise<boolean> {
     const children = node.children || [];
     if (children.length === 0) return false;
-    return children.some(child => ctx.evaluate ? ctx.evaluate(child) : false);
+    return reduceChildren(children, ctx, true);
   }
 }
 
 class LogicNotCondition implements ConditionExtension {
   readonly id = 'LOGIC_NOT';
   readonly ui: ConditionUIMetadata = { id: this.id, label: '逻辑非 (NOT)', description: '取反第一个子条件' };
-  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean | Promise<boolean> {
     const child = node.children?.[0];
     const value = child && ctx.evaluate ? ctx.evaluate(child) : false;
-    return !value;
+    return isPromise(value) ? value.then(v => !v) : !value;
   }
 }
 
@@ -102,6 +124,27 @@ class ValueCompareCondition implements ConditionExtension {
   }
 }
 
+class AttributeCompareCondition implements ConditionExtension {
+  readonly id = 'ATTR_COMPARE';
+  readonly ui: ConditionUIMetadata = {
+    id: this.id,
+    label: '属性比较 (Attribute)',
+    description: '角色属性需指定角色',
+    params: [
+      { name: 'attributeId', label: '属性', type: ENTITY, entityType: 'attribute' },
+      { name: 'characterId', label: '角色 (角色属性)', type: ENTITY, entityType: 'character' },
+      { name: 'operator', label: '操作符', type: SELECT, options: [{ label: '==', value: '==' }, { label: '!=', value: '!=' }, { label: '>', value: '>' }, { label: '>=', value: '>=' }, { label: '<', value: '<' }, { label: '<=', value: '<=' }], defaultValue: '>=' },
+      { name: 'value', label: '值', type: STRING }
+    ]
+  };
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+    const { attributeId, characterId, operator, value } = node.params || {};
+    if (!attributeId) return false;
+    const current = ctx.variableStore.getAttribute(String(attributeId), characterId ? String(characterId) : undefined);
+    return compareValues(current, resolveOperand(value, ctx), operator || '>=');
+  }
+}
+
 class HasItemCondition implements ConditionExtension {
   readonly id = 'HAS_ITEM';
   readonly ui: ConditionUIMetadata = { 
@@ -109,13 +152,14 @@ class HasItemCondition implements ConditionExtension {
     label: '拥有物品 (Has Item)', 
     params: [
       { name: 'itemId', label: '物品', type: ENTITY, entityType: 'item' },
-      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 }
+      { name: 'count', label: '数量', type: NUMBER, defaultValue: 1 },
+      { name: 'ownerId', label: '持有者 (空为共享背包)', type: ENTITY, entityType: 'character' }
     ]
   };
   evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
-    const { itemId, count } = node.params || {};
+    const { itemId, count, ownerId } = node.params || {};
     if (!itemId) return false;
-    return ctx.variableStore.hasItem(String(itemId), Number(count) || 1);
+    return ctx.variableStore.hasItem(String(itemId), Number(count) || 1, ownerId ? String(ownerId) : undefined);
   }
 }
 
@@ -154,6 +198,48 @@ class CheckFlagCondition implements ConditionExtension {
   }
 }
 
+class QuestStateCondition implements ConditionExtension {
+  readonly id = 'QUEST_STATE';
+  readonly ui: ConditionUIMetadata = {
+    id: this.id,
+    label: '任务状态 (Quest)',
+    description: '填写目标 ID 时改为检查该目标是否已完成',
+    params: [
+      { name: 'questId', label: '任务', type: ENTITY, entityType: 'quest' },
+      { name: 'status', label: '状态', type: SELECT, options: [{ label: '未开始', value: 'inactive' }, { label: '进行中', value: 'active' }, { label: '已完成', value: 'completed' }, { label: '已失败', value: 'failed' }], defaultValue: 'active' },
+      { name: 'objectiveId', label: '目标 ID (可选)', type: STRING }
+    ]
+  };
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+    const { questId, status = 'active', objectiveId } = node.params || {};
+    if (!questId) return false;
+    const progress = ctx.variableStore.getQuestProgress(String(questId));
+    if (!progress) return false;
+    if (objectiveId) return progress.completedObjectives.includes(String(objectiveId));
+    return progress.status === status;
+  }
+}
+
+/**
+ * 对热点使用物品时被使用的物品（事件局部变量 usedItem）
+ */
+class UsedItemCondition implements ConditionExtension {
+  readonly id = 'USED_ITEM';
+  readonly ui: ConditionUIMetadata = {
+    id: this.id,
+    label: '使用的物品 (Used Item)',
+    description: '仅在“对热点使用物品”事件中有效',
+    params: [
+      { name: 'itemId', label: '物品', type: ENTITY, entityType: 'item' }
+    ]
+  };
+  evaluate(node: LogicConditionNode, ctx: ConditionContext): boolean {
+    const { itemId } = node.params || {};
+    if (!itemId) return false;
+    return ctx.resolveValue?.('usedItem') === String(itemId);
+  }
+}
+
 export const createDefaultConditionRegistry = (
   _variableStore?: IVariableStore,
   _eventBus?: IEventBus
@@ -164,9 +250,12 @@ export const createDefaultConditionRegistry = (
   registry.register(new LogicOrCondition());
   registry.register(new LogicNotCondition());
   registry.register(new ValueCompareCondition());
+  registry.register(new AttributeCompareCondition());
   registry.register(new HasItemCondition());
   registry.register(new HasClueCondition());
   registry.register(new CheckFlagCondition());
+  registry.register(new QuestStateCondition());
+  registry.register(new UsedItemCondition());
 
   // Registry is intentionally exposed for future extensions
   return registry;
@@ -7,7 +7,7 @@ export interface ParamConfig {
   name: string;
   label: string;
   type: ParamType;
-  entityType?: 'character' | 'item' | 'clue' | 'attribute' | 'shop'; // For 'entity' type
+  entityType?: 'character' | 'item' | 'clue' | 'attribute' | 'shop' | 'quest'; // For 'entity' type
   options?: { label: string; value: any }[];
   defaultValue?: any;
   placeholder?: string;
@@ -48,7 +48,11 @@ export interface ConditionContext {
    * Optional resolver for custom variable namespaces (e.g., quest, runtime flags).
    */
   resolveValue?: (key: string) => any;
-  evaluate?: (node: LogicConditionNode) => boolean;
+  /**
+   * Evaluates a child node through the active pipeline.
+   * Returns a Promise when invoked from ConditionEngine.evaluateAsync.
+   */
+  evaluate?: (node: LogicConditionNode) => boolean | Promise<boolean>;
 }
 
 export abstract class ActionExtension {
@@ -61,6 +65,11 @@ export abstract class ActionExtension {
 export abstract class ConditionExtension {
   abstract readonly id: string;
   readonly ui?: ConditionUIMetadata;
+  /**
+   * evaluate returns a Promise. Async conditions only work where conditions are awaited
+   * (edges, events, choices), not in synchronous checks such as hotspot visibility.
+   */
+  readonly async?: boolean;
   validate?(node: LogicConditionNode): boolean;
   abstract evaluate(node: LogicConditionNode, context: ConditionContext): boolean | Promise<boolean>;
 }
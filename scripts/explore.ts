@@ -0,0 +1,109 @@
+/**
+ * 剧情路径探索 CLI
+ *
+ * 用法: npm run explore -- <story.json> [--segment id] [--max-depth 40] [--max-states 2000] [--json] [--verbose]
+ *
+ * 输出可达结局（附最短操作序列）、不可达节点以及无法到达任何结局的循环 / 死路。
+ * 退出码: 0 无问题；1 存在不可达节点或死循环；2 参数或文件错误
+ */
+import { readFileSync } from 'node:fs';
+import { migrateStory } from '../engine/StoryImporter';
+import { ExplorationReport, StoryExplorer } from '../engine/StoryExplorer';
+import { describeStep } from '../engine/PlaythroughRunner';
+import { StoryAsset } from '../types';
+
+interface CliOptions {
+  storyPath: string;
+  segmentId?: string;
+  maxDepth?: number;
+  maxStates?: number;
+  json: boolean;
+  verbose: boolean;
+}
+
+const USAGE = 'Usage: npm run explore -- <story.json> [--segment id] [--max-depth N] [--max-states N] [--json] [--verbose]';
+
+const parseArgs = (argv: string[]): CliOptions | null => {
+  const positional: string[] = [];
+  const options: Partial<CliOptions> = { json: false, verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') options.json = true;
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--segment') options.segmentId = argv[++i];
+    else if (arg === '--max-depth') options.maxDepth = Number(argv[++i]);
+    else if (arg === '--max-states') options.maxStates = Number(argv[++i]);
+    else if (arg.startsWith('--')) return null;
+    else positional.push(arg);
+  }
+
+  if (positional.length !== 1) return null;
+  if ([options.maxDepth, options.maxStates].some(v => v !== undefined && isNaN(v))) return null;
+  return { ...options, storyPath: positional[0] } as CliOptions;
+};
+
+const printReport = (report: ExplorationReport) => {
+  const { truncated } = report;
+  console.log(`segment ${report.segmentId}: ${report.statesExplored} states explored`
+    + (truncated.depth ? ' (depth limit reached)' : '')
+    + (truncated.states ? ' (state limit reached)' : ''));
+
+  console.log(`\nendings (${report.endings.length})`);
+  report.endings.forEach(ending => {
+    const target = ending.kind === 'exit' ? ` → ${ending.targetSegmentId}` : '';
+    console.log(`  ${ending.kind} ${ending.nodeId}${target}`);
+    console.log(`    via: ${ending.witness.map(describeStep).join(', ') || '(start)'}`);
+  });
+
+  const maybe = truncated.depth || truncated.states ? 'possibly ' : '';
+  console.log(`\n${maybe}unreachable nodes (${report.unreachableNodeIds.length})`);
+  report.unreachableNodeIds.forEach(id => console.log(`  ${id}`));
+
+  console.log(`\nloops without exit (${report.traps.length})`);
+  report.traps.forEach(trap => {
+    console.log(`  ${trap.kind} ${trap.nodeIds.join(', ')}`);
+    console.log(`    via: ${trap.witness.map(describeStep).join(', ') || '(start)'}`);
+  });
+};
+
+const main = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(options.storyPath, 'utf-8'));
+  } catch (e) {
+    console.error(`[explore] ${e instanceof Error ? e.message : e}`);
+    return 2;
+  }
+  const imported = migrateStory(data);
+  if (!imported.story) {
+    imported.errors.forEach(error => console.error(`[explore] ${error.path}: ${error.message}`));
+    return 2;
+  }
+  const story: StoryAsset = imported.story;
+
+  // 引擎内部日志很多，默认只输出探索报告
+  const log = console.log;
+  if (!options.verbose) {
+    console.debug = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+    console.log = () => {};
+  }
+
+  const explorer = new StoryExplorer(story, { maxDepth: options.maxDepth, maxStates: options.maxStates });
+  const report = await explorer.explore(options.segmentId);
+
+  console.log = log;
+  if (options.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report);
+  return report.unreachableNodeIds.length > 0 || report.traps.length > 0 ? 1 : 0;
+};
+
+main().then(code => process.exit(code));
@@ -0,0 +1,126 @@
+/**
+ * 无头剧情回放 CLI
+ *
+ * 用法: npm run play -- <story.json> <script.json> [--json] [--verbose] [--quiet-ms 250] [--timeout-ms 10000]
+ *
+ * 脚本格式见 engine/PlaythroughRunner.ts (PlaythroughScript)。
+ * 退出码: 0 通过；1 死路 / 步骤失败 / 预期不符；2 参数或文件错误
+ */
+import { readFileSync } from 'node:fs';
+import { migrateStory } from '../engine/StoryImporter';
+import { PlaythroughReport, PlaythroughRunner, PlaythroughScript, StepReport } from '../engine/PlaythroughRunner';
+import { LoggingAudioBackend } from '../engine/AudioManager';
+import { StoryAsset } from '../types';
+
+interface CliOptions {
+  storyPath: string;
+  scriptPath: string;
+  json: boolean;
+  verbose: boolean;
+  quietMs?: number;
+  stepTimeoutMs?: number;
+}
+
+const USAGE = 'Usage: npm run play -- <story.json> <script.json> [--json] [--verbose] [--quiet-ms N] [--timeout-ms N]';
+
+const parseArgs = (argv: string[]): CliOptions | null => {
+  const positional: string[] = [];
+  const options: Partial<CliOptions> = { json: false, verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') options.json = true;
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--quiet-ms') options.quietMs = Number(argv[++i]);
+    else if (arg === '--timeout-ms') options.stepTimeoutMs = Number(argv[++i]);
+    else if (arg.startsWith('--')) return null;
+    else positional.push(arg);
+  }
+
+  if (positional.length !== 2) return null;
+  if ([options.quietMs, options.stepTimeoutMs].some(v => v !== undefined && isNaN(v))) return null;
+  return { ...options, storyPath: positional[0], scriptPath: positional[1] } as CliOptions;
+};
+
+const readJson = (path: string): any => JSON.parse(readFileSync(path, 'utf-8'));
+
+const format = (value: any) => (value === undefined ? '∅' : JSON.stringify(value));
+
+const printStep = (step: StepReport, story: StoryAsset) => {
+  const label = step.step ? `#${step.index + 1} ${JSON.stringify(step.step)}` : 'start';
+  console.log(`${step.error ? '✗' : '▶'} ${label}`);
+  if (step.trail.length) console.log(`    trail: ${step.trail.join(' → ')}`);
+
+  Object.entries(step.attributes).forEach(([id, change]) => {
+    const key = story.attributes.find(a => a.id === id)?.key || id;
+    console.log(`    attr  ${key}: ${format(change.from)} → ${format(change.to)}`);
+  });
+  Object.entries(step.inventory).forEach(([id, change]) => {
+    console.log(`    item  ${id}: ${format(change.from ?? 0)} → ${format(change.to ?? 0)}`);
+  });
+  step.events.forEach(({ event, payload }) => {
+    console.log(`    event ${event}${payload === undefined ? '' : ` ${JSON.stringify(payload)}`}`);
+  });
+  if (step.error) console.log(`    error: ${step.error}`);
+};
+
+const printReport = (report: PlaythroughReport, story: StoryAsset) => {
+  report.steps.forEach(step => printStep(step, story));
+  console.log('');
+  console.log(`final node: ${report.finalNodeId || '(none)'}${report.ended ? ' (story:end)' : ''}`);
+  report.failures.forEach(failure => console.log(`FAIL ${failure}`));
+  console.log(report.ok ? 'PASS' : 'FAILED');
+};
+
+const main = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let data: any;
+  let script: PlaythroughScript;
+  try {
+    data = readJson(options.storyPath);
+    script = readJson(options.scriptPath);
+  } catch (e) {
+    console.error(`[playthrough] ${e instanceof Error ? e.message : e}`);
+    return 2;
+  }
+  // 旧版导出同样可以回放
+  const imported = migrateStory(data);
+  if (!imported.story) {
+    imported.errors.forEach(error => console.error(`[playthrough] ${error.path}: ${error.message}`));
+    return 2;
+  }
+  if (!Array.isArray(script?.steps)) {
+    console.error('[playthrough] Script needs a steps array');
+    return 2;
+  }
+  const story: StoryAsset = imported.story;
+
+  // 引擎内部日志很多，默认只输出回放报告
+  const log = console.log;
+  if (!options.verbose) {
+    console.debug = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+    console.log = () => {};
+  }
+
+  const runner = new PlaythroughRunner(story, {
+    quietMs: options.quietMs,
+    stepTimeoutMs: options.stepTimeoutMs,
+    // --verbose 时打印音频播放记录
+    audioBackend: options.verbose ? new LoggingAudioBackend(line => console.log(line)) : undefined
+  });
+  const report = await runner.run(script);
+
+  console.log = log;
+  if (options.json) console.log(JSON.stringify(report, null, 2));
+  else printReport(report, story);
+  return report.ok ? 0 : 1;
+};
+
+main().then(code => process.exit(code));
@@ -1,10 +1,11 @@
 import { create } from 'zustand';
-import { StoryAsset, NodeType, NarrativeNode, Edge, GlobalVariable, AttributeDefinition, CharacterAsset, Item, Clue, EditorTab, TabType, ScriptActionType, VoteNode, ShopDefinition } from '../types';
+import { StoryAsset, NodeType, NarrativeNode, Edge, GlobalVariable, AttributeDefinition, CharacterAsset, Item, Clue, EditorTab, TabType, ScriptActionType, VoteNode, ShopDefinition, QuestDefinition, StoryLocalization } from '../types';
 import { CommandBus } from '../engine/CommandBus';
 import { AssetManager } from '../engine/AssetManager';
 import { SelectionManager } from '../engine/SelectionManager';
 import { UpdateNodeCommand, AddNodeCommand, RemoveNodeCommand, AddEdgeCommand, RemoveEdgeCommand, BatchUpdateNodesCommand, BatchDeleteEntitiesCommand } from '../engine/commands';
 import { ICommand } from '../engine/interfaces';
+import { DEFAULT_SOURCE_LOCALE } from '../engine/Localization';
 
 // --- Initial Data ---
 
@@ -33,6 +34,7 @@ interface EditorState {
   canvasTransform: { x: number; y: number; scale: number };
   isStoryLoading: boolean;
   loadSampleStory: () => Promise<void>;
+  openStory: (story: StoryAsset) => void;
   
   // Tab State
   tabs: EditorTab[];
@@ -83,12 +85,26 @@ interface EditorState {
   updateShop: (id: string, data: Partial<ShopDefinition>) => void;
   removeShop: (id: string) => void;
 
+  // Quest CRUD
+  addQuest: () => void;
+  updateQuest: (id: string, data: Partial<QuestDefinition>) => void;
+  removeQuest: (id: string) => void;
+
   // Clue CRUD
   addClue: () => void;
   updateClue: (id: string, data: Partial<Clue>) => void;
   removeClue: (id: string) => void;
 
+  // Localization
+  updateLocalization: (data: Partial<StoryLocalization>) => void;
+  setTranslation: (locale: string, key: string, value: string) => void;
+
   setCanvasTransform: (transform: { x: number; y: number; scale: number }) => void;
+
+  // Canvas focus (e.g. from Problems panel); Canvas consumes the request and centers the node
+  focusRequest: { nodeId: string } | null;
+  focusNode: (segmentId: string, nodeId?: string) => void;
+  clearFocusRequest: () => void;
   
   // Command Bus
   undo: () => void;
@@ -132,6 +148,21 @@ export const useEditorStore = create<EditorState>((set, get) => {
       }
     },
     
+    openStory: (story) => {
+      // 旧剧本的撤销历史与标签页都不再适用
+      commandBus.clear();
+      selectionManager.clear();
+      set({
+        story,
+        tabs: INITIAL_TABS,
+        activeTabId: 'canvas',
+        editingNodeId: null,
+        originalNodeData: null,
+        focusRequest: null
+      });
+      syncCommandState();
+    },
+    
     // Tab System
     tabs: INITIAL_TABS,
     activeTabId: 'canvas',
@@ -493,6 +524,45 @@ export const useEditorStore = create<EditorState>((set, get) => {
         }));
     },
 
+    // --- Quest CRUD ---
+    addQuest: () => {
+         set(state => {
+            const stamp = Date.now();
+            const newQuest: QuestDefinition = {
+                id: `quest_${stamp}`,
+                name: '新任务',
+                description: '',
+                stages: [{ id: `stage_${stamp}`, name: '阶段 1', objectives: [{ id: `obj_${stamp}`, description: '新目标' }] }]
+            };
+            const tabId = `quest_${newQuest.id}`;
+            return {
+                story: {
+                    ...state.story,
+                    quests: [...(state.story.quests || []), newQuest]
+                },
+                tabs: [...state.tabs, { id: tabId, type: 'quest', label: newQuest.name, dataId: newQuest.id }],
+                activeTabId: tabId
+            };
+        });
+    },
+    updateQuest: (id, data) => {
+         set(state => {
+             const newStory = {
+                ...state.story,
+                quests: (state.story.quests || []).map(q => q.id === id ? { ...q, ...data } : q)
+            };
+            const newTabs = state.tabs.map(t => t.dataId === id ? { ...t, label: data.name || t.label } : t);
+            return { story: newStory, tabs: newTabs };
+        });
+    },
+    removeQuest: (id) => {
+        set(state => ({
+            story: { ...state.story, quests: (state.story.quests || []).filter(q => q.id !== id) },
+             tabs: state.tabs.filter(t => t.dataId !== id),
+            activeTabId: state.activeTabId === `quest_${id}` ? 'canvas' : state.activeTabId
+        }));
+    },
+
     // --- Clue CRUD ---
     addClue: () => {
          set(state => {
@@ -531,8 +601,40 @@ export const useEditorStore = create<EditorState>((set, get) => {
         }));
     },
 
+    // --- Localization ---
+    updateLocalization: (data) => {
+        set(state => {
+            const current = state.story.localization || { sourceLocale: DEFAULT_SOURCE_LOCALE, locales: [], tables: {} };
+            return { story: { ...state.story, localization: { ...current, ...data } } };
+        });
+    },
+    setTranslation: (locale, key, value) => {
+        set(state => {
+            const current = state.story.localization;
+            if (!current) return {};
+            const table = { ...current.tables[locale] };
+            if (value) table[key] = value;
+            else delete table[key];
+            return { story: { ...state.story, localization: { ...current, tables: { ...current.tables, [locale]: table } } } };
+        });
+    },
+
     setCanvasTransform: (transform) => set({ canvasTransform: transform }),
 
+    focusRequest: null,
+    focusNode: (segmentId, nodeId) => {
+      const { story } = get();
+      if (!story.segments.some(s => s.id === segmentId)) return;
+      set({
+        story: story.activeSegmentId === segmentId ? story : { ...story, activeSegmentId: segmentId },
+        activeTabId: 'canvas',
+        focusRequest: nodeId ? { nodeId } : null
+      });
+      if (nodeId) selectionManager.select(nodeId);
+      else selectionManager.clear();
+    },
+    clearFocusRequest: () => set({ focusRequest: null }),
+
     undo: () => {
         commandBus.undo();
         syncCommandState();
@@ -1,11 +1,60 @@
 
 import { create } from 'zustand';
 import { NarrativeNode, Item, AttributeDefinition, LocationNode } from '../types';
+import { QuestProgress, SaveGameData } from '../engine/interfaces';
+import { PartyPlayer } from '../engine/PartySession';
+import { AudioVolumes, DEFAULT_AUDIO_VOLUMES } from '../engine/AudioManager';
 
 interface LogEntry {
   id: string;
+  nodeId: string;
   speaker?: string;
   text: string;
+  save?: SaveGameData; // 进入该句时的快照，用于从回想中跳回
+}
+
+export interface PlayerSettings {
+  textSpeed: number; // 打字机速度（字/秒），0 为立即显示
+  autoDelayMs: number; // 自动模式下整句显示完后的停留时间
+  volumes: AudioVolumes; // 各音频通道音量
+  locale: string | null; // 剧本语言，null 为原文
+}
+
+const HISTORY_LIMIT = 200;
+const SETTINGS_KEY = 'narrative-forge:settings';
+const DEFAULT_SETTINGS: PlayerSettings = { textSpeed: 40, autoDelayMs: 1500, volumes: DEFAULT_AUDIO_VOLUMES, locale: null };
+
+const loadSettings = (): PlayerSettings => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_KEY) : null;
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    return { ...DEFAULT_SETTINGS, ...stored, volumes: { ...DEFAULT_AUDIO_VOLUMES, ...stored.volumes } };
+  } catch (e) {
+    console.warn('[RuntimeStore] Failed to load player settings', e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: PlayerSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[RuntimeStore] Failed to save player settings', e);
+  }
+};
+
+interface ActiveVote {
+  nodeId: string;
+  endsAt: number | null;
+  tally: Record<string, number>;
+  myOptionId?: string;
+  ballots: Record<string, string>; // voterId -> optionId
+}
+
+interface PartyState {
+  players: PartyPlayer[];
+  activePlayerId: string | null;
 }
 
 interface Toast {
@@ -20,7 +69,17 @@ interface RuntimeState {
   
   // UI Visibility
   showInventory: boolean;
+  showSaveMenu: boolean;
+  showCrafting: boolean;
+  showPartySetup: boolean;
+  showJournal: boolean;
+  showBacklog: boolean;
   activeShopId: string | null;
+
+  // Dialogue Playback
+  autoMode: boolean;
+  skipMode: boolean; // 跳过已读
+  settings: PlayerSettings;
   
   // Narrative State Sync
   currentNode: NarrativeNode | null;
@@ -30,7 +89,18 @@ interface RuntimeState {
   
   // RPG State Sync
   attributes: Record<string, any>;
+  characterAttributes: Record<string, Record<string, any>>; // characterId -> attributeId -> value
   inventory: Record<string, number>; // itemId -> count
+  characterInventories: Record<string, Record<string, number>>; // characterId -> itemId -> count
+  clues: Record<string, { revealed: boolean; owners: string[] }>;
+  quests: Record<string, QuestProgress>;
+  clock: number; // 故事时钟（分钟）
+
+  // Vote Sync
+  activeVote: ActiveVote | null;
+
+  // Party (Hot-seat) Sync
+  party: PartyState | null;
   
   // Feedback
   toasts: Toast[];
@@ -42,12 +112,27 @@ interface RuntimeState {
   setCurrentScene: (scene: LocationNode | null) => void;
   setLastLocationBackground: (url?: string) => void;
   toggleInventory: () => void;
+  toggleSaveMenu: () => void;
+  openCrafting: () => void;
+  closeCrafting: () => void;
+  togglePartySetup: () => void;
+  toggleJournal: () => void;
+  toggleBacklog: () => void;
+  setAutoMode: (on: boolean) => void;
+  setSkipMode: (on: boolean) => void;
+  updateSettings: (settings: Partial<PlayerSettings>) => void;
   openShop: (shopId: string) => void;
   closeShop: () => void;
   
   addHistory: (entry: LogEntry) => void;
-  syncAttributes: (attrs: Record<string, any>) => void;
-  syncInventory: (inv: Record<string, number>) => void;
+  rewindHistory: (entryId: string) => void; // 保留到该条目（含）为止
+  syncAttributes: (attrs: Record<string, any>, characterAttrs?: Record<string, Record<string, any>>) => void;
+  syncInventory: (inv: Record<string, number>, characterInv?: Record<string, Record<string, number>>) => void;
+  syncClues: (clues: Record<string, { revealed: boolean; owners: string[] }>) => void;
+  syncQuests: (quests: Record<string, QuestProgress>) => void;
+  syncClock: (clock: number) => void;
+  setActiveVote: (vote: ActiveVote | null) => void;
+  setParty: (party: PartyState | null) => void;
   
   showToast: (message: string) => void;
   removeToast: (id: string) => void;
@@ -59,14 +144,30 @@ export const useRuntimeStore = create<RuntimeState>((set) => ({
   isRunning: false,
   isPaused: false,
   showInventory: false,
+  showSaveMenu: false,
+  showCrafting: false,
+  showPartySetup: false,
+  showJournal: false,
+  showBacklog: false,
   activeShopId: null,
+
+  autoMode: false,
+  skipMode: false,
+  settings: loadSettings(),
   
   currentNode: null,
   currentScene: null,
   lastLocationBackground: undefined,
   history: [],
   attributes: {},
+  characterAttributes: {},
   inventory: {},
+  characterInventories: {},
+  clues: {},
+  quests: {},
+  clock: 0,
+  activeVote: null,
+  party: null,
   toasts: [],
 
   setIsRunning: (running) => set({ isRunning: running }),
@@ -77,15 +178,38 @@ export const useRuntimeStore = create<RuntimeState>((set) => ({
   setLastLocationBackground: (url) => set({ lastLocationBackground: url }),
   
   toggleInventory: () => set((state) => ({ showInventory: !state.showInventory })),
+  toggleSaveMenu: () => set((state) => ({ showSaveMenu: !state.showSaveMenu })),
+  openCrafting: () => set({ showCrafting: true }),
+  closeCrafting: () => set({ showCrafting: false }),
+  togglePartySetup: () => set((state) => ({ showPartySetup: !state.showPartySetup })),
+  toggleJournal: () => set((state) => ({ showJournal: !state.showJournal })),
+  toggleBacklog: () => set((state) => ({ showBacklog: !state.showBacklog })),
+  // 自动与跳过互斥
+  setAutoMode: (on) => set((state) => ({ autoMode: on, skipMode: on ? false : state.skipMode })),
+  setSkipMode: (on) => set((state) => ({ skipMode: on, autoMode: on ? false : state.autoMode })),
+  updateSettings: (patch) => set((state) => {
+    const settings = { ...state.settings, ...patch };
+    saveSettings(settings);
+    return { settings };
+  }),
   openShop: (shopId) => set({ activeShopId: shopId }),
   closeShop: () => set({ activeShopId: null }),
 
   addHistory: (entry) => set((state) => ({ 
-    history: [...state.history, entry].slice(-50) 
+    history: [...state.history, entry].slice(-HISTORY_LIMIT) 
   })),
+  rewindHistory: (entryId) => set((state) => {
+    const index = state.history.findIndex(e => e.id === entryId);
+    return index === -1 ? {} : { history: state.history.slice(0, index + 1) };
+  }),
 
-  syncAttributes: (attrs) => set({ attributes: attrs }),
-  syncInventory: (inv) => set({ inventory: inv }),
+  syncAttributes: (attrs, characterAttrs = {}) => set({ attributes: attrs, characterAttributes: characterAttrs }),
+  syncInventory: (inv, characterInv = {}) => set({ inventory: inv, characterInventories: characterInv }),
+  syncClues: (clues) => set({ clues }),
+  syncQuests: (quests) => set({ quests }),
+  syncClock: (clock) => set({ clock }),
+  setActiveVote: (vote) => set({ activeVote: vote }),
+  setParty: (party) => set({ party }),
 
   showToast: (message) => {
     const id = Math.random().toString(36);
@@ -102,10 +226,24 @@ export const useRuntimeStore = create<RuntimeState>((set) => ({
     lastLocationBackground: undefined,
     history: [],
     attributes: {},
+    characterAttributes: {},
     inventory: {},
+    characterInventories: {},
+    clues: {},
+    quests: {},
+    clock: 0,
+    activeVote: null,
+    party: null,
     toasts: [],
     showInventory: false,
+    showSaveMenu: false,
+    showCrafting: false,
+    showPartySetup: false,
+    showJournal: false,
+    showBacklog: false,
     activeShopId: null,
+    autoMode: false,
+    skipMode: false,
     isPaused: false
   })
 }));
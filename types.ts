@@ -37,12 +37,23 @@ export interface DialogueNode extends NodeData {
   type: NodeType.DIALOGUE;
   characterId: string;
   text: string;
-  choices: { id: string; text: string; nextNodeId?: string }[];
+  choices: DialogueChoice[];
   
   // Add-ons
   voiceId?: string;
-  expression?: string;
-  placement?: 'left' | 'center' | 'right';
+  expression?: string; // 说话人切换到该表情
+  placement?: StagePlacement; // 说话人登场 / 移动到该站位
+  visibleTo?: string[]; // 私密对话：派对模式下仅认领这些角色的玩家可见
+}
+
+export interface DialogueChoice {
+  id: string;
+  text: string;
+  nextNodeId?: string;
+  visibleIf?: LogicConditionNode; // 不满足时不显示该选项
+  enabledIf?: LogicConditionNode; // 不满足时显示为禁用
+  disabledReason?: string; // 禁用时向玩家展示的原因
+  actions?: ScriptAction[]; // 选中后、离开节点前执行
 }
 
 // --- ECA System (Event-Condition-Action) ---
@@ -65,6 +76,7 @@ export enum ScriptActionType {
   UPDATE_ATTRIBUTE = 'UPDATE_ATTRIBUTE',
   ADD_ITEM = 'ADD_ITEM',
   REMOVE_ITEM = 'REMOVE_ITEM',
+  TRANSFER_ITEM = 'TRANSFER_ITEM',
   PLAY_SOUND = 'PLAY_SOUND',
   WAIT = 'WAIT',
   SCREEN_SHAKE = 'SCREEN_SHAKE',
@@ -77,7 +89,24 @@ export enum ScriptActionType {
   SHARE_CLUE = 'SHARE_CLUE',
   // Phase 4: Interaction & Economy
   OPEN_SHOP = 'OPEN_SHOP',
-  OPEN_CRAFTING = 'OPEN_CRAFTING'
+  OPEN_CRAFTING = 'OPEN_CRAFTING',
+  // Quests
+  START_QUEST = 'START_QUEST',
+  COMPLETE_OBJECTIVE = 'COMPLETE_OBJECTIVE',
+  FAIL_QUEST = 'FAIL_QUEST',
+  // Story Clock
+  ADVANCE_CLOCK = 'ADVANCE_CLOCK',
+  // Audio
+  STOP_AUDIO = 'STOP_AUDIO',
+  FADE_AUDIO = 'FADE_AUDIO',
+  // Stage
+  SHOW_CHARACTER = 'SHOW_CHARACTER',
+  HIDE_CHARACTER = 'HIDE_CHARACTER',
+  SET_EXPRESSION = 'SET_EXPRESSION',
+  // Visual Effects
+  SCENE_TRANSITION = 'SCENE_TRANSITION',
+  SET_FILTER = 'SET_FILTER',
+  FLASH = 'FLASH'
 }
 
 export interface ScriptAction extends LogicAction {
@@ -87,8 +116,20 @@ export interface ScriptAction extends LogicAction {
 }
 
 // Event System Types
-export type NodeEventType = 'lifecycle' | 'interaction';
-export type NodeEventTrigger = 'onEnter' | 'onExit' | 'onClick';
+export type NodeEventType = 'lifecycle' | 'interaction' | 'scheduled';
+export type NodeEventTrigger = 'onEnter' | 'onExit' | 'onClick' | 'onHover' | 'onExamine' | 'onUseItem' | 'onTimer' | 'onClock' | 'onAttribute';
+
+export type AttributeWatchOperator = '<' | '<=' | '>' | '>=' | '==';
+
+/**
+ * 属性监听：属性从不满足变为满足阈值时触发一次（例如理智跌破 20）
+ */
+export interface AttributeWatch {
+  attributeId: string;
+  characterId?: string; // 角色属性：留空时任意角色越过阈值都会触发
+  operator: AttributeWatchOperator;
+  value: number;
+}
 
 export interface NodeEvent {
   id: string;
@@ -97,6 +138,10 @@ export interface NodeEvent {
   label: string;
   targetId?: string; // e.g., hotspotId
   condition?: string | LogicConditionNode; // Optional guard
+  itemId?: string; // onUseItem: 只响应该物品，留空时任意物品都会触发
+  timer?: { seconds: number; repeat?: boolean }; // onTimer: 进入节点 N 秒后触发，repeat 时每 N 秒触发
+  clockTime?: string; // onClock: 故事时钟到达该时刻 (HH:MM) 时触发
+  watch?: AttributeWatch; // onAttribute
   actions: ScriptAction[]; // The logic payload
 }
 
@@ -105,6 +150,22 @@ export interface Hotspot {
   name: string;
   rect: { x: number; y: number; w: number; h: number }; 
   image?: string; 
+  visibleIf?: string | LogicConditionNode; // 不满足时热点隐藏且不响应交互（例如发现线索后才出现）
+}
+
+export type EffectEasing = 'linear' | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
+export type SceneTransitionKind = 'cut' | 'fade' | 'crossfade' | 'wipe';
+
+/**
+ * 地点背景切换的过渡
+ * fade 经由 color 过渡；wipe 新背景沿 direction 方向划过旧背景
+ */
+export interface SceneTransition {
+  kind: SceneTransitionKind;
+  duration?: number; // 秒
+  easing?: EffectEasing;
+  color?: string;
+  direction?: 'left' | 'right' | 'up' | 'down';
 }
 
 export interface LocationNode extends NodeData {
@@ -113,7 +174,9 @@ export interface LocationNode extends NodeData {
   hotspots: Hotspot[]; 
   // events moved to NodeData
   bgm?: string;
-  filter?: string;
+  ambience?: string; // 环境音，循环播放；与 BGM 一样未设置时保持上一场景的曲目
+  filter?: string; // 滤镜预设名 (sepia / blur / night ...) 或自定义 CSS filter
+  transition?: SceneTransition; // 进入该地点时背景的过渡方式，缺省直接切换
 }
 
 // Logic Types
@@ -146,6 +209,7 @@ export interface AttributeDefinition {
   max?: number;     // For number type
   icon?: string;    // Lucide icon name or URL
   description?: string;
+  scope?: 'global' | 'character'; // 'character': 每个角色各持有一份（默认 global）
 }
 
 // New: Item Crafting Recipe
@@ -177,6 +241,7 @@ export interface ShopDefinition {
   description?: string;
   background?: string;
   inventory: ShopItem[];
+  sellRatio?: number; // Fraction of the price paid when the player sells back (default 0.5, 0 = no buy-back)
 }
 
 export interface Clue {
@@ -187,6 +252,28 @@ export interface Clue {
   owners?: string[]; // IDs of characters who have this clue
 }
 
+// Quest: staged objectives; a stage is done once all of its required objectives are done
+export type QuestStatus = 'inactive' | 'active' | 'completed' | 'failed';
+
+export interface QuestObjective {
+  id: string;
+  description: string;
+  optional?: boolean; // Not required to advance the stage
+}
+
+export interface QuestStage {
+  id: string;
+  name: string;
+  objectives: QuestObjective[];
+}
+
+export interface QuestDefinition {
+  id: string;
+  name: string;
+  description: string;
+  stages: QuestStage[];
+}
+
 export interface BranchNode extends NodeData {
   type: NodeType.BRANCH;
   conditions: LogicCondition[];
@@ -198,9 +285,24 @@ export interface SequenceNode extends NodeData {
   // childrenIds 顺序即执行顺序，由连线决定
 }
 
+// Switch: evaluate one subject, route via matching case handle or default port
+export type SwitchSubjectKind = 'attribute' | 'itemCount';
+
+export interface SwitchCase {
+  id: string;    // Used as sourceHandleId
+  value: string; // Trimmed, converted to the subject's type (boolean/number/string), then compared strictly
+}
+
+export interface SwitchNode extends NodeData {
+  type: NodeType.SWITCH;
+  subject: { kind: SwitchSubjectKind; refId: string }; // refId: attribute id/key or item id
+  cases: SwitchCase[];
+}
+
 export interface JumpNode extends NodeData {
   type: NodeType.JUMP;
   targetSegmentId: string; 
+  targetNodeId?: string; // Optional entry node inside the target segment (defaults to its root)
 }
 
 export interface ActionNode extends NodeData {
@@ -221,6 +323,7 @@ export interface VoteConfig {
   duration: number;    // Seconds
   options: VoteOption[];
   strategy: 'majority' | 'score' | 'branch'; // How to proceed
+  scoreAttributeId?: string; // Attribute that accumulates option scores of every ballot
 }
 
 export interface VoteNode extends NodeData {
@@ -233,6 +336,7 @@ export type NarrativeNode =
   | DialogueNode 
   | LocationNode 
   | BranchNode 
+  | SwitchNode
   | JumpNode 
   | ActionNode
   | VoteNode
@@ -254,15 +358,38 @@ export interface SegmentAsset {
   rootNodeId: string;
 }
 
+export type StagePlacement = 'left' | 'center' | 'right';
+export type StageTransition = 'fade' | 'slide' | 'none';
+
+/**
+ * 角色立绘：每个表情一张图，name 与对话节点的 expression / SET_EXPRESSION 对应
+ */
+export interface CharacterExpression {
+  name: string;
+  imageUrl: string;
+}
+
 export interface CharacterAsset {
   id: string;
   name: string;
   avatarUrl: string;
+  expressions?: CharacterExpression[]; // 第一项为默认表情；没有立绘时舞台使用头像
   defaultVoice?: string;
   description?: string;
+  attributeDefaults?: Record<string, any>; // 角色属性初始值 (attributeId -> value)，缺省用属性默认值
+}
+
+// 本地化：节点、物品等处的原文为 sourceLocale，译文按语言存放在字符串表中 (key 见 engine/Localization.ts)
+export type StringTable = Record<string, string>;
+
+export interface StoryLocalization {
+  sourceLocale: string;
+  locales: string[]; // 目标语言
+  tables: Record<string, StringTable>; // locale -> key -> 译文
 }
 
 export interface StoryAsset {
+  formatVersion?: number; // 导出格式版本，见 engine/StoryImporter.ts；旧导出没有该字段
   id: string;
   title: string;
   description: string;
@@ -271,14 +398,17 @@ export interface StoryAsset {
   items: Item[]; 
   shops: ShopDefinition[]; // New
   clues: Clue[]; 
+  quests?: QuestDefinition[];
+  clockStart?: string; // 故事时钟起始时刻 (HH:MM)，默认 00:00
   activeSegmentId: string;
   attributes: AttributeDefinition[]; 
   globalVariables: GlobalVariable[]; 
+  localization?: StoryLocalization;
 }
 
 // --- Editor UI Types ---
 
-export type TabType = 'canvas' | 'variable' | 'character' | 'item' | 'clue' | 'shop';
+export type TabType = 'canvas' | 'variable' | 'character' | 'item' | 'clue' | 'shop' | 'quest' | 'localization';
 
 export interface EditorTab {
   id: string;